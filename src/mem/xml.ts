@@ -1,15 +1,1383 @@
+import util from "../utility.js";
 import mem from "./mem.js";
+import type json from "../parser/json.js";
+import { Transform, TransformOptions } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
 
+/**
+ * @summary e**X**tensible **M**arkup **L**anguage
+ * @description
+ * An in-memory lexer, parser and serializer for XML 1.0 documents (with namespaces). The {@linkcode Lexer} is fed character data
+ * through it's `process` method (one chunk at a time) and the tokens are parsed by a functional {@link mem.parser.PrattParser pratt parser}
+ * into a tree of {@linkcode Node} expressions that closely mirrors the DOM. A {@linkcode Serializer} turns the tree back into text.
+ */
 namespace xml {
     const Type = mem.token.GType;
+    const Token = mem.token.GToken;
+    type Type = mem.token.GType<string>;
+    type Token = mem.token.GToken<string>;
+    export const EOF = Type("-1", 2);
+    /**The first token sent by the lexer, the command for it parses the whole document */
+    export const INIT = Type("0", 2);
+    /**Character data between markup */
+    export const TEXT = Type("1", 2);
+    /**An entity or character reference such as `&amp;` or `&#x41;`. The value of this token is the text between `&` and `;` */
+    export const ENTITY_REF = Type("2", 2);
+    /**The opening of a start tag. The value of this token is the qualified name of the element */
+    export const START_TAG = Type("3", 2);
+    /**The opening of an end tag. The value of this token is the qualified name of the element */
+    export const END_TAG = Type("4", 2);
+    /**An attribute name */
+    export const NAME = Type("5", 2);
+    /**The `=` between an attribute's name and it's value */
+    export const EQUALS = Type("6", 2);
+    /**An attribute value along with it's quotes */
+    export const VALUE = Type("7", 2);
+    /**The `>` that closes a start or end tag */
+    export const TAG_END = Type("8", 2);
+    /**The `/>` that closes an empty-element tag */
+    export const EMPTY_TAG_END = Type("9", 2);
+    /**The text between `<!--` and `-->` */
+    export const COMMENT = Type("10", 2);
+    /**The text between `<![CDATA[` and `]]>` */
+    export const CDATA = Type("11", 2);
+    /**The text between `<?` and `?>` */
+    export const PI = Type("12", 2);
+    /**The text between `<!DOCTYPE` and the closing `>` */
+    export const DOCTYPE = Type("13", 2);
+    /**The namespace that the `xml` prefix is bound to */
+    export const XML_NS = "http://www.w3.org/XML/1998/namespace";
+    /**The namespace of namespace declarations i.e `xmlns` and `xmlns:*` attributes */
+    export const XMLNS_NS = "http://www.w3.org/2000/xmlns/";
+    const PREDEFINED: Readonly<Record<string, string>> = Object.freeze({ amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" });
+    const NAME_START = /[:A-Z_a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\uD800-\uDFFF]/;
+    const NAME_CHAR = /[-.0-9\u00B7\u0300-\u036F\u203F-\u2040]/;
+    const NAME_PATTERN = /^[:A-Z_a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\uD800-\uDFFF][-.0-9\u00B7\u0300-\u036F\u203F-\u2040:A-Z_a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\uD800-\uDFFF]*$/;
+    const isNameStart = (c: string) => NAME_START.test(c);
+    const isNameChar = (c: string) => NAME_START.test(c) || NAME_CHAR.test(c);
+    const isSpace = (c: string) => c === " " || c === "\t" || c === "\n" || c === "\r";
+    const isChar = (cp: number) => cp === 0x9 || cp === 0xa || cp === 0xd || (cp >= 0x20 && cp <= 0xd7ff) || (cp >= 0xe000 && cp <= 0xfffd) || (cp >= 0x10000 && cp <= 0x10ffff);
+    const error = (line: number, pos: number, msg: string) => mem.parser.SyntaxError(line, pos, mem.parser.ParseError(msg));
+    /**
+     * The convention for mapping xml to json (and back).
+     */
+    export enum Convention {
+        /**
+         * Attributes are properties whose names are prefixed with `@`, text is stored in the `$` property and the namespaces in scope
+         * are stored in the `@xmlns` property (with the default namespace as `$`). Repeated elements become arrays. All values are strings.
+         * @see http://www.sklar.com/badgerfish/
+         */
+        BADGERFISH,
+        /**
+         * The root element, attributes and namespaces are dropped (elements are named by their local names). Elements with no child element become atomic values (numbers, booleans and
+         * `null` are inferred from the text) and an element whose child elements all have the same name becomes an array.
+         */
+        PARKER,
+        /**
+         * The convention used by the Google Data and Abdera APIs. Attributes are properties with the same name, text is stored in the `$t`
+         * property and the `:` of qualified names is replaced by `$`. The document holds the `version` and `encoding` of the xml declaration
+         * alongside the root element.
+         */
+        GDATA
+    };
     export interface Syntax extends mem.parser.GSyntax<mem.token.GType<string>, Command> {
+        /**
+         * Entities that may be referenced in a document in addition to the 5 predefined ones (`amp`, `lt`, `gt`, `quot` and `apos`)
+         * and those declared in the internal subset of the document's DOCTYPE. Each key is the name of the entity and the value is
+         * it's replacement text.
+         * @type {Readonly<Record<string, string>>}
+         * @readonly
+         */
+        readonly entities: Readonly<Record<string, string>>;
+        /**
+         * When `true`, the parser enforces the *Namespaces in XML 1.0* constraints i.e names must be valid qualified names, every prefix
+         * must be declared and no element may have 2 attributes with the same expanded name.
+         * @type {boolean}
+         * @readonly
+         */
+        readonly namespaces: boolean;
+        /**
+         * The convention used by a {@linkcode JSFormat} to map nodes to json values and by a {@linkcode JSONLexer} to map json values
+         * back to xml.
+         * @type {Convention}
+         * @readonly
+         */
+        readonly convention: Convention;
+    };
+    export type SyntaxConstructor = {
+        new(entities?: Readonly<Record<string, string>>, namespaces?: boolean, convention?: Convention): Syntax;
+        (entities?: Readonly<Record<string, string>>, namespaces?: boolean, convention?: Convention): Syntax;
     };
+    /**
+     * Creates a {@linkcode Syntax} that can be used by a {@linkcode Parser} to parse the tokens of a {@linkcode Lexer}.
+     * @param {Readonly<Record<string, string>>} [entities] additional entities. See {@linkcode Syntax.entities}
+     * @param {boolean} [namespaces] see {@linkcode Syntax.namespaces}. The default is `true`.
+     * @param {Convention} [convention] see {@linkcode Syntax.convention}. The default is {@linkcode Convention.BADGERFISH}.
+     */
+    export const Syntax = function (this: Syntax | void, entities: Readonly<Record<string, string>> = {}, namespaces = true, convention = Convention.BADGERFISH) {
+        const commands = new Map<string, (...args: any[]) => Expression>([
+            [INIT.id, parseDocument],
+            [START_TAG.id, parseElement],
+            [TEXT.id, parseText],
+            [ENTITY_REF.id, parseEntityReference],
+            [CDATA.id, parseCData],
+            [COMMENT.id, parseComment],
+            [PI.id, parseProcessingInstruction],
+            [DOCTYPE.id, parseDocumentType],
+        ]);
+        const s = ((direction: mem.parser.Direction, type: Type) => direction === mem.parser.Direction.PREFIX ? commands.get(type.id) as Command | undefined : undefined) as Syntax;
+        (s as any).params = () => ({});
+        (s as any).entities = Object.freeze({ ...entities });
+        (s as any).namespaces = namespaces;
+        (s as any).convention = convention;
+        (s as any).metadata = Object.freeze({
+            encoding: "utf-8",
+            fileExt: "xml",
+            mediaType: "application/xml",
+            isStandard: true,
+            standard: "https://www.w3.org/TR/xml/"
+        } as mem.parser.Metadata);
+        return Object.freeze(s);
+    } as SyntaxConstructor;
     export type Lexer = mem.parser.MutableLexer<mem.token.GToken<string>, Syntax, string>;
+    export type LexerConstructor = {
+        new(): Lexer;
+        (): Lexer;
+    };
+    /**the queries that a mutable lexer provides for it's token buffer */
+    const buffer = (queue: Token[]) => ({
+        hasTokens: () => queue.length > 0,
+        processed: () => Object.freeze([...queue]) as Token[],
+        indexOf: (t: Type) => queue.findIndex(x => x.type!.equals(t)),
+        lastIndexOf: (t: Type) => queue.findLastIndex(x => x.type!.equals(t)),
+        frequency: (t: Type) => queue.filter(x => x.type!.equals(t)).length
+    });
+    /**
+     * Creates a streaming {@linkcode Lexer}. Characters are sent to the lexer's {@link mem.parser.TokenFactory mill} one at a time so a chunk
+     * may end anywhere (even in the middle of a tag), the unfinished token is kept by the mill until the rest of it arrives in the next chunk.
+     * Line endings are normalised to `\n` as required by the spec.
+     * @throws {mem.parser.SyntaxError} if a character that cannot be part of the current markup is found, or if {@linkcode Lexer.end} is
+     * called in the middle of a markup.
+     */
+    export const Lexer = function (this: Lexer | void) {
+        type TokenFactory = mem.parser.TokenFactory;
+        type Tokenizer = mem.parser.Tokenizer;
+        const queue: Token[] = [];
+        let l = 1, p = 1;//the line and position of the next character
+        let at: [number, number] = [1, 1];//the line and position where the token that is being built starts
+        let cr = false;//was the last character a carriage return?
+        let started = false;
+        const manufacture = (value: string, type: Type) => queue.push(Token(value, type, at[0], l, at[1]));
+        const fail = (msg: string) => { throw error(l, p, msg); };
+        const m = { ls: null } as TokenFactory;
+        /**starts building a token with the given tokenizer */
+        const begin = (name: string, x: string) => {
+            at = [l, p];
+            m.ls = name;
+            m[name].value = x;
+        }
+        /**hands the token that is being built over to the given tokenizer */
+        const shift = (name: string, x: string) => {
+            m[m.ls!].value = null;
+            m.ls = name;
+            m[name].value = x;
+        }
+        /**stops building the current token */
+        const reset = () => {
+            m[m.ls!].value = null;
+            m.ls = null;
+        }
+        const ca = () => reset();
+        /**tokenizer for names that are terminated by whatever character that is not a name character */
+        const name = (id: string, type: Type): Tokenizer => ({
+            value: null,
+            ad: (x?: string) => {
+                if (isNameChar(x!)) m[id].value += x;
+                else {
+                    m[id].ge();
+                    m.ls = "in";
+                    m.in.ad(x);
+                }
+            },
+            ca,
+            ge: () => {
+                if (m[id].value.length === 0) fail("A name was expected");
+                manufacture(m[id].value, type);
+                m[id].value = null;
+            }
+        });
+        /**tokenizer for markup that is terminated by the given delimiter */
+        const delimited = (id: string, delimiter: string, type: Type): Tokenizer => ({
+            value: null,
+            ad: (x?: string) => {
+                m[id].value += x;
+                if ((m[id].value as string).endsWith(delimiter)) m[id].ge();
+            },
+            ca,
+            ge: () => {
+                manufacture((m[id].value as string).slice(0, -delimiter.length), type);
+                reset();
+            }
+        });
+        m.tx = {
+            value: null,
+            ad: (x?: string) => {
+                if (x === "<" || x === "&") {
+                    m.tx.ge();
+                    begin(x === "<" ? "mk" : "er", x);
+                } else if (m.tx.value === null) begin("tx", x!);
+                else m.tx.value += x;
+            },
+            ca,
+            ge: () => {
+                if (m.tx.value === null) return;
+                if ((m.tx.value as string).includes("]]>")) fail("']]>' is not allowed in character data");
+                manufacture(m.tx.value, TEXT);
+                reset();
+            }
+        };
+        m.mk = {//markup, just after '<'
+            value: null,
+            ad: (x?: string) => {
+                if (x === "/") shift("et", "");
+                else if (x === "?") shift("pi", "");
+                else if (x === "!") shift("bg", "<!");
+                else if (isNameStart(x!)) shift("st", x!);
+                else fail(`'${x}' is not allowed after '<'`);
+            },
+            ca,
+            ge: () => { }
+        };
+        m.bg = {//bang, just after '<!'
+            value: null,
+            ad: (x?: string) => {
+                const v = m.bg.value + x!;
+                if (v === "<!--") shift("cm", "");
+                else if (v === "<![CDATA[") shift("cd", "");
+                else if (v === "<!DOCTYPE") shift("dt", "");
+                else if ("<!--".startsWith(v) || "<![CDATA[".startsWith(v) || "<!DOCTYPE".startsWith(v)) m.bg.value = v;
+                else fail(`'${v}' is not a valid markup declaration`);
+            },
+            ca,
+            ge: () => { }
+        };
+        m.st = name("st", START_TAG);
+        m.et = name("et", END_TAG);
+        m.an = name("an", NAME);
+        m.in = {//inside a tag, after the name of the tag
+            value: null,
+            ad: (x?: string) => {
+                at = [l, p];
+                if (isSpace(x!)) return;
+                else if (x === ">") {
+                    manufacture(x, TAG_END);
+                    m.ls = null;
+                }
+                else if (x === "=") manufacture(x, EQUALS);
+                else if (x === "/") begin("sl", x);
+                else if (x === "\"" || x === "'") begin("av", x);
+                else if (isNameStart(x!)) begin("an", x!);
+                else fail(`'${x}' is not allowed in a tag`);
+            },
+            ca,
+            ge: () => { }
+        };
+        m.sl = {//the slash of an empty-element tag
+            value: null,
+            ad: (x?: string) => {
+                if (x !== ">") fail("'>' was expected after '/'");
+                manufacture("/>", EMPTY_TAG_END);
+                reset();
+            },
+            ca,
+            ge: () => { }
+        };
+        m.av = {//attribute value
+            value: null,
+            ad: (x?: string) => {
+                if (x === "<") fail("'<' is not allowed in an attribute value");
+                m.av.value += x;
+                if (x === m.av.value[0]) m.av.ge();
+            },
+            ca,
+            ge: () => {
+                manufacture(m.av.value, VALUE);
+                m.av.value = null;
+                m.ls = "in";
+            }
+        };
+        m.er = {//entity reference
+            value: null,
+            ad: (x?: string) => {
+                if (x === ";") m.er.ge();
+                else if (isNameChar(x!) || (x === "#" && m.er.value === "&")) m.er.value += x;
+                else fail("An entity reference must end with ';'");
+            },
+            ca,
+            ge: () => {
+                manufacture((m.er.value as string).substring(1), ENTITY_REF);
+                reset();
+            }
+        };
+        m.cm = delimited("cm", "-->", COMMENT);
+        m.cd = delimited("cd", "]]>", CDATA);
+        m.pi = delimited("pi", "?>", PI);
+        m.dt = {//doctype, ends at the first '>' that is neither quoted nor in the internal subset
+            value: null,
+            q: "",
+            d: 0,
+            ad: (x?: string) => {
+                m.dt.value += x;
+                if (m.dt.q.length > 0) {
+                    if (x === m.dt.q) m.dt.q = "";
+                }
+                else if (x === "\"" || x === "'") m.dt.q = x;
+                else if (x === "[") m.dt.d++;
+                else if (x === "]") m.dt.d--;
+                else if (x === ">" && m.dt.d === 0) m.dt.ge();
+            },
+            ca,
+            ge: () => {
+                manufacture((m.dt.value as string).slice(0, -1), DOCTYPE);
+                m.dt.q = "";
+                m.dt.d = 0;
+                reset();
+            }
+        } as Tokenizer & { q: string, d: number };
+        m.ad = (x) => {
+            if (m.ls !== null) m[m.ls].ad(x);
+            else m.tx.ad(x);
+        };
+        m.ca = () => {
+            if (m.ls !== null) m[m.ls].ca();
+        };
+        const canProcess = () => true;
+        const unprocessed = () => m.ls === null ? "" : (m[m.ls].value ?? "") as string;
+        const position = () => p;
+        const line = () => l;
+        const process = (chunk: string, syntax: Syntax) => {
+            if (!started) {
+                started = true;
+                manufacture("", INIT);
+                if (chunk.startsWith("\uFEFF")) chunk = chunk.substring(1);
+            }
+            for (let i = 0; i < chunk.length; i++) {
+                let x = chunk[i];
+                if (cr) {
+                    cr = false;
+                    if (x === "\n") continue;
+                }
+                if (x === "\r") {
+                    cr = true;
+                    x = "\n";
+                }
+                m.ad(x);
+                if (x === "\n") {
+                    l++;
+                    p = 1;
+                } else p++;
+            }
+        }
+        const end = (syntax: Syntax) => {
+            if (!started) process("", syntax);
+            if (m.ls === "tx") m.tx.ge();
+            else if (m.ls !== null) throw error(at[0], at[1], "The markup that starts here was not closed");
+        }
+        const nx = ((syntax?: Syntax) => {
+            if (queue.length > 0) return queue.shift()!;
+            return Token("", EOF, l, l, p);
+        }) as Lexer;
+        Object.defineProperty(nx, "src", { get: unprocessed });
+        Object.assign(nx, buffer(queue));
+        (nx as any).mill = m;
+        nx.canProcess = canProcess;
+        nx.end = end;
+        nx.unprocessed = unprocessed;
+        nx.position = position;
+        nx.line = line;
+        nx.process = process;
+        return Object.freeze(nx);
+    } as LexerConstructor;
     export type Command = mem.parser.GCommand<mem.token.GToken<string>, Expression, Syntax, Lexer, Parser>;
     export type Parser = mem.parser.PrattParser<Expression, Syntax, string>;
+    export type ParserConstructor = {
+        new(): Parser;
+        (): Parser;
+    };
+    /**
+     * Creates a {@link mem.parser.PrattParser pratt parser} for the tokens of a xml {@linkcode Lexer}. Parsing always returns a {@linkcode Document}.
+     */
+    export const Parser = function (this: Parser | void) {
+        return mem.parser.PrattParser<Expression, Syntax>();
+    } as ParserConstructor;
     export type Expression = mem.expression.GExpression<Serializer>;
+    /**
+     * The kind of a {@linkcode Node}. The values are the same as the ones used by the DOM.
+     */
+    export enum NodeType {
+        ELEMENT = 1,
+        ATTRIBUTE = 2,
+        TEXT = 3,
+        CDATA = 4,
+        ENTITY_REFERENCE = 5,
+        PROCESSING_INSTRUCTION = 7,
+        COMMENT = 8,
+        DOCUMENT = 9,
+        DOCUMENT_TYPE = 10
+    };
+    /**
+     * A node in the tree created by a {@linkcode Parser}. Every node is an {@linkcode Expression}, hence it can be called:
+     * - with a {@linkcode Serializer} to write it's markup into the serializer.
+     * - with an optional {@linkcode Syntax} to get it's value. For elements and documents, this is the text content.
+     * - with a `string` to get that string appended with the markup of this node, for debugging.
+     * - with another expression to get the value of that expression.
+     */
+    export type Node = Expression & {
+        /**
+         * The kind of this node
+         * @type {NodeType}
+         * @readonly
+         */
+        readonly nodeType: NodeType;
+        /**
+         * The element or document that contains this node. For attributes, this is the element that owns the attribute. `null` if this
+         * node has not been added to an element or document.
+         * @type {Element | Document | null}
+         * @readonly
+         */
+        readonly parent: Element | Document | null;
+        /**
+         * The line in the source where this node starts. `undefined` if this node was not created by a parser.
+         * @type {number | undefined}
+         * @readonly
+         */
+        readonly line?: number;
+        /**
+         * The position (within the {@link line}) in the source where this node starts. `undefined` if this node was not created by a parser.
+         * @type {number | undefined}
+         * @readonly
+         */
+        readonly pos?: number;
+    };
+    /**Character data. The value is the text as it is, with no escapes */
+    export type Text = Node & {
+        readonly nodeType: NodeType.TEXT;
+        readonly value: string;
+        (syntax?: Syntax): string;
+    };
+    /**A CDATA section */
+    export type CData = Node & {
+        readonly nodeType: NodeType.CDATA;
+        readonly value: string;
+        (syntax?: Syntax): string;
+    };
+    /**A comment. The value is the text between `<!--` and `-->` */
+    export type Comment = Node & {
+        readonly nodeType: NodeType.COMMENT;
+        readonly value: string;
+        (syntax?: Syntax): string;
+    };
+    /**A processing instruction such as `<?xml-stylesheet href="style.css"?>`. The xml declaration is also parsed as one */
+    export type ProcessingInstruction = Node & {
+        readonly nodeType: NodeType.PROCESSING_INSTRUCTION;
+        readonly target: string;
+        readonly data: string;
+        (syntax?: Syntax): string;
+    };
+    /**
+     * An entity or character reference. When called with a syntax, the replacement text is returned or `undefined` if the entity was
+     * not declared.
+     */
+    export type EntityReference = Node & {
+        readonly nodeType: NodeType.ENTITY_REFERENCE;
+        /**The text between `&` and `;` e.g `amp` or `#x41` */
+        readonly name: string;
+        (syntax?: Syntax): string | undefined;
+    };
+    /**The DOCTYPE of a document. Only general entities declared in the internal subset are read, every other declaration is ignored */
+    export type DocumentType = Node & {
+        readonly nodeType: NodeType.DOCUMENT_TYPE;
+        readonly name: string;
+        readonly publicId: string | null;
+        readonly systemId: string | null;
+        /**The internal subset without the brackets */
+        readonly subset: string | null;
+        /**The entities declared in the internal subset. External entities have a `null` value */
+        readonly entities: ReadonlyMap<string, string | null>;
+        (syntax?: Syntax): string;
+    };
+    /**
+     * An attribute. When called with a syntax, the (normalised) value of the attribute is returned with all references replaced.
+     */
+    export type Attribute = Node & {
+        readonly nodeType: NodeType.ATTRIBUTE;
+        readonly name: string;
+        readonly prefix: string | null;
+        readonly localName: string;
+        readonly namespaceURI: string | null;
+        /**The value as it appears between the quotes */
+        readonly raw: string;
+        /**The quote character */
+        readonly quote: "\"" | "'";
+        (syntax?: Syntax): string;
+    };
+    export type Element = Node & {
+        readonly nodeType: NodeType.ELEMENT;
+        readonly name: string;
+        readonly prefix: string | null;
+        readonly localName: string;
+        /**The namespace of this element, found by walking up the tree. `null` if this element is not in any namespace */
+        readonly namespaceURI: string | null;
+        readonly attributes: readonly Attribute[];
+        readonly children: readonly Node[];
+        /**Will this element be written as `<name/>` if it has no children? */
+        readonly selfClosing: boolean;
+        /**
+         * Gets the namespace that the given prefix is bound to in the scope of this element.
+         * @param {string | null} prefix the prefix. `null` (or the empty string) is the default namespace
+         * @returns {string | null | undefined} the namespace, `null` if the prefix is the default namespace and no default namespace was
+         * declared or `undefined` if the prefix was not declared.
+         */
+        lookup(prefix: string | null): string | null | undefined;
+        /**
+         * Gets an attribute by it's qualified name or, if the second argument is provided, by it's local name and namespace.
+         * @param {string} name the qualified name (or local name if `namespaceURI` is provided)
+         * @param {string | null} [namespaceURI] the namespace of the attribute
+         * @returns {Attribute | undefined} the attribute or `undefined` if none was found
+         */
+        attribute(name: string, namespaceURI?: string | null): Attribute | undefined;
+        (syntax?: Syntax): string;
+    };
+    export type Document = Node & {
+        readonly nodeType: NodeType.DOCUMENT;
+        readonly children: readonly Node[];
+        /**The document element */
+        readonly root: Element | undefined;
+        readonly doctype: DocumentType | undefined;
+        /**@see Element.lookup */
+        lookup(prefix: string | null): string | null | undefined;
+        (syntax?: Syntax): string;
+    };
+    /**marks the formats that nodes write their markup into, every other format is sent the node itself */
+    const writes = Symbol("writes");
+    const isFormat = (x: any): x is mem.expression.Format => typeof x === "function" && typeof x.data === "function";
+    const isExpression = (x: any): x is Expression => typeof x === "function" && typeof x.hashCode32 === "function";
+    const markup = (n: Expression) => {
+        const z = Serializer();
+        z(n);
+        return z.data("");
+    }
+    /**
+     * Creates the callable that all nodes are made of.
+     * @param {NodeType} nodeType the node type
+     * @param {(s?: Syntax) => any} value gets the value of the node
+     * @param {(f: Serializer, s?: Syntax) => void} write writes the markup of the node into the serializer
+     * @param {object} props the other properties of the node, getters included
+     * @returns {N} the node
+     */
+    const node = <N extends Node>(nodeType: NodeType, value: (s?: Syntax) => any, write: (f: Serializer, s?: Syntax) => void, props: object) => {
+        const n = ((x?: any, y?: any) => {
+            if (isFormat(x)) return (x as any)[writes] ? write(x as Serializer, y) : (x as JSFormat)(n, y);
+            if (typeof x === "string") return x + markup(n);
+            if (isExpression(x)) return x(y);
+            return value(x);
+        }) as any as N;
+        Object.defineProperties(n, {
+            nodeType: util.readonlyPropDescriptor(nodeType),
+            parent: { value: null, configurable: true },
+            equals: util.readonlyPropDescriptor((o?: object) => isExpression(o) && (o as Node).nodeType === nodeType && markup(o) === markup(n)),
+            hashCode32: util.readonlyPropDescriptor(() => util.hashCode32(true, util.asHashable(nodeType), util.asHashable(markup(n)))),
+            ...Object.getOwnPropertyDescriptors(props)
+        });
+        return n;
+    }
+    /**sets the parent of the given nodes */
+    const adopt = (parent: Element | Document, nodes: readonly Node[]) => nodes.forEach(x => Object.defineProperty(x, "parent", { value: parent, configurable: true }));
+    /**sets the source location of the given node */
+    const locate = <N extends Node>(n: N, t: Token) => Object.defineProperties(n, {
+        line: util.readonlyPropDescriptor(t.lineStart),
+        pos: util.readonlyPropDescriptor(t.startPos)
+    }) as N;
+    const split = (name: string): [string | null, string] => {
+        const i = name.indexOf(":");
+        return i < 0 ? [null, name] : [name.substring(0, i), name.substring(i + 1)];
+    }
+    const escapeText = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/]]>/g, "]]&gt;");
+    const escapeAttribute = (s: string, quote: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;")
+        .replace(quote === "\"" ? /"/g : /'/g, quote === "\"" ? "&quot;" : "&apos;")
+        .replace(/\t/g, "&#9;").replace(/\n/g, "&#10;").replace(/\r/g, "&#13;");
+    const charRef = (name: string) => {
+        if (/^#x[0-9a-fA-F]+$/.test(name)) return parseInt(name.substring(2), 16);
+        if (/^#[0-9]+$/.test(name)) return parseInt(name.substring(1), 10);
+        return undefined;
+    }
+    /**gets the replacement text of the entity with the given name, searching from the given node up to the document */
+    /**gets the replacement text of the entity with the given name using the given doctype and syntax */
+    const replacement = (name: string, doctype?: DocumentType, s?: Syntax): string | undefined => {
+        const cp = charRef(name);
+        if (cp !== undefined) return isChar(cp) ? String.fromCodePoint(cp) : undefined;
+        if (Object.hasOwn(PREDEFINED, name)) return PREDEFINED[name];
+        const v = doctype?.entities.get(name);
+        if (typeof v === "string") return v;
+        if (util.isValid(s) && Object.hasOwn(s!.entities, name)) return s!.entities[name];
+        return undefined;
+    }
+    /**gets the replacement text of the entity with the given name, searching from the given node up to the document */
+    const resolve = (name: string, n: Node, s?: Syntax): string | undefined => {
+        let d: Node | null = n;
+        while (d !== null && d.nodeType !== NodeType.DOCUMENT) d = d.parent;
+        return replacement(name, (d as Document | null)?.doctype, s);
+    }
+    /**normalises the given attribute value and replaces it's references */
+    const decode = (raw: string, entity: (name: string) => string | undefined) => raw.replace(/[\t\n\r]/g, " ").replace(/&([^;]*);/g, (r, name) => entity(name) ?? r);
+    const textContent = (children: readonly Node[], s?: Syntax): string => children.map(c => {
+        switch (c.nodeType) {
+            case NodeType.TEXT:
+            case NodeType.CDATA:
+            case NodeType.ENTITY_REFERENCE:
+            case NodeType.ELEMENT:
+                return c(s) ?? "";
+            default:
+                return "";
+        }
+    }).join("");
+    /**the namespace that the given prefix is bound to at the document level */
+    const base = (prefix: string | null) => prefix === "xml" ? XML_NS : prefix === "xmlns" ? XMLNS_NS : prefix === null || prefix.length === 0 ? null : undefined;
+    export type TextConstructor = {
+        new(value: string): Text;
+        (value: string): Text;
+    };
+    export const Text = function (this: Text | void, value: string) {
+        return node<Text>(NodeType.TEXT, () => value, f => f(escapeText(value)), { value });
+    } as TextConstructor;
+    export type CDataConstructor = {
+        new(value: string): CData;
+        (value: string): CData;
+    };
+    export const CData = function (this: CData | void, value: string) {
+        return node<CData>(NodeType.CDATA, () => value, f => f(`<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`), { value });
+    } as CDataConstructor;
+    export type CommentConstructor = {
+        new(value: string): Comment;
+        (value: string): Comment;
+    };
+    /**
+     * @throws {mem.expression.ExpressionError} if the value contains `--` or ends with `-`
+     */
+    export const Comment = function (this: Comment | void, value: string) {
+        if (value.includes("--") || value.endsWith("-")) throw mem.expression.ExpressionError(`'--' is not allowed in a comment`);
+        return node<Comment>(NodeType.COMMENT, () => value, f => f(`<!--${value}-->`), { value });
+    } as CommentConstructor;
+    export type ProcessingInstructionConstructor = {
+        new(target: string, data?: string): ProcessingInstruction;
+        (target: string, data?: string): ProcessingInstruction;
+    };
+    /**
+     * @throws {mem.expression.ExpressionError} if the target is not a valid name or the data contains `?>`
+     */
+    export const ProcessingInstruction = function (this: ProcessingInstruction | void, target: string, data = "") {
+        if (!NAME_PATTERN.test(target)) throw mem.expression.ExpressionError(`'${target}' is not a valid target`);
+        if (data.includes("?>")) throw mem.expression.ExpressionError(`'?>' is not allowed in a processing instruction`);
+        return node<ProcessingInstruction>(NodeType.PROCESSING_INSTRUCTION, () => data, f => f(`<?${target}${data.length > 0 ? " " + data : ""}?>`), { target, data });
+    } as ProcessingInstructionConstructor;
+    export type EntityReferenceConstructor = {
+        new(name: string): EntityReference;
+        (name: string): EntityReference;
+    };
+    /**
+     * @throws {mem.expression.ExpressionError} if the name is neither a valid name nor a valid character reference
+     */
+    export const EntityReference = function (this: EntityReference | void, name: string) {
+        if (!NAME_PATTERN.test(name) && charRef(name) === undefined) throw mem.expression.ExpressionError(`'&${name};' is not a valid reference`);
+        const n: EntityReference = node<EntityReference>(NodeType.ENTITY_REFERENCE, s => resolve(name, n, s), f => f(`&${name};`), { name });
+        return n;
+    } as EntityReferenceConstructor;
+    /**creates a doctype, `raw` is the text after `<!DOCTYPE` (if it was parsed) */
+    const doctype = (name: string, publicId: string | null, systemId: string | null, subset: string | null, raw?: string) => {
+        const entities = new Map<string, string | null>();
+        const declaration = /<!ENTITY\s+([^\s%]+)\s+(?:"([^"]*)"|'([^']*)'|(?:SYSTEM|PUBLIC)[^>]*)\s*>/g;
+        for (const d of (subset ?? "").matchAll(declaration)) {
+            if (entities.has(d[1])) continue;//the first declaration is binding
+            const v = d[2] ?? d[3];
+            entities.set(d[1], util.isValid(v) ? v.replace(/&(#x?[0-9a-fA-F]+);/g, (r, c) => util.isValid(charRef(c)) ? String.fromCodePoint(charRef(c)!) : r) : null);
+        }
+        const quote = (s: string) => s.includes("\"") ? `'${s}'` : `"${s}"`;
+        raw ??= ` ${name}${publicId !== null ? ` PUBLIC ${quote(publicId)} ${quote(systemId ?? "")}` : systemId !== null ? ` SYSTEM ${quote(systemId)}` : ""}${subset !== null ? ` [${subset}]` : ""}`;
+        return node<DocumentType>(NodeType.DOCUMENT_TYPE, () => name, f => f(`<!DOCTYPE${raw}>`), { name, publicId, systemId, subset, entities });
+    }
+    export type DocumentTypeConstructor = {
+        new(name: string, publicId?: string | null, systemId?: string | null, subset?: string | null): DocumentType;
+        (name: string, publicId?: string | null, systemId?: string | null, subset?: string | null): DocumentType;
+    };
+    export const DocumentType = function (this: DocumentType | void, name: string, publicId: string | null = null, systemId: string | null = null, subset: string | null = null) {
+        return doctype(name, publicId, systemId, subset);
+    } as DocumentTypeConstructor;
+    /**creates an attribute from the value as it appears between the quotes */
+    const attribute = (name: string, raw: string, quote: "\"" | "'") => {
+        const [prefix, localName] = split(name);
+        const a: Attribute = node<Attribute>(NodeType.ATTRIBUTE, s => decode(raw, x => resolve(x, a, s)), f => f(`${name}=${quote}${raw}${quote}`), {
+            name, prefix, localName, raw, quote,
+            get namespaceURI() {
+                if (name === "xmlns" || prefix === "xmlns") return XMLNS_NS;
+                if (prefix === null) return null;
+                return (a.parent ? a.parent.lookup(prefix) : base(prefix)) ?? null;
+            }
+        });
+        return a;
+    }
+    export type AttributeConstructor = {
+        new(name: string, value: string, quote?: "\"" | "'"): Attribute;
+        (name: string, value: string, quote?: "\"" | "'"): Attribute;
+    };
+    /**
+     * @throws {mem.expression.ExpressionError} if the name is not a valid name
+     */
+    export const Attribute = function (this: Attribute | void, name: string, value: string, quote: "\"" | "'" = "\"") {
+        if (!NAME_PATTERN.test(name)) throw mem.expression.ExpressionError(`'${name}' is not a valid attribute name`);
+        return attribute(name, escapeAttribute(value, quote), quote);
+    } as AttributeConstructor;
+    export type ElementConstructor = {
+        new(name: string, attributes?: readonly Attribute[], children?: readonly Node[], selfClosing?: boolean): Element;
+        (name: string, attributes?: readonly Attribute[], children?: readonly Node[], selfClosing?: boolean): Element;
+    };
+    /**
+     * @throws {mem.expression.ExpressionError} if the name is not a valid name
+     */
+    export const Element = function (this: Element | void, name: string, attributes: readonly Attribute[] = [], children: readonly Node[] = [], selfClosing = children.length === 0) {
+        if (!NAME_PATTERN.test(name)) throw mem.expression.ExpressionError(`'${name}' is not a valid element name`);
+        const [prefix, localName] = split(name);
+        attributes = Object.freeze([...attributes]);
+        children = Object.freeze([...children]);
+        const write = (f: Serializer, s?: Syntax) => {
+            f(`<${name}`);
+            attributes.forEach(a => {
+                f(" ");
+                a(f, s as Syntax);
+            });
+            if (children.length === 0 && selfClosing) return f("/>");
+            f(">");
+            children.forEach(c => c(f, s as Syntax));
+            f(`</${name}>`);
+        }
+        const e: Element = node<Element>(NodeType.ELEMENT, s => textContent(children, s), write, {
+            name, prefix, localName, attributes, children, selfClosing,
+            get namespaceURI() {
+                return e.lookup(prefix) ?? null;
+            },
+            lookup(p: string | null): string | null | undefined {
+                if (p === "xml" || p === "xmlns") return base(p);
+                const declaration = p === null || p.length === 0 ? "xmlns" : `xmlns:${p}`;
+                const a = attributes.find(x => x.name === declaration);
+                if (util.isValid(a)) {
+                    const v = a!();
+                    return v.length > 0 ? v : null;
+                }
+                return e.parent ? e.parent.lookup(p) : base(p);
+            },
+            attribute(n: string, namespaceURI?: string | null) {
+                if (arguments.length > 1) return attributes.find(x => x.localName === n && x.namespaceURI === (namespaceURI ?? null));
+                return attributes.find(x => x.name === n);
+            }
+        });
+        adopt(e, attributes);
+        adopt(e, children);
+        return e;
+    } as ElementConstructor;
+    export type DocumentConstructor = {
+        new(children: readonly Node[]): Document;
+        (children: readonly Node[]): Document;
+    };
+    export const Document = function (this: Document | void, children: readonly Node[]) {
+        children = Object.freeze([...children]);
+        const d = node<Document>(NodeType.DOCUMENT, s => d.root ? d.root(s) : "", (f, s) => children.forEach(c => c(f, s as Syntax)), {
+            children,
+            get root() {
+                return children.find(x => x.nodeType === NodeType.ELEMENT) as Element | undefined;
+            },
+            get doctype() {
+                return children.find(x => x.nodeType === NodeType.DOCUMENT_TYPE) as DocumentType | undefined;
+            },
+            lookup: base
+        });
+        adopt(d, children);
+        return d;
+    } as DocumentConstructor;
+    /**checks the well-formedness constraints that can only be checked when the whole document is available */
+    const check = (n: Node, s: Syntax, external: boolean) => {
+        const undeclared = (name: string, x: Node) => {
+            if (!external && resolve(name, x, s) === undefined) throw error(x.line!, x.pos!, `The entity '${name}' was not declared`);
+        }
+        if (n.nodeType === NodeType.ENTITY_REFERENCE) undeclared((n as EntityReference).name, n);
+        if (n.nodeType !== NodeType.ELEMENT) return;
+        const e = n as Element;
+        e.attributes.forEach(a => {
+            for (const r of a.raw.matchAll(/&([^;]*);/g)) undeclared(r[1], a);
+        });
+        if (s.namespaces) {
+            const qualified = (x: Element | Attribute) => {
+                if (x.localName.length === 0 || x.localName.includes(":") || x.prefix?.length === 0) throw error(x.line!, x.pos!, `'${x.name}' is not a valid qualified name`);
+            }
+            qualified(e);
+            if (e.prefix !== null && e.prefix !== "xmlns" && e.lookup(e.prefix) === undefined) throw error(e.line!, e.pos!, `The prefix '${e.prefix}' was not declared`);
+            if (e.prefix === "xmlns") throw error(e.line!, e.pos!, "The prefix 'xmlns' cannot be used for elements");
+            const names = new Set<string>();
+            e.attributes.forEach(a => {
+                qualified(a);
+                if (a.prefix === "xmlns") {
+                    const v = a(s);
+                    if (v.length === 0) throw error(a.line!, a.pos!, `The prefix '${a.localName}' cannot be undeclared`);
+                    if (a.localName === "xmlns" || v === XMLNS_NS) throw error(a.line!, a.pos!, `The prefix 'xmlns' cannot be declared`);
+                    if ((a.localName === "xml") !== (v === XML_NS)) throw error(a.line!, a.pos!, `The prefix 'xml' can only be bound to ${XML_NS}`);
+                }
+                else if (a.prefix !== null && e.lookup(a.prefix) === undefined) throw error(a.line!, a.pos!, `The prefix '${a.prefix}' was not declared`);
+                const key = a.prefix === null ? a.name : `{${a.namespaceURI}}${a.localName}`;
+                if (names.has(key)) throw error(a.line!, a.pos!, `The attribute '${a.name}' was already specified`);
+                names.add(key);
+            });
+        }
+        e.children.forEach(c => check(c, s, external));
+    }
+    function parseDocument(_: Expression, t: Token, p: Parser, l: Lexer, s: Syntax): Document {
+        const children: Node[] = [];
+        let root = false, dtd = false;
+        while (!p.match(EOF, l, s) && !p.match(INIT, l, s)) {
+            const c = p(l, s) as Node;
+            switch (c.nodeType) {
+                case NodeType.TEXT:
+                    if (![...(c as Text).value].every(isSpace)) throw error(c.line!, c.pos!, "Text is not allowed outside of the root element");
+                    break;
+                case NodeType.CDATA:
+                case NodeType.ENTITY_REFERENCE:
+                    throw error(c.line!, c.pos!, "Only the root element may contain character data");
+                case NodeType.ELEMENT:
+                    if (root) throw error(c.line!, c.pos!, "A document must have only one root element");
+                    root = true;
+                    break;
+                case NodeType.DOCUMENT_TYPE:
+                    if (root || dtd) throw error(c.line!, c.pos!, "The DOCTYPE must come before the root element and must be declared once");
+                    dtd = true;
+                    break;
+                case NodeType.PROCESSING_INSTRUCTION:
+                    if ((c as ProcessingInstruction).target === "xml" && children.length > 0)
+                        throw error(c.line!, c.pos!, "The xml declaration must be at the beginning of the document");
+                    break;
+            }
+            children.push(c);
+        }
+        if (!root) {
+            const eof = p.readAndPeek(0, l, s);
+            throw error(eof.lineStart!, eof.startPos!, "A document must have a root element");
+        }
+        const d = locate(Document(children), t);
+        check(d.root!, s, util.isValid(d.doctype?.systemId));
+        return d;
+    }
+    function parseElement(_: Expression, t: Token, p: Parser, l: Lexer, s: Syntax): Element {
+        const attributes: Attribute[] = [];
+        while (p.match(NAME, l, s)) {
+            const n = p.consume(NAME, l, s);
+            p.consume(EQUALS, l, s);
+            const v = p.consume(VALUE, l, s);
+            if (attributes.some(a => a.name === n.value)) throw error(n.lineStart!, n.startPos!, `The attribute '${n.value}' was already specified`);
+            attributes.push(locate(attribute(n.value, v.value.slice(1, -1), v.value[0] as "\"" | "'"), n));
+        }
+        if (p.match(EMPTY_TAG_END, l, s)) {
+            p.consume(EMPTY_TAG_END, l, s);
+            return locate(Element(t.value, attributes, [], true), t);
+        }
+        p.consume(TAG_END, l, s);
+        const children: Node[] = [];
+        while (!p.match(END_TAG, l, s)) {
+            if (p.match(EOF, l, s)) throw error(t.lineStart!, t.startPos!, `The element '${t.value}' was not closed`);
+            children.push(p(l, s) as Node);
+        }
+        const end = p.consume(END_TAG, l, s);
+        if (end.value !== t.value) throw error(end.lineStart!, end.startPos!, `Expected '</${t.value}>' but found '</${end.value}>'`);
+        p.consume(TAG_END, l, s);
+        return locate(Element(t.value, attributes, children, false), t);
+    }
+    function parseText(_: Expression, t: Token): Text {
+        return locate(Text(t.value), t);
+    }
+    function parseCData(_: Expression, t: Token): CData {
+        return locate(CData(t.value), t);
+    }
+    function parseEntityReference(_: Expression | undefined, t: Token): EntityReference {
+        const cp = charRef(t.value);
+        if ((cp === undefined && !NAME_PATTERN.test(t.value)) || (cp !== undefined && !isChar(cp))) throw error(t.lineStart!, t.startPos!, `'&${t.value};' is not a valid reference`);
+        return locate(EntityReference(t.value), t);
+    }
+    function parseComment(_: Expression | undefined, t: Token): Comment {
+        if (t.value.includes("--") || t.value.endsWith("-")) throw error(t.lineStart!, t.startPos!, "'--' is not allowed in a comment");
+        return locate(Comment(t.value), t);
+    }
+    function parseProcessingInstruction(_: Expression | undefined, t: Token): ProcessingInstruction {
+        const m = /^([^\s]+)(?:\s+([\s\S]*))?$/.exec(t.value);
+        if (m === null || !NAME_PATTERN.test(m[1])) throw error(t.lineStart!, t.startPos!, "A processing instruction must start with a name");
+        if (m[1] !== "xml" && m[1].toLowerCase() === "xml") throw error(t.lineStart!, t.startPos!, `'${m[1]}' is a reserved target`);
+        return locate(ProcessingInstruction(m[1], m[2] ?? ""), t);
+    }
+    function parseDocumentType(_: Expression | undefined, t: Token): DocumentType {
+        const literal = `("[^"]*"|'[^']*')`;
+        const m = new RegExp(`^\\s+([^\\s\\[>]+)(?:\\s+(?:SYSTEM\\s+${literal}|PUBLIC\\s+${literal}\\s+${literal}))?\\s*(?:\\[([\\s\\S]*)\\])?\\s*$`).exec(t.value);
+        if (m === null || !NAME_PATTERN.test(m[1])) throw error(t.lineStart!, t.startPos!, "Invalid DOCTYPE");
+        const unquote = (s?: string) => util.isValid(s) ? s!.slice(1, -1) : null;
+        return locate(doctype(m[1], unquote(m[3]), unquote(m[2] ?? m[4]), m[5] ?? null, t.value), t);
+    }
     export interface Serializer extends mem.expression.GFormat<Expression, string> {
         (data?: Expression | string): void;
     }
+    export type SerializerConstructor = {
+        new(): Serializer;
+        (): Serializer;
+    };
+    /**
+     * Creates a {@linkcode Serializer} that writes nodes as xml text. Strings sent to the serializer are appended as they are (they are
+     * expected to be markup) and expressions are asked to write themselves into the serializer. Call `data` to get the text.
+     */
+    export const Serializer = function (this: Serializer | void) {
+        let text = "";
+        const sz = ((data?: Expression | string) => {
+            if (typeof data === "string") text += data;
+            else if (isExpression(data)) data(sz, undefined as any as Syntax);
+            else if (util.isValid(data)) text += escapeText(String(data));
+        }) as Serializer;
+        sz.data = (prev?: string) => (prev ?? "") + text;
+        (sz as any)[writes] = true;
+        return sz;
+    } as SerializerConstructor;
+    const isAtom = (v: json.Value): v is json.Atom => v === null || typeof v !== "object";
+    const atom = (v: json.Value) => isAtom(v) ? (v === null ? "" : String(v)) : JSON.stringify(v);
+    /**the names of the properties that hold the xml declaration in the gdata convention */
+    const DECLARATION = Object.freeze(["version", "encoding", "standalone"]);
+    const elements = (e: Element) => e.children.filter(c => c.nodeType === NodeType.ELEMENT) as Element[];
+    /**the text of the children of the given element that are not elements */
+    const ownText = (e: Element, s: Syntax) => textContent(e.children.filter(c => c.nodeType !== NodeType.ELEMENT), s);
+    /**groups the elements by the given key, in the order of their first occurrence */
+    const group = (es: Element[], key: (e: Element) => string) => {
+        const g = new Map<string, Element[]>();
+        es.forEach(e => g.has(key(e)) ? g.get(key(e))!.push(e) : g.set(key(e), [e]));
+        return g;
+    }
+    /**maps each group of elements to a value, an array if the group has more than one element */
+    const pairs = (g: Map<string, Element[]>, map: (e: Element) => json.Value) => {
+        const o: json.Pair = {};
+        g.forEach((es, k) => o[k] = es.length > 1 ? es.map(map) : map(es[0]));
+        return o;
+    }
+    /**the namespaces in scope of the given element, the default namespace has the key `$` */
+    const scope = (e: Element, s: Syntax) => {
+        const ns = new Map<string, string>();
+        for (let x: Element | Document | null = e; x !== null && x.nodeType === NodeType.ELEMENT; x = x.parent)
+            (x as Element).attributes.forEach(a => {
+                const prefix = a.name === "xmlns" ? "$" : a.prefix === "xmlns" ? a.localName : null;
+                if (prefix !== null && !ns.has(prefix)) ns.set(prefix, a(s));
+            });
+        return ns;
+    }
+    const badgerfish = (e: Element, s: Syntax): json.Value => {
+        const o: json.Pair = {};
+        const ns = [...scope(e, s)].filter(([, v]) => v.length > 0);
+        if (ns.length > 0) o["@xmlns"] = Object.fromEntries(ns);
+        e.attributes.filter(a => a.name !== "xmlns" && a.prefix !== "xmlns").forEach(a => o["@" + a.name] = a(s));
+        const children = elements(e);
+        const text = ownText(e, s);
+        if (children.length === 0 ? text.length > 0 : text.trim().length > 0) o.$ = text;
+        return Object.assign(o, pairs(group(children, x => x.name), x => badgerfish(x, s)));
+    }
+    const parker = (e: Element, s: Syntax): json.Value => {
+        const children = elements(e);
+        if (children.length === 0) {
+            const text = ownText(e, s);
+            const t = text.trim();
+            if (t.length === 0) return null;
+            if (t === "true" || t === "false") return t === "true";
+            if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(t)) return Number(t);
+            return text;
+        }
+        const g = group(children, x => x.localName);
+        if (g.size === 1 && children.length > 1) return children.map(x => parker(x, s));
+        return pairs(g, x => parker(x, s));
+    }
+    const gdata = (e: Element, s: Syntax): json.Value => {
+        const o: json.Pair = {};
+        e.attributes.forEach(a => o[a.name.replace(":", "$")] = a(s));
+        const children = elements(e);
+        const text = ownText(e, s);
+        if (children.length === 0 ? text.length > 0 : text.trim().length > 0) o.$t = text;
+        return Object.assign(o, pairs(group(children, x => x.name.replace(":", "$")), x => gdata(x, s)));
+    }
+    /**maps the given node to a json value using the convention of the syntax */
+    const toJS = (n: Node, s: Syntax): json.Value => {
+        const map = s.convention === Convention.PARKER ? parker : s.convention === Convention.GDATA ? gdata : badgerfish;
+        const key = (e: Element) => s.convention === Convention.GDATA ? e.name.replace(":", "$") : e.name;
+        switch (n.nodeType) {
+            case NodeType.DOCUMENT: {
+                const root = (n as Document).root;
+                if (!util.isValid(root)) return null;
+                if (s.convention === Convention.PARKER) return parker(root!, s);
+                const o: json.Pair = {};
+                const declaration = (n as Document).children.find(x => x.nodeType === NodeType.PROCESSING_INSTRUCTION && (x as ProcessingInstruction).target === "xml");
+                if (s.convention === Convention.GDATA && util.isValid(declaration))
+                    for (const m of (declaration as ProcessingInstruction).data.matchAll(/(\w+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g))
+                        if (DECLARATION.includes(m[1])) o[m[1]] = m[2] ?? m[3];
+                o[key(root!)] = map(root!, s);
+                return o;
+            }
+            case NodeType.ELEMENT:
+                if (s.convention === Convention.PARKER) return parker(n as Element, s);
+                return { [key(n as Element)]: map(n as Element, s) };
+            default:
+                return n(s) ?? null;
+        }
+    }
+    export interface JSFormat extends mem.expression.GFormat<Expression, json.Value> {
+        (data?: Expression, syntax?: Syntax): void;
+        data(prev?: json.Value): json.Value;
+    }
+    export type JSFormatConstructor = {
+        new(): JSFormat;
+        (): JSFormat;
+    };
+    /**
+     * Creates a format that maps nodes to json values using the {@linkcode Syntax.convention convention} of the syntax given along with the
+     * node (or {@linkcode STANDARD} if none was given). `data` returns the value of the only node that was sent to the format or an array of
+     * values if more than one node was sent.
+     * @throws {mem.expression.FormatError} if anything other than a node is sent to the format
+     */
+    export const JSFormat = function (this: JSFormat | void) {
+        const values: json.Value[] = [];
+        const f = ((data?: Expression, syntax?: Syntax) => {
+            if (!isExpression(data)) throw mem.expression.FormatError("format not supported", data);
+            values.push(toJS(data as Node, syntax ?? STANDARD));
+        }) as JSFormat;
+        f.data = () => values.length === 1 ? values[0] : values;
+        return f;
+    } as JSFormatConstructor;
+    export type JSONLexer = mem.parser.MutableLexer<mem.token.GToken<string>, Syntax, json.Value>;
+    export type JSONLexerConstructor = {
+        new(root?: string, item?: string): JSONLexer;
+        (root?: string, item?: string): JSONLexer;
+    };
+    /**
+     * Creates a lexer that sends the tokens of the xml that a json value maps to (under the {@linkcode Syntax.convention convention} of the
+     * syntax) to a {@linkcode Parser}. Each value that is processed becomes a separate document, so the parser should be called once for
+     * every value.
+     * @param {string} [root] the name of the root element of values that do not map to a single element, such as arrays, atoms and
+     * objects with more than one property. The parker convention drops the root element, so it always uses this name.
+     * @param {string} [item] the name of the elements created for the items of arrays that are not the value of a property e.g an array at
+     * the top level.
+     */
+    export const JSONLexer = function (this: JSONLexer | void, root = "root", item = "item") {
+        type Content = [attributes: [string, string][], text: string, children: [string, json.Value][]];
+        const queue: Token[] = [];
+        let i = 0;
+        const manufacture = (value: string, type: Type) => queue.push(Token(value, type, 0, 0, i++));
+        const text = (value: string) => value.split(/([&<])/).forEach(x => {
+            if (x === "&") manufacture("amp", ENTITY_REF);
+            else if (x === "<") manufacture("lt", ENTITY_REF);
+            else if (x.length > 0) manufacture(x, TEXT);
+        });
+        /**manufactures the tokens of an element, the children are manufactured by the given function */
+        const element = (name: string, [attributes, content, children]: Content, child: (name: string, value: json.Value) => void) => {
+            manufacture(name, START_TAG);
+            attributes.forEach(([n, v]) => {
+                manufacture(n, NAME);
+                manufacture("=", EQUALS);
+                manufacture(`"${escapeAttribute(v, "\"")}"`, VALUE);
+            });
+            if (content.length === 0 && children.length === 0) return manufacture("/>", EMPTY_TAG_END);
+            manufacture(">", TAG_END);
+            text(content);
+            children.forEach(([k, v]) => Array.isArray(v) ? v.forEach(x => child(k, x)) : child(k, v));
+            manufacture(name, END_TAG);
+            manufacture(">", TAG_END);
+        }
+        /**the content of values that are not objects */
+        const other = (v: json.Value): Content => isAtom(v) ? [[], atom(v), []] : [[], "", [[item, v]]];
+        const badgerfish = (name: string, v: json.Value, scope: ReadonlyMap<string, string>): void => {
+            if (isAtom(v) || Array.isArray(v)) return void element(name, other(v), (k, x) => badgerfish(k, x, scope));
+            const c: Content = [[], "", []];
+            const ns = new Map(scope);
+            for (const [k, x] of Object.entries(v)) {
+                if (k === "@xmlns" && !isAtom(x) && !Array.isArray(x)) for (const [p, uri] of Object.entries(x)) {
+                    const prefix = p === "$" ? "" : p;
+                    if (ns.get(prefix) === atom(uri)) continue;
+                    c[0].push([prefix.length > 0 ? `xmlns:${prefix}` : "xmlns", atom(uri)]);
+                    ns.set(prefix, atom(uri));
+                }
+                else if (k.startsWith("@")) c[0].push([k.substring(1), atom(x)]);
+                else if (k === "$") c[1] = atom(x);
+                else c[2].push([k, x]);
+            }
+            element(name, c, (k, x) => badgerfish(k, x, ns));
+        }
+        const parker = (name: string, v: json.Value): void => {
+            if (isAtom(v) || Array.isArray(v)) return void element(name, other(v), parker);
+            element(name, [[], "", Object.entries(v)], parker);
+        }
+        const gdata = (name: string, v: json.Value): void => {
+            if (isAtom(v) || Array.isArray(v)) return void element(name, other(v), gdata);
+            const c: Content = [[], "", []];
+            for (const [k, x] of Object.entries(v)) {
+                if (k === "$t") c[1] = atom(x);
+                else if (isAtom(x)) c[0].push([k.replace("$", ":"), atom(x)]);
+                else c[2].push([k.replace("$", ":"), x]);
+            }
+            element(name, c, gdata);
+        }
+        const process = (value: json.Value, syntax: Syntax) => {
+            manufacture("", INIT);
+            let entries = isAtom(value) || Array.isArray(value) ? [] : Object.entries(value);
+            if (syntax.convention === Convention.GDATA) {
+                const declaration = entries.filter(([k, x]) => DECLARATION.includes(k) && isAtom(x));
+                if (declaration.length > 0) manufacture(`xml ${declaration.map(([k, x]) => `${k}="${atom(x)}"`).join(" ")}`, PI);
+                entries = entries.filter(x => !declaration.includes(x));
+            }
+            const single = entries.length === 1 && !/^[@$]/.test(entries[0][0]);
+            switch (syntax.convention) {
+                case Convention.PARKER:
+                    return parker(root, value);
+                case Convention.GDATA:
+                    return single ? gdata(entries[0][0].replace("$", ":"), entries[0][1]) : gdata(root, isAtom(value) || Array.isArray(value) ? value : Object.fromEntries(entries));
+                default:
+                    return single ? badgerfish(entries[0][0], entries[0][1], new Map()) : badgerfish(root, value, new Map());
+            }
+        }
+        const nx = ((syntax?: Syntax) => {
+            if (queue.length > 0) return queue.shift()!;
+            return Token("", EOF, 0, 0, i);
+        }) as JSONLexer;
+        Object.assign(nx, buffer(queue));
+        (nx as any).mill = { ls: null, ad: () => { }, ca: () => { } };
+        nx.canProcess = () => true;
+        nx.end = () => { };
+        nx.unprocessed = () => undefined;
+        nx.position = () => i;
+        nx.line = () => 0;
+        nx.process = process;
+        return Object.freeze(nx);
+    } as JSONLexerConstructor;
+    /**The name of an element or attribute in an {@linkcode Event} */
+    export type EventName = {
+        readonly name: string;
+        readonly prefix: string | null;
+        readonly localName: string;
+        readonly namespaceURI: string | null;
+    };
+    /**
+     * An object pushed by a {@linkcode Converter} in event mode. An empty-element tag is sent as a `startElement` followed by an `endElement`,
+     * entity references are sent as `text` with their replacement text and a CDATA section is sent as `text` with `cdata` set to `true`.
+     * Whitespace outside of the root element is not sent.
+     */
+    export type Event = {
+        readonly line: number;
+        readonly pos: number;
+    } & (
+        | EventName & { readonly type: "startElement"; readonly attributes: readonly (EventName & { readonly value: string })[] }
+        | EventName & { readonly type: "endElement" }
+        | { readonly type: "text"; readonly value: string; readonly cdata: boolean }
+        | { readonly type: "comment"; readonly value: string }
+        | { readonly type: "processingInstruction"; readonly target: string; readonly data: string }
+    );
+    export type ConverterOptions = TransformOptions & {
+        /**
+         * When `true`, {@linkcode Event} objects are pushed as soon as the lexer has read enough of the input, instead of expressions. The
+         * default is `false`.
+         * @type {boolean}
+         * @readonly
+         */
+        readonly events?: boolean;
+        /**
+         * Qualified names separated by `/` such as `/catalog/item`, where `*` matches any name. A path that starts with `/` is matched from
+         * the root element, any other path is matched against the innermost elements. When provided, each element that matches the path is
+         * pushed as an {@linkcode Element} as soon as it's end tag is read (or, in event mode, only the events of matching elements are
+         * pushed). The parent of a pushed element is a copy of it's parent in the source with no other children, and so on up to a
+         * {@linkcode Document}, so that namespaces and entities can still be resolved.
+         * @type {string}
+         * @readonly
+         */
+        readonly path?: string;
+    };
+    export type ConverterConstructor = {
+        new(syntax?: Syntax, options?: ConverterOptions): Transform;
+        (syntax?: Syntax, options?: ConverterOptions): Transform;
+    };
+    /**
+     * Creates a stream that reads xml text (strings or buffers in the encoding of the syntax) and pushes objects. By default the whole
+     * {@linkcode Document} is pushed when the input ends, see {@linkcode ConverterOptions} for pushing events and subtrees while the input
+     * is still being read, which does not hold the whole tree in memory.
+     * @param {Syntax} [syntax] the syntax to use, the default is {@linkcode STANDARD}
+     * @param {ConverterOptions} [options] the options of the stream
+     */
+    export const Converter = function (this: Transform | void, syntax: Syntax = STANDARD, options: ConverterOptions = {}) {
+        type Open = { readonly token: Token, readonly attributes: readonly [Token, Token][], readonly ns: ReadonlyMap<string, string | null> };
+        const { events = false, path, ...rest } = options;
+        const streaming = events || util.isValid(path);
+        const segments = path?.split("/").filter(x => x.length > 0);
+        const absolute = path?.startsWith("/") ?? false;
+        const lexer = Lexer();
+        const decoder = new StringDecoder(syntax.metadata!.encoding as BufferEncoding);
+        const stack: Open[] = [];//the elements that are open
+        let tag: Token[] = [];//the tokens of the tag that is being read
+        let subtree: Token[] | null = null;//the tokens of the matching element that is being read
+        let match = -1;//the depth of the matching element that is being read
+        let dtd: DocumentType | undefined;
+        let root = false, prolog = false;
+        const matches = () => {
+            if (!util.isValid(segments)) return false;
+            if (absolute ? stack.length !== segments!.length : stack.length < segments!.length) return false;
+            const names = stack.slice(stack.length - segments!.length);
+            return segments!.every((x, i) => x === "*" || x === names[i].token.value);
+        }
+        const inside = () => !util.isValid(segments) || match >= 0;
+        const lookup = (prefix: string | null) => {
+            for (let i = stack.length - 1; i >= 0; i--)
+                if (stack[i].ns.has(prefix ?? "")) return stack[i].ns.get(prefix ?? "");
+            return base(prefix);
+        }
+        const entity = (name: string, t: Token) => {
+            const v = replacement(name, dtd, syntax);
+            if (v === undefined && !util.isValid(dtd?.systemId)) throw error(t.lineStart!, t.startPos!, `The entity '${name}' was not declared`);
+            return v;
+        }
+        const qualify = (t: Token, attribute: boolean): EventName => {
+            const [prefix, localName] = split(t.value);
+            if (!syntax.namespaces) return { name: t.value, prefix, localName, namespaceURI: null };
+            if (localName.length === 0 || localName.includes(":") || prefix?.length === 0) throw error(t.lineStart!, t.startPos!, `'${t.value}' is not a valid qualified name`);
+            const uri = !attribute ? lookup(prefix) : t.value === "xmlns" || prefix === "xmlns" ? XMLNS_NS : prefix === null ? null : lookup(prefix);
+            if (uri === undefined) throw error(t.lineStart!, t.startPos!, `The prefix '${prefix}' was not declared`);
+            return { name: t.value, prefix, localName, namespaceURI: uri };
+        }
+        /**builds the matching element that was read along with copies of it's ancestors */
+        const element = (tokens: Token[]) => {
+            const l = ((s?: Syntax) => tokens.length > 0 ? tokens.shift()! : Token("", EOF, 0, 0, 0)) as Lexer;
+            const e = Parser()(l, syntax) as Element;
+            let child: Node = e;
+            for (let i = stack.length - 1; i >= 0; i--) {
+                const attributes = stack[i].attributes.map(([a, v]) => locate(attribute(a.value, v.value.slice(1, -1), v.value[0] as "\"" | "'"), a));
+                child = locate(Element(stack[i].token.value, attributes, [child], false), stack[i].token);
+            }
+            Document(util.isValid(dtd) ? [dtd!, child] : [child]);
+            check(e, syntax, util.isValid(dtd?.systemId));
+            return e;
+        }
+        const close = (t: Transform, n: Token) => {
+            if (events && inside()) t.push({ type: "endElement", ...qualify(n, false), line: n.lineStart!, pos: n.startPos! } as Event);
+            stack.pop();
+            if (stack.length !== match) return;
+            match = -1;
+            if (subtree !== null) t.push(element(subtree));
+            subtree = null;
+        }
+        const start = (t: Transform, [n, ...rest]: Token[]) => {
+            const end = rest.pop()!;
+            if (stack.length === 0) {
+                if (root) throw error(n.lineStart!, n.startPos!, "A document must have only one root element");
+                root = true;
+            }
+            const attributes: [Token, Token][] = [];
+            for (let i = 0; i < rest.length; i += 3) {
+                const [a, eq, v] = [rest[i], rest[i + 1], rest[i + 2]];
+                if (!a.type!.equals(NAME) || !eq?.type!.equals(EQUALS) || !v?.type!.equals(VALUE)) throw error(a.lineStart!, a.startPos!, "An attribute must have a name followed by '=' and a quoted value");
+                if (attributes.some(([x]) => x.value === a.value)) throw error(a.lineStart!, a.startPos!, `The attribute '${a.value}' was already specified`);
+                attributes.push([a, v]);
+            }
+            const ns = new Map<string, string | null>();
+            attributes.filter(([a]) => a.value === "xmlns" || a.value.startsWith("xmlns:")).forEach(([a, v]) => {
+                const uri = decode(v.value.slice(1, -1), x => entity(x, v));
+                ns.set(a.value === "xmlns" ? "" : a.value.substring(6), uri.length > 0 ? uri : null);
+            });
+            stack.push({ token: n, attributes, ns });
+            const e = {
+                type: "startElement",
+                ...qualify(n, false),
+                attributes: attributes.map(([a, v]) => ({ ...qualify(a, true), value: decode(v.value.slice(1, -1), x => entity(x, v)) })),
+                line: n.lineStart!,
+                pos: n.startPos!
+            } as Event;
+            if (match < 0 && matches()) {
+                match = stack.length - 1;
+                if (!events) subtree = [n, ...rest, end];
+            }
+            if (events && inside()) t.push(e);
+            if (end.type!.equals(EMPTY_TAG_END)) close(t, n);
+        }
+        const end = (t: Transform, [n, ...rest]: Token[]) => {
+            if (rest.length !== 1) throw error(rest[0].lineStart!, rest[0].startPos!, "'>' was expected");
+            if (stack.length === 0) throw error(n.lineStart!, n.startPos!, `'</${n.value}>' has no start tag`);
+            const open = stack[stack.length - 1].token.value;
+            if (open !== n.value) throw error(n.lineStart!, n.startPos!, `Expected '</${open}>' but found '</${n.value}>'`);
+            close(t, n);
+        }
+        /**reads the tokens of the lexer and pushes what is complete */
+        const read = (t: Transform) => {
+            while (lexer.hasTokens()) {
+                const x = lexer();
+                if (x.type!.equals(INIT)) continue;
+                if (subtree !== null) subtree.push(x);
+                if (tag.length > 0 || x.type!.equals(START_TAG) || x.type!.equals(END_TAG)) {
+                    tag.push(x);
+                    if (!x.type!.equals(TAG_END) && !x.type!.equals(EMPTY_TAG_END)) continue;
+                    const ts = tag;
+                    tag = [];
+                    if (ts[0].type!.equals(START_TAG)) start(t, ts);
+                    else end(t, ts);
+                }
+                else if (x.type!.equals(TEXT) || x.type!.equals(ENTITY_REF) || x.type!.equals(CDATA)) {
+                    if (stack.length === 0 && (!x.type!.equals(TEXT) || ![...x.value].every(isSpace)))
+                        throw error(x.lineStart!, x.startPos!, "Text is not allowed outside of the root element");
+                    if (x.type!.equals(ENTITY_REF)) parseEntityReference(undefined, x);
+                    const value = x.type!.equals(ENTITY_REF) ? entity(x.value, x) ?? `&${x.value};` : x.value;
+                    if (events && stack.length > 0 && inside()) t.push({ type: "text", value, cdata: x.type!.equals(CDATA), line: x.lineStart!, pos: x.startPos! } as Event);
+                }
+                else if (x.type!.equals(COMMENT)) {
+                    const c = parseComment(undefined, x);
+                    if (events && inside()) t.push({ type: "comment", value: c.value, line: x.lineStart!, pos: x.startPos! } as Event);
+                }
+                else if (x.type!.equals(PI)) {
+                    const pi = parseProcessingInstruction(undefined, x);
+                    if (pi.target === "xml" && prolog) throw error(x.lineStart!, x.startPos!, "The xml declaration must be at the beginning of the document");
+                    if (events && inside()) t.push({ type: "processingInstruction", target: pi.target, data: pi.data, line: x.lineStart!, pos: x.startPos! } as Event);
+                }
+                else if (x.type!.equals(DOCTYPE)) {
+                    if (root || util.isValid(dtd)) throw error(x.lineStart!, x.startPos!, "The DOCTYPE must come before the root element and must be declared once");
+                    dtd = parseDocumentType(undefined, x);
+                }
+                prolog = true;
+            }
+        }
+        return new Transform({
+            ...rest,
+            readableObjectMode: true,
+            transform(chunk, encoding, callback) {
+                try {
+                    lexer.process(typeof chunk === "string" ? chunk : decoder.write(chunk), syntax);
+                    if (streaming) read(this);
+                } catch (e) {
+                    return callback(e as Error);
+                }
+                callback();
+            },
+            flush(callback) {
+                try {
+                    lexer.process(decoder.end(), syntax);
+                    lexer.end(syntax);
+                    if (!streaming) return callback(null, Parser()(lexer, syntax));
+                    read(this);
+                    if (stack.length > 0) {
+                        const open = stack[stack.length - 1].token;
+                        throw error(open.lineStart!, open.startPos!, `The element '${open.value}' was not closed`);
+                    }
+                    if (!root) throw error(lexer.line(), lexer.position(), "A document must have a root element");
+                } catch (e) {
+                    return callback(e as Error);
+                }
+                callback();
+            }
+        });
+    } as ConverterConstructor;
+    /**The XML 1.0 syntax with namespaces */
+    export const STANDARD = Syntax();
 }
-export default xml;
\ No newline at end of file
+export default xml;
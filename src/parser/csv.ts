@@ -337,6 +337,8 @@ namespace csv {
     };
     /**determines json data type of a cell. default returns the argument */
     #p = (s: string) => s.length > 0 ? s as json.Value : null;
+    /**`true` if numeric cells are converted to numbers without losing precision before they reach the parse function */
+    #lossless = false;
     //May be added in later versions
     // public addValidType(type: parser.GType<string>): SyntaxBuilder {
     //     this.#validTypes.push(type);
@@ -445,6 +447,18 @@ namespace csv {
       this.#p = parse ?? this.#p;
       return this;
     }
+    /**
+     * Sets the {@link Syntax} to convert cells that are canonical json numbers to a `number`, `bigint` or `Decimal` (whichever holds the value
+     * exactly) instead of passing them to the {@link setParse parse function}. This keeps 64-bit ids and high-precision amounts intact when
+     * a csv document is converted to json. Cells such as `007` or `1.` are not converted.
+     * @param {boolean} b `true` to enable the lossless numeric mode, `false` otherwise
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see {@link json.lossless}
+     */
+    public supportLosslessNumbers(b: boolean): SyntaxBuilder {
+      this.#lossless = b;
+      return this;
+    }
     /**
      * Sets the {@link Syntax} to enable parsing of hex and binary literals as numbers
      * @param {boolean} b `true` to allow parsing of binary and hex literals as numbers such as `0b100111`, `0xabba1c` otherwise set to `false`
@@ -711,7 +725,7 @@ namespace csv {
         nap: this.#nap,
         isWhitespace: this.#isWs,
         getCommand: this.#getCmd,
-        parse: this.#p,
+        parse: this.#lossless ? json.lossless(this.#p) : this.#p,
       });
     }
     /**
@@ -770,6 +784,7 @@ namespace csv {
       this.#nop = ".";
       this.#nap = "#";
       this.#p = (s: string) => s.length > 0 ? s as json.Value : null;
+      this.#lossless = false;
       this.#getCmd = (d: parser.Direction, type: parser.GType<string>): Command | undefined => {
         switch (d) {
           case parser.Direction.PREFIX:
@@ -1224,7 +1239,7 @@ namespace csv {
             this.#extractHeaders({
               chunk:
                 typeof chunk[i] !== "string"
-                  ? JSON.stringify(chunk[i])
+                  ? json.stringify(chunk[i])
                   : chunk[i],
               s,
               doc,
@@ -1251,7 +1266,7 @@ namespace csv {
             this.#extractHeaders({
               chunk:
                 typeof chunk[key] !== "string"
-                  ? JSON.stringify(chunk[key])
+                  ? json.stringify(chunk[key])
                   : chunk[key],
               s,
               doc,
@@ -1293,7 +1308,7 @@ namespace csv {
       } else if (Array.isArray(tree)) {
         if (tree.length === 0) {
           if (json.isAtomic(value)) return this.process(value ?? null, s, p);
-          else return this.process(JSON.stringify(value ?? null), s, p);
+          else return this.process(json.stringify(value ?? null), s, p);
         }
         let child: string | number = fixFieldName(tree.shift()!, s);
         // if (/^\d\d*\d$/.test(child)) child = Number.parseInt(child);
@@ -1328,6 +1343,7 @@ namespace csv {
         switch (typeof chunk) {
           case "boolean":
           case "number":
+          case "bigint":
           case "string": {
             this.#manufacture(
               new Token(
@@ -1342,6 +1358,8 @@ namespace csv {
           }
           case "object": {
             if (Array.isArray(chunk)) break;
+            //a Decimal
+            else if (json.isAtomic(chunk)) return this.process(chunk.toString(), syntax, p);
             if (!p.header) {
               this.#extractHeaders({
                 chunk,
@@ -0,0 +1,1592 @@
+import { createReadStream, createWriteStream, ReadStream, WriteStream } from "fs";
+import { StringDecoder } from "node:string_decoder";
+import { TransformCallback } from "node:stream";
+import utility from "../utility.js";
+import expression from "./expression.js";
+import json from "./json.js";
+import parser from "./parser.js";
+/**
+ * @summary Defines the constituents of the `.env` pipeline.
+ * @description
+ * The `.env` pipeline constitutes tokenisers (lexers) for tokenising text and json data; a parser which translates the tokens into
+ * expressions; formatters which can create file, in-memory and simple string formats; a converter which binds several of the
+ * aforementioned components so that the data contained within can be tranferred to other data languages seamlessly.\
+ * \
+ * `.env` files do not have a standard. Documents are parsed with the rules of the `dotenv` package, which `docker compose` and the
+ * shells that `source` them share except where it is noted:
+ * - A line whose first non-whitespace character is `#` is a comment and a line that only has whitespace is blank. Whitespace is the
+ * space and `\t` and a line may end with `\n`, `\r\n` or `\r`. The formats write the first line terminator found in the data,
+ * unless the syntax {@link Syntax.eol sets one}.
+ * - A variable is defined by a `KEY=value` line, which may be written as `export KEY=value` so that a shell can `source` the file.
+ * The key has letters, digits, `_`, `.` and `-` and does not start with a digit. The whitespace around the `=` is skipped. Any other
+ * line is skipped and is kept with the comments.
+ * - An unquoted value is the rest of the line without the whitespace at its end. A `#` in it starts a comment, so `KEY=a#b` is
+ * `a` and `KEY=#fff` is empty. `docker compose` and shells only start a comment with a `#` after whitespace, so quote such values.
+ * - A value that starts with `'` or `"` ends at the next `'` or `"` that is not after a `\`. `\n` and `\r` in a double-quoted value
+ * are a line feed and a carriage return, and every other `\` is kept, so `"say \"hi\""` is `say \"hi\"` and `'a\'b'` is `a\'b`. A
+ * quoted value may span lines, whose line terminators are read as `\n`. Only whitespace and a comment can be after it.
+ * - A key that is defined more than once has its last value.
+ * - If the syntax {@link Syntax.expand expands} values, `$NAME`, `${NAME}`, `${NAME:-default}` and `${NAME-default}` in unquoted
+ * and double-quoted values are replaced by the value of `NAME` (see {@linkcode JSFormat}), and `\$` in them is a `$` that is not
+ * expanded, as `dotenv-expand` reads it.
+ * @example ### An example of a `.env` file:
+ * ```sh
+ * # a comment
+ * export NODE_ENV=production
+ * PORT = 8080 # an inline comment
+ * HOST='0.0.0.0'
+ * GREETING="Hello,\nWorld"
+ * URL=http://${HOST}:${PORT:-80}/
+ * CERT="-----BEGIN CERTIFICATE-----
+ * MIIB...
+ * -----END CERTIFICATE-----"
+ * ```
+ */
+namespace dotenv {
+  /**
+   * A source of the variables that an expanded value refers to and the `.env` file does not define, such as `process.env`.
+   * @param {string} name the name of the variable
+   * @returns {string | undefined} the value of the variable or `undefined` if it is not defined
+   */
+  export type Environment = (name: string) => string | undefined;
+  /**
+   * @summary Builds a `.env` syntax
+   * @description A builder for a `.env` {@linkcode Syntax}. The defaults are for `.env` files whose values are not expanded, written
+   * with the line terminator that they were read with.
+   */
+  export class SyntaxBuilder implements utility.Builder<Syntax> {
+    /**The line terminator that is written, or `undefined` for the one found in the data */
+    private _eol?: string;
+    /**`true` if comments and blank lines are kept */
+    private _comments = true;
+    /**`true` if values are expanded */
+    private _expand = false;
+    /**The source of the variables that the document does not define */
+    private _env: Environment = (name) => process.env[name];
+    /**metadata part of a syntax*/
+    private _md = {
+      encoding: "utf-8" as parser.Encoding,
+      fileExt: "env",
+      isStandard: false,
+      standard: "https://github.com/motdotla/dotenv#what-rules-does-the-parsing-engine-follow",
+      mediaType: "text/plain",
+    };
+    /**the infix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _infCmdlets: [parser.GType<string>, Command][] = [];
+    /**the prefix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _preCmdlets: [parser.GType<string>, Command][] = [];
+    /**the postfix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _posCmdlets: [parser.GType<string>, Command][] = [];
+    /**A function for getting the correct command based on the direction */
+    private _getCmd = (
+      d: parser.Direction,
+      type: parser.GType<string>
+    ): Command | undefined => {
+      switch (d) {
+        case parser.Direction.PREFIX:
+        default: {
+          const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+        }
+        case parser.Direction.INFIX: {
+          const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+        }
+        case parser.Direction.POSTFIX:
+          const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+      }
+    };
+    /**
+     * Constructs a `SyntaxBuilder`. This specifically compiles all the prefix commands needed by the syntax
+     */
+    constructor() {
+      this.addPrefixCommand(INIT, new Initialize());
+    }
+    /**
+     * Sets the line terminator that is written after every line by {@linkcode StringFormat} and {@linkcode FileFormat}. Every line
+     * terminator is read regardless of this value.
+     * @param {string | undefined} eol `'\n'`, `'\r\n'`, `'\r'` or `undefined` to write the line terminator that was found in the data
+     * @defaultValue `undefined`
+     * @default {undefined}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if the argument is not `undefined` or a supported line terminator
+     * @see {@linkcode Syntax.eol}
+     */
+    public setEol(eol?: string): SyntaxBuilder {
+      if (utility.isValid(eol) && eol !== "\n" && eol !== "\r\n" && eol !== "\r")
+        throw new Error("Only '\\r', '\\n' and '\\r\\n' are supported as line terminators");
+      this._eol = eol;
+      return this;
+    }
+    /**
+     * Keeps the comments and blank lines of a parsed document so that they are written with it.
+     * @param {boolean} b `true` to keep them, `false` otherwise
+     * @defaultValue `true`
+     * @default {true}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.comments}
+     */
+    public retainComments(b: boolean): SyntaxBuilder {
+      this._comments = !!b;
+      return this;
+    }
+    /**
+     * Expands the variables in unquoted and double-quoted values when they are converted to json.
+     * @param {boolean} b `true` to expand them, `false` to keep them as they were written
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.expand}
+     */
+    public supportExpansion(b: boolean): SyntaxBuilder {
+      this._expand = !!b;
+      return this;
+    }
+    /**
+     * Sets the source of the variables that an expanded value refers to and the document does not define.
+     * @param {Environment} env the source. A `null` or `undefined` value has no effect.
+     * @defaultValue `(name) => process.env[name]`
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.environment}
+     */
+    public setEnvironment(env: Environment): SyntaxBuilder {
+      this._env = env ?? this._env;
+      return this;
+    }
+    /**
+     * Attempts to push the second and third argument into the given array. If the non-array arguments already exist in the array, then an overwrite operation is performed.
+     * @param {[parser.GType<string>, Command][]} map an array for type/command tuples
+     * @param { parser.GType<string>} t the type to be added to the array
+     * @param {Command} cmd the command to be added with the type
+     * @returns {void} does not return anything
+     */
+    private _pushOrOverite(
+      map: [parser.GType<string>, Command][],
+      t: parser.GType<string>,
+      cmd: Command
+    ): void {
+      for (let i = 0; i < map.length; i++)
+        if (map[i][0].equals(t)) {
+          map[i] = [t, cmd];
+          return;
+        }
+      map.push([t, cmd]);
+    }
+    /**
+     * @summary registers an infix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with infix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+     * @remark
+     * There are no default infix commands.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible infix type.
+     * @param {Command} cmd the command which can parse infix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addInfixCommand(type: parser.GType<string>, cmd: Command): SyntaxBuilder {
+      this._pushOrOverite(this._infCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the infix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addInfixCommand
+     */
+    public removeInfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._infCmdlets = this._infCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a prefix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with prefix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+     * @remark
+     * The only default prefix command is the one for {@linkcode INIT}, which parses the whole document.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible prefix type.
+     * @param {Command} cmd the command which can parse prefix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addPrefixCommand(type: parser.GType<string>, cmd: Command): SyntaxBuilder {
+      this._pushOrOverite(this._preCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the prefix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPrefixCommand
+     */
+    public removePrefixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._preCmdlets = this._preCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a postfix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with postfix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * @remark
+     * Calling this method has no effect on the built `Syntax` as {@link Parser} does not support {@link parser.Direction.POSTFIX}.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible postfix type.
+     * @param {Command} cmd the command which can parse postfix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see Syntax.getCommand
+     */
+    public addPostfixCommand(type: parser.GType<string>, cmd: Command): SyntaxBuilder {
+      this._pushOrOverite(this._posCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the postfix command registered with the given type. In practice, this method does nothing
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPostfixCommand
+     */
+    public removePostfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._posCmdlets = this._posCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * Sets the extension string associated with the syntax as specified by {@link `Syntax.metadata.fileExt`}
+     * @remark
+     * The default is `'env'`.
+     * @param {string} ext the file extension as a string. This should not have any trailing dot(s). An undefined or null value has no effect
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setFileExt(ext: string): SyntaxBuilder {
+      this._md.fileExt = ext ?? this._md.fileExt;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.isStandard isStandard property} in the syntax to be built.
+     * @remark
+     * The default is `false`.
+     * @param {boolean} b `true` if the syntax is a web standard `false` if otherwise. A truthy value will be converted to a boolean.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setIsStandard(b: boolean): SyntaxBuilder {
+      this._md.isStandard = !!b;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.mediaType media type} associated with the data for which the syntax is being built.
+     * @remark
+     * The default is `'text/plain'`
+     * @param {string} mediaType the MIME type for the syntax
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setMediaType(mediaType: string): SyntaxBuilder {
+      this._md.mediaType = mediaType ?? this._md.mediaType;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.standard standard} associated with the data for which the syntax is being built.
+     * @remark
+     * The default is the parsing rules of the `dotenv` package
+     * @param {string} standard a string representing the standard specification for the data that this syntax will be created for.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setStandard(standard: string): SyntaxBuilder {
+      this._md.standard = standard ?? this._md.standard;
+      return this;
+    }
+    /**
+     * Clears this builder of all the values set into it by either reseting to the default or completely wiping all values. If the latter is chosen then Every value has to manually set again or this might not build.
+     * @param toDefault `true` for a reset `false` for a complete wipe. This is an optional value that defaults to `true`.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public clear(toDefault = true): SyntaxBuilder {
+      this._getCmd = (
+        d: parser.Direction,
+        type: parser.GType<string>
+      ): Command | undefined => {
+        switch (d) {
+          case parser.Direction.PREFIX:
+          default: {
+            const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.INFIX: {
+            const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.POSTFIX:
+            const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+        }
+      };
+      this._eol = undefined;
+      this._comments = true;
+      this._expand = false;
+      this._env = (name) => process.env[name];
+      if (toDefault)
+        this._md = {
+          encoding: "utf-8",
+          fileExt: "env",
+          isStandard: false,
+          standard: "https://github.com/motdotla/dotenv#what-rules-does-the-parsing-engine-follow",
+          mediaType: "text/plain",
+        };
+      else
+        this._md = {
+          encoding: "utf-8",
+          fileExt: "",
+          isStandard: false,
+          standard: "",
+          mediaType: "",
+        };
+      return this;
+    }
+    /**
+     * @inheritdoc
+     * @returns {Syntax}
+     */
+    public build(): Syntax {
+      return Object.freeze({
+        metadata: { ...this._md },
+        eol: this._eol,
+        comments: this._comments,
+        expand: this._expand,
+        environment: this._env,
+        getCommand: this._getCmd,
+      }) as Syntax;
+    }
+    /**
+     * @summary assigns all values from the syntax argument to the properties of this builder.
+     * @remark
+     * Note that the argument `from` cannot be `null` or `undefined` or this will throw
+     * @param {Syntax} from the syntax from which this builder will be built
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @throws {Error} if the argument is not a valid object
+     */
+    public rebuild(from: Syntax): SyntaxBuilder {
+      if (!utility.isValid(from)) throw new Error("undefined not allowed here");
+      this._md.fileExt = (from.metadata ?? { fileExt: "" }).fileExt;
+      this._md.isStandard = (from.metadata ?? { isStandard: false }).isStandard;
+      this._md.mediaType = (from.metadata ?? { mediaType: "" }).mediaType;
+      this._md.standard = (from.metadata ?? { standard: "" }).standard;
+      this._eol = from.eol;
+      this._comments = from.comments ?? true;
+      this._expand = from.expand ?? false;
+      this._env = from.environment ?? ((name) => process.env[name]);
+      this._getCmd = from.getCommand;
+      return this;
+    }
+  }
+  /**
+   * @summary Defines how `.env` data is parsed and written.
+   * @description
+   * A specialized `.env` extension of the {@linkcode parser.Syntax} interface. It is recommended that users instantiate it through
+   * the use of the {@linkcode SyntaxBuilder} class.
+   */
+  export interface Syntax extends parser.GSyntax<Type, Command> {
+    /**
+     * The line terminator written by {@linkcode StringFormat} and {@linkcode FileFormat} after every line. If this is `undefined`,
+     * they write the line terminator that the {@linkcode StringLexer} found first in the data, which it records in
+     * {@linkcode Params.eol}, and `'\n'` if neither is known. This has no effect on parsing, where `\n`, `\r\n` and `\r` are all line
+     * terminators.
+     * @type {string | undefined}
+     * @readonly
+     */
+    readonly eol?: string;
+    /**
+     * `true` if the comments and blank lines of a parsed document are kept and written before the variable after them, else they
+     * are discarded.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly comments: boolean;
+    /**
+     * `true` if {@linkcode JSFormat} expands the variables in unquoted and double-quoted values. A variable is looked up in the
+     * variables defined before it in the document and then in the {@link environment}. A single-quoted value is never expanded and
+     * a `\$` in any other value is a `$` that is not expanded. A `\$` is kept as it was written if this is `false`.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly expand: boolean;
+    /**
+     * The source of the variables that an expanded value refers to and the document does not define before it.
+     * @type {Environment}
+     * @readonly
+     */
+    readonly environment: Environment;
+  }
+  /**
+   * @summary An object that holds variables for the parsing process.
+   * @description A mutable visitor object used by the {@linkcode Parser} as a container for variables, 'a notice board' for the {@link Format formatter}.
+   */
+  export class Params {
+    /**
+     * The comment and blank lines, as they were written, that have been parsed since the last variable.
+     * @type {string[]}
+     */
+    public blk: string[] = [];
+    /**
+     * The first line terminator (`'\n'`, `'\r\n'` or `'\r'`) that the {@linkcode StringLexer} found in the data. This is
+     * `undefined` until a line terminator is found.
+     * @type {string | undefined}
+     */
+    public eol?: string;
+  }
+  /**
+   * A concrete implementation of the {@link parser.GType `GType`}
+   */
+  class Type implements parser.GType<string> {
+    /**
+     * Constructs a `Type` with an assigned unique id and precedence.
+     * @param {string} id a unique id associated with this {@link parser.Type}
+     * @param {number} precedence the precedence of this type. This determines how it will be evaluated in the evaluation hierarchy (per se)
+     */
+    public constructor(
+      public readonly id: string,
+      public readonly precedence: number
+    ) {}
+    /**
+     * Test the equality of this `Type` to the given input
+     * @param {(object|undefined)} obj any object to test against `this`
+     * @returns {boolean} `true` if `this` is equal to the input and `false` if otherwise.
+     */
+    public equals(obj?: object): boolean {
+      if (obj instanceof Type)
+        return this.id === obj.id && this.precedence === obj.precedence;
+      return false;
+    }
+  }
+  /**
+   * A special type that starts the document. There will always be at most one token with this type in every given lexer.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const INIT: parser.GType<string> = new Type("0", Number.MAX_SAFE_INTEGER);
+  /**
+   * The type used for line terminators, which may be `\n`, `\r\n` or `\r`. A line terminator in a quoted value is part of the
+   * value.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const EOL: parser.GType<string> = new Type("1", 1);
+  /**
+   * The type used for the `#` that starts a comment. The rest of the line is a {@linkcode TEXT} token.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const COMMENT: parser.GType<string> = new Type("2", 1);
+  /**
+   * The type used for text that is not whitespace, a delimiter, a quote or an escape.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const TEXT: parser.GType<string> = new Type("3", 1);
+  /**
+   * The type used for a run of spaces and `\t`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const WHITESPACE: parser.GType<string> = new Type("4", 1);
+  /**
+   * The type used for the first `=` of a line that is not in a comment. Any other `=` is {@linkcode TEXT}.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const EQUALS: parser.GType<string> = new Type("5", 1);
+  /**
+   * The type used for the `'` that starts a value and the `'` that ends it. A `'` after the start of a value is {@linkcode TEXT}.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const QUOTE: parser.GType<string> = new Type("6", 1);
+  /**
+   * The type used for the `"` that starts a value and the `"` that ends it. A `"` after the start of a value is {@linkcode TEXT}.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const D_QUOTE: parser.GType<string> = new Type("7", 1);
+  /**
+   * The type used for a `\` and the character after it in a quoted value, such as `\n` or `\"`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const ESCAPE: parser.GType<string> = new Type("8", 1);
+  /**
+   * The type used for end-of-file tokens.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const EOF: parser.GType<string> = new Type("-1", Number.MIN_SAFE_INTEGER);
+  /**
+   * @summary An object representing a valid lexeme in a `.env` data format.
+   * @description
+   * A `Token` is concrete implementation of the {@link parser.GToken} interface where each token maps to a one or more lexeme in
+   * `.env` data.
+   */
+  class Token implements parser.GToken<string> {
+    /**
+     * The length of a token
+     * @type {number}
+     * @readonly
+     * @constant
+     */
+    public readonly length: number;
+    /**
+     * Constructs a `Token`, giving details such as the line and position (within the data format) from which it was formed
+     * @param {string} value the payload of this token containing the actual value of the data it carries
+     * @param {Type} type the type of the token. This is the main determinant of a token that differentiates one from another
+     * @param {number} lineStart the line within the data format that this token was assembled from
+     * @param {number} lineEnd the line within the data format that this token was assembled from
+     * @param {number} startPos the position within the line from which this token was assembled.
+     */
+    constructor(
+      public readonly value: string,
+      public readonly type: Type,
+      public readonly lineStart: number,
+      public readonly lineEnd: number,
+      public readonly startPos: number
+    ) {
+      this.length = value.length;
+    }
+    /**
+     * Test if the argument is the same `Token` object as `this`.
+     * @param {object | undefined} obj
+     * @returns {boolean} `true` if the argument is a `Token` and is the same type, is in the same line, position as `this`.
+     */
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Token)
+        return (
+          this.lineStart == obj.lineStart &&
+          this.lineEnd == obj.lineEnd &&
+          this.startPos === obj.startPos &&
+          this.type.equals(obj.type)
+        );
+      return false;
+    }
+    /**
+     * Returns the hascode of this `Token`
+     * @returns {number} the hashcode of this token
+     */
+    hashCode32(): number {
+      return utility.hashCode32(
+        true,
+        utility.asHashable(this.value),
+        utility.asHashable(this.type.id),
+        utility.asHashable(this.type.precedence),
+        utility.asHashable(this.startPos),
+        utility.asHashable(this.lineEnd),
+        utility.asHashable(this.lineStart)
+      );
+    }
+    /**
+     * Takes an optional {@linkcode parser.Token} argument and returns a value that specifies the ordering between `this` and the argument.
+     * @param {parser.Token | undefined} obj the value which `this` is tobe compared
+     * @returns {utility.Compare} a numerical value to specify ordering after comparison has been done.
+     * @see {@linkcode utility.Comparable}
+     */
+    compareTo(obj?: parser.Token | undefined): utility.Compare {
+      if (utility.isValid(obj)) {
+        let by = utility.compare(this.lineStart, obj!.lineStart);
+        if (by !== 0) return by;
+        by = utility.compare(this.lineEnd, obj!.lineEnd);
+        if (by !== 0) return by;
+        by = utility.compare(this.startPos, obj!.startPos);
+        if (by !== 0) return by;
+        by = utility.asCompare(
+          utility.hashCode32(true, utility.asHashable(this.type.id), utility.asHashable(this.type.precedence))
+        );
+        if (by !== 0) return by;
+        return utility.compare(this.value, obj!.value);
+      }
+      return 1;
+    }
+    /**
+     * Gets a debug value for this `Token`.
+     * @returns {string} a debug string for this `Token`
+     */
+    public toString(): string {
+      return JSON.stringify({ token: this.value, type: this.type.toString() }, null, 2);
+    }
+  }
+  export interface MutableLexer<CH = string> extends parser.MutableLexer<Token, Syntax, CH> {
+    end(syntax: Syntax, p: Params | any): void;
+    process(chunk: CH, syntax: Syntax, p: Params | any): void;
+  }
+  /**The line and the position within the line of a character */
+  type At = [number, number];
+  /**
+   * The keys of variables, which have letters, digits, `_`, `.` and `-` and do not start with a digit. This allows the keys of
+   * `docker compose`, which are not all valid names in a shell.
+   */
+  const KEY = /^[A-Za-z_.-][A-Za-z0-9_.-]*$/;
+  /**
+   * @summary Creates `.env` tokens from json data.
+   * @description
+   * A lexer that tokenises a json object as a `.env` document:
+   * - Every key/value pair is a `KEY=value` line.
+   * - A value that only has characters that are not whitespace, quotes, `#`, `$` or `\` is written as it is. Any other value is
+   * single-quoted, so that it is not expanded when it is read back, unless it has a `'` or a `\r` or ends with a `\`, in which
+   * case it is double-quoted with `\n` and `\r` written as escapes. A double-quoted value cannot have a `"`, `$` or `\`, as
+   * `dotenv` does not unescape them.
+   * - A `number`, `boolean`, `bigint` or `Decimal` is written as its string value and a `null` or `undefined` value is not written.
+   */
+  export class JSONLexer implements MutableLexer<json.Value> {
+    private queue: Token[] = [new Token("", INIT, -1, -1, -1)];
+    /**The line of the next token */
+    #ln = 1;
+    /**The position of the next token within its line */
+    #li = 1;
+    #canProcess = true;
+    /**
+     * Does nothing as {@linkcode process} tokenises all of the data.
+     * @inheritdoc
+     */
+    end(syntax: Syntax, p: any): void {}
+    /**
+     * Tokenises a json object as a `.env` document. Calling this method when {@link JSONLexer.canProcess `canProcess`} returns
+     * `false` puts this `JSONLexer` object in an undefined state.
+     * @param {json.Value} chunk a json object whose values are all atoms
+     * @throws {expression.ExpressionError} if the argument is not an object, one of its keys is not a valid key or one of its values
+     * is an object, an array or a string that cannot be quoted
+     * @inheritdoc
+     */
+    process(chunk: json.Value, syntax: Syntax, p: any): void {
+      if (!utility.isValid(chunk) || json.isAtomic(chunk) || Array.isArray(chunk))
+        throw new expression.ExpressionError("Only an object can be written as a .env document");
+      this.src = chunk;
+      const o = chunk as json.Pair;
+      for (const k of Object.keys(o)) {
+        const v = o[k];
+        if (!utility.isValid(v)) continue;
+        else if (!KEY.test(k)) throw new expression.ExpressionError(`'${k}' is not a valid key`);
+        else if (!json.isAtomic(v))
+          throw new expression.ExpressionError(`The value of '${k}' is not a string, number, boolean or bigint`);
+        this.#manufacture(k, TEXT);
+        this.#manufacture("=", EQUALS);
+        for (const [x, t] of pieces(k, String(v))) this.#manufacture(x, t);
+        this.#manufacture(syntax.eol ?? "\n", EOL);
+      }
+      this.#canProcess = false;
+    }
+    #manufacture(value: string, type: Type) {
+      this.queue.push(new Token(value, type, this.#ln, this.#ln, this.#li));
+      if (type.equals(EOL)) {
+        this.#ln++;
+        this.#li = 1;
+      } else this.#li += value.length;
+    }
+    /**
+     * The json data that was given to {@linkcode process}
+     */
+    src?: json.Value;
+    processed = () => this.queue;
+    unprocessed = () => this.src;
+    frequency(type: parser.Type): number {
+      let frqy = 0;
+      for (let i = 0; i < this.queue.length; i++) {
+        if (this.queue[i].type.equals(type)) frqy++;
+      }
+      return frqy;
+    }
+    indexOf(type: parser.Type): number {
+      for (let i = 0; i < this.queue.length; i++) {
+        if (this.queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    lastIndexOf(type: parser.Type): number {
+      for (let i = this.queue.length - 1; i >= 0; i--) {
+        if (this.queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    hasTokens(): boolean {
+      return this.queue.length > 0;
+    }
+    canProcess(): boolean {
+      return this.#canProcess;
+    }
+    next(): Token {
+      while (true) {
+        if (!this.hasTokens()) break;
+        return this.queue.shift()!;
+      }
+      return new Token("", EOF, this.line(), this.line(), this.position());
+    }
+    position(): number {
+      return this.#li;
+    }
+    line(): number {
+      return this.#ln;
+    }
+  }
+  /**The value and type of a token created by {@linkcode JSONLexer} */
+  type Piece = [string, Type];
+  /**The characters that are escaped in a double-quoted value and the character after the `\` of each one */
+  const SHORT_ESCAPES: { [c: string]: string } = { "\n": "n", "\r": "r" };
+  /**
+   * Creates the tokens of a value
+   * @param {string} key the key of the value
+   * @param {string} text the value
+   * @returns {Piece[]} the value as it is, if it can be written without quotes, else the tokens of a single-quoted value, whose line
+   * feeds are {@linkcode EOL} tokens, else the tokens of a double-quoted value
+   * @throws {expression.ExpressionError} if the value has to be double-quoted and has a `"`, `$` or `\`
+   */
+  function pieces(key: string, text: string): Piece[] {
+    if (/^[^\s'"#$\\]*$/.test(text)) return text.length > 0 ? [[text, TEXT]] : [];
+    else if (!/['\r]|\\$/.test(text)) {
+      const r: Piece[] = [["'", QUOTE]];
+      text.split("\n").forEach((x, i) => {
+        if (i > 0) r.push(["\n", EOL]);
+        if (x.length > 0) r.push([x, TEXT]);
+      });
+      r.push(["'", QUOTE]);
+      return r;
+    } else if (/["$\\]/.test(text))
+      throw new expression.ExpressionError(`The value of '${key}' cannot be quoted so that it is read back as it is`);
+    const r: Piece[] = [['"', D_QUOTE]];
+    let run = "";
+    for (const c of text) {
+      const e = SHORT_ESCAPES[c];
+      if (!utility.isValid(e)) run += c;
+      else {
+        if (run.length > 0) r.push([run, TEXT]);
+        run = "";
+        r.push([`\\${e}`, ESCAPE]);
+      }
+    }
+    if (run.length > 0) r.push([run, TEXT]);
+    r.push(['"', D_QUOTE]);
+    return r;
+  }
+  /**
+   * What the {@linkcode StringLexer} is reading:
+   * - `"line"` for the key and an unquoted value
+   * - `"comment"` for a comment
+   * - `"single"` for a single-quoted value
+   * - `"double"` for a double-quoted value
+   */
+  type Mode = "line" | "comment" | "single" | "double";
+  /**
+   * @summary Creates `.env` tokens from text.
+   * @description
+   * A lexer that splits `.env` text into lines, comments, whitespace, `=`, quotes and escapes. A quote is only a {@linkcode QUOTE} or
+   * a {@linkcode D_QUOTE} at the start of a value and at the end of a quoted value, and the line terminators in a quoted value are
+   * {@linkcode EOL} tokens that do not end the line. The first line terminator is recorded in {@linkcode Params.eol}. The text can
+   * be given in chunks that split a line, an escape or a `\r\n` anywhere. {@linkcode end} must be called after the last chunk.
+   */
+  export class StringLexer implements MutableLexer {
+    private queue: Token[] = [new Token("", INIT, -1, -1, -1)];
+    /**The line of the next character */
+    #ln = 1;
+    /**The position of the next character within its line */
+    #li = 1;
+    /**The text of the token being built */
+    #run = "";
+    /**The type of the token being built */
+    #type?: Type;
+    /**Where the token being built starts */
+    #at: At = [1, 1];
+    /**Where the `\` in a quoted value that is waiting for the character that it escapes is */
+    #esc?: At;
+    /**A line terminator that ends with `\r`, which is waiting to see if a `\n` is after it, and where it starts */
+    #cr?: [string, At];
+    #mode: Mode = "line";
+    /**`true` if the last character was whitespace or the start of a line, after which a `#` before the `=` starts a comment */
+    #ws = true;
+    /**`true` if the `=` of the current line has been read */
+    #eq = false;
+    /**`true` if only whitespace has been read since the `=` of the current line, so that a quote starts a quoted value */
+    #open = false;
+    #ended = false;
+    /**
+     * Creates the tokens that are waiting for more characters. A `\` at the end of the data is {@linkcode TEXT}.
+     * @inheritdoc
+     */
+    end(syntax?: Syntax, p?: Params): void {
+      if (utility.isValid(this.#cr)) {
+        const [v, at] = this.#cr!;
+        this.#cr = undefined;
+        this.#terminate(v, at, p);
+      }
+      if (utility.isValid(this.#esc)) {
+        this.#append("\\", TEXT, this.#esc!);
+        this.#esc = undefined;
+      }
+      this.#flush();
+      this.#ended = true;
+    }
+    /**
+     * Tokenises a chunk of `.env` text.
+     * @param {string} chunk the text
+     * @param {Syntax} syntax the syntax, which is not used as every `.env` document is tokenised in the same way
+     * @param {Params} p the params, in which the first line terminator is recorded
+     * @inheritdoc
+     */
+    process(chunk: string, syntax?: Syntax, p?: Params): void {
+      for (const c of chunk) this.#read(c, p);
+    }
+    #read(c: string, p?: Params) {
+      if (utility.isValid(this.#cr)) {
+        const [v, at] = this.#cr!;
+        this.#cr = undefined;
+        if (c === "\n") return this.#terminate(v + c, at, p);
+        this.#terminate(v, at, p);
+      }
+      const at: At = [this.#ln, this.#li++];
+      if (utility.isValid(this.#esc)) {
+        const esc = this.#esc!;
+        this.#esc = undefined;
+        //a '\' before a line terminator is not an escape
+        if (c !== "\r" && c !== "\n") {
+          this.#flush();
+          return this.#manufacture(`\\${c}`, ESCAPE, esc);
+        }
+        this.#append("\\", TEXT, esc);
+      }
+      if (c === "\r" || c === "\n") {
+        this.#flush();
+        if (c === "\r") this.#cr = [c, at];
+        else this.#terminate(c, at, p);
+      } else if (this.#mode === "comment") this.#append(c, TEXT, at);
+      else if (this.#mode === "single" || this.#mode === "double") {
+        if (c === "\\") {
+          this.#flush();
+          this.#esc = at;
+        } else if (c === (this.#mode === "single" ? "'" : '"')) {
+          this.#flush();
+          this.#manufacture(c, this.#mode === "single" ? QUOTE : D_QUOTE, at);
+          this.#mode = "line";
+          this.#ws = false;
+        } else this.#append(c, TEXT, at);
+      } else if (c === " " || c === "\t") {
+        this.#append(c, WHITESPACE, at);
+        this.#ws = true;
+      } else if (c === "#" && (this.#ws || this.#eq)) {
+        this.#flush();
+        this.#manufacture(c, COMMENT, at);
+        this.#mode = "comment";
+      } else if (c === "=" && !this.#eq) {
+        this.#flush();
+        this.#manufacture(c, EQUALS, at);
+        this.#eq = this.#open = true;
+        this.#ws = false;
+      } else if ((c === "'" || c === '"') && this.#open) {
+        this.#flush();
+        this.#manufacture(c, c === "'" ? QUOTE : D_QUOTE, at);
+        this.#mode = c === "'" ? "single" : "double";
+        this.#open = false;
+      } else {
+        this.#append(c, TEXT, at);
+        this.#open = this.#ws = false;
+      }
+    }
+    /**
+     * Creates the token of a line terminator, which ends the line unless it is in a quoted value.
+     * @param {string} value the line terminator
+     * @param {At} at where the token starts
+     * @param {Params} [p] the params, in which the line terminator is recorded if it is the first one
+     */
+    #terminate(value: string, at: At, p?: Params) {
+      if (utility.isValid(p) && !utility.isValid(p!.eol)) p!.eol = value;
+      this.queue.push(new Token(value, EOL, at[0], at[0] + 1, at[1]));
+      this.#ln++;
+      this.#li = 1;
+      if (this.#mode === "line" || this.#mode === "comment") {
+        this.#mode = "line";
+        this.#ws = true;
+        this.#eq = this.#open = false;
+      }
+    }
+    /**
+     * Adds a character to the token being built, first creating that token if it is not of the given type.
+     */
+    #append(c: string, type: Type, at: At) {
+      if (utility.isValid(this.#type) && !this.#type!.equals(type)) this.#flush();
+      if (this.#run.length === 0) this.#at = at;
+      this.#type = type;
+      this.#run += c;
+    }
+    /**
+     * Creates the token being built, if there is one.
+     */
+    #flush() {
+      if (this.#run.length > 0) this.#manufacture(this.#run, this.#type!, this.#at);
+      this.#run = "";
+      this.#type = undefined;
+    }
+    #manufacture(value: string, type: Type, at: At) {
+      this.queue.push(new Token(value, type, at[0], at[0], at[1]));
+    }
+    /**
+     * Gets the queue of {@linkcode Token} objects ready to be consumed by a parser. DO NOT MODIFY the array returned as that may
+     * cause parsing to be undefined.
+     * @returns {Token[]} the queue of `Token` objects which is an array
+     */
+    processed = (): Token[] => this.queue;
+    /**
+     * Gets the text that has been read but is not yet in a token.
+     * @returns {string} the text
+     */
+    unprocessed = (): string => this.#run;
+    frequency(type: parser.Type): number {
+      let frqy = 0;
+      for (let i = 0; i < this.queue.length; i++) {
+        if (this.queue[i].type.equals(type)) frqy++;
+      }
+      return frqy;
+    }
+    indexOf(type: parser.Type): number {
+      for (let i = 0; i < this.queue.length; i++) {
+        if (this.queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    lastIndexOf(type: parser.Type): number {
+      for (let i = this.queue.length - 1; i >= 0; i--) {
+        if (this.queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    hasTokens(): boolean {
+      return this.queue.length > 0;
+    }
+    canProcess(): boolean {
+      return !this.#ended;
+    }
+    next(): Token {
+      while (true) {
+        if (!this.hasTokens()) break;
+        return this.queue.shift()!;
+      }
+      return new Token("", EOF, this.line(), this.line(), this.position());
+    }
+    position(): number {
+      return this.#li;
+    }
+    line(): number {
+      return this.#ln;
+    }
+  }
+  export interface Command extends parser.GCommand<Token, Expression, Syntax, MutableLexer, Parser> {
+    parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression;
+  }
+  /**
+   * @summary a section of code.
+   * @description The text that an expression was parsed from, as it was written.
+   */
+  export type Snippet = {
+    /**
+     * The lines before the expression that are comments or blank, without their line terminators.
+     * @readonly
+     * @type {readonly string[]}
+     */
+    readonly blk: readonly string[];
+    /**
+     * The text of the expression, which has the line terminators of a quoted value that spans lines but not the line terminator
+     * that ends it.
+     * @readonly
+     * @type {string}
+     */
+    readonly src: string;
+  };
+  export interface Expression extends expression.GExpression<Format> {
+    /**
+     * The source code from which this expression was parsed.
+     * @readonly
+     * @type {Snippet}
+     */
+    readonly c?: Snippet;
+    format(format: Format, syntax?: Syntax, params?: Params | any): void;
+  }
+  /**
+   * A part of a value, which is unescaped, `true` if it is expanded when the syntax {@link Syntax.expand expands} values, and the
+   * text that it is read as when they are expanded, if that is not the same, such as the `$` of a `\$`.
+   */
+  type Segment = [string, boolean, string?];
+  /**
+   * A variable and its value.
+   */
+  class Variable implements Expression {
+    /**
+     * @param {string} key the key
+     * @param {readonly Segment[]} segments the parts of the value
+     * @param {boolean} exported `true` if the variable was defined as `export KEY=value`
+     * @param {Snippet} c the source of the variable
+     */
+    constructor(
+      public readonly key: string,
+      public readonly segments: readonly Segment[],
+      public readonly exported: boolean,
+      public readonly c: Snippet
+    ) {}
+    /**
+     * The value, unescaped and not expanded
+     * @type {string}
+     */
+    get value(): string {
+      return this.segments.map((x) => x[0]).join("");
+    }
+    /**
+     * The value, unescaped and read as it is before it is expanded
+     * @type {string}
+     */
+    get expandable(): string {
+      return this.segments.map((x) => x[2] ?? x[0]).join("");
+    }
+    format(format: Format<any>, syntax?: Syntax | undefined, params?: any): void {
+      format.append(this, syntax, params);
+    }
+    debug(): string {
+      return [...this.c.blk, this.c.src].join("\n");
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Variable) return this.key === obj.key && this.value === obj.value;
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(true, utility.asHashable(this.key), utility.asHashable(this.value));
+    }
+    toString() {
+      return this.debug();
+    }
+  }
+  /**
+   * The variables of a document in the order in which they were defined, including the ones that are defined again later.
+   */
+  class Document implements Expression {
+    /**The variables */
+    public readonly vars: Variable[] = [];
+    /**
+     * @param {string[]} blk the comment and blank lines after the last variable
+     */
+    constructor(public blk: string[] = []) {}
+    format(format: Format<any>, syntax?: Syntax | undefined, params?: any): void {
+      format.append(this, syntax, params);
+    }
+    debug(): string {
+      return this.vars.map((x) => x.debug()).concat(this.blk).join("\n");
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Document)
+        return this.vars.length === obj.vars.length && this.vars.every((x, i) => x.equals(obj.vars[i]));
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(true, ...this.vars.map((x) => utility.asHashable(x.hashCode32())));
+    }
+    toString() {
+      return this.debug();
+    }
+  }
+  /**
+   * Checks the type of a token
+   * @param {parser.GToken<string>} t the token
+   * @param {parser.GType<string>[]} types the types to check against
+   * @returns {boolean} `true` if the token has one of the types
+   */
+  function is(t: parser.GToken<string>, ...types: parser.GType<string>[]): boolean {
+    return types.some((x) => x.equals(t.type));
+  }
+  /**
+   * Throws a `parser.SyntaxError` at the given token.
+   * @param {parser.GToken<string>} t the token where the error was found
+   * @param {string} msg the description of the error
+   * @throws {parser.SyntaxError} always
+   */
+  function error(t: parser.GToken<string>, msg: string): never {
+    throw new parser.SyntaxError(t, new parser.ParseError(`${msg} at line: ${t.lineStart}, position: ${t.startPos}`));
+  }
+  /**
+   * Consumes the tokens of the current line up to the line terminator that ends it.
+   */
+  function skipLine(p: Parser, l: MutableLexer, s: Syntax, pa: Params) {
+    while (!is(p.peek(l, s, pa), EOL, EOF)) p.pop(l, s, pa);
+  }
+  /**
+   * Consumes the whitespace at the current token, if there is any.
+   */
+  function skipWhiteSpace(p: Parser, l: MutableLexer, s: Syntax, pa: Params) {
+    if (is(p.peek(l, s, pa), WHITESPACE)) p.pop(l, s, pa);
+  }
+  /**
+   * The `\$` of a value that can be expanded, which is a `$` that is not expanded when the syntax expands values
+   */
+  const DOLLAR: Segment = ["\\$", false, "$"];
+  /**
+   * Unescapes an escape of a quoted value as `dotenv` does
+   * @param {string} escape the `\` and the character after it
+   * @param {boolean} double `true` if the value is double-quoted
+   * @returns {Segment} the character that the escape stands for if it is `\n` or `\r` in a double-quoted value, {@linkcode DOLLAR}
+   * if it is `\$` in a double-quoted value, else the escape as it was written
+   */
+  function unescape(escape: string, double: boolean): Segment {
+    if (!double) return [escape, false];
+    switch (escape[1]) {
+      case "n":
+        return ["\n", true];
+      case "r":
+        return ["\r", true];
+      case "$":
+        return DOLLAR;
+      default:
+        return [escape, true];
+    }
+  }
+  /**
+   * Splits an unquoted value into its `\$` and the text between them
+   * @param {string} text the value
+   * @returns {Segment[]} the parts of the value, in which every `\$` is {@linkcode DOLLAR}
+   */
+  function unquoted(text: string): Segment[] {
+    return text
+      .split(/(\\\$)/)
+      .filter((x) => x.length > 0)
+      .map((x): Segment => (x === "\\$" ? DOLLAR : [x, true]));
+  }
+  /**
+   * Parses the tokens of a value that starts with a quote, up to the quote that ends it.
+   * @param {string} key the key of the value
+   * @returns {Segment[]} the parts of the value. A single-quoted value is not expanded.
+   * @throws {parser.SyntaxError} if the value does not end
+   */
+  function quoted(key: string, p: Parser, l: MutableLexer, s: Syntax, pa: Params): Segment[] {
+    const quote = p.pop(l, s, pa);
+    const double = is(quote, D_QUOTE);
+    const segments: Segment[] = [];
+    while (!is(p.peek(l, s, pa), double ? D_QUOTE : QUOTE)) {
+      const t = p.pop(l, s, pa);
+      if (is(t, EOF)) error(quote, `The quote that starts the value of '${key}' is not closed`);
+      else if (is(t, EOL)) segments.push(["\n", double]);
+      else if (is(t, ESCAPE)) segments.push(unescape(t.value, double));
+      else segments.push([t.value, double]);
+    }
+    p.pop(l, s, pa);
+    skipWhiteSpace(p, l, s, pa);
+    if (is(p.peek(l, s, pa), COMMENT)) skipLine(p, l, s, pa);
+    else if (!is(p.peek(l, s, pa), EOL, EOF))
+      error(p.peek(l, s, pa), `Only a comment can be after the quoted value of '${key}'`);
+    return segments;
+  }
+  /**
+   * Parses the tokens of a line, and of the lines of a quoted value that spans lines, leaving the line terminator that ends them.
+   * @returns {Variable | undefined} the variable or `undefined` if the line is blank, a comment or does not have a valid key followed
+   * by `=`
+   * @throws {parser.SyntaxError} if a quoted value does not end or is followed by more than a comment
+   */
+  function variable(p: Parser, l: MutableLexer, s: Syntax, pa: Params): Variable | undefined {
+    skipWhiteSpace(p, l, s, pa);
+    if (is(p.peek(l, s, pa), COMMENT, EOL, EOF)) {
+      skipLine(p, l, s, pa);
+      return undefined;
+    }
+    let t = p.pop(l, s, pa);
+    let exported = false;
+    //'export KEY=value', but not 'export=value' or 'export = value'
+    if (is(t, TEXT) && t.value === "export" && is(p.peek(l, s, pa), WHITESPACE)) {
+      p.pop(l, s, pa);
+      if (is(p.peek(l, s, pa), TEXT)) {
+        t = p.pop(l, s, pa);
+        exported = true;
+      }
+    }
+    skipWhiteSpace(p, l, s, pa);
+    //a line that is not an assignment is skipped, as dotenv does
+    if (!is(t, TEXT) || !KEY.test(t.value) || !is(p.peek(l, s, pa), EQUALS)) {
+      skipLine(p, l, s, pa);
+      return undefined;
+    }
+    const key = t.value;
+    p.pop(l, s, pa);
+    skipWhiteSpace(p, l, s, pa);
+    let segments: Segment[];
+    if (is(p.peek(l, s, pa), QUOTE, D_QUOTE)) segments = quoted(key, p, l, s, pa);
+    else {
+      let text = "";
+      while (!is(p.peek(l, s, pa), COMMENT, EOL, EOF)) text += p.pop(l, s, pa).value;
+      skipLine(p, l, s, pa);
+      segments = unquoted(text.replace(/[ \t]+$/, ""));
+    }
+    return new Variable(key, segments, exported, { blk: pa.blk, src: p.since(0) });
+  }
+  /**
+   * Parses a whole `.env` document into a {@linkcode Document}.
+   */
+  class Initialize implements Command {
+    parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression {
+      pa = pa ?? new Params();
+      pa.blk = [];
+      const doc = new Document();
+      while (!is(p.peek(l, s, pa), EOF)) {
+        p.forget();
+        const v = variable(p, l, s, pa);
+        if (utility.isValid(v)) {
+          doc.vars.push(v!);
+          pa.blk = [];
+        } else if (s.comments) pa.blk.push(p.since(0));
+        if (is(p.peek(l, s, pa), EOL)) p.pop(l, s, pa);
+      }
+      doc.blk = pa.blk;
+      return doc;
+    }
+  }
+  /**
+   * @summary Parses `.env` tokens into a document.
+   * @description A {@linkcode parser.PrattParser} that keeps the text of the tokens that it consumes so that every variable has the
+   * source that it was parsed from (see {@linkcode Snippet.src}).
+   */
+  export class Parser extends parser.PrattParser<Expression, Syntax> {
+    /**The text of the tokens consumed since the last call to {@linkcode forget} */
+    #src = "";
+    protected override readAndPop<P>(
+      l: parser.GLexer<parser.GToken<string>, Syntax>,
+      s: Syntax,
+      params: P
+    ): parser.GToken<string> {
+      const t = super.readAndPop(l, s, params);
+      this.#src += t.value;
+      return t;
+    }
+    /**
+     * Gets a token without consuming it
+     * @param {MutableLexer} l the token generator
+     * @param {Syntax} s a syntax for the token generator
+     * @param {Params} pa the params of the parsing process
+     * @returns {parser.GToken<string>} the token
+     */
+    public peek(l: MutableLexer, s: Syntax, pa: Params): parser.GToken<string> {
+      return this.readAndPeek(0, l, s, pa);
+    }
+    /**
+     * Consumes the next token
+     * @param {MutableLexer} l the token generator
+     * @param {Syntax} s a syntax for the token generator
+     * @param {Params} pa the params of the parsing process
+     * @returns {parser.GToken<string>} the token
+     */
+    public pop(l: MutableLexer, s: Syntax, pa: Params): parser.GToken<string> {
+      return this.readAndPop(l, s, pa);
+    }
+    /**
+     * Gets the text of the tokens consumed after the given position.
+     * @param {number} mark a position in the text consumed since the last call to {@linkcode forget}
+     * @returns {string} the text as it was written
+     */
+    public since(mark: number): string {
+      return this.#src.substring(mark);
+    }
+    /**
+     * Discards the text of the tokens consumed so far. This is called at the start of every line of a document.
+     */
+    public forget(): void {
+      this.#src = "";
+    }
+  }
+  /**
+   * Gets the index of the `}` that ends a `${`, skipping the `${...}` in it.
+   * @param {string} text the text
+   * @param {number} start the index after the `${`
+   * @param {(i: number) => boolean} literal checks if the character at an index of the text is not expanded
+   * @returns {number} the index of the `}` or `-1` if there is none
+   */
+  function closing(text: string, start: number, literal: (i: number) => boolean): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      if (text.startsWith("${", i) && !literal(i)) {
+        depth++;
+        i++;
+      } else if (text[i] === "}" && depth-- === 0) return i;
+    }
+    return -1;
+  }
+  /**
+   * Expands the variables in a value as a shell does. A variable that is not defined and does not have a default is replaced by an
+   * empty string and a `$` that is not followed by a name or a `{` is kept.
+   * @param {string} text the value
+   * @param {string} key the key of the value
+   * @param {Environment} lookup gets the value of a variable
+   * @param {(i: number) => boolean} literal checks if the character at an index of the text is not expanded, such as a `$` that was
+   * escaped
+   * @returns {string} the expanded value
+   * @throws {expression.FormatError} if a `${` is not closed or does not have a valid name, `:-` or `-` in it
+   */
+  function expand(text: string, key: string, lookup: Environment, literal: (i: number) => boolean): string {
+    let r = "";
+    let i = 0;
+    while (i < text.length) {
+      const ref = text[i] === "$" && !literal(i);
+      const name = ref ? /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.substring(i + 1)) : null;
+      if (utility.isValid(name)) {
+        r += lookup(name![0]) ?? "";
+        i += 1 + name![0].length;
+      } else if (ref && text[i + 1] === "{") {
+        const end = closing(text, i + 2, literal);
+        if (end < 0) throw new expression.FormatError(`'${text.substring(i)}' in the value of '${key}' is not closed`);
+        const m = /^([A-Za-z_][A-Za-z0-9_]*)(?:(:?-)([^]*))?$/.exec(text.substring(i + 2, end));
+        if (!utility.isValid(m))
+          throw new expression.FormatError(`'${text.substring(i, end + 1)}' in the value of '${key}' is not a valid expansion`);
+        const v = lookup(m![1]);
+        //':-' uses the default for an empty value and '-' only for an undefined one
+        if (utility.isValid(m![2]) && (!utility.isValid(v) || (m![2] === ":-" && v!.length === 0))) {
+          const at = i + 2 + m![1].length + m![2].length;
+          r += expand(m![3], key, lookup, (j) => literal(at + j));
+        } else r += v ?? "";
+        i = end + 1;
+      } else r += text[i++];
+    }
+    return r;
+  }
+  /**
+   * Writes data as `.env` text. Every variable is written as it was parsed, after the comment and blank lines before it, and every
+   * line ends with the line terminator of the syntax, else the one found in the data.
+   * @param {Appendage} data a string, which is written as it is, or an expression
+   * @param {Syntax} [s] the syntax
+   * @param {Params} [p] the params with which the data was parsed
+   * @returns {string} the text
+   */
+  function write(data: Appendage, s?: Syntax, p?: Params): string {
+    const eol = s?.eol ?? p?.eol ?? "\n";
+    const lines = (x: Variable) => [...x.c.blk, x.c.src];
+    if (typeof data === "string") return data;
+    else if (data instanceof Variable) return lines(data).map((x) => x + eol).join("");
+    else if (data instanceof Document)
+      return data.vars.flatMap(lines).concat(data.blk).map((x) => x + eol).join("");
+    return "";
+  }
+  /**
+   * @summary The type of value accepted by the {@linkcode Format.append} method.
+   * @description The value that will be sent to (and expected by) {@linkcode Format} objects
+   */
+  export type Appendage = string | Expression;
+  /**A base `.env` format */
+  export interface Format<T = any> extends expression.GFormat<Expression, T> {
+    append(data: Appendage, s?: Syntax, p?: Params): void;
+  }
+  /**
+   * @summary The {@linkcode Expression} output as a string.
+   * @description Builds and stores the parsed `.env` data as a string. The variables are written as they were parsed, in the order in
+   * which they were defined, with the line terminator of the syntax, else the one in {@linkcode Params.eol}, at the end of every line.
+   * Values are not expanded.
+   */
+  export class StringFormat implements Format<string> {
+    private _data = "";
+    append(data: Appendage, s?: Syntax | undefined, p?: Params | undefined): void {
+      this._data += write(data, s, p);
+      this.modifications++;
+    }
+    data(): string {
+      return this._data;
+    }
+    reverse(): expression.GFormat<Expression, string> {
+      this._data.split("").reverse().join("");
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, string>): boolean {
+      if (another instanceof StringFormat) return this._data === another._data;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    readonly prettyfier?: expression.Prettyfier | undefined;
+    readonly minifier?: expression.Minifier | undefined;
+    readonly logger?: utility.Messenger | undefined;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._data)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * Gets the characters of a value that are not expanded
+   * @param {readonly Segment[]} segments the parts of the value
+   * @returns {(i: number) => boolean} a function that checks if the character at an index of the {@link Variable.expandable value}
+   * is not expanded
+   */
+  function literal(segments: readonly Segment[]): (i: number) => boolean {
+    const ranges: [number, number][] = [];
+    let at = 0;
+    for (const [unexpanded, expands, expandable] of segments) {
+      const text = expandable ?? unexpanded;
+      if (!expands) ranges.push([at, at + text.length]);
+      at += text.length;
+    }
+    return (i) => ranges.some(([start, end]) => i >= start && i < end);
+  }
+  /**
+   * @summary The {@linkcode Expression} output as json data.
+   * @description
+   * Converts the parsed `.env` data to a json object whose keys and values are all strings, in the order in which the keys were
+   * first defined. If the syntax {@link Syntax.expand expands} values, the variables in a value are looked up in the values of the
+   * variables defined before it, as a shell that `source`s the file would, and then in the {@link Syntax.environment environment}:
+   * ```sh
+   * HOST=localhost
+   * URL=http://${HOST}:${PORT:-8080}/ # http://localhost:8080/ if PORT is not in the environment
+   * ```
+   */
+  export class JSFormat implements Format<json.Value> {
+    private _data = {} as json.Value;
+    /**
+     * @inheritdoc
+     * @throws {expression.FormatError} if the data is a string or a value cannot be expanded
+     */
+    append(data: Appendage, s?: Syntax | undefined, p?: Params | undefined): void {
+      if (typeof data === "string")
+        throw new expression.FormatError("A string must be parsed before it can be converted to json");
+      const o = {} as json.Pair;
+      const vars = new Map<string, string>();
+      const lookup = (name: string) => (vars.has(name) ? vars.get(name) : s!.environment(name));
+      for (const x of data instanceof Document ? data.vars : [data as Variable]) {
+        const value = s?.expand ? expand(x.expandable, x.key, lookup, literal(x.segments)) : x.value;
+        vars.set(x.key, value);
+        Object.defineProperty(o, x.key, { value, writable: true, enumerable: true, configurable: true });
+      }
+      this._data = o;
+      this.modifications++;
+    }
+    data(): json.Value {
+      return this._data;
+    }
+    reverse(): expression.GFormat<Expression, json.Value> {
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, json.Value>): boolean {
+      if (another instanceof JSFormat) return this._data === another._data;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    prettyfier?: expression.Prettyfier | undefined;
+    minifier?: expression.Minifier | undefined;
+    logger?: utility.Messenger | undefined;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._data)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * @summary The {@linkcode Expression} output as a file.
+   * @description Writes the parsed `.env` data to a `UTF-8` file in the same way as {@linkcode StringFormat}.
+   */
+  export class FileFormat implements Format<ReadStream> {
+    private _str: WriteStream;
+    constructor(filename: string) {
+      this._str = createWriteStream(filename, {
+        autoClose: true,
+        emitClose: false,
+      });
+    }
+    public endWrite() {
+      this._str!.end();
+      this._str!.close();
+    }
+    append(data: Appendage, s?: Syntax | undefined, p?: Params | undefined): void {
+      this._str.write(write(data, s, p), "utf-8");
+      this.modifications++;
+    }
+    data(): ReadStream {
+      return createReadStream(this._str.path, {
+        autoClose: true,
+        encoding: "utf-8",
+      });
+    }
+    reverse(): this {
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, ReadStream>): boolean {
+      if (another instanceof FileFormat) return this._str.path === another._str.path;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._str)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * Converts a stream of `UTF-8` `.env` data to a {@linkcode Document}. A character whose bytes are split between two chunks is
+   * decoded when the second chunk is read.
+   */
+  export class Converter extends parser.Converter<
+    parser.GToken<string>,
+    Expression,
+    Syntax,
+    Parser,
+    Params,
+    MutableLexer,
+    any
+  > {
+    /**Decodes the chunks, keeping the bytes at the end of a chunk that are not a whole character */
+    readonly #decoder = new StringDecoder("utf-8");
+    _transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback): void {
+      if (!this.writableObjectMode) chunk = Buffer.isBuffer(chunk) ? this.#decoder.write(chunk as Buffer) : String(chunk);
+      try {
+        this.lexer.process(chunk, this.syntax, this.params);
+      } catch (e) {
+        return callback(e as Error);
+      }
+      callback();
+    }
+    _flush(callback: TransformCallback): void {
+      try {
+        if (!this.writableObjectMode) this.lexer.process(this.#decoder.end(), this.syntax, this.params);
+        this.lexer.end(this.syntax, this.params);
+        return callback(null, this.parser.parse(this.lexer, this.syntax, this.params));
+      } catch (e) {
+        return callback(e as Error);
+      }
+    }
+  }
+  /**
+   * The syntax of the `dotenv` package, which does not expand values.
+   */
+  export const DOTENV = new SyntaxBuilder().build();
+  /**
+   * The syntax of `dotenv-expand` and `docker compose`, which expand the variables in unquoted and double-quoted values with the
+   * variables defined before them and with `process.env`.
+   */
+  export const DOTENV_EXPAND = new SyntaxBuilder().supportExpansion(true).build();
+}
+export default dotenv;
@@ -1,15 +1,19 @@
 import {
   createReadStream,
   createWriteStream,
+  existsSync,
+  readdirSync,
   ReadStream,
   WriteStream,
 } from "fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
 import { TransformCallback } from "node:stream";
 import utility from "../utility.js";
 import expression from "./expression.js";
 import json from "./json.js";
 import parser from "./parser.js";
 import iconv from "iconv-lite";
+import { Decimal } from "decimal.js";
 /**
  * @summary Defines the constituents of the ini pipeline.
  * @description
@@ -39,10 +43,12 @@ import iconv from "iconv-lite";
  * mostly = great
  * ```
  * @remarks
- * All new lines must be `\n`. `\r\n` is not supported and is bound to cause errors during parsing.
+ * A line may end with `\n`, `\r\n` or `\r`, and a document may mix them. The formats write one line terminator, which is the one set
+ * by `SyntaxBuilder.setEol` or else the first one found in the data.\
+ * \
  * Recfiles and toml are currently unsupported.\
  * \
- * Although a syntax object can be configured to parse `.properties` files, files using more than one space as a delimiter cannot be parsed. Hence `.properties` files need their own parsing pipeline.
+ * Although a syntax object can be configured to parse `.properties` files, files using more than one space as a delimiter cannot be parsed. Hence `.properties` files have their own parsing pipeline in the `properties` namespace.
  */
 namespace ini {
   /**
@@ -58,16 +64,282 @@ namespace ini {
     DISCARD = 2,
     /**A directive for the parser to throw if a duplicate property is found */
     THROW = 3,
+    /**
+     * A directive for the parser to merge duplicate properties as {@linkcode MERGE} does, except that a property with an empty value
+     * removes the values before it, as the list settings of systemd units such as `ExecStart=` do. The empty value is kept so that it
+     * is written back, but {@linkcode JSFormat} leaves it out. Duplicate sections are merged.
+     */
+    RESET = 4,
+  }
+  /**
+   * An enum to specify how references to other properties in a property's value are replaced by the values of those properties.
+   * These are the interpolations of python's `configparser`.
+   * @enum {number}
+   */
+  export enum Interpolation {
+    /**Values are not interpolated */
+    NONE = 0,
+    /**
+     * `%(name)s` is replaced by the value of `name` in the same section or in the {@link Syntax.defaultSection default section}
+     * and `%%` is replaced by `%`
+     */
+    BASIC = 1,
+    /**
+     * `${name}` is replaced by the value of `name` in the same section or in the {@link Syntax.defaultSection default section},
+     * `${section:name}` is replaced by the value of `name` in `section` and `$$` is replaced by `$`
+     */
+    EXTENDED = 2,
+  }
+  /**
+   * A rule that converts the values of the properties whose section names and key match a pattern to a type, and converts values
+   * of that type back to text. Rules are created by {@linkcode SyntaxBuilder.addRule}. \
+   * \
+   * Values are not checked while a document is parsed: a value that a rule does not accept throws a {@linkcode RuleError} when
+   * {@linkcode JSFormat} converts it, and a value that {@linkcode JSONLexer} cannot write with a rule throws when it is written.
+   */
+  export type Rule = {
+    /**
+     * The names of the sections and the key of the properties that this rule is for, joined with `'.'`, where `*` matches any text
+     * without a `'.'` and `**` matches any text. For example, `server.port`, `*.enabled` and `paths.*`.
+     */
+    readonly pattern: string;
+    /**The type as it was declared, such as `integer` or `list(sep=":")` */
+    readonly type: string;
+    /**`true` if the type is a list, so that the lists of a property that has more than one value are joined into one list */
+    readonly list: boolean;
+    /**
+     * Checks if this rule is for a property
+     * @param {readonly string[]} section the full name of the section that has the property
+     * @param {string} key the key of the property
+     * @returns {boolean} `true` if the pattern matches the section names and the key
+     */
+    matches(section: readonly string[], key: string): boolean;
+    /**
+     * Converts a value to the type
+     * @param {string} value the value as it was parsed
+     * @returns {json.Value} the value as the type
+     * @throws {Error} if the value is not valid for the type
+     */
+    parse(value: string): json.Value;
+    /**
+     * Converts a value of the type to the text that {@linkcode parse} reads back
+     * @param {json.Value} value a value of the type. A `string` is written as it is.
+     * @returns {string} the text
+     * @throws {expression.ExpressionError} if the value is not of the type
+     */
+    format(value: json.Value): string;
+  };
+  /**
+   * A {@link parser.SyntaxError syntax error} of a value that a {@link Rule rule} does not accept, which is thrown by
+   * {@linkcode JSFormat} when it converts the value. Its message has the message of the rule and the position of the value.
+   */
+  export class RuleError extends parser.SyntaxError {
+    /**
+     * Constructs a `RuleError` object.
+     * @param {parser.Token} token the token of the value
+     * @param {string} msg a message that names the value, its property and the rule
+     * @param {Error} cause the error that the rule threw
+     */
+    constructor(token: parser.Token, msg: string, cause: Error) {
+      super(token, new parser.ParseError(msg, cause));
+      this.message = `${msg}: ${cause.message.split("\r\n")[0]}\tat: ${token.lineStart}:${token.startPos}\r\n${cause.stack}`;
+    }
+  }
+  /**The units of a `duration` in milliseconds, from the largest */
+  const DURATION_UNITS: readonly [string, number][] = [
+    ["w", 604_800_000],
+    ["d", 86_400_000],
+    ["h", 3_600_000],
+    ["min", 60_000],
+    ["m", 60_000],
+    ["s", 1_000],
+    ["ms", 1],
+  ];
+  /**
+   * Creates the functions of a type that is declared in a {@link Rule rule}
+   * @param {string} type the declaration, which is `string`, `integer`, `number`, `boolean`, `duration` or
+   * `list(sep=",", of=string)`, where the arguments of `list` are optional and a quoted argument may have `\"` and `\\`
+   * @returns {Pick<Rule, "parse" | "format" | "list">} the functions
+   * @throws {Error} if the type is not one of the above or has an argument that it does not take
+   */
+  function coercion(type: string): Pick<Rule, "parse" | "format" | "list"> {
+    const m = /^\s*([a-z]+)\s*(?:\((.*)\))?\s*$/s.exec(type);
+    if (!utility.isValid(m)) throw Error(`'${type}' is not a type`);
+    const args: { [name: string]: string } = {};
+    const arg = /\s*(\w+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^,"\s]*))\s*(?:,|$)/y;
+    for (let x; arg.lastIndex < (m![2] ?? "").length; ) {
+      if (!utility.isValid((x = arg.exec(m![2]!))))
+        throw Error(`'${type}' does not have valid arguments`);
+      args[x![1]] = x![2]?.replace(/\\(.)/gs, "$1") ?? x![3];
+    }
+    const name = m![1];
+    const allowed = name === "list" ? ["sep", "of"] : [];
+    for (const a in args)
+      if (allowed.indexOf(a) < 0)
+        throw Error(`'${name}' does not have the argument '${a}'`);
+    const wrong = (v: json.Value) =>
+      new expression.ExpressionError(
+        `${json.stringify(v)} cannot be written as ${name}`
+      );
+    switch (name) {
+      case "string":
+        return {
+          list: false,
+          parse: (v) => v,
+          format: (v) => (json.isAtomic(v) && v !== null ? String(v) : ""),
+        };
+      case "integer":
+        return {
+          list: false,
+          parse: (v) => {
+            if (!/^[+-]?\d+$/.test(v.trim())) throw Error("not an integer");
+            const n = Number(v);
+            return Number.isSafeInteger(n) ? n : BigInt(v.trim());
+          },
+          format: (v) => {
+            if (
+              typeof v === "string" ||
+              typeof v === "bigint" ||
+              Number.isSafeInteger(v) ||
+              (v instanceof Decimal && v.isInteger())
+            )
+              return v!.toString();
+            throw wrong(v);
+          },
+        };
+      case "number":
+        return {
+          list: false,
+          parse: (v) => {
+            if (!/^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/.test(v.trim()))
+              throw Error("not a number");
+            return Number(v);
+          },
+          format: (v) => {
+            if (
+              typeof v === "string" ||
+              typeof v === "bigint" ||
+              v instanceof Decimal ||
+              (typeof v === "number" && Number.isFinite(v))
+            )
+              return v.toString();
+            throw wrong(v);
+          },
+        };
+      case "boolean":
+        return {
+          list: false,
+          parse: (v) => {
+            const b = ["true", "yes", "on", "1", "false", "no", "off", "0"].indexOf(
+              v.trim().toLowerCase()
+            );
+            if (b < 0) throw Error("not a boolean");
+            return b < 4;
+          },
+          format: (v) => {
+            if (typeof v === "string") return v;
+            else if (typeof v === "boolean") return v ? "true" : "false";
+            throw wrong(v);
+          },
+        };
+      case "duration":
+        return {
+          list: false,
+          parse: (v) => {
+            const parts = v.trim().match(/\d+(?:\.\d+)?\s*[a-z]*\s*/g);
+            if (!utility.isValid(parts) || parts!.join("") !== v.trim())
+              throw Error("not a duration");
+            return parts!.reduce((ms, x) => {
+              const [, n, unit] = /^([\d.]+)\s*([a-z]*)/.exec(x)!;
+              const u =
+                unit.length === 0
+                  ? 1_000
+                  : DURATION_UNITS.find((y) => y[0] === unit)?.[1];
+              if (!utility.isValid(u)) throw Error(`'${unit}' is not a unit`);
+              return ms + Number(n) * u!;
+            }, 0);
+          },
+          format: (v) => {
+            if (typeof v === "string") return v;
+            else if (typeof v !== "number" || !Number.isFinite(v) || v < 0)
+              throw wrong(v);
+            let text = "";
+            let rest = v;
+            for (const [unit, ms] of DURATION_UNITS) {
+              if (unit === "min" || rest < ms) continue;
+              const n = unit === "ms" ? rest : Math.floor(rest / ms);
+              text += `${n}${unit}`;
+              rest -= n * ms;
+            }
+            return text.length > 0 ? text : "0s";
+          },
+        };
+      case "list": {
+        const sep = args.sep ?? ",";
+        const of = coercion(args.of ?? "string");
+        if (sep.length === 0) throw Error("The separator of a list is empty");
+        else if (of.list) throw Error("A list cannot be of lists");
+        return {
+          list: true,
+          parse: (v) =>
+            v.trim().length === 0
+              ? []
+              : v.split(sep).map((x) => of.parse(x.trim())),
+          format: (v) => {
+            if (typeof v === "string") return v;
+            else if (!Array.isArray(v)) throw wrong(v);
+            return v.map((x) => of.format(x)).join(sep);
+          },
+        };
+      }
+    }
+    throw Error(`'${name}' is not a type`);
+  }
+  /**
+   * Creates a rule
+   * @param {string} pattern the {@link Rule.pattern pattern} of the rule
+   * @param {string} type the type of the rule
+   * @returns {Rule} the rule
+   * @throws {Error} if the type is not valid
+   */
+  function rule(pattern: string, type: string): Rule {
+    const regex = new RegExp(
+      `^${pattern
+        .split(/(\*\*?)/)
+        .map((x) =>
+          x === "**"
+            ? ".*"
+            : x === "*"
+            ? "[^.]*"
+            : x.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        )
+        .join("")}$`,
+      "s"
+    );
+    try {
+      return Object.freeze({
+        pattern,
+        type,
+        ...coercion(type),
+        matches: (section: readonly string[], key: string) =>
+          regex.test([...section, key].join(".")),
+      });
+    } catch (e) {
+      throw new Error(`The rule '${pattern}: ${type}' is not valid`, {
+        cause: e,
+      });
+    }
   }
   /**
    * Preocess the given text by escaping all characters that need to be escaped using {@link Syntax.escape.isSpecial `Syntax.escape.isSpecial`} as a check.
    * @param {string} text the source text to be escaped
    * @param {Syntax} s a reference to a valid syntax with definition for escape
-   * @param {Format} f a format for it's logger reference
+   * @param {Format} [f] a format for it's logger reference
    * @returns {string} the `string` argument escaped
    */
-  function processEscapables(text: string, s: Syntax, f: Format): string {
+  function processEscapables(text: string, s: Syntax, f?: Format): string {
     if (!utility.isValid(s.escape)) return text;
+    else if (utility.isValid(s.escape!.format)) return s.escape!.format!(text);
     let val = "";
     let isQuotable = false;
     for (let i = 0; i < text.length; i++) {
@@ -90,8 +362,8 @@ namespace ini {
           val += escaped;
         } else if (s.escape!.nonQuotedEsc) val += escaped;
         else {
-          if (utility.isValid(f.logger)) {
-            f.logger!.warn(
+          if (utility.isValid(f?.logger)) {
+            f!.logger!.warn(
               `The character '${text[i]}' in string "${text}" needs to be escaped but it's not because the syntax does not support escaping special characters. The next time it is parsed from this format, an error will be thrown`
             );
           }
@@ -104,45 +376,168 @@ namespace ini {
     return isQuotable ? `"${val}"` : val;
   }
   /**
-   * Does the same function as {@link Format.append `Format.append`}. The code here is called by {@link StringFormat.append `StringFormat.append`} and {@link FileFormat.append `FileFormat.append`}
+   * Does the same function as {@link Format.append `Format.append`}. The code here is called by {@link StringFormat.append `StringFormat.append`} and {@link FileFormat.append `FileFormat.append`}. \
+   * \
+   * The header of a section is written again before its properties that come after one of its subsections, and is written for a
+   * section that was only declared by its subsections, so that the properties are read back in the section that has them.
+   * @param {Format<any>} f the format
+   * @param {Section} data the section
+   * @param {Syntax} [s] the syntax
+   * @param {Params} [p] the params
+   * @param {readonly string[]} [path] the names of the section and its parents
    */
-  function append(f: Format<any>, data: Section, s?: Syntax, p?: Params) {
+  function append(
+    f: Format<any>,
+    data: Section,
+    s?: Syntax,
+    p?: Params,
+    path: readonly string[] = []
+  ) {
+    //whether the last header that was written is the header of this section
+    let headed = data.fullname.length > 0;
     for (const key in data.map) {
       if (data.map[key] instanceof Section) {
         f.append(
           data.map[key].comments.preceding.length > 0
-            ? unwrapComments(data.map[key].comments, s)
+            ? unwrapComments(data.map[key].comments, s, p) + lineTerminator(s, p)
             : "",
           s,
           p
         );
         if ((data.map[key] as Section).fullname.length > 0)
           f.append(
-            `${s!.sectionOperators[0]}${(
-              data.map[key] as Section
-            ).fullname.join((s!.nesting ?? { chars: [""] }).chars[0])}${
-              s!.sectionOperators[1]
-            }\n`
+            `${sectionHeader((data.map[key] as Section).fullname, s!)}${lineTerminator(s, p)}`
           );
-        append(f, data.map[key] as Section, s, p);
+        append(f, data.map[key] as Section, s, p, [...path, key]);
+        headed = false;
       } else if (data.map[key] instanceof Property) {
+        if (!headed && path.length > 0)
+          f.append(
+            `${sectionHeader(data.fullname.length > 0 ? data.fullname : path, s!)}${lineTerminator(s, p)}`
+          );
+        headed = true;
         f.append(data.map[key] as Property, s, p);
       } else
         throw new expression.ExpressionError(`Illegal value found at ${key}`);
     }
   }
+  /**
+   * Indents the lines of a value after its first line so that they are parsed as {@link Syntax.continuation continuation lines}.
+   * @param {string} value the value
+   * @param {Syntax} s a reference to a valid syntax
+   * @param {Params} [p] the params with which the value was parsed
+   * @returns {string} the value with a tab at the start of each line after the first, if the syntax supports continuation lines
+   */
+  function indentContinuation(value: string, s: Syntax, p?: Params): string {
+    return s.continuation
+      ? value.replace(/\n/g, `${lineTerminator(s, p)}\t`)
+      : value;
+  }
+  /**
+   * Writes the line of a key and its value, without the comments before it and without a line terminator
+   * @param {KeyValue} kv the key and value
+   * @param {Syntax} s a reference to a valid syntax
+   * @param {Format} [f] a format for it's logger reference
+   * @param {Params} [p] the params with which the key and value were parsed
+   * @returns {string} the key, the delimiter and the value, then the inline comment. The delimiter is not written for a key that
+   * was declared without one, except for a property that is {@link DuplicateDirective.RESET reset} by an empty value.
+   */
+  function assignment(kv: KeyValue, s: Syntax, f?: Format, p?: Params): string {
+    const key = processEscapables(kv.key, s, f);
+    const inline = kv.comments.inline ? ` ${kv.comments.inline}` : "";
+    const pad = s.delimiterPadding === false ? "" : " ";
+    if (kv.value.length > 0)
+      return `${key}${pad}${s.delimiters[0]}${pad}${indentContinuation(
+        processEscapables(kv.value, s, f),
+        s,
+        p
+      )}${inline}`;
+    //an empty value keeps its delimiter, so that it is not read back as a key without a value
+    else if (
+      kv.assigned ||
+      s.duplicateDirective.property === DuplicateDirective.RESET
+    )
+      return `${key}${pad}${s.delimiters[0]}${inline}`;
+    return `${key}${inline}`;
+  }
   /**
    * Stringifies the comment from an expression so that it is attached to a section, properties and texts of a `.ini` data
    * @param {{ preceding: readonly string[] }} comments the comment to be unwrapped
    * @param {Syntax} s a reference to a valid syntax
+   * @param {Params} [p] the params with which the comment was parsed
    * @returns {string} the comment as a `string`
    */
   function unwrapComments(
     comments: { preceding: readonly string[] },
-    s?: Syntax
+    s?: Syntax,
+    p?: Params
   ) {
     // if(utility.isValid(s)) return s!.comments.chars[0] + comments.preceding.join("\n;").concat("\n");
-    return comments.preceding.join("\n");
+    return comments.preceding.join(lineTerminator(s, p));
+  }
+  /**
+   * Gets a section name or key as the syntax reads it
+   * @param {string} name the section name or key as it was parsed
+   * @param {Syntax} s a reference to a valid syntax
+   * @returns {string} the argument in lower case if {@linkcode Syntax.ignoreCase} is `true`, else the argument
+   */
+  function foldCase(name: string, s: Syntax): string {
+    return s.ignoreCase ? name.toLowerCase() : name;
+  }
+  /**
+   * Gets a key as the syntax reads it
+   * @param {string} key the key as it was parsed
+   * @param {Syntax} s a reference to a valid syntax
+   * @returns {string} the argument in lower case if {@linkcode Syntax.ignoreCase} or {@linkcode Syntax.ignoreKeyCase} is `true`,
+   * else the argument
+   */
+  function foldKey(key: string, s: Syntax): string {
+    return s.ignoreKeyCase ? key.toLowerCase() : foldCase(key, s);
+  }
+  /**
+   * Splits a parsed section name into the section name and its {@link Syntax.quotedSubsections quoted subsection name}
+   * @param {string} name the section name as it was parsed, with the quotes of the subsection name
+   * @param {Syntax} s a reference to a valid syntax
+   * @returns {string[]} the section name and the subsection name without its quotes, or only the section name if it has no
+   * subsection name
+   */
+  function sectionNames(name: string, s: Syntax): string[] {
+    const m = s.quotedSubsections ? /^(.*?)\s+"(.*)"$/s.exec(name) : null;
+    return m ? [foldCase(m[1], s), m[2]] : [foldCase(name, s)];
+  }
+  /**
+   * Writes a section header
+   * @param {readonly string[]} fullname the full name of the section
+   * @param {Syntax} s a reference to a valid syntax
+   * @returns {string} the section name between the section operators, with the last name quoted as a subsection name if the syntax
+   * supports {@link Syntax.quotedSubsections quoted subsection names}
+   */
+  function sectionHeader(fullname: readonly string[], s: Syntax): string {
+    const nesting = (s.nesting ?? { chars: [""] }).chars[0];
+    const name =
+      s.quotedSubsections && fullname.length > 1
+        ? `${fullname.slice(0, -1).join(nesting)} "${fullname[
+            fullname.length - 1
+          ].replace(/["\\]/g, "\\$&")}"`
+        : fullname.join(nesting);
+    return `${s.sectionOperators[0]}${name}${s.sectionOperators[1]}`;
+  }
+  /**
+   * Checks if a string is a line terminator
+   * @param {string} s the string to be checked
+   * @returns {boolean} `true` if the argument is `'\n'`, `'\r\n'` or `'\r'`
+   */
+  function isEol(s: string): boolean {
+    return s === "\n" || s === "\r\n" || s === "\r";
+  }
+  /**
+   * Gets the line terminator that a format writes
+   * @param {Syntax} [s] a reference to a valid syntax
+   * @param {Params} [p] the params with which the data was parsed
+   * @returns {string} {@linkcode Syntax.eol}, else the line terminator that was found in the data by the {@linkcode StringLexer}, else `'\n'`
+   */
+  function lineTerminator(s?: Syntax, p?: Params): string {
+    return s?.eol ?? p?.eol ?? "\n";
   }
   /**
    * Checks if the argument is an instance of `Text`.
@@ -175,6 +570,19 @@ namespace ini {
     }
     return x;
   }
+  /**
+   * Gets the last line of the property that was just parsed
+   * @param {Parser} p a reference for a parser
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Params} pa a reference for a Params
+   * @returns {number} the line of the next token if it ends the line, else the line before it, as the line terminator (and any
+   * blank lines after it) was parsed with the property
+   */
+  function lastLine(p: Parser, l: MutableLexer<any>, s: Syntax, pa: Params) {
+    const t = p.peek(l, s, pa);
+    return t.type.equals(EOL) ? t.lineStart : t.lineStart - 1;
+  }
   /**
    * Skips the parsing a number of consequtive whitespaces on a `.ini` data format
    * @param {MutableLexer<any>} l a reference for a lexer
@@ -194,6 +602,98 @@ namespace ini {
       x += p.consume(WHITESPACE, l, s, pa).value;
     return x;
   }
+  /**
+   * Skips the comment lines after an escaped line terminator if the syntax {@link Syntax.commentsInContinuation skips them}
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Parser} p a reference for a parser
+   * @param {Params} pa a reference for a Params
+   * @returns {string} the whitespace at the start of the line that continues the value
+   */
+  function skipContinuedComments(
+    l: MutableLexer<any>,
+    s: Syntax,
+    p: Parser,
+    pa: Params
+  ) {
+    while (true) {
+      const x = skipWhiteSpace(l, s, p, pa);
+      if (!s.commentsInContinuation || !p.match(COMMENT, l, s, pa)) return x;
+      parseComment(l, s, p, pa, p.consume(COMMENT, l, s, pa).value);
+      if (p.match(EOL, l, s, pa)) p.consume(EOL, l, s, pa);
+    }
+  }
+  /**
+   * Creates the error of a line that has a key without a delimiter, for a syntax that {@link Syntax.delimiterRequired requires one}
+   * @param {Text} key the key
+   * @param {number} line the line of the key
+   * @returns {parser.ParseError} the error
+   */
+  function missingDelimiter(key: Text, line: number): parser.ParseError {
+    return new parser.ParseError(
+      `The key '${key.text}' at line ${line} is not followed by a delimiter`
+    );
+  }
+  /**
+   * Continues a value on the line after an escaped line terminator
+   * @param {string} text the value up to and including the parsed escape
+   * @param {string} ws the whitespace at the start of the next line
+   * @param {Syntax} s a reference for a syntax
+   * @returns {string} the value with a single space at its end if the syntax {@link Syntax.trimContinuation trims continuations},
+   * else the value with the whitespace after it
+   */
+  function continueValue(text: string, ws: string, s: Syntax): string {
+    return s.trimContinuation ? `${text.trimEnd()} ` : text + ws;
+  }
+  /**
+   * Parses the continuation lines of a property's value, which are the indented lines after it. Blank lines between continuation
+   * lines are kept as empty lines and comment lines are skipped. Nothing is consumed if the next line that has text is not indented.
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Parser} p a reference for a parser
+   * @param {Params} pa a reference for a Params
+   * @returns {string} the continuation lines, each after a line feed, or an empty string if there are none
+   */
+  function parseContinuation(
+    l: MutableLexer<any>,
+    s: Syntax,
+    p: Parser,
+    pa: Params
+  ): string {
+    let text = "";
+    while (p.match(EOL, l, s, pa)) {
+      //look for the next line that has text without consuming anything
+      let i = 1;
+      let blank = "";
+      let indented = false;
+      while (true) {
+        const t = p.peek(l, s, pa, i);
+        if (t.type.equals(WHITESPACE)) indented = true;
+        else if (t.type.equals(EOL)) {
+          blank += "\n";
+          indented = false;
+        } else if (t.type.equals(COMMENT)) {
+          //a comment line
+          while (
+            !p.peek(l, s, pa, i + 1).type.equals(EOL) &&
+            !p.peek(l, s, pa, i + 1).type.equals(EOF)
+          )
+            i++;
+          indented = false;
+          //the line feed of the comment is not a blank line
+          i++;
+        } else break;
+        i++;
+      }
+      if (!indented || p.peek(l, s, pa, i).type.equals(EOF)) break;
+      for (; i > 0; i--) p.pop(l, s, pa);
+      let line = "";
+      while (!p.match(EOL, l, s, pa) && !p.match(EOF, l, s, pa))
+        line += p.pop(l, s, pa).value;
+      text += `${blank}\n${line.trimEnd()}`;
+    }
+    return text;
+  }
   /**
    * Properly formats `.ini` comments to a string.
    * @param {MutableLexer<any>} l a reference for a lexer
@@ -307,7 +807,10 @@ namespace ini {
    *     isSpecial: s => ["\n", "\r", "\"", "'"].indexOf(s) >= 0 || this.sectionOperators.indexOf(s) >= 0 || this.comments.chars.indexOf(s) >= 0 || this._del.indexOf(s) >= 0 || this.escape.char === s;
    *     parse: s => {}//very long implementation here
    *   },
-   *   parse: v => v.length > 0 ? v : null
+   *   parse: v => v.length > 0 ? v : null,
+   *   continuation: false,
+   *   defaultSection: undefined,
+   *   interpolation: Interpolation.NONE
    * }
    * ```
    * @remark
@@ -342,6 +845,7 @@ namespace ini {
       char: string;
       isSpecial: ((s: string) => boolean) | string[];
       parse: (e: string) => string;
+      format?: (text: string) => string;
     } = {
       char: "\\",
       quoted: true,
@@ -361,6 +865,42 @@ namespace ini {
     /**the parser function of this syntax*/
     private _p: (v: string) => json.Value = (v: string) =>
       v.length > 0 ? v : null;
+    /**`true` if values that are numbers are converted without losing precision before they reach {@linkcode _p} */
+    private _lossless = false;
+    /**The rules that convert the values of some properties instead of {@linkcode _p} */
+    private _rules: Rule[] = [];
+    /**`true` if indented lines after a property continue its value */
+    private _cont = false;
+    /**The name of the section whose properties every other section inherits */
+    private _def?: string;
+    /**How property values are interpolated */
+    private _int = Interpolation.NONE;
+    /**The line terminator written by the formats, or `undefined` for the one found in the data */
+    private _eol?: string;
+    /**`true` if a space is written on either side of the delimiter of a property */
+    private _pad = true;
+    /**`true` if a section name may be followed by a quoted subsection name */
+    private _qs = false;
+    /**`true` if quotes may begin and end anywhere in a value */
+    private _qv = false;
+    /**`true` if a key in double quotes ends at its closing quote */
+    private _qk = false;
+    /**`true` if section names and keys are read in lower case */
+    private _ic = false;
+    /**`true` if keys are read in lower case */
+    private _ikc = false;
+    /**`true` if a property must be in a section */
+    private _rsh = false;
+    /**`true` if comment lines are skipped in a value that is continued by an escaped line terminator */
+    private _cc = false;
+    /**`true` if the whitespace around an escaped line terminator is replaced by a single space */
+    private _tc = false;
+    /**`true` if a key must be followed by a delimiter */
+    private _rd = false;
+    /**Tells whether a key is a list, or `undefined` if every key is */
+    private _lists?: (key: string) => boolean;
+    /**The function that expands `%` specifiers, or `undefined` if they are not expanded */
+    private _spec?: (c: string) => string | undefined;
     /**the infix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
      * the default is `[]`
      * @defaultValue `[]`*/
@@ -747,6 +1287,20 @@ namespace ini {
       }
       return this;
     }
+    /**
+     * Sets the function that writes a key or value with the quotes and escapes it needs to be read back by this syntax. When this is
+     * not set, the characters that are {@link setIsSpecial special} are written as unicode escapes in quoted text.
+     * @param {(text: string) => string} f a function that takes a key or value as it is in memory and returns the text to be written
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if escapes are not supported by this builder
+     * @see {@linkcode Syntax.escape.format}
+     */
+    public setEscapeFormatter(f: (text: string) => string): SyntaxBuilder {
+      if (!utility.isValid(this._esc))
+        throw Error("Escape object is undefined for this Builder");
+      this._esc!.format = f;
+      return this;
+    }
     /**
      * Sets the function that will format text. Will not set anything if the argument is `null` or `undefined`.
      * @param {(esc: string) => json.Value} p a non-null value that is a function with a single string argument that returns a `json.Value` type.
@@ -758,125 +1312,383 @@ namespace ini {
       return this;
     }
     /**
-     * Sets the {@linkplain Syntax.duplicateDirective} for properties and/or sections. See calss declaration docs for the defaults.
-     * @param {DuplicateDirective} dd a non-null {@linkcode DuplicateDirective} value
-     * @param {boolean | undefined} forProperty a value when `undefined` sets both the section and property to the first argument
-     * else if it is `true` set for the property only while `false` sets for the section only.
+     * Converts property values that are canonical json numbers to a `number`, or to a `bigint` or `Decimal` when a `number` cannot hold them
+     * exactly. Every other value is still converted by the {@linkcode setFormatParser format parser}.
+     * @param {boolean} b `true` to convert numbers without losing precision, `false` otherwise
      * @returns {SyntaxBuilder} this same builder object for method chaining
-     * @see {@linkcode Syntax.duplicateDirective}
+     * @see {@linkcode json.lossless}
      */
-    public setDuplicateDirective(
-      dd: DuplicateDirective,
-      forProperty?: boolean
-    ): SyntaxBuilder {
-      if (utility.isValid(forProperty)) {
-        if (forProperty) this._dd.property = dd;
-        else this._dd.section = dd;
-      } else {
-        this._dd.property = dd ?? this._dd.property;
-        this._dd.section = dd ?? this._dd.section;
-      }
+    public supportLosslessNumbers(b: boolean): SyntaxBuilder {
+      this._lossless = !!b;
       return this;
     }
     /**
-     * Attempts to push the second and third argument into the given array. If the non-array arguments already exist in the array, then an overwrite operation is performed.
-     * @param {[parser.GType<string>, Command][]} map an array for type/command tuples
-     * @param { parser.GType<string>} t the type to be added to the array
-     * @param {Command} cmd the command to be added with the type
-     * @returns {void} does not return anything
+     * Adds a rule that converts the values of the properties whose section names and key match a pattern to a type, instead of the
+     * {@linkcode setFormatParser format parser}. A rule replaces the rule that was added with the same pattern. For example:
+     * ```ts
+     * builder
+     *   .addRule("server.port", "integer")
+     *   .addRule("*.enabled", "boolean")
+     *   .addRule("server.timeout", "duration")
+     *   .addRule("paths.*", 'list(sep=":")');
+     * ```
+     * The types are:
+     * - `string` for the value as it was parsed.
+     * - `integer` for a `number`, or a `bigint` if a `number` cannot hold it exactly.
+     * - `number` for a `number`.
+     * - `boolean` for `true`, `yes`, `on` and `1`, and `false`, `no`, `off` and `0`, in any case.
+     * - `duration` for a number of milliseconds, from a value such as `1h 30min`, `1h30m` or `250ms`. The units are `w`, `d`, `h`,
+     * `min` (or `m`), `s` and `ms`, and a number without a unit is in seconds.
+     * - `list(sep=",", of=string)` for an array of the values between the separators, where each one is trimmed and converted to
+     * the type `of`, which cannot be a list. An empty value is an empty array.
+     * @param {string} pattern the names of the sections and the key of the properties, joined with `'.'`, where `*` matches any text
+     * without a `'.'` and `**` matches any text
+     * @param {string} type the type
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if the type is not one of the above
+     * @see {@linkcode Syntax.rules}
      */
-    private _pushOrOverite(
-      map: [parser.GType<string>, Command][],
-      t: parser.GType<string>,
-      cmd: Command
-    ): void {
-      for (let i = 0; i < map.length; i++)
-        if (map[i][0].equals(t)) {
-          map[i] = [t, cmd];
-          return;
-        }
-      map.push([t, cmd]);
+    public addRule(pattern: string, type: string): SyntaxBuilder {
+      const r = rule(pattern, type);
+      const i = this._rules.findIndex((x) => x.pattern === pattern);
+      if (i < 0) this._rules.push(r);
+      else this._rules[i] = r;
+      return this;
     }
     /**
-     * @summary registers an infix {@link Command}
-     * @description
-     * Registers a {@link parser.GType<string>} (which is compatible with infix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
-     * This method should not be called more than once for the same `parser.GType<string>` as that would cause ambiguity on the built {@link Syntax `Syntax`}
-     * object such that each query for a `Command` may have undefined behaviour, as such, consecutive calls of this method with the same `parser.GType<string>` invalidates
-     * the previous call with that `parser.GType<string>`.
-     * @remark
-     * There are no defaults for infix commands, if there are not available by the time {@link build} is called the built `Syntax` will have no access to
-     * infix `Command`s
-     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible infix type.
-     * @param {Command} cmd the command which can parse infix tokens into {@link Expression expression(s)}
-     * @returns {SyntaxBuilder} the same builder object for method chaining
-     * @see parser.Syntax.getCommand
+     * Removes the rule that was added with a pattern
+     * @param {string} pattern the pattern of the rule
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode addRule}
      */
-    public addInfixCommand(
-      type: parser.GType<string>,
-      cmd: Command
-    ): SyntaxBuilder {
-      // this._infCmdlets.push([type, cmd]);
-      this._pushOrOverite(this._infCmdlets, type, cmd);
+    public removeRule(pattern: string): SyntaxBuilder {
+      this._rules = this._rules.filter((x) => x.pattern !== pattern);
       return this;
     }
     /**
-     * Removes the infix command registered with the given type
-     * @param {parser.GType<string>} type the type of command to be removed
-     * @returns {SyntaxBuilder} the same builder object for method chaining
-     * @see addInfixCommand
+     * Allows or disallows the value of a property to continue on the lines after it that are indented
+     * @param {boolean} b `true` to allow continuation lines `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.continuation}
      */
-    public removeInfixCommand(type: parser.GType<string>): SyntaxBuilder {
-      this._infCmdlets = this._infCmdlets.filter((v) => !v[0].equals(type));
+    public supportContinuationLines(b: boolean): SyntaxBuilder {
+      this._cont = !!b;
       return this;
     }
     /**
-     * @summary registers a prefix {@link Command}
-     * @description
-     * Registers a {@link parser.GType<string>} (which is compatible with prefix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
-     * This method should not be called more than once for the same `parser.GType<string>` as that would cause ambiguity on the built {@link Syntax `Syntax`}
-     * object such that each query for a `Command` may have undefined behaviour, as such, consecutive calls of this method with the same `parser.GType<string>` invalidates
-     * the previous call with that `parser.GType<string>`.
-     * @remark
-     * There are no defaults for prefix commands, if there are not available by the time {@link build} is called the built `Syntax` will have no access to
-     * prefix `Command`s
-     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible prefix type.
-     * @param {Command} cmd the command which can parse prefix tokens into {@link Expression expression(s)}
-     * @returns {SyntaxBuilder} the same builder object for method chaining
-     * @see parser.Syntax.getCommand
+     * Allows or disallows a quoted subsection name after a section name, as in git's `[remote "origin"]`
+     * @param {boolean} b `true` to allow quoted subsection names `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.quotedSubsections}
      */
-    public addPrefixCommand(
-      type: parser.GType<string>,
-      cmd: Command
-    ): SyntaxBuilder {
-      // this._infCmdlets.push([type, cmd]);
-      this._pushOrOverite(this._preCmdlets, type, cmd);
+    public supportQuotedSubsections(b: boolean): SyntaxBuilder {
+      this._qs = !!b;
       return this;
     }
     /**
-     * Removes the prefix command registered with the given type
-     * @param {parser.GType<string>} type the type of command to be removed
-     * @returns {SyntaxBuilder} the same builder object for method chaining
-     * @see addPrefixCommand
+     * Allows double quotes to begin and end anywhere in a value, as in git's `key = "a"b`, which is `ab`
+     * @param {boolean} b `true` to allow quotes anywhere in a value `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.quotesInValues}
      */
-    public removePrefixCommand(type: parser.GType<string>): SyntaxBuilder {
-      this._preCmdlets = this._preCmdlets.filter((v) => !v[0].equals(type));
+    public supportQuotesInValues(b: boolean): SyntaxBuilder {
+      this._qv = !!b;
       return this;
     }
     /**
-     * @summary registers a postfix {@link Command}
-     * @description
-     * Registers a {@link parser.GType<string>} (which is compatible with postfix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
-     * This method should not be called more than once for the same `parser.GType<string>` as that would cause ambiguity on the built {@link Syntax `Syntax`}
-     * object such that each query for a `Command` may have undefined behaviour, as such, consecutive calls of this method with the same `parser.GType<string>` invalidates
-     * the previous call with that `parser.GType<string>`.
-     * @remark
-     * Calling this method has no effect on the built `Syntax` as {@link Parser} does not support {@link parser.Direction.POSTFIX} therefore ignore this
-     * method. \
-     * \
-     * There are no defaults for postfix commands, if there are not available by the time {@link build} is called the built `Syntax` will have no access to
-     * postfix `Command`s
-     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible postfix type.
+     * Allows a delimiter in a key that is in double quotes, as in a `.reg` file's `"a=b"="c"`, for a syntax that does not
+     * {@link supportQuotedText support quoted text}
+     * @param {boolean} b `true` to end a quoted key at its closing quote `false` to end it at the first delimiter
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.quotedKeys}
+     */
+    public supportQuotedKeys(b: boolean): SyntaxBuilder {
+      this._qk = !!b;
+      return this;
+    }
+    /**
+     * Makes section names and keys case-insensitive by reading them in lower case. Quoted subsection names keep their case.
+     * @param {boolean} b `true` for case-insensitive names `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.ignoreCase}
+     */
+    public ignoreCase(b: boolean): SyntaxBuilder {
+      this._ic = !!b;
+      return this;
+    }
+    /**
+     * Makes keys case-insensitive by reading them in lower case, as python's `configparser` does. Section names keep their case.
+     * @param {boolean} b `true` for case-insensitive keys `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.ignoreKeyCase}
+     */
+    public ignoreKeyCase(b: boolean): SyntaxBuilder {
+      this._ikc = !!b;
+      return this;
+    }
+    /**
+     * Rejects the properties that are before the first section header, as python's `configparser` does
+     * @param {boolean} b `true` to reject such properties `false` to read them as properties that are not in any section
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.sectionHeaderRequired}
+     */
+    public requireSectionHeader(b: boolean): SyntaxBuilder {
+      this._rsh = !!b;
+      return this;
+    }
+    /**
+     * Skips the comment lines in a value that is continued on the next line by an escaped line terminator, as systemd does
+     * @param {boolean} b `true` to skip the comment lines `false` to read them as part of the value
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.commentsInContinuation}
+     */
+    public supportCommentsInContinuation(b: boolean): SyntaxBuilder {
+      this._cc = !!b;
+      return this;
+    }
+    /**
+     * Joins a value that is continued on the next line by an escaped line terminator with a single space, without the whitespace
+     * before the escape and at the start of the next line, as systemd does
+     * @param {boolean} b `true` to join the lines with a single space `false` to keep the whitespace
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.trimContinuation}
+     */
+    public trimContinuation(b: boolean): SyntaxBuilder {
+      this._tc = !!b;
+      return this;
+    }
+    /**
+     * Rejects a line that has a key without a delimiter, as systemd does
+     * @param {boolean} b `true` to reject such lines `false` to read them as keys without a value
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.delimiterRequired}
+     */
+    public requireDelimiter(b: boolean): SyntaxBuilder {
+      this._rd = !!b;
+      return this;
+    }
+    /**
+     * Sets the function that tells which keys are lists, whose duplicates follow the {@link setDuplicateDirective duplicate directive}
+     * of properties. The other keys are overwritten by their last declaration.
+     * @param {((key: string) => boolean) | undefined} f a function that takes a key and returns `true` if it is a list. `undefined`
+     * for every key to be a list.
+     * @defaultValue `undefined`
+     * @default {undefined}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.lists}
+     */
+    public setLists(f?: (key: string) => boolean): SyntaxBuilder {
+      this._lists = f;
+      return this;
+    }
+    /**
+     * Sets the function that expands specifiers such as systemd's `%n` and `%h` in the values given by {@linkcode JSFormat}
+     * @param {((c: string) => string | undefined) | undefined} f a function that takes the character after a `'%'` and returns what
+     * replaces the specifier, or `undefined` if it is not a valid specifier. `undefined` to not expand specifiers.
+     * @defaultValue `undefined`
+     * @default {undefined}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.specifiers}
+     */
+    public setSpecifiers(f?: (c: string) => string | undefined): SyntaxBuilder {
+      this._spec = f;
+      return this;
+    }
+    /**
+     * Sets the name of the section whose properties are inherited by every other section.
+     * @param {string | undefined} name the name of the section such as `'DEFAULT'` or `undefined` for no such section
+     * @defaultValue `undefined`
+     * @default {undefined}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.defaultSection}
+     */
+    public setDefaultSection(name?: string): SyntaxBuilder {
+      this._def = name;
+      return this;
+    }
+    /**
+     * Sets how references to other properties in a property's value are replaced
+     * @param {Interpolation} i a non-null {@linkcode Interpolation} value
+     * @defaultValue `Interpolation.NONE`
+     * @default {Interpolation.NONE}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.interpolation}
+     */
+    public setInterpolation(i: Interpolation): SyntaxBuilder {
+      this._int = i ?? this._int;
+      return this;
+    }
+    /**
+     * Sets the line terminator that {@linkcode StringFormat} and {@linkcode FileFormat} write. The lexer reads all of `\n`, `\r\n`
+     * and `\r` as line terminators whatever this is set to.
+     * @param {string | undefined} eol `'\n'`, `'\r\n'`, `'\r'` or `undefined` to write the line terminator that was found in the data
+     * @defaultValue `undefined`
+     * @default {undefined}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if the argument is not `undefined` or a supported line terminator
+     * @see {@linkcode Syntax.eol}
+     */
+    public setEol(eol?: string): SyntaxBuilder {
+      if (utility.isValid(eol) && !isEol(eol!))
+        throw new Error(
+          "Only '\\r', '\\n' and '\\r\\n' are supported as line terminators"
+        );
+      this._eol = eol;
+      return this;
+    }
+    /**
+     * Sets whether {@linkcode StringFormat} and {@linkcode FileFormat} write a space on either side of the delimiter of a property,
+     * as in `key = value`, or none, as in `key=value`
+     * @param {boolean} b `true` to write the spaces `false` otherwise
+     * @defaultValue `true`
+     * @default {true}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.delimiterPadding}
+     */
+    public setDelimiterPadding(b: boolean): SyntaxBuilder {
+      this._pad = !!b;
+      return this;
+    }
+    /**
+     * Sets the {@linkplain Syntax.duplicateDirective} for properties and/or sections. See calss declaration docs for the defaults.
+     * @param {DuplicateDirective} dd a non-null {@linkcode DuplicateDirective} value
+     * @param {boolean | undefined} forProperty a value when `undefined` sets both the section and property to the first argument
+     * else if it is `true` set for the property only while `false` sets for the section only.
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.duplicateDirective}
+     */
+    public setDuplicateDirective(
+      dd: DuplicateDirective,
+      forProperty?: boolean
+    ): SyntaxBuilder {
+      if (utility.isValid(forProperty)) {
+        if (forProperty) this._dd.property = dd;
+        else this._dd.section = dd;
+      } else {
+        this._dd.property = dd ?? this._dd.property;
+        this._dd.section = dd ?? this._dd.section;
+      }
+      return this;
+    }
+    /**
+     * Attempts to push the second and third argument into the given array. If the non-array arguments already exist in the array, then an overwrite operation is performed.
+     * @param {[parser.GType<string>, Command][]} map an array for type/command tuples
+     * @param { parser.GType<string>} t the type to be added to the array
+     * @param {Command} cmd the command to be added with the type
+     * @returns {void} does not return anything
+     */
+    private _pushOrOverite(
+      map: [parser.GType<string>, Command][],
+      t: parser.GType<string>,
+      cmd: Command
+    ): void {
+      for (let i = 0; i < map.length; i++)
+        if (map[i][0].equals(t)) {
+          map[i] = [t, cmd];
+          return;
+        }
+      map.push([t, cmd]);
+    }
+    /**
+     * @summary registers an infix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with infix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * This method should not be called more than once for the same `parser.GType<string>` as that would cause ambiguity on the built {@link Syntax `Syntax`}
+     * object such that each query for a `Command` may have undefined behaviour, as such, consecutive calls of this method with the same `parser.GType<string>` invalidates
+     * the previous call with that `parser.GType<string>`.
+     * @remark
+     * There are no defaults for infix commands, if there are not available by the time {@link build} is called the built `Syntax` will have no access to
+     * infix `Command`s
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible infix type.
+     * @param {Command} cmd the command which can parse infix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addInfixCommand(
+      type: parser.GType<string>,
+      cmd: Command
+    ): SyntaxBuilder {
+      // this._infCmdlets.push([type, cmd]);
+      this._pushOrOverite(this._infCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the infix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addInfixCommand
+     */
+    public removeInfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._infCmdlets = this._infCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a prefix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with prefix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * This method should not be called more than once for the same `parser.GType<string>` as that would cause ambiguity on the built {@link Syntax `Syntax`}
+     * object such that each query for a `Command` may have undefined behaviour, as such, consecutive calls of this method with the same `parser.GType<string>` invalidates
+     * the previous call with that `parser.GType<string>`.
+     * @remark
+     * There are no defaults for prefix commands, if there are not available by the time {@link build} is called the built `Syntax` will have no access to
+     * prefix `Command`s
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible prefix type.
+     * @param {Command} cmd the command which can parse prefix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addPrefixCommand(
+      type: parser.GType<string>,
+      cmd: Command
+    ): SyntaxBuilder {
+      // this._infCmdlets.push([type, cmd]);
+      this._pushOrOverite(this._preCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the prefix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPrefixCommand
+     */
+    public removePrefixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._preCmdlets = this._preCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a postfix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with postfix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * This method should not be called more than once for the same `parser.GType<string>` as that would cause ambiguity on the built {@link Syntax `Syntax`}
+     * object such that each query for a `Command` may have undefined behaviour, as such, consecutive calls of this method with the same `parser.GType<string>` invalidates
+     * the previous call with that `parser.GType<string>`.
+     * @remark
+     * Calling this method has no effect on the built `Syntax` as {@link Parser} does not support {@link parser.Direction.POSTFIX} therefore ignore this
+     * method. \
+     * \
+     * There are no defaults for postfix commands, if there are not available by the time {@link build} is called the built `Syntax` will have no access to
+     * postfix `Command`s
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible postfix type.
      * @param {Command} cmd the command which can parse postfix tokens into {@link Expression expression(s)}
      * @returns {SyntaxBuilder} the same builder object for method chaining
      * @see Syntax.getCommand
@@ -992,6 +1804,24 @@ namespace ini {
      */
     public clear(toDefault = true): SyntaxBuilder {
       // this._glo = "";
+      this._lossless = false;
+      this._rules = [];
+      this._cont = false;
+      this._def = undefined;
+      this._int = Interpolation.NONE;
+      this._eol = undefined;
+      this._pad = true;
+      this._qs = false;
+      this._qv = false;
+      this._qk = false;
+      this._ic = false;
+      this._ikc = false;
+      this._rsh = false;
+      this._cc = false;
+      this._tc = false;
+      this._rd = false;
+      this._lists = undefined;
+      this._spec = undefined;
       this._getCmd = (
         d: parser.Direction,
         type: parser.GType<string>
@@ -1164,7 +1994,24 @@ namespace ini {
         escape: utility.isValid(this._esc)
           ? { ...this._esc!, unicode: Object.freeze(this._esc!.unicode) }
           : undefined,
-        parse: this._p,
+        parse: this._lossless ? json.lossless(this._p) : this._p,
+        rules: Object.freeze([...this._rules]),
+        continuation: this._cont,
+        defaultSection: this._def,
+        interpolation: this._int,
+        eol: this._eol,
+        delimiterPadding: this._pad,
+        quotedSubsections: this._qs,
+        quotesInValues: this._qv,
+        quotedKeys: this._qk,
+        ignoreCase: this._ic,
+        ignoreKeyCase: this._ikc,
+        sectionHeaderRequired: this._rsh,
+        commentsInContinuation: this._cc,
+        trimContinuation: this._tc,
+        delimiterRequired: this._rd,
+        lists: this._lists,
+        specifiers: this._spec,
         getCommand: this._getCmd,
       }) as Syntax;
     }
@@ -1214,6 +2061,7 @@ namespace ini {
       (this._esc ??= {} as any).parse = (
         from.escape ?? { parse: (s: string) => s }
       ).parse;
+      (this._esc ??= {} as any).format = from.escape?.format;
 
       //nesting
       (this._nes ??= {} as any).chars = [
@@ -1233,6 +2081,23 @@ namespace ini {
       this._dd = { ...from.duplicateDirective };
 
       this._p = from.parse;
+      this._rules = [...(from.rules ?? [])];
+      this._cont = from.continuation ?? false;
+      this._def = from.defaultSection;
+      this._int = from.interpolation ?? Interpolation.NONE;
+      this._eol = from.eol;
+      this._pad = from.delimiterPadding ?? true;
+      this._qs = from.quotedSubsections ?? false;
+      this._qv = from.quotesInValues ?? false;
+      this._qk = from.quotedKeys ?? false;
+      this._ic = from.ignoreCase ?? false;
+      this._ikc = from.ignoreKeyCase ?? false;
+      this._rsh = from.sectionHeaderRequired ?? false;
+      this._cc = from.commentsInContinuation ?? false;
+      this._tc = from.trimContinuation ?? false;
+      this._rd = from.delimiterRequired ?? false;
+      this._lists = from.lists;
+      this._spec = from.specifiers;
       this._getCmd = from.getCommand;
       return this;
     }
@@ -1391,6 +2256,13 @@ namespace ini {
        * @returns {string} a `string` which is defined as the in-memory representation of the argument
        */
       parse(esc: string): string;
+      /**
+       * Writes a key or value with the quotes and escapes that it needs to be read back by this syntax. When this is `undefined`,
+       * the {@link Syntax.escape.isSpecial special characters} are written as unicode escapes in quoted text.
+       * @param {string} text a key or value as it is in memory
+       * @returns {string} the text that is written
+       */
+      format?(text: string): string;
     };
     /**
      * User defined parsing of a property's value to determine the json data type. This enables users to define the in-memory data type they want for a specific
@@ -1401,60 +2273,229 @@ namespace ini {
      * @returns {json.Value} the in-memory data to be associated with the argument.
      */
     parse(value: string): json.Value;
-  }
-  /**
-   * @summary An object that holds variables for the parsing process.
-   *
-   * @description A mutable visitor object used by the {@linkcode Parser} as a container for variables,
-   * 'a notice board' for the {@link Format formatter}. It is used by the formatter as a container object for
-   * reading neccessary values that give information about the parsing process. For example,
-   * during parsing, this object can specify if the parser is on the left or right side of an assingment.
-   */
-  export class Params {
     /**
-     * The current section's name i.e the name of a property of {@link global} that was last parsed
-     * @type {string}
+     * The rules that convert the values of some properties to a type. {@linkcode JSFormat} converts each value of a property with the
+     * first rule that {@link Rule.matches matches} the property, instead of {@linkcode parse}, and {@linkcode JSONLexer} writes the
+     * values of such a property with the rule.
+     * @type {readonly Rule[]}
      */
-    section: string[] = [];
-    /**An array of strings representing the most recent consecutive line of comments parsed. This value is empty the moment a {@link Section} or {@link Property} is parsed. */
-    block = Array<string>();
-    /**The most recent parsed inline comments as a `string`. This value is reset every time a new section, text or property is parsed */
-    inline: string = "";
-    /**Defines themost recent state of the parser when parsing inside of a section name as a `boolean` */
-    insideSecName = false;
-    /**Specifies whether or not an assignment of a value to a key/name has been done */
-    assigned = false;
-  }
-  /**
-   * A concrete implementation of the {@link parser.GType `GType`}
-   */
-  class Type implements parser.GType<string> {
+    readonly rules: readonly Rule[];
     /**
-     * Constructs a `Type` with an assigned unique id and precedence.
-     * @param {string} id a unique id associated with this {@link parser.Type}
-     * @param {number} precedence the precedence of this type. This determines how it will be evaluated in the evaluation hierarchy (per se)
+     * Allows the value of a property to continue on the lines after it that are indented. For example, a `true` value parses:
+     * ```ini
+     * [options]
+     * install_requires =
+     *     requests
+     *     click>=8.0
+     * ```
+     * as the property `install_requires` with the value `'\nrequests\nclick>=8.0'`. Blank lines between the continuation lines are
+     * kept as empty lines and comment lines are skipped.
+     * @type {boolean}
+     * @readonly
      */
-    public constructor(
-      public readonly id: string,
-      public readonly precedence: number
-    ) {}
-
+    readonly continuation: boolean;
     /**
-     * Test the equality of this `Type` to the given input
-     * @param {(object|undefined)} obj any object to test against `this`
-     * @returns {boolean} `true` if `this` is equal to the input and `false` if otherwise.
+     * The name of the section (such as `'DEFAULT'`) whose properties are inherited by every other section. {@linkcode JSFormat}
+     * adds the properties of this section to a section that does not have a property with the same name. If this is `undefined`, no
+     * section is inherited.
+     * @type {string | undefined}
+     * @readonly
      */
-    public equals(obj?: object): boolean {
-      if (obj instanceof Type)
-        return this.id === obj.id && this.precedence === obj.precedence;
-      return false;
-    }
-  }
-  /**
-   * The type used for end-of-file tokens.
-   * @type {parser.GType<string>}
-   * @constant
-   * @readonly
+    readonly defaultSection?: string;
+    /**
+     * Specifies how {@linkcode JSFormat} replaces references to other properties in a property's value
+     * @type {Interpolation}
+     * @readonly
+     */
+    readonly interpolation: Interpolation;
+    /**
+     * The line terminator (`'\n'`, `'\r\n'` or `'\r'`) that {@linkcode StringFormat} and {@linkcode FileFormat} write. If this is
+     * `undefined`, they write the line terminator that the {@linkcode StringLexer} found first in the data, which it records in
+     * {@linkcode Params.eol}, so that a file is written back with the line endings it was read with. `'\n'` is written if neither is
+     * known.
+     * @type {string | undefined}
+     * @readonly
+     */
+    readonly eol?: string;
+    /**
+     * `true` if {@linkcode StringFormat} and {@linkcode FileFormat} write `key = value`, `false` if they write `key=value`. The
+     * spaces around the delimiter are never part of the key or the value when they are parsed.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly delimiterPadding: boolean;
+    /**
+     * Allows a section name to be followed by a subsection name in double quotes, as in git's `[remote "origin"]`. The subsection
+     * is nested in the section, so {@linkcode JSFormat} gives `{ remote: { origin: {} } }`. In the subsection name, `\"` is a double
+     * quote and `\\` is a backslash, and its case is kept even if {@linkcode ignoreCase} is `true`.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly quotedSubsections: boolean;
+    /**
+     * Reads a value as git does. Double quotes may begin and end anywhere in the value and are removed, so that `"a"b` is `ab`. Outside
+     * quotes, a `'#'` or `';'` begins an inline comment and each whitespace is a space, and the whitespace at either end of the value
+     * is removed before its escapes are parsed, so that `x\t` keeps its tab.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly quotesInValues: boolean;
+    /**
+     * Ends a key that begins with a double quote at its closing quote, so that a delimiter in the quotes is part of the key, as in the
+     * `"a=b"="c"` of a `.reg` file. A `\"` in the key does not close it, and the quotes and escapes are kept in the key. This is for a
+     * syntax that does not {@link escape.quoted support quoted text}, which would remove the quotes.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly quotedKeys: boolean;
+    /**
+     * Makes section names and keys case-insensitive by reading them in lower case, so that `[Core]` and `[core]` are the same
+     * section and `FileMode` is the key `filemode`. {@link quotedSubsections Quoted subsection names} keep their case.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly ignoreCase: boolean;
+    /**
+     * Makes keys case-insensitive by reading them in lower case, so that `Key` and `key` are the same key and `%(KEY)s` refers to
+     * it. Section names keep their case unless {@linkcode ignoreCase} is `true`.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly ignoreKeyCase: boolean;
+    /**
+     * Throws a {@linkcode parser.SyntaxError} for a property that is before the first section header, instead of reading it as a
+     * property that is not in any section.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly sectionHeaderRequired: boolean;
+    /**
+     * Skips the comment lines in a value that is continued by an escaped line terminator, so that the systemd unit
+     * ```ini
+     * Environment=A=1 \
+     * # B=2 \
+     *   C=3
+     * ```
+     * has `A=1` and `C=3` in its value. If this is `false`, such a line is part of the value, as in a `.properties` file.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly commentsInContinuation: boolean;
+    /**
+     * Joins a value that is continued by an escaped line terminator with a single space, without the whitespace before the escape
+     * and at the start of the next line, so that the systemd unit
+     * ```ini
+     * ExecStart=/usr/bin/app \
+     *   --verbose
+     * ```
+     * has `/usr/bin/app --verbose` as its value. If this is `false`, the whitespace is kept around what the
+     * {@link escape.parse escape parser} gives for the escaped line terminator.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly trimContinuation: boolean;
+    /**
+     * Throws a {@linkcode parser.SyntaxError} for a line that has a key without a delimiter, instead of reading it as a key without
+     * a value. This is for a syntax in which `Key=` has a meaning of its own, such as resetting a list.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly delimiterRequired: boolean;
+    /**
+     * Tells whether the property with the given key is a list. The duplicates of a list follow the
+     * {@link duplicateDirective duplicate directive} of properties, and any other property has the value of its last declaration,
+     * as `Description=` of a systemd unit does while `ExecStart=` has all of its values. {@linkcode JSFormat} gives the values of a
+     * list as an array even if it has one value or none. If this is `undefined`, every property is a list and has an array only if
+     * it has more than one value.
+     * @param {string} key the key of the property
+     * @returns {boolean} `true` if the property is a list
+     */
+    readonly lists?: (key: string) => boolean;
+    /**
+     * Expands the specifiers in the values given by {@linkcode JSFormat}, after they are {@link interpolation interpolated}. A `'%'`
+     * and the character after it are replaced by the result of this function for that character, and `%%` is replaced by `%`, so
+     * that a systemd unit's `ExecStart=/usr/bin/%n` can be given as `ExecStart=/usr/bin/foo.service`. If this is `undefined`,
+     * specifiers are not expanded.
+     * @param {string} c the character after the `'%'`
+     * @returns {string | undefined} what replaces the specifier, or `undefined` if it is not a valid specifier
+     */
+    readonly specifiers?: (c: string) => string | undefined;
+  }
+  /**
+   * @summary An object that holds variables for the parsing process.
+   *
+   * @description A mutable visitor object used by the {@linkcode Parser} as a container for variables,
+   * 'a notice board' for the {@link Format formatter}. It is used by the formatter as a container object for
+   * reading neccessary values that give information about the parsing process. For example,
+   * during parsing, this object can specify if the parser is on the left or right side of an assingment.
+   */
+  export class Params {
+    /**
+     * The current section's name i.e the name of a property of {@link global} that was last parsed
+     * @type {string}
+     */
+    section: string[] = [];
+    /**An array of strings representing the most recent consecutive line of comments parsed. This value is empty the moment a {@link Section} or {@link Property} is parsed. */
+    block = Array<string>();
+    /**The most recent parsed inline comments as a `string`. This value is reset every time a new section, text or property is parsed */
+    inline: string = "";
+    /**Defines themost recent state of the parser when parsing inside of a section name as a `boolean` */
+    insideSecName = false;
+    /**Specifies whether or not an assignment of a value to a key/name has been done */
+    assigned = false;
+    /**
+     * The first line terminator (`'\n'`, `'\r\n'` or `'\r'`) that the {@linkcode StringLexer} found in the data. This is
+     * `undefined` until a line terminator is found.
+     * @type {string | undefined}
+     */
+    eol?: string;
+    /**
+     * The path of the file whose data is being parsed, which is recorded in the {@linkcode Origin} of every property. This is
+     * `undefined` if the data is not from a file.
+     * @type {string | undefined}
+     */
+    file?: string;
+    /**
+     * The first and last line of every section header and property in the order in which they were parsed. The expression of a
+     * header is its section, without the properties that are in it, and the expression of a property is its key and value.
+     * {@linkcode Document} uses these to find the text of each one in the data.
+     */
+    spans: {
+      readonly e: Expression;
+      readonly first: number;
+      readonly last: number;
+    }[] = [];
+  }
+  /**
+   * A concrete implementation of the {@link parser.GType `GType`}
+   */
+  class Type implements parser.GType<string> {
+    /**
+     * Constructs a `Type` with an assigned unique id and precedence.
+     * @param {string} id a unique id associated with this {@link parser.Type}
+     * @param {number} precedence the precedence of this type. This determines how it will be evaluated in the evaluation hierarchy (per se)
+     */
+    public constructor(
+      public readonly id: string,
+      public readonly precedence: number
+    ) {}
+
+    /**
+     * Test the equality of this `Type` to the given input
+     * @param {(object|undefined)} obj any object to test against `this`
+     * @returns {boolean} `true` if `this` is equal to the input and `false` if otherwise.
+     */
+    public equals(obj?: object): boolean {
+      if (obj instanceof Type)
+        return this.id === obj.id && this.precedence === obj.precedence;
+      return false;
+    }
+  }
+  /**
+   * The type used for end-of-file tokens.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
    */
   export const EOF: parser.GType<string> = new Type(
     "-1",
@@ -1696,46 +2737,52 @@ namespace ini {
     constructor() {
       this._queue = Array<Token>(new Token("", INIT, -1, -1, -1));
     }
-    /**Called by {@linkcode process} */
-    private _process(o: json.Value, s: Syntax, name = Array<Token>()) {
+    /**
+     * Called by {@linkcode process}
+     * @param {json.Value} o the value
+     * @param {Syntax} s the syntax
+     * @param {Token[]} name the tokens of the header of the section that is written before the first property of `o`
+     * @param {readonly string[]} path the names of the section that `o` is written as, for the {@link Syntax.rules rules}
+     */
+    private _process(
+      o: json.Value,
+      s: Syntax,
+      name = Array<Token>(),
+      path: readonly string[] = []
+    ) {
       if (json.isAtomic(o)) {
-        if (name.length > 0) {
-          do {
-            this.#manufacture(name.shift()!);
-          } while (name.length > 0);
-          this.#manufacture(
-            new Token(s.sectionOperators[1], SECTION_END, 0, 0, this._i++)
-          );
-          this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
-        }
+        this.#header(name, s);
         this.#manufacture(
           new Token(o !== null ? String(o) : "", IDENTIFIER, 0, 0, this._i++)
         );
       } else if (Array.isArray(o)) {
         for (let i = 0; i < o.length; i++) {
           if (json.isAtomic(o[i])) {
-            if (name.length > 0) {
-              do {
-                this.#manufacture(name.shift()!);
-              } while (name.length > 0);
-              this.#manufacture(
-                new Token(s.sectionOperators[1], SECTION_END, 0, 0, this._i++)
-              );
-              this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
-            }
+            this.#header(name, s);
             this.#manufacture(
               new Token(i.toString(), IDENTIFIER, 0, 0, this._i++)
             );
-            this.#manufacture(
-              new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
-            );
-            this.#manufacture(
-              new Token(String(o[i] ?? ""), IDENTIFIER, 0, 0, this._i++)
-            );
+            //a key without a value is read back as `null`
+            if (o[i] !== null) {
+              this.#manufacture(
+                new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
+              );
+              this.#manufacture(
+                new Token(
+                  this.#text(o[i], s, path, i.toString()),
+                  IDENTIFIER,
+                  0,
+                  0,
+                  this._i++
+                )
+              );
+            }
             this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
           } else if (Array.isArray(o[i])) {
             let array = o[i] as any[];
-            if (json.arrayIsAtomic(array))
+            if (json.arrayIsAtomic(array)) {
+              array = this.#texts(array, s, path, i.toString());
+              this.#header(name, s);
               for (let j = 0; j < array.length; j++) {
                 this.#manufacture(
                   new Token(i.toString(), IDENTIFIER, 0, 0, this._i++)
@@ -1744,11 +2791,11 @@ namespace ini {
                   new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
                 );
                 this.#manufacture(
-                  new Token(String(array[j] ?? ""), IDENTIFIER, 0, 0, this._i++)
+                  new Token(array[j], IDENTIFIER, 0, 0, this._i++)
                 );
                 this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
               }
-            else if (utility.isValid(s.nesting)) {
+            } else if (utility.isValid(s.nesting)) {
               if (name.length < 1)
                 name.push(
                   new Token(
@@ -1764,7 +2811,7 @@ namespace ini {
                   new Token(s.nesting!.chars[0], SUB_SECTION, 0, 0, this._i++)
                 );
               name.push(new Token(i.toString(), IDENTIFIER, 0, 0, this._i++));
-              this._process(o[i], s, name);
+              this._process(o[i], s, name, [...path, i.toString()]);
             } else {
               this.#manufacture(
                 new Token(i.toString(), IDENTIFIER, 0, 0, this._i++)
@@ -1773,7 +2820,7 @@ namespace ini {
                 new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
               );
               this.#manufacture(
-                new Token(JSON.stringify(o[i]), IDENTIFIER, 0, 0, this._i++)
+                new Token(json.stringify(o[i]), IDENTIFIER, 0, 0, this._i++)
               );
               this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
             }
@@ -1794,7 +2841,7 @@ namespace ini {
                   new Token(s.nesting!.chars[0], SUB_SECTION, 0, 0, this._i++)
                 );
               name.push(new Token(i.toString(), IDENTIFIER, 0, 0, this._i++));
-              this._process(o[i], s, name);
+              this._process(o[i], s, name, [...path, i.toString()]);
             } else {
               this.#manufacture(
                 new Token(i.toString(), IDENTIFIER, 0, 0, this._i++)
@@ -1803,7 +2850,7 @@ namespace ini {
                 new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
               );
               this.#manufacture(
-                new Token(JSON.stringify(o[i]), IDENTIFIER, 0, 0, this._i++)
+                new Token(json.stringify(o[i]), IDENTIFIER, 0, 0, this._i++)
               );
               this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
             }
@@ -1812,42 +2859,39 @@ namespace ini {
       } else if (typeof o === "object") {
         for (const key in o) {
           if (json.isAtomic(o[key])) {
-            if (name.length > 0) {
-              do {
-                this.#manufacture(name.shift()!);
-              } while (name.length > 0);
+            this.#header(name, s);
+            this.#manufacture(new Token(key, IDENTIFIER, 0, 0, this._i++));
+            //a key without a value is read back as `null`
+            if (o[key] !== null) {
               this.#manufacture(
-                new Token(s.sectionOperators[1], SECTION_END, 0, 0, this._i++)
+                new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
+              );
+              this.#manufacture(
+                new Token(
+                  this.#text(o[key], s, path, key),
+                  IDENTIFIER,
+                  0,
+                  0,
+                  this._i++
+                )
               );
-              this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
             }
-            this.#manufacture(new Token(key, IDENTIFIER, 0, 0, this._i++));
-            this.#manufacture(
-              new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
-            );
-            this.#manufacture(
-              new Token(String(o[key] ?? ""), IDENTIFIER, 0, 0, this._i++)
-            );
             this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
           } else if (Array.isArray(o[key])) {
-            if (json.arrayIsAtomic(o[key] as any[]))
-              for (let j = 0; j < (o[key] as any[]).length; j++) {
+            if (json.arrayIsAtomic(o[key] as any[])) {
+              const array = this.#texts(o[key] as any[], s, path, key);
+              this.#header(name, s);
+              for (let j = 0; j < array.length; j++) {
                 this.#manufacture(new Token(key, IDENTIFIER, 0, 0, this._i++));
                 this.#manufacture(
                   new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
                 );
                 this.#manufacture(
-                  new Token(
-                    String((o[key] as any[])[j] ?? ""),
-                    IDENTIFIER,
-                    0,
-                    0,
-                    this._i++
-                  )
+                  new Token(array[j], IDENTIFIER, 0, 0, this._i++)
                 );
                 this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
               }
-            else if (utility.isValid(s.nesting)) {
+            } else if (utility.isValid(s.nesting)) {
               if (name.length < 1)
                 name.push(
                   new Token(
@@ -1863,14 +2907,14 @@ namespace ini {
                   new Token(s.nesting!.chars[0], SUB_SECTION, 0, 0, this._i++)
                 );
               name.push(new Token(key, IDENTIFIER, 0, 0, this._i++));
-              this._process(o[key] as any[], s, name);
+              this._process(o[key] as any[], s, name, [...path, key]);
             } else {
               this.#manufacture(new Token(key, IDENTIFIER, 0, 0, this._i++));
               this.#manufacture(
                 new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
               );
               this.#manufacture(
-                new Token(JSON.stringify(o[key]), IDENTIFIER, 0, 0, this._i++)
+                new Token(json.stringify(o[key]), IDENTIFIER, 0, 0, this._i++)
               );
               this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
             }
@@ -1891,14 +2935,14 @@ namespace ini {
                   new Token(s.nesting!.chars[0], SUB_SECTION, 0, 0, this._i++)
                 );
               name.push(new Token(key, IDENTIFIER, 0, 0, this._i++));
-              this._process(o[key], s, name);
+              this._process(o[key], s, name, [...path, key]);
             } else {
               this.#manufacture(new Token(key, IDENTIFIER, 0, 0, this._i++));
               this.#manufacture(
                 new Token(s.delimiters[0], ASSIGNMENT, 0, 0, this._i++)
               );
               this.#manufacture(
-                new Token(JSON.stringify(o[key]), IDENTIFIER, 0, 0, this._i++)
+                new Token(json.stringify(o[key]), IDENTIFIER, 0, 0, this._i++)
               );
               this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
             }
@@ -1906,6 +2950,59 @@ namespace ini {
         }
       }
     }
+    /**
+     * Gets the text of a value of a property
+     * @param {json.Value} v the value
+     * @param {Syntax} s the syntax
+     * @param {readonly string[]} path the names of the section of the property
+     * @param {string} key the key of the property
+     * @returns {string} an empty string for `null`, else the value as the {@link Syntax.rules rule} of the property writes it, or
+     * `String(v)` if it has none
+     * @throws {expression.ExpressionError} if the value is not of the type of the rule
+     */
+    #text(
+      v: json.Value,
+      s: Syntax,
+      path: readonly string[],
+      key: string
+    ): string {
+      if (!utility.isValid(v)) return "";
+      const rule = s.rules?.find((x) => x.matches(path, key));
+      return utility.isValid(rule) ? rule!.format(v) : String(v);
+    }
+    /**
+     * Gets the texts of the values of a property whose value is an array of atoms
+     * @param {json.Value[]} array the values
+     * @param {Syntax} s the syntax
+     * @param {readonly string[]} path the names of the section of the property
+     * @param {string} key the key of the property
+     * @returns {string[]} one text for each value, or the whole array as one text if the property has a list rule
+     */
+    #texts(
+      array: json.Value[],
+      s: Syntax,
+      path: readonly string[],
+      key: string
+    ): string[] {
+      const rule = s.rules?.find((x) => x.matches(path, key));
+      if (rule?.list) return [rule.format(array)];
+      return array.map((x) => this.#text(x, s, path, key));
+    }
+    /**
+     * Writes the header of a section before its first property, if it has not been written
+     * @param {Token[]} name the tokens of the header, which are removed as they are written
+     * @param {Syntax} s the syntax
+     */
+    #header(name: Token[], s: Syntax) {
+      if (name.length === 0) return;
+      do {
+        this.#manufacture(name.shift()!);
+      } while (name.length > 0);
+      this.#manufacture(
+        new Token(s.sectionOperators[1], SECTION_END, 0, 0, this._i++)
+      );
+      this.#manufacture(new Token("\n", EOL, 0, 0, this._i++));
+    }
     #manufacture(t: Token) {
       this._queue.push(t);
       this._canProcess = false;
@@ -1923,7 +3020,7 @@ namespace ini {
         this.#manufacture(
           new Token(chunk ? "true" : "false", IDENTIFIER, 0, 0, this._i++)
         );
-      else if (typeof chunk === "number")
+      else if (typeof chunk === "number" || typeof chunk === "bigint")
         this.#manufacture(
           new Token(String(chunk), IDENTIFIER, 0, 0, this._i++)
         );
@@ -2009,7 +3106,17 @@ namespace ini {
       this.#text = "";
       this.#escText = "";
     }
-    #eol = "\n"; //utility.eol;
+    /**`true` once {@linkcode end} is called, so that a `\r` at the end of the data is not held back for a `\n` that will never come */
+    #ending = false;
+    /**`true` if the last character was an escaped `\r`, whose `\n` (if it has one) does not end a quoted value */
+    #escCr = false;
+    /**`true` if a section name was begun on this line and has not ended */
+    #inName = false;
+    /**
+     * The number of section operators in the section name that is being read that have not been closed. These are part of the
+     * name, as in the glob `[*.[ch]]`.
+     */
+    #brackets = 0;
     #isStart() {
       return this.#ln === 0 && this.#li === 0;
     }
@@ -2026,16 +3133,33 @@ namespace ini {
       this.#queue.push(t);
     }
     end(syntax: Syntax, params: Params): void {
+      this.#ending = true;
       if (this.canProcess()) this.process("", syntax, params);
       this.process("\n", syntax, params);
       // if(this.#queue[this.#queue.length - 1] && !this.#queue[this.#queue.length - 1].type.equals(EOL))
       //     this.process(this.#eol, syntax, params);
     }
+    /**
+     * Tokenises a chunk of `.ini` data. A line may end with `\n`, `\r\n` or `\r`, and the first of these that is found is recorded
+     * in {@linkcode Params.eol}. A `\r` at the end of a chunk is held until the next chunk (or {@linkcode end}) shows whether a `\n`
+     * follows it.
+     * @inheritdoc
+     */
     process(chunk: string = "", syntax: Syntax, p: Params): void {
       this.src += chunk;
       while (this.src.length > 0) {
-        const token = this.#shiftSrc(1)!;
-        this.#li++;
+        let token = this.#shiftSrc(1)!;
+        if (token === "\r" && this.#escEven()) {
+          if (this.src.length === 0 && !this.#ending) {
+            this.src = token;
+            break;
+          } else if (this.src[0] === "\n") token += this.#shiftSrc(1)!;
+        }
+        //an escaped '\r' is read with the '\n' after it by the parser, and that '\n' ends the line
+        const eol = isEol(token) && (token !== "\r" || this.#escEven());
+        const escCr =
+          token === "\r" && !this.#escEven() && this.#escText.length === 0;
+        this.#li += token.length;
         if (!this.#escEven()) {
           if (this.#escText.length === 0) {
             this.#escText += token;
@@ -2107,8 +3231,10 @@ namespace ini {
           //     this.#escText = "";
           //     this.#esc = 0;
           // }
-        } else if (token === this.#eol) {
-          // if(this.#text[this.#text.length - 1] === "\r") this.#text = this.#text.substring(0, this.#text.length - 1);
+        } else if (eol) {
+          //the '\n' that end() adds is not a line terminator of the data
+          if (!utility.isValid(p.eol) && !(this.#ending && token === "\n"))
+            p.eol = token;
           if (this.#text.length > 0) {
             this.#manufacture(
               new Token(
@@ -2126,7 +3252,7 @@ namespace ini {
           );
           this.#escText = "";
           this.#esc = 0;
-          this.#quoteType = null as any;
+          if (!this.#escCr || token !== "\n") this.#quoteType = null as any;
         } else if (syntax.comments.chars.indexOf(token) >= 0) {
           if (this.#text.length > 0) {
             this.#manufacture(
@@ -2178,7 +3304,17 @@ namespace ini {
               this.#li - token.length
             )
           );
+        } else if (token === syntax.sectionOperators[0] && this.#inName) {
+          this.#brackets++;
+          this.#text += token;
+        } else if (
+          token === syntax.sectionOperators[1] &&
+          this.#brackets > 0
+        ) {
+          this.#brackets--;
+          this.#text += token;
         } else if (token === syntax.sectionOperators[0]) {
+          this.#inName = true;
           if (this.#text.length > 0) {
             this.#manufacture(
               new Token(
@@ -2203,6 +3339,7 @@ namespace ini {
           this.#escText = "";
           this.#esc = 0;
         } else if (token === syntax.sectionOperators[1]) {
+          this.#inName = false;
           if (this.#text.length > 0) {
             this.#manufacture(
               new Token(
@@ -2366,10 +3503,13 @@ namespace ini {
         } else {
           this.#text += token;
         }
-        if (token === this.#eol) {
+        if (eol) {
           this.#ln++;
-          this.#li = 0;
+          this.#li = 1;
+          this.#inName = false;
+          this.#brackets = 0;
         }
+        this.#escCr = escCr;
       }
     }
     processed = () => this.#queue;
@@ -2500,6 +3640,7 @@ namespace ini {
       // // console.log("assignment with '" + yp.value + "'");
 
       skipWhiteSpace(l, s, p, pa!);
+      const position = p.peek(l, s, pa!).startPos;
 
       try {
         const rightExpr = p.match(EOL, l, s, pa)
@@ -2519,7 +3660,7 @@ namespace ini {
           case parser.Direction.INFIX:
           case parser.Direction.POSTFIX:
           default: {
-            left = isText(ap) ? (ap as Text).text : "";
+            left = isText(ap) ? foldKey((ap as Text).text, s) : "";
             if (utility.isValid(rightExpr) && !(rightExpr instanceof Text))
               throw new parser.ParseError(
                 `Could not parse whatever was after the assignment operator at line ${yp.lineStart}, position ${yp.startPos}`
@@ -2529,16 +3670,25 @@ namespace ini {
             pa!.block = [];
           }
         }
+        //the inline comment stays with the property instead of becoming a comment of the next line
+        if (s.comments.inline && p.match(COMMENT, l, s, pa)) {
+          const c = parseComment(l, s, p, pa!, p.consume(COMMENT, l, s, pa).value);
+          if (s.comments.retain) pa!.inline = c;
+        }
+        if (s.continuation) right += parseContinuation(l, s, p, pa!);
       } catch (e: any) {
         throw new parser.SyntaxError(yp, e);
       }
       pa!.assigned = false;
       // // console.log(`Assign; token: ${yp.value}, result: left > ${left}, right >${right}`);
-      return new KeyValue(
+      const kv = new KeyValue(
         { preceding: Object.freeze(preceding), inline: pa!.inline },
         left,
-        right
+        right,
+        { file: pa!.file, line: yp.lineStart, position }
       );
+      pa!.inline = "";
+      return kv;
     }
   }
   /**
@@ -2570,9 +3720,9 @@ namespace ini {
           try {
             const text = p.parseWithPrecedence(yp.type.precedence, l, s, pa);
             if (text instanceof Text) {
-              pa!.section.push(text.text);
+              pa!.section.push(...sectionNames(text.text, s));
             } else if (text instanceof KeyValue) {
-              pa!.section.push(text.key + text.value);
+              pa!.section.push(...sectionNames(text.key + text.value, s));
             } else throw new parser.ParseError("section name not found");
           } catch (e: any) {
             throw new parser.SyntaxError(yp, e);
@@ -2585,9 +3735,10 @@ namespace ini {
           try {
             const text = p.parseWithPrecedence(yp.type.precedence, l, s, pa);
             // // console.log(JSON.stringify(text));
-            if (text instanceof Text) pa!.section.push(text.text);
+            if (text instanceof Text)
+              pa!.section.push(...sectionNames(text.text, s));
             else if (text instanceof KeyValue) {
-              pa!.section.push(text.key + text.value);
+              pa!.section.push(...sectionNames(text.key + text.value, s));
             } else throw new parser.ParseError("section name not found");
           } catch (e: any) {
             throw new parser.SyntaxError(yp, e);
@@ -2607,11 +3758,14 @@ namespace ini {
       //create and enforce section scope by parsing all properties in the scope
       const scope = new Section(
         { preceding: Object.freeze([...pa!.block]), inline: pa!.inline },
-        pa!.section
+        Object.freeze([...pa!.section])
       );
+      pa!.spans.push({ e: scope, first: yp.lineStart, last: yp.lineStart });
       pa!.block = [];
       pa!.inline = "";
       while (!p.match(SECTION_START, l, s, pa!) && !p.match(EOF, l, s, pa!)) {
+        const first = p.peek(l, s, pa!);
+        const line = first.lineStart;
         let prop;
         try {
           /* low enough to parse assignments but high enough to stop just before an eol */
@@ -2626,14 +3780,19 @@ namespace ini {
         } else if (prop instanceof KeyValue || prop instanceof Text) {
           //see KeyValue class docs
           if (prop instanceof Text) {
+            if (s.delimiterRequired)
+              throw new parser.SyntaxError(first, missingDelimiter(prop, line));
             prop = new KeyValue(
               { preceding: Object.freeze([...pa!.block]), inline: pa!.inline },
-              prop.text,
-              ""
+              foldKey(prop.text, s),
+              "",
+              { file: pa!.file, line },
+              false
             );
             pa!.block = [];
             pa!.inline = "";
           }
+          pa!.spans.push({ e: prop, first: line, last: lastLine(p, l, s, pa!) });
           try {
             // console.log('adding', prop);
             scope.add(s, [], prop as KeyValue);
@@ -2671,6 +3830,8 @@ namespace ini {
       s: Syntax,
       pa?: Params | undefined
     ): Expression {
+      if (s.quotesInValues && pa!.assigned && !pa!.insideSecName)
+        return this.#value(yp, p, l, s, pa!);
       let text = "";
       let src = yp.value;
       if (yp.type.equals(QUOTE)) {
@@ -2822,6 +3983,11 @@ namespace ini {
           text += s.escape!.parse(esc0 + escaped0.value);
         }
         src += escaped0.value + val;
+        if (isEol(escaped0.value)) {
+          val = skipContinuedComments(l, s, p, pa!);
+          text = continueValue(text, val, s);
+          src += val;
+        }
         while (true) {
           if (p.match(IDENTIFIER, l, s, pa!)) {
             val = p.consume(IDENTIFIER, l, s, pa).value;
@@ -2846,6 +4012,14 @@ namespace ini {
             val = p.consume(COMMENT, l, s, pa).value;
             text += val;
             src += val;
+          } else if (
+            (p.match(SECTION_START, l, s, pa!) ||
+              p.match(SECTION_END, l, s, pa!)) &&
+            pa!.assigned
+          ) {
+            val = p.pop(l, s, pa!).value;
+            text += val;
+            src += val;
           } else if (p.match(QUOTE, l, s, pa!)) {
             val = p.consume(QUOTE, l, s, pa).value;
             text += val;
@@ -2878,6 +4052,11 @@ namespace ini {
               text += s.escape!.parse(esc.value + escaped.value);
             }
             src += esc.value + escaped.value + val;
+            if (isEol(escaped.value)) {
+              val = skipContinuedComments(l, s, p, pa!);
+              text = continueValue(text, val, s);
+              src += val;
+            }
           } else break;
         }
         // console.log({text});
@@ -2899,7 +4078,10 @@ namespace ini {
             src += val;
           } else if (
             (p.match(ASSIGNMENT, l, s, pa!) && pa!.assigned) ||
-            (p.match(ASSIGNMENT, l, s, pa) && pa!.insideSecName)
+            (p.match(ASSIGNMENT, l, s, pa) && pa!.insideSecName) ||
+            (p.match(ASSIGNMENT, l, s, pa) &&
+              s.quotedKeys &&
+              /^"(?:[^"\\]|\\.)*$/s.test(text))
           ) {
             let val = p.consume(ASSIGNMENT, l, s, pa).value;
             text += val;
@@ -2908,6 +4090,14 @@ namespace ini {
             let val = p.consume(COMMENT, l, s, pa).value;
             text += val;
             src += val;
+          } else if (
+            (p.match(SECTION_START, l, s, pa!) ||
+              p.match(SECTION_END, l, s, pa!)) &&
+            pa!.assigned
+          ) {
+            let val = p.pop(l, s, pa!).value;
+            text += val;
+            src += val;
           } else if (p.match(QUOTE, l, s, pa!)) {
             let val = p.consume(QUOTE, l, s, pa).value;
             text += val;
@@ -2940,12 +4130,81 @@ namespace ini {
               text += s.escape!.parse(esc.value + escaped.value);
             }
             src += esc.value + escaped.value + val;
+            if (isEol(escaped.value)) {
+              val = skipContinuedComments(l, s, p, pa!);
+              text = continueValue(text, val, s);
+              src += val;
+            }
           } else break;
         }
         text = text.trim();
       }
       return new Text(text, src);
     }
+    /**
+     * Parses a value of a syntax that {@link Syntax.quotesInValues allows quotes anywhere in a value}, up to the end of the line or
+     * an inline comment
+     * @param {Token} yp the first token of the value
+     * @param {Parser} p a reference for a parser
+     * @param {MutableLexer<string>} l a reference for a lexer
+     * @param {Syntax} s a reference for a syntax
+     * @param {Params} pa a reference for a Params
+     * @returns {Text} the value
+     * @throws {parser.ParseError} if a quote in the value is not closed
+     * @throws {parser.SyntaxError} if an escape in the value is not valid for the syntax
+     */
+    #value(
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa: Params
+    ): Text {
+      let text = "";
+      let src = "";
+      let quoted = false;
+      //the whitespace outside quotes that is written as spaces if more of the value comes after it
+      let spaces = 0;
+      const add = (x: string) => {
+        if (text.length > 0) text += " ".repeat(spaces);
+        spaces = 0;
+        text += x;
+      };
+      for (let t = yp; ; t = p.pop(l, s, pa)) {
+        src += t.value;
+        if (t.type.equals(D_QUOTE) || t.type.equals(D_QUOTE_END)) {
+          add("");
+          quoted = !quoted;
+        } else if (t.type.equals(ESCAPE)) {
+          const escaped = p.consume(ESCAPED, l, s, pa);
+          const val =
+            escaped.value === "\r" && p.match(EOL, l, s, pa)
+              ? p.consume(EOL, l, s, pa).value
+              : "";
+          try {
+            add(s.escape!.parse(t.value + (val.length > 0 ? val : escaped.value)));
+          } catch (e) {
+            throw new parser.SyntaxError(
+              escaped,
+              e instanceof Error ? e : new Error(String(e))
+            );
+          }
+          src += escaped.value + val;
+        } else
+          for (const c of t.value)
+            if (!quoted && utility.isWhitespace(c)) spaces++;
+            else add(c);
+        if (
+          p.match(EOL, l, s, pa) ||
+          p.match(EOF, l, s, pa) ||
+          (p.match(COMMENT, l, s, pa) && s.comments.inline && !quoted)
+        )
+          break;
+      }
+      if (quoted)
+        throw new parser.ParseError(`The quote in ${src} is not closed`);
+      return new Text(text, src);
+    }
   }
   /**
    * A command to parse the eol token when the parser encounters one. It returns `undefined` after consuming all whitespaces and blank lines.
@@ -2978,20 +4237,37 @@ namespace ini {
     ): Expression {
       ap = new Section(emptyComment());
       // console.log("Intialize");
+      //the indentation of the first line, which may be a comment
+      skipBlankLines(l, s, p, pa!);
       while (!p.match(EOF, l, s, pa)) {
+        const first = p.peek(l, s, pa!);
+        const line = first.lineStart;
         let exp = p.parse(l, s, pa);
         if (!utility.isValid(exp)) {
           //a blank or comment line
           continue;
         } else if (exp instanceof Text) {
+          if (s.delimiterRequired)
+            throw new parser.SyntaxError(first, missingDelimiter(exp, line));
           exp = new KeyValue(
             { preceding: Object.freeze([...pa!.block]), inline: pa!.inline },
-            exp.text,
-            ""
+            foldKey(exp.text, s),
+            "",
+            { file: pa!.file, line },
+            false
           );
           pa!.block = [];
           pa!.inline = "";
         }
+        if (exp instanceof KeyValue && s.sectionHeaderRequired)
+          throw new parser.SyntaxError(
+            first,
+            new parser.ParseError(
+              `The property '${exp.key}' at line ${line} is before the first section header`
+            )
+          );
+        if (exp instanceof KeyValue)
+          pa!.spans.push({ e: exp, first: line, last: lastLine(p, l, s, pa!) });
         (ap as Section).add(s, [...pa!.section], exp as Section | KeyValue);
         // skipWhiteSpace(l, s, p, pa!);
         // skipBlankLines(l, s, p, pa!);
@@ -3010,6 +4286,17 @@ namespace ini {
     };
     format(format: Format, syntax?: Syntax, params?: Params | any): void;
   }
+  /**
+   * The place in the data where a property was defined
+   */
+  export type Origin = {
+    /**The path of the file that has the property, or `undefined` if the data was not read from a file */
+    readonly file?: string;
+    /**The line of the property, starting from 1, or `0` if the property was not parsed from text */
+    readonly line: number;
+    /**The position of the value within its line, starting from 1, or `undefined` if it is not known */
+    readonly position?: number;
+  };
   /**
    * @summary
    * A representation of a key assigned to a value.
@@ -3034,7 +4321,10 @@ namespace ini {
         inline?: string;
       },
       public readonly key: string,
-      public readonly value: string
+      public readonly value: string,
+      public readonly origin: Origin = { line: 0 },
+      /**`false` if the key was declared without a delimiter, so that it has no value rather than an empty one */
+      public readonly assigned = true
     ) {}
     format(format: Format, syntax?: Syntax | undefined, params?: any): void {
       format.append(this, syntax, params);
@@ -3048,7 +4338,11 @@ namespace ini {
     }
     equals(obj?: object | undefined): boolean {
       if (obj instanceof KeyValue)
-        return this.key === obj!.key && this.value === obj!.value;
+        return (
+          this.key === obj!.key &&
+          this.value === obj!.value &&
+          this.assigned === obj!.assigned
+        );
       return false;
     }
     hashCode32(): number {
@@ -3124,7 +4418,7 @@ namespace ini {
                     for (let i = 0; i < element.values.length; i++)
                       (section._map[name] as Section).add(
                         s,
-                        [key],
+                        [],
                         element.values[i]
                       );
                   } else (section._map[name] as Section).add(s, key, element);
@@ -3138,9 +4432,11 @@ namespace ini {
             if (utility.isValid(section._map[name])) return;
             else break;
           case DuplicateDirective.THROW:
-            throw new expression.ExpressionError(
-              "Duplicate not supported for section '" + name + "'"
-            );
+            if (utility.isValid(section._map[name]))
+              throw new expression.ExpressionError(
+                "Duplicate not supported for section '" + name + "'"
+              );
+            else break;
         }
         section._map[name] = value ?? new Section();
         return;
@@ -3214,8 +4510,8 @@ namespace ini {
     public remove(name: string) {
       delete this._map[name];
     }
-    public get map() {
-      return Object.freeze(this._map);
+    public get map(): { readonly [key: string]: Section | Property } {
+      return this._map;
     }
     toString(): string {
       return JSON.stringify(this);
@@ -3241,7 +4537,11 @@ namespace ini {
     public add(s: Syntax, param: KeyValue | string | Text): void;
     public add(s: Syntax, param: unknown) {
       if (param instanceof KeyValue) {
-        switch (s.duplicateDirective.property) {
+        switch (
+          !utility.isValid(s.lists) || s.lists!(param.key)
+            ? s.duplicateDirective.property
+            : DuplicateDirective.OVERWRITE
+        ) {
           case DuplicateDirective.MERGE:
           default:
             break;
@@ -3260,12 +4560,15 @@ namespace ini {
               throw Error(
                 "Duplicate not supported for property '" + param.key + "'"
               );
+            else break;
+          case DuplicateDirective.RESET:
+            if (param.value.length === 0) this._values.splice(0);
         }
         this._values.push(param);
       } else if (param instanceof Text) {
-        this.add(s, new KeyValue(emptyComment(), param.text, ""));
+        this.add(s, new KeyValue(emptyComment(), param.text, "", undefined, false));
       } else if (typeof param === "string") {
-        this.add(s, new KeyValue(emptyComment(), param, ""));
+        this.add(s, new KeyValue(emptyComment(), param, "", undefined, false));
       }
     }
     public get values(): readonly KeyValue[] {
@@ -3341,7 +4644,34 @@ namespace ini {
    * @summary Convenience class to allow for proper return values using `parse` and for namepsace documentation
    * @description The `.ini` variant of the {@link parser.PrattParser Vaughn Pratt's parser}
    */
-  export class Parser extends parser.PrattParser<Expression, Syntax> {}
+  export class Parser extends parser.PrattParser<Expression, Syntax> {
+    /**
+     * Gets a token without consuming it
+     * @param {MutableLexer} l the token generator
+     * @param {Syntax} s a syntax for the token generator
+     * @param {Params} pa the params of the parsing process
+     * @param {number} [distance] the number of tokens between the token that will be consumed next and the token to be returned
+     * @returns {Token} the token
+     */
+    public peek(
+      l: MutableLexer,
+      s: Syntax,
+      pa: Params,
+      distance = 0
+    ): Token {
+      return this.readAndPeek(distance, l, s, pa) as Token;
+    }
+    /**
+     * Consumes the next token whatever its type is
+     * @param {MutableLexer} l the token generator
+     * @param {Syntax} s a syntax for the token generator
+     * @param {Params} pa the params of the parsing process
+     * @returns {Token} the token
+     */
+    public pop(l: MutableLexer, s: Syntax, pa: Params): Token {
+      return this.readAndPop(l, s, pa) as Token;
+    }
+  }
   /**
    * @summary The type of value accepted by the {@linkcode Format.append} method.
    * @description The value that will be sent to (and expected by) {@linkcode Format} objects
@@ -3410,38 +4740,26 @@ namespace ini {
       } else if (data instanceof KeyValue) {
         this.append(
           data.comments.preceding.length > 0
-            ? unwrapComments(data.comments, s) + "\n"
+            ? unwrapComments(data.comments, s, p) + lineTerminator(s, p)
             : "",
           s,
           p
         );
-        if (data.value.length > 0)
-          this.append(
-            `${processEscapables(data.key, s!, this)} ${
-              s!.delimiters[0]
-            } ${processEscapables(data.value, s!, this)}`,
-            s,
-            p
-          );
-        else this.append(`${processEscapables(data.key, s!, this)}`, s, p);
-        this.append(
-          `${data.comments.inline ? data.comments.inline : ""}`,
-          s,
-          p
-        );
+        this.append(assignment(data, s!, this, p), s, p);
       } else if (data instanceof Property) {
         this.append(
           data.comments.preceding.length > 0
-            ? unwrapComments(data.comments, s) + "\n"
+            ? unwrapComments(data.comments, s, p) + lineTerminator(s, p)
             : "",
           s,
           p
         );
         for (let i = 0; i < data.values.length; i++) {
           this.append(data.values[i], s, p);
-          if (i < data.values.length - 1) this.append("\n", s, p);
+          if (i < data.values.length - 1)
+            this.append(lineTerminator(s, p), s, p);
         }
-        this.append("\n", s, p);
+        this.append(lineTerminator(s, p), s, p);
         // this.append(`${data.comments.inline ? s!.comments.chars[0] + data.comments.inline : ""}\n`, s, p);
       } else if (data instanceof Section) {
         append(this, data, s, p);
@@ -3486,33 +4804,293 @@ namespace ini {
     }
   }
   /**
-   * @summary The {@linkcode Expression} output as an in-memory value format.
-   * @description Builds and stores the parsed `.ini` data as a json object.
+   * Gets the values of the properties of a parsed `.ini` document after a section has inherited the properties of the
+   * {@link Syntax.defaultSection default section} and the values have been {@link Syntax.interpolation interpolated}.
    */
-  export class JSFormat implements Format<json.Value> {
-    private _data: json.Pair = null as unknown as {};
-    private _append(data: Section, rv: any, s?: Syntax, p?: Params) {
-      for (const key in data.map) {
-        if (data.map[key] instanceof Section) {
-          rv[key] = {};
-          this._append(data.map[key] as Section, rv[key], s, p);
-        } else if (data.map[key] instanceof Property) {
-          const prop = data.map[key] as Property;
-          if (prop.values.length < 2) {
-            rv[key] =
-              prop.values.length === 0 ? null : s?.parse(prop.values[0].value);
-          } else {
-            rv[key] = Array<string>();
-            for (let i = 0; i < prop.values.length; i++) {
-              rv[key].push(s?.parse(prop.values[i].value));
-            }
-          }
-        } else
-          throw new expression.ExpressionError(`Illegal value found at ${key}`);
-      }
+  class Resolver {
+    /**The sections of the document by their full name. The properties that are not in any section are in the section named `''` */
+    readonly #sections = new Map<string, Section>();
+    /**
+     * Constructs a `Resolver`
+     * @param {Section} root the parsed document
+     * @param {Syntax} s the syntax with which the document was parsed
+     * @param {boolean} raw `true` if the values are not interpolated
+     */
+    constructor(
+      root: Section,
+      private readonly s: Syntax,
+      private readonly raw: boolean
+    ) {
+      this.#index(root, []);
     }
-    append(
-      data: Appendage,
+    #index(section: Section, path: readonly string[]) {
+      this.#sections.set(this.name(path), section);
+      for (const key in section.map)
+        if (section.map[key] instanceof Section)
+          this.#index(section.map[key] as Section, [...path, key]);
+    }
+    /**
+     * Gets the full name of a section
+     * @param {readonly string[]} path the names of the section and its parents
+     * @returns {string} the names joined with the first {@link Syntax.nesting nesting character}
+     */
+    name(path: readonly string[]): string {
+      return path.join((this.s.nesting ?? { chars: [""] }).chars[0]);
+    }
+    /**
+     * Gets a property of a section or of the default section if the section does not have it
+     * @param {string} section the full name of the section
+     * @param {string} key the name of the property
+     * @returns {Property | undefined} the property or `undefined` if neither section has it
+     */
+    #property(section: string, key: string): Property | undefined {
+      const p = this.#sections.get(section)?.map[key];
+      if (p instanceof Property) return p;
+      else if (utility.isValid(p) || section === "") return undefined;
+      const d = this.#default()?.map[key];
+      return d instanceof Property ? d : undefined;
+    }
+    #default(): Section | undefined {
+      return utility.isValid(this.s.defaultSection)
+        ? this.#sections.get(this.s.defaultSection!)
+        : undefined;
+    }
+    /**
+     * Gets the properties of the default section that a section does not have. The properties that are not in any section and the
+     * default section itself do not inherit anything.
+     * @param {readonly string[]} path the names of the section and its parents
+     * @returns {[string, Property][]} the names and properties
+     */
+    inherited(path: readonly string[]): [string, Property][] {
+      const d = this.#default();
+      const name = this.name(path);
+      if (path.length === 0 || !utility.isValid(d) || name === this.s.defaultSection)
+        return [];
+      const own = this.#sections.get(name)!.map;
+      return Object.keys(d!.map)
+        .filter((k) => d!.map[k] instanceof Property && !utility.isValid(own[k]))
+        .map((k) => [k, d!.map[k] as Property]);
+    }
+    /**
+     * Gets the values of a property
+     * @param {Property} p the property
+     * @param {readonly string[]} path the names of the section that has the property (or inherits it) and its parents
+     * @param {string} key the name of the property
+     * @returns {string[]} the values, interpolated unless this resolver is raw
+     * @throws {expression.FormatError} if a value refers to a property that does not exist, that has more than one value or that
+     * refers back to it, or a value is not valid for the interpolation
+     */
+    values(p: Property, path: readonly string[], key: string): string[] {
+      const section = this.name(path);
+      let values = p.values;
+      //the empty value that reset the values before it
+      if (
+        this.s.duplicateDirective.property === DuplicateDirective.RESET &&
+        values.length > 0 &&
+        values[0].value.length === 0
+      )
+        values = values.slice(1);
+      return values.map((kv) =>
+        this.raw
+          ? kv.value
+          : this.#expand(
+              this.#interpolate(kv.value, section, [this.#at(section, key)]),
+              this.#at(section, key)
+            )
+      );
+    }
+    /**
+     * Expands the {@link Syntax.specifiers specifiers} of a value
+     * @param {string} value the value
+     * @param {string} at the full name of the property that has the value
+     * @returns {string} the expanded value
+     * @throws {expression.FormatError} if a value has a `'%'` that is not a valid specifier
+     */
+    #expand(value: string, at: string): string {
+      if (!utility.isValid(this.s.specifiers)) return value;
+      return value.replace(/%([^]?)/g, (m, c: string) => {
+        const x = c === "%" ? "%" : this.s.specifiers!(c);
+        if (!utility.isValid(x) || c.length === 0)
+          throw new expression.FormatError(
+            `'${m}' in the value of '${at}' is not a valid specifier`
+          );
+        return x!;
+      });
+    }
+    #at(section: string, key: string) {
+      return section.length > 0 ? `${section}:${key}` : key;
+    }
+    /**
+     * Interpolates a value
+     * @param {string} value the value
+     * @param {string} section the full name of the section in which the names in the value are looked up
+     * @param {string[]} chain the properties whose values are being interpolated, where the last one has the value
+     * @returns {string} the interpolated value
+     */
+    #interpolate(value: string, section: string, chain: string[]): string {
+      const invalid = (c: string) =>
+        new expression.FormatError(
+          `'${c}' in the value of '${chain[chain.length - 1]}' must be followed by '${c}' or a reference`
+        );
+      switch (this.s.interpolation) {
+        case Interpolation.BASIC:
+          return value.replace(/%(?:(%)|\(([^)]*)\)s|)/g, (m, esc, key) => {
+            if (utility.isValid(esc)) return "%";
+            else if (!utility.isValid(key)) throw invalid("%");
+            return this.#reference(section, key, chain);
+          });
+        case Interpolation.EXTENDED:
+          return value.replace(/\$(?:(\$)|\{([^}]*)\}|)/g, (m, esc, ref) => {
+            if (utility.isValid(esc)) return "$";
+            else if (!utility.isValid(ref)) throw invalid("$");
+            const parts = (ref as string).split(":");
+            if (parts.length > 2)
+              throw new expression.FormatError(
+                `'${m}' in the value of '${chain[chain.length - 1]}' has more than one ':'`
+              );
+            return parts.length === 1
+              ? this.#reference(section, parts[0], chain)
+              : this.#reference(parts[0], parts[1], chain);
+          });
+        case Interpolation.NONE:
+        default:
+          return value;
+      }
+    }
+    /**
+     * Gets the interpolated value of the property that a value refers to
+     * @param {string} section the full name of the section of the property
+     * @param {string} key the name of the property
+     * @param {string[]} chain the properties whose values are being interpolated, where the last one has the reference
+     * @returns {string} the interpolated value of the property
+     */
+    #reference(section: string, key: string, chain: string[]): string {
+      key = foldKey(key, this.s);
+      const at = this.#at(section, key);
+      if (chain.indexOf(at) >= 0)
+        throw new expression.FormatError(
+          `The value of '${chain[0]}' cannot be interpolated because it refers to itself: ${[...chain, at]
+            .map((x) => `'${x}'`)
+            .join(" -> ")}`
+        );
+      const p = this.#property(section, key);
+      if (!utility.isValid(p))
+        throw new expression.FormatError(
+          `The value of '${chain[chain.length - 1]}' refers to '${at}', which does not exist`
+        );
+      else if (p!.values.length !== 1)
+        throw new expression.FormatError(
+          `The value of '${chain[chain.length - 1]}' refers to '${at}', which does not have exactly one value`
+        );
+      return this.#interpolate(p!.values[0].value, section, [...chain, at]);
+    }
+  }
+  /**
+   * @summary The {@linkcode Expression} output as an in-memory value format.
+   * @description Builds and stores the parsed `.ini` data as a json object. A section also has the properties of the
+   * {@link Syntax.defaultSection default section} that it does not have, and values are {@link Syntax.interpolation interpolated}
+   * unless this format is raw. The parsed expression is not changed, so {@linkcode StringFormat} still writes the values as they
+   * were parsed.
+   */
+  export class JSFormat implements Format<json.Value> {
+    private _data: json.Pair = null as unknown as {};
+    /**
+     * Constructs a `JSFormat`
+     * @param {boolean} raw `true` if values are not interpolated, `false` if they are. The default is `false`.
+     */
+    constructor(public readonly raw = false) {}
+    private _append(
+      data: Section,
+      rv: any,
+      s?: Syntax,
+      p?: Params,
+      r?: Resolver,
+      path: readonly string[] = []
+    ) {
+      const value = (prop: Property, key: string) =>
+        this._value(
+          utility.isValid(r)
+            ? r!.values(prop, path, key)
+            : prop.values.map((x) => x.value),
+          prop.values,
+          s,
+          s?.rules?.find((x) => x.matches(path, key))
+        );
+      for (const key in data.map) {
+        if (data.map[key] instanceof Section) {
+          rv[key] = {};
+          this._append(data.map[key] as Section, rv[key], s, p, r, [
+            ...path,
+            key,
+          ]);
+        } else if (data.map[key] instanceof Property) {
+          rv[key] = value(data.map[key] as Property, key);
+        } else
+          throw new expression.ExpressionError(`Illegal value found at ${key}`);
+      }
+      if (utility.isValid(r))
+        for (const [key, prop] of r!.inherited(path))
+          rv[key] = value(prop, key);
+    }
+    /**
+     * Converts the values of a property with a rule or with {@linkcode Syntax.parse}
+     * @param {string[]} values the values, which are the last values of `kvs` after they were interpolated
+     * @param {readonly KeyValue[]} kvs the definitions of the property
+     * @param {Syntax} [s] the syntax
+     * @param {Rule} [rule] the rule of the property
+     * @returns {json.Value} `null` for no value, the converted value for one value and an array for more than one. The lists of
+     * a list rule are joined into one array, and a {@link Syntax.lists list} of the syntax is always an array.
+     * @throws {RuleError} if a value is not valid for the rule, with the line and position of the value
+     */
+    private _value(
+      values: string[],
+      kvs: readonly KeyValue[],
+      s?: Syntax,
+      rule?: Rule
+    ): json.Value {
+      const list =
+        utility.isValid(s?.lists) && kvs.length > 0 && s!.lists!(kvs[0].key);
+      if (!utility.isValid(rule)) {
+        //a key without a value is `null` even if the syntax keeps empty values
+        const parse = (x: string, i: number) =>
+          kvs[kvs.length - values.length + i].assigned
+            ? (s?.parse(x) as json.Value)
+            : null;
+        if (values.length < 2 && !list)
+          return values.length === 0 ? null : parse(values[0], 0);
+        return values.map(parse);
+      }
+      const typed = values.map((x, i) => {
+        try {
+          return rule!.parse(x);
+        } catch (e) {
+          const cause = e instanceof Error ? e : new Error(String(e));
+          const kv = kvs[kvs.length - values.length + i];
+          throw new RuleError(
+            new Token(
+              kv.value,
+              IDENTIFIER,
+              kv.origin.line,
+              kv.origin.line,
+              kv.origin.position ?? 0
+            ),
+            `The value '${x}' of '${kv.key}'${
+              utility.isValid(kv.origin.file) ? ` in ${kv.origin.file}` : ""
+            } is not valid for the rule '${rule!.pattern}: ${rule!.type}'`,
+            cause
+          );
+        }
+      });
+      if (rule!.list) return typed.flat();
+      else if (list) return typed;
+      return typed.length < 2
+        ? typed.length === 0
+          ? null
+          : typed[0]
+        : typed;
+    }
+    append(
+      data: Appendage,
       s?: Syntax | undefined,
       p?: Params | undefined
     ): void {
@@ -3533,7 +5111,13 @@ namespace ini {
           this._data = {};
         //     this._append(data.map[s!.globalName] as Section, this._data, s, p);
         // } else
-        this._append(data, this._data, s, p);
+        this._append(
+          data,
+          this._data,
+          s,
+          p,
+          utility.isValid(s) ? new Resolver(data, s!, this.raw) : undefined
+        );
       } /* else if(data instanceof Text) {
                 this._data[data.text] = null;
                 this.modifications++;
@@ -3573,11 +5157,21 @@ namespace ini {
   export class FileFormat implements Format<ReadStream> {
     public readonly logger;
     private _str: WriteStream;
-    constructor(filename: string) {
+    /**
+     * Constructs a `FileFormat`
+     * @param {string} filename the path of the file
+     * @param {BufferEncoding} [encoding] the encoding in which the file is written and {@link data read back}. A `'\uFEFF'` at the
+     * start of the data, such as the one that node keeps when it decodes a `"utf16le"` file, is written as the byte order mark of
+     * the encoding. The default is `"utf-8"`.
+     */
+    constructor(
+      filename: string,
+      public readonly encoding: BufferEncoding = "utf-8"
+    ) {
       this._str = createWriteStream(filename, {
         autoClose: true,
         emitClose: false,
-        encoding: "utf-8",
+        encoding,
       });
       //Some classic js code
       this.logger = console as any as utility.Messenger;
@@ -3634,38 +5228,26 @@ namespace ini {
       } else if (data instanceof KeyValue) {
         this.append(
           data.comments.preceding.length > 0
-            ? unwrapComments(data.comments, s) + "\n"
+            ? unwrapComments(data.comments, s, p) + lineTerminator(s, p)
             : "",
           s,
           p
         );
-        if (data.value.length > 0)
-          this.append(
-            `${processEscapables(data.key, s!, this)} ${
-              s!.delimiters[0]
-            } ${processEscapables(data.value, s!, this)}`,
-            s,
-            p
-          );
-        else this.append(`${processEscapables(data.key, s!, this)}`, s, p);
-        this.append(
-          `${data.comments.inline ? data.comments.inline : ""}`,
-          s,
-          p
-        );
+        this.append(assignment(data, s!, this, p), s, p);
       } else if (data instanceof Property) {
         this.append(
           data.comments.preceding.length > 0
-            ? unwrapComments(data.comments, s) + "\n"
+            ? unwrapComments(data.comments, s, p) + lineTerminator(s, p)
             : "",
           s,
           p
         );
         for (let i = 0; i < data.values.length; i++) {
           this.append(data.values[i], s, p);
-          if (i < data.values.length - 1) this.append("\n", s, p);
+          if (i < data.values.length - 1)
+            this.append(lineTerminator(s, p), s, p);
         }
-        this.append("\n", s, p);
+        this.append(lineTerminator(s, p), s, p);
         // this.append(`${data.comments.inline ? s!.comments.chars[0] + data.comments.inline : ""}\n`, s, p);
       } else if (data instanceof Section) {
         this.append(
@@ -3687,7 +5269,7 @@ namespace ini {
       this.logger.seal(2);
       return createReadStream(this._str.path, {
         autoClose: true,
-        encoding: "utf-8",
+        encoding: this.encoding,
       });
     }
     reverse(): this {
@@ -3757,6 +5339,813 @@ namespace ini {
       }
     }
   }
+  /**
+   * Parses a file
+   * @param {string} file the absolute path of the file
+   * @param {Syntax} syntax the syntax of the file
+   * @returns {Promise<Params>} a promise of the params with which the file was parsed, which has the {@link Params.spans spans}
+   * of its headers and properties in the order in which they are in the file
+   */
+  function read(file: string, syntax: Syntax): Promise<Params> {
+    const pa = new Params();
+    pa.file = file;
+    return new Promise((done, fail) => {
+      createReadStream(file)
+        .on("error", fail)
+        .pipe(
+          new Converter(
+            { readableObjectMode: true },
+            new StringLexer(),
+            new Parser(),
+            syntax,
+            pa
+          )
+        )
+        .on("data", () => {})
+        .on("error", fail)
+        .on("end", () => done(pa));
+    });
+  }
+  /**
+   * Gets a section or property by its full name
+   * @param {Section} root the section in which the name is looked up
+   * @param {readonly string[]} name the names of the expression and of the sections that have it
+   * @returns {Expression | undefined} the expression, or `undefined` if it does not exist
+   */
+  function find(root: Section, name: readonly string[]): Expression | undefined {
+    let x: Expression | undefined = root;
+    for (const n of name) x = x instanceof Section ? x.get(n) : undefined;
+    return x;
+  }
+  /**
+   * @summary Reads a `.ini` file together with the files that it includes and its drop-in files.
+   * @description
+   * Each file is parsed by a {@linkcode Converter} and the results are merged into one {@linkcode Expression}, in the way that the
+   * {@linkcode Syntax.duplicateDirective duplicate directives} of the syntax merge duplicate sections and properties:
+   * - A property that is an include directive (by default `path` in an `[include]` section, as in git config) has the path of a file,
+   * relative to the file of the directive, that is merged where the directive is, as git does, so that the lines after the directive
+   * override the included file. The directives are not in the merged data, nor is a section that only has directives. Included files
+   * may include other files, but a file that includes itself, directly or through other files, is an error. A file that does not
+   * exist is an error unless the loader ignores missing files, as git does.
+   * - Conditional includes such as git's `[includeIf "gitdir:~/work/"]` are not evaluated. Their `path` is a property of the
+   * section `["includeif", "gitdir:~/work/"]` unless the directive function accepts it after checking the condition.
+   * - If a drop-in suffix is given, the files in the drop-in directory of the loaded file (such as `foo.conf.d` for `foo.conf`) are
+   * merged after it, and after the files it includes, in the lexical order of their names as systemd does.
+   *
+   * Every property remembers the file and line at which each of its values was defined, see {@linkcode Loader.origins}.
+   * @example
+   * ```ts
+   * const loader = new Loader(UNIX, undefined, ".d");
+   * const e = await loader.load("/etc/foo.conf"); //also reads /etc/foo.conf.d/*.conf
+   * Loader.origins(e, ["server"], "port"); //[{ file: "/etc/foo.conf.d/10-port.conf", line: 2 }]
+   * ```
+   */
+  export class Loader {
+    /**
+     * Constructs a `Loader`
+     * @param {Syntax} syntax the syntax of every file
+     * @param {(section: readonly string[], key: string, file: string) => boolean} [directive] checks if a property is an include
+     * directive using the full name of its section, its key and the file that has it. A conditional include such as git's
+     * `[includeIf "gitdir:~/work/"]` can be supported by checking the condition here. The default accepts only the `path` property
+     * of the `include` section.
+     * @param {string} [dropIns] the suffix that is added to the path of the loaded file to get its drop-in directory, such as
+     * `'.d'`, or `undefined` if drop-in files are not read.
+     * @param {string} [ext] the extension of the drop-in files. Other files in the drop-in directory are ignored. The default is
+     * `'.conf'`.
+     * @param {boolean} [ignoreMissing] `true` to skip the include directives whose file does not exist, as git does, or `false` to
+     * reject them. The default is `false`.
+     */
+    constructor(
+      public readonly syntax: Syntax,
+      public readonly directive: (
+        section: readonly string[],
+        key: string,
+        file: string
+      ) => boolean = (section, key) =>
+        section.length === 1 && section[0] === "include" && key === "path",
+      public readonly dropIns?: string,
+      public readonly ext = ".conf",
+      public readonly ignoreMissing = false
+    ) {}
+    /**
+     * Reads and merges a file, the files it includes and its drop-in files.
+     * @param {string} file the path of the file
+     * @returns {Promise<Expression>} a promise of the merged data, which is rejected if a file cannot be read or parsed (including
+     * an included file that does not exist, unless this loader {@link ignoreMissing ignores it}), if a file includes itself or if the duplicate directive of the syntax is {@linkcode DuplicateDirective.THROW} and a duplicate is found.
+     */
+    public async load(file: string): Promise<Expression> {
+      const root = new Section();
+      file = resolve(file);
+      await this.#merge(root, file, []);
+      if (utility.isValid(this.dropIns)) {
+        const dir = file + this.dropIns;
+        const names = existsSync(dir)
+          ? readdirSync(dir)
+              .filter((x) => x.endsWith(this.ext))
+              .sort()
+          : [];
+        for (const name of names) await this.#merge(root, join(dir, name), []);
+      }
+      return root;
+    }
+    /**
+     * Merges a file and the files it includes into a section, in the order in which its headers and properties are in the file
+     * @param {Section} root the section into which the file is merged
+     * @param {string} file the absolute path of the file
+     * @param {string[]} including the files whose include directives led to this file, starting with the loaded file
+     * @param {Map<string, readonly string[]>} [consumed] the sections that had include directives, by their full names joined with
+     * `'\0'`
+     */
+    async #merge(
+      root: Section,
+      file: string,
+      including: string[],
+      consumed = new Map<string, readonly string[]>()
+    ) {
+      if (including.indexOf(file) >= 0)
+        throw new parser.ParseError(
+          `The file '${file}' includes itself: ${[...including, file].join(" -> ")}`
+        );
+      const pa = await read(file, this.syntax);
+      let name: readonly string[] = [];
+      //the properties of a duplicate section that the syntax discards are discarded with it
+      let discarded = false;
+      for (const { e } of pa.spans) {
+        if (e instanceof Section) {
+          name = e.fullname;
+          discarded =
+            this.syntax.duplicateDirective.section === DuplicateDirective.DISCARD &&
+            find(root, name) instanceof Section;
+          root.add(this.syntax, [...name], new Section(e.comments, e.fullname));
+        } else if (discarded) continue;
+        else if (this.directive(name, (e as KeyValue).key, file)) {
+          consumed.set(name.join("\0"), name);
+          const path = resolve(dirname(file), (e as KeyValue).value);
+          if (this.ignoreMissing && !existsSync(path)) continue;
+          await this.#merge(root, path, [...including, file], consumed);
+        } else root.add(this.syntax, [...name], e as KeyValue);
+      }
+      if (including.length === 0)
+        for (const path of consumed.values()) {
+          const section = find(root, path);
+          if (
+            path.length > 0 &&
+            section instanceof Section &&
+            Object.keys(section.map).length === 0
+          )
+            (find(root, path.slice(0, -1)) as Section).remove(
+              path[path.length - 1]
+            );
+        }
+    }
+    /**
+     * Gets the places at which a property was defined
+     * @param {Expression} e the parsed data, such as the result of {@linkcode load}
+     * @param {readonly string[]} section the full name of the section of the property, which is empty for a property that is not
+     * in any section
+     * @param {string} key the key of the property
+     * @returns {readonly Origin[]} the origin of each value of the property in the order of the values, or an empty array if the
+     * property does not exist
+     */
+    public static origins(
+      e: Expression,
+      section: readonly string[],
+      key: string
+    ): readonly Origin[] {
+      const x = e instanceof Section ? find(e, [...section, key]) : undefined;
+      return x instanceof Property ? x.values.map((kv) => kv.origin) : [];
+    }
+  }
+  /**The properties of EditorConfig whose values are read in lower case */
+  const EDITORCONFIG_PROPERTIES = [
+    "indent_style",
+    "indent_size",
+    "tab_width",
+    "end_of_line",
+    "charset",
+    "trim_trailing_whitespace",
+    "insert_final_newline",
+  ];
+  /**
+   * Translates an EditorConfig glob to the source of a regular expression
+   * @param {string} glob the glob, or a part of it
+   * @param {[number, number][]} ranges the `{num1..num2}` ranges that are found, in the order of their capturing groups
+   * @returns {string} the source, in which a range is a capturing group of an integer
+   */
+  function globSource(glob: string, ranges: [number, number][]): string {
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+      const c = glob[i];
+      if (c === "\\" && i + 1 < glob.length)
+        source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      else if (c === "*" && glob[i + 1] === "*") {
+        //'**/' also matches no directory
+        if (glob[i + 2] === "/" && (i === 0 || glob[i - 1] === "/")) {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i++;
+        }
+      } else if (c === "*") source += "[^/]*";
+      else if (c === "?") source += "[^/]";
+      else if (c === "[") {
+        const end = glob.indexOf("]", i + 2);
+        const chars = end < 0 ? "" : glob.substring(i + 1, end);
+        if (end < 0 || chars.indexOf("/") >= 0) source += "\\[";
+        else {
+          const negated = chars.startsWith("!");
+          source += `[${negated ? "^" : ""}${(negated ? chars.substring(1) : chars).replace(/[\\^[\]]/g, "\\$&")}]`;
+          i = end;
+        }
+      } else if (c === "{") {
+        let depth = 0;
+        let end = -1;
+        const commas: number[] = [];
+        for (let j = i + 1; j < glob.length && end < 0; j++) {
+          if (glob[j] === "\\") j++;
+          else if (glob[j] === "{") depth++;
+          else if (glob[j] === "}" && depth-- === 0) end = j;
+          else if (glob[j] === "," && depth === 0) commas.push(j);
+        }
+        const inner = end < 0 ? "" : glob.substring(i + 1, end);
+        const range = /^([+-]?\d+)\.\.([+-]?\d+)$/.exec(inner);
+        if (end < 0) source += "\\{";
+        else if (utility.isValid(range)) {
+          ranges.push([Number(range![1]), Number(range![2])]);
+          source += "([+-]?\\d+)";
+          i = end;
+        } else if (commas.length === 0) {
+          //a single choice is not a choice
+          source += `\\{${globSource(inner, ranges)}\\}`;
+          i = end;
+        } else {
+          const choices = [i, ...commas].map((x, j, a) =>
+            glob.substring(x + 1, j + 1 < a.length ? a[j + 1] : end)
+          );
+          source += `(?:${choices.map((x) => globSource(x, ranges)).join("|")})`;
+          i = end;
+        }
+      } else source += c.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+    return source;
+  }
+  /**
+   * Checks if a path matches an EditorConfig glob
+   * @param {string} glob the name of a section of an `.editorconfig` file. A glob that does not have a `'/'` matches a file in
+   * any directory.
+   * @param {string} path the path of a file relative to the directory of the `.editorconfig` file, with `'/'` between its names
+   * @returns {boolean} `true` if the path matches
+   */
+  function globMatches(glob: string, path: string): boolean {
+    const ranges: [number, number][] = [];
+    const relative = /\//.test(glob.replace(/\[[^\]]*\]/g, ""));
+    const regex = new RegExp(
+      `^${globSource(
+        relative ? glob.replace(/^\//, "") : `**/${glob}`,
+        ranges
+      )}$`,
+      "s"
+    );
+    const m = regex.exec(path);
+    return (
+      utility.isValid(m) &&
+      ranges.every(([a, b], i) => {
+        const n = Number(m![i + 1]);
+        return n >= Math.min(a, b) && n <= Math.max(a, b);
+      })
+    );
+  }
+  /**
+   * @summary Resolves the EditorConfig properties of a file.
+   * @description
+   * Finds the `.editorconfig` files in the directory of a file and in each of its parents, up to the file system root or to the
+   * first file whose preamble (the properties before the first section) has `root = true`. The properties of every section whose
+   * glob matches the file are applied from the farthest file to the nearest one, and from the first section of a file to the last,
+   * so that later sections override earlier ones:
+   * - The keys, and the values of the properties that [EditorConfig](https://spec.editorconfig.org) defines such as `indent_style`
+   * and `end_of_line`, are read in lower case.
+   * - A value of `unset` removes the property.
+   * - `indent_size` is `tab` if `indent_style` is `tab` and it is not set, and it is `tab_width` if it is `tab` and `tab_width` is
+   * set. `tab_width` is `indent_size` if it is not set.
+   *
+   * The files are parsed with {@linkcode EDITORCONFIG} and each one is read once by the same `EditorConfig` object, so one object can
+   * resolve the files of a repository without reading a directory again.
+   * @example
+   * ```ts
+   * const config = new EditorConfig();
+   * await config.resolve("/repo/packages/app/src/index.ts");
+   * //{ indent_style: "space", indent_size: "2", tab_width: "2", end_of_line: "lf" }
+   * ```
+   */
+  export class EditorConfig {
+    /**The parsed files by their path, or `null` for a path that has no file */
+    readonly #files = new Map<
+      string,
+      Promise<{ root: boolean; sections: [string, KeyValue[]][] } | null>
+    >();
+    /**
+     * Constructs an `EditorConfig`
+     * @param {Syntax} [syntax] the syntax of the files. The default is {@linkcode EDITORCONFIG}.
+     * @param {string} [name] the name of the files. The default is `'.editorconfig'`.
+     */
+    constructor(
+      public readonly syntax: Syntax = EDITORCONFIG,
+      public readonly name = ".editorconfig"
+    ) {}
+    /**
+     * Gets the properties of a file
+     * @param {string} file the path of the file, which does not have to exist
+     * @returns {Promise<{ [key: string]: string }>} a promise of the properties, which is rejected if an `.editorconfig` file cannot
+     * be read or parsed
+     */
+    public async resolve(file: string): Promise<{ [key: string]: string }> {
+      file = resolve(file);
+      const configs: [string, [string, KeyValue[]][]][] = [];
+      for (let dir = dirname(file); ; dir = dirname(dir)) {
+        const config = await this.#parse(join(dir, this.name));
+        if (utility.isValid(config)) configs.unshift([dir, config!.sections]);
+        if (config?.root || dirname(dir) === dir) break;
+      }
+      const props: { [key: string]: string } = {};
+      for (const [dir, sections] of configs) {
+        const path = relative(dir, file).split(sep).join("/");
+        for (const [glob, kvs] of sections)
+          if (globMatches(glob, path))
+            for (const kv of kvs) {
+              const key = kv.key.toLowerCase();
+              const value =
+                EDITORCONFIG_PROPERTIES.indexOf(key) >= 0
+                  ? kv.value.toLowerCase()
+                  : kv.value;
+              if (value === "unset") delete props[key];
+              else props[key] = value;
+            }
+      }
+      if (props.indent_style === "tab" && !utility.isValid(props.indent_size))
+        props.indent_size = "tab";
+      if (props.indent_size === "tab" && utility.isValid(props.tab_width))
+        props.indent_size = props.tab_width;
+      if (
+        utility.isValid(props.indent_size) &&
+        props.indent_size !== "tab" &&
+        !utility.isValid(props.tab_width)
+      )
+        props.tab_width = props.indent_size;
+      return props;
+    }
+    /**
+     * Parses an `.editorconfig` file, once
+     * @param {string} file the absolute path of the file
+     * @returns {Promise<{ root: boolean; sections: [string, KeyValue[]][] } | null>} a promise of `root` and the properties of each
+     * section in the order in which they are in the file, or of `null` if the file does not exist
+     */
+    #parse(
+      file: string
+    ): Promise<{ root: boolean; sections: [string, KeyValue[]][] } | null> {
+      if (!this.#files.has(file))
+        this.#files.set(
+          file,
+          existsSync(file)
+            ? read(file, this.syntax).then((pa) => {
+                let root = false;
+                const sections: [string, KeyValue[]][] = [];
+                for (const { e } of pa.spans) {
+                  if (e instanceof Section)
+                    sections.push([e.fullname.join(""), []]);
+                  else if (sections.length > 0)
+                    sections[sections.length - 1][1].push(e as KeyValue);
+                  else if ((e as KeyValue).key.toLowerCase() === "root")
+                    root = (e as KeyValue).value.toLowerCase() === "true";
+                }
+                return { root, sections };
+              })
+            : Promise.resolve(null)
+        );
+      return this.#files.get(file)!;
+    }
+  }
+
+  /**
+   * A section header or a property of a {@linkcode Document}
+   */
+  type Entry = {
+    /**The full name of the section of the header, or of the section that has the property */
+    readonly section: readonly string[];
+    /**The key and value of the property, or `undefined` for a section header */
+    readonly kv?: KeyValue;
+    /**The inline comment of a section header */
+    readonly inline?: string;
+    /**The whitespace before a property that was edited */
+    readonly indent?: string;
+    /**The blank and comment lines before the header or property, as they are in the data */
+    readonly lead: string;
+    /**
+     * The lines of the header or property as they are in the data, or `undefined` if it was edited, in which case it is written
+     * from {@linkcode section} or {@linkcode kv}
+     */
+    readonly src?: string;
+  };
+  /**
+   * @summary A parsed `.ini` document that can be edited without changing the text that is not edited.
+   * @description
+   * Keeps the text of every section header and property along with the blank and comment lines before it, so that
+   * {@linkcode StringFormat} and {@linkcode FileFormat} write the document back exactly as it was parsed, except for the headers
+   * and properties that were edited, which are written the way those formats write them. The comments and blank lines before a
+   * header or property belong to it, so they are removed and moved with it. {@linkcode JSFormat} gets the data as the edits left
+   * it.
+   * ```ts
+   * const doc = new Document(readFileSync("app.ini", "utf-8"), UNIX)
+   *   .set(["server"], "port", "9090")
+   *   .comment(["server"], "port", "set by the deploy script")
+   *   .delete(["legacy"]);
+   * const f = new StringFormat();
+   * doc.format(f);
+   * writeFileSync("app.ini", f.data());
+   * ```
+   * Section names are given as arrays of names, with the names of the sections they are nested in first, and a property that is
+   * not in any section is in the section `[]`. Section names and keys are matched as they were parsed, so they are in lower case
+   * if the syntax {@link Syntax.ignoreCase ignores case}, and keys are in lower case if it {@link Syntax.ignoreKeyCase ignores their case}.
+   */
+  export class Document implements Expression {
+    readonly comments = emptyComment();
+    readonly #params = new Params();
+    #entries: Entry[] = [];
+    /**The text after the last header or property */
+    #tail: string;
+    /**
+     * Parses a document
+     * @param {string} text the data
+     * @param {Syntax} syntax the syntax of the data, which is also the syntax with which the document is written
+     * @throws {parser.SyntaxError} if the data cannot be parsed with the syntax
+     */
+    constructor(text: string, public readonly syntax: Syntax) {
+      const l = new StringLexer();
+      l.process(text, syntax, this.#params);
+      l.end(syntax, this.#params);
+      new Parser().parse(l, syntax, this.#params);
+      const lines = text.match(/[^\r\n]*(?:\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+      let i = 0;
+      let section: readonly string[] = [];
+      for (const span of this.#params.spans) {
+        let last = span.last;
+        //blank lines after a property belong to the next header or property
+        while (last > span.first && /^[^\S\r\n]*[\r\n]*$/.test(lines[last - 1]))
+          last--;
+        const lead = lines.slice(i, span.first - 1).join("");
+        const src = lines.slice(Math.max(i, span.first - 1), last).join("");
+        i = Math.max(i, last);
+        if (span.e instanceof Section) {
+          section = span.e.fullname;
+          this.#entries.push({ section, inline: span.e.comments.inline, lead, src });
+        } else this.#entries.push({ section, kv: span.e as KeyValue, lead, src });
+      }
+      this.#tail = lines.slice(i).join("");
+    }
+    /**
+     * Gets the last value of a property, which is the only value unless the syntax {@link DuplicateDirective.MERGE merges} duplicate
+     * properties
+     * @param {readonly string[]} section the full name of the section that has the property
+     * @param {string} key the key of the property
+     * @returns {string | undefined} the value as it was parsed, or `undefined` if the section does not have the property
+     */
+    public get(section: readonly string[], key: string): string | undefined {
+      const values = this.getAll(section, key);
+      return values[values.length - 1];
+    }
+    /**
+     * Gets the values of a property
+     * @param {readonly string[]} section the full name of the section that has the property
+     * @param {string} key the key of the property
+     * @returns {readonly string[]} the values as they were parsed, or an empty array if the section does not have the property
+     */
+    public getAll(section: readonly string[], key: string): readonly string[] {
+      const root = this.#tree();
+      let x: Expression | undefined = root;
+      for (const name of [...section, key])
+        x = x instanceof Section ? x.get(name) : undefined;
+      return x instanceof Property
+        ? new Resolver(root, this.syntax, true).values(x, section, key)
+        : [];
+    }
+    /**
+     * Sets the value of a property. If the section has the property, its last line is rewritten with the value and its other lines
+     * are removed, so that it has one value. Else the property is added after the last property of the section, and the section is
+     * added at the end of the document if it does not exist.
+     * @param {readonly string[]} section the full name of the section that has the property
+     * @param {string} key the key of the property
+     * @param {string} value the value
+     * @returns {Document} this document
+     */
+    public set(section: readonly string[], key: string, value: string): Document {
+      const at = this.#indices(section, key);
+      if (at.length === 0) {
+        this.#insert({
+          section,
+          kv: new KeyValue(emptyComment(), key, value),
+          lead: "",
+        });
+        return this;
+      }
+      const last = this.#entries[at[at.length - 1]];
+      this.#entries[at[at.length - 1]] = {
+        section,
+        kv: new KeyValue(
+          comments(Object.freeze([]), last.kv!.comments.inline),
+          key,
+          value
+        ),
+        indent: indentation(last),
+        lead: last.lead,
+      };
+      for (const i of at.slice(0, -1).reverse()) this.#entries.splice(i, 1);
+      return this;
+    }
+    /**
+     * Removes a property or a section
+     * @param {readonly string[]} section the full name of the section
+     * @param {string} [key] the key of the property to be removed, or `undefined` to remove the section with its properties and the
+     * sections nested in it
+     * @returns {Document} this document
+     * @throws {expression.ExpressionError} if the section or the property does not exist, or if there is no key and the section
+     * name is empty
+     */
+    public delete(section: readonly string[], key?: string): Document {
+      if (!utility.isValid(key) && section.length === 0)
+        throw new expression.ExpressionError("The document cannot be deleted");
+      this.#find(section, key);
+      this.#entries = this.#entries.filter((x) =>
+        utility.isValid(key)
+          ? !(same(x.section, section) && x.kv?.key === key)
+          : !same(x.section.slice(0, section.length), section)
+      );
+      return this;
+    }
+    /**
+     * Changes the key of a property
+     * @param {readonly string[]} section the full name of the section that has the property
+     * @param {string} key the key of the property
+     * @param {string} to the new key
+     * @returns {Document} this document
+     * @throws {expression.ExpressionError} if the section does not have the property, or already has a property with the new key
+     */
+    public rename(section: readonly string[], key: string, to: string): Document {
+      const at = this.#find(section, key);
+      if (this.#indices(section, to).length > 0)
+        throw new expression.ExpressionError(
+          `The property '${to}' already exists in ${
+            section.length > 0
+              ? `the section '${sectionHeader(section, this.syntax)}'`
+              : "the document"
+          }`
+        );
+      for (const i of at) {
+        const x = this.#entries[i];
+        this.#entries[i] = {
+          section,
+          kv: new KeyValue(
+            comments(Object.freeze([]), x.kv!.comments.inline),
+            to,
+            x.kv!.value,
+            undefined,
+            x.kv!.assigned
+          ),
+          indent: indentation(x),
+          lead: x.lead,
+        };
+      }
+      return this;
+    }
+    /**
+     * Changes the name of a section, and of the sections nested in it
+     * @param {readonly string[]} section the full name of the section
+     * @param {readonly string[]} to the new full name
+     * @returns {Document} this document
+     * @throws {expression.ExpressionError} if the section does not exist, or if a section with the new name already exists
+     */
+    public renameSection(
+      section: readonly string[],
+      to: readonly string[]
+    ): Document {
+      this.#find(section);
+      if (this.#entries.some((x) => same(x.section.slice(0, to.length), to)))
+        throw new expression.ExpressionError(
+          `The section '${sectionHeader(to, this.syntax)}' already exists`
+        );
+      this.#entries = this.#entries.map((x) =>
+        same(x.section.slice(0, section.length), section)
+          ? {
+              ...x,
+              section: Object.freeze([
+                ...to,
+                ...x.section.slice(section.length),
+              ]),
+              src: utility.isValid(x.kv) ? x.src : undefined,
+            }
+          : x
+      );
+      return this;
+    }
+    /**
+     * Moves a property, with the comments before it, to the end of another section. The section is added at the end of the
+     * document if it does not exist.
+     * @param {readonly string[]} section the full name of the section that has the property
+     * @param {string} key the key of the property
+     * @param {readonly string[]} to the full name of the section to which the property is moved
+     * @returns {Document} this document
+     * @throws {expression.ExpressionError} if the section does not have the property
+     */
+    public move(
+      section: readonly string[],
+      key: string,
+      to: readonly string[]
+    ): Document {
+      const moved = this.#find(section, key).map((i) => this.#entries[i]);
+      this.delete(section, key);
+      for (const x of moved) this.#insert({ ...x, section: to });
+      return this;
+    }
+    /**
+     * Adds a comment on the lines before a property or a section header, after the comments that are already there
+     * @param {readonly string[]} section the full name of the section. If this is `[]` and there is no key, the comment is added at
+     * the start of the document.
+     * @param {string | undefined} key the key of the property, or `undefined` to add the comment before the section header
+     * @param {string} text the text of the comment, which is written after the first {@link Syntax.comments comment character} and
+     * a space. Each of its lines is written as a comment line.
+     * @returns {Document} this document
+     * @throws {expression.ExpressionError} if the section or the property does not exist
+     */
+    public comment(
+      section: readonly string[],
+      key: string | undefined,
+      text: string
+    ): Document {
+      const eol = lineTerminator(this.syntax, this.#params);
+      const lines = text
+        .split(/\r\n|\r|\n/)
+        .map((x) => `${this.syntax.comments.chars[0]} ${x}${eol}`)
+        .join("");
+      if (section.length === 0 && !utility.isValid(key)) {
+        if (this.#entries.length === 0) this.#tail = lines + this.#tail;
+        else
+          this.#entries[0] = {
+            ...this.#entries[0],
+            lead: lines + this.#entries[0].lead,
+          };
+        return this;
+      }
+      const i = this.#find(section, key)[0];
+      this.#entries[i] = {
+        ...this.#entries[i],
+        lead: this.#entries[i].lead + lines,
+      };
+      return this;
+    }
+    /**
+     * Gets the indices of the entries of a property, or of the headers of a section
+     * @param {readonly string[]} section the full name of the section
+     * @param {string} [key] the key of the property, or `undefined` for the headers of the section
+     * @returns {number[]} the indices in the order of the entries
+     */
+    #indices(section: readonly string[], key?: string): number[] {
+      const indices: number[] = [];
+      this.#entries.forEach((x, i) => {
+        if (same(x.section, section) && x.kv?.key === key) indices.push(i);
+      });
+      return indices;
+    }
+    /**
+     * Gets the indices of the entries of a property, or of the headers of a section, that must exist
+     * @param {readonly string[]} section the full name of the section
+     * @param {string} [key] the key of the property, or `undefined` for the headers of the section
+     * @returns {number[]} the indices in the order of the entries
+     * @throws {expression.ExpressionError} if there are no such entries
+     */
+    #find(section: readonly string[], key?: string): number[] {
+      const indices = this.#indices(section, key);
+      if (indices.length === 0)
+        throw new expression.ExpressionError(
+          utility.isValid(key)
+            ? `The property '${key}' is not in ${
+                section.length > 0
+                  ? `the section '${sectionHeader(section, this.syntax)}'`
+                  : "the document"
+              }`
+            : `The section '${sectionHeader(section, this.syntax)}' does not exist`
+        );
+      return indices;
+    }
+    /**
+     * Adds a property after the last entry of its section. A property that is not in any section is added before the first section.
+     * A property that was edited has the indentation of the property before it.
+     * @param {Entry} e the entry of the property
+     */
+    #insert(e: Entry): void {
+      let i = this.#entries.length;
+      while (i > 0 && !same(this.#entries[i - 1].section, e.section)) i--;
+      if (i > 0 || e.section.length === 0) {
+        const before = this.#entries[i - 1];
+        this.#entries.splice(i, 0, {
+          ...e,
+          indent: utility.isValid(before?.kv) ? indentation(before) : "",
+        });
+        return;
+      }
+      //a new section at the end of the document, after a blank line
+      const blank =
+        this.#entries.length > 0 || this.#tail.length > 0
+          ? lineTerminator(this.syntax, this.#params)
+          : "";
+      this.#entries.push({ section: e.section, lead: this.#tail + blank }, e);
+      this.#tail = "";
+    }
+    /**
+     * Writes the document
+     * @returns {string} the text of the entries as they were parsed, or as they are written if they were edited
+     */
+    #text(): string {
+      const eol = lineTerminator(this.syntax, this.#params);
+      let text = "";
+      for (const x of this.#entries) {
+        let lines = x.lead;
+        if (utility.isValid(x.src)) lines += x.src;
+        else if (utility.isValid(x.kv))
+          lines +=
+            (x.indent ?? "") +
+            assignment(x.kv!, this.syntax, undefined, this.#params) +
+            eol;
+        else lines += sectionHeader(x.section, this.syntax) + (x.inline ?? "") + eol;
+        //the last line of the data may not have a line terminator
+        if (lines.length > 0 && text.length > 0 && !/[\r\n]$/.test(text))
+          text += eol;
+        text += lines;
+      }
+      return text + this.#tail;
+    }
+    /**
+     * Parses the entries as the {@linkcode Parser} would have parsed them
+     * @returns {Section} the sections and properties of the document
+     */
+    #tree(): Section {
+      const root = new Section(emptyComment());
+      let scope: Section | undefined;
+      const add = () => {
+        if (utility.isValid(scope))
+          root.add(this.syntax, [...scope!.fullname], scope!);
+      };
+      for (const x of this.#entries) {
+        if (utility.isValid(x.kv)) (scope ?? root).add(this.syntax, [], x.kv!);
+        else {
+          add();
+          scope = new Section(emptyComment(), x.section);
+        }
+      }
+      add();
+      return root;
+    }
+    /**
+     * Writes this document. {@linkcode JSFormat} gets its data and any other format gets its text. The syntax and params arguments
+     * are not used, as a document is written with the syntax with which it was parsed.
+     * @inheritdoc
+     */
+    format(format: Format, syntax?: Syntax | undefined, params?: any): void {
+      if (format instanceof JSFormat)
+        this.#tree().format(format, this.syntax, this.#params);
+      else format.append(this.#text(), this.syntax, this.#params);
+    }
+    debug(): string {
+      return this.#text();
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Document) return this.#text() === obj.#text();
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(false, utility.asHashable(this.#text()));
+    }
+    toString(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * Gets the indentation of a header or property of a {@linkcode Document}
+   * @param {Entry} e the header or property
+   * @returns {string} the whitespace at the start of its first line, or the indentation it was given when it was edited
+   */
+  function indentation(e: Entry): string {
+    return utility.isValid(e.src)
+      ? /^[^\S\r\n]*/.exec(e.src!)![0]
+      : e.indent ?? "";
+  }
+  /**
+   * Checks if two full names of sections are the same
+   * @param {readonly string[]} a a full name
+   * @param {readonly string[]} b another full name
+   * @returns {boolean} `true` if they have the same names in the same order
+   */
+  function same(a: readonly string[], b: readonly string[]): boolean {
+    return a.length === b.length && a.every((x, i) => x === b[i]);
+  }
 
   /**
    * @summary A generic syntax
@@ -3851,6 +6240,8 @@ namespace ini {
    * - All identifiers are of the string type hence {@linkcode Syntax.parse} will always return a `string`.
    * - Declaring a property with the same key more than once
    * will cause the orignal value to be overwritten by the duplicate.
+   *
+   * `.properties` files that must be parsed exactly as `java.util.Properties.load` parses them should use the `properties` namespace.
    */
   export const PROPERTIES = new SyntaxBuilder()
     .removeCommentChar(";")
@@ -3928,6 +6319,226 @@ namespace ini {
     .setEscapeChar("\x00") //Prevent escapes. No need to set escape parser as it will never be needed by the parser or formatter as no escape is set
     .setEscapeParser((e) => e) // Just for lols
     .build();
+
+  /**
+   * @summary A syntax for a parser that can parse `.ini` data like python's `configparser`.
+   * @description
+   * A syntax for the data written for python's [configparser](https://docs.python.org/3/library/configparser.html) such as
+   * `setup.cfg` and `tox.ini` files. It has the following features:
+   * - Comments are lines that begin with `'#'` or `';'`, which may be indented. Inline comments are not supported, so a `'#'` or
+   * `';'` after a value is part of the value.
+   * - `'='` and `':'` assign a value to the declared key.
+   * - `'['` begins a section name declaration and `']'` ends it. A property before the first section header is a syntax error.
+   * - This syntax does not support nesting for section names, so `[tool:pytest]` and `[options.extras_require]` are single
+   * section names.
+   * - Keys are read in lower case, as with the default `optionxform` of `configparser`, so `Key` and `key` are the same key and
+   * `%(KEY)s` refers to it. Section names keep their case.
+   * - Quotes and escapes are not supported and are parsed as literals.
+   * - A value continues on the indented lines after it, which are joined to it with line feeds. {@linkcode StringFormat} writes
+   * each continuation line after a tab.
+   * - The properties of the `[DEFAULT]` section are inherited by every other section.
+   * - {@linkcode JSFormat} replaces `%(name)s` in a value with the value of `name` in the same section (or in `[DEFAULT]`) and `%%`
+   * with `%`. The values are written as they were parsed. To use `${section:name}` references instead, do:
+   * ```ts
+   * var syntax = new SyntaxBuilder().rebuild(CONFIGPARSER).setInterpolation(Interpolation.EXTENDED).build();
+   * ```
+   * - All identifiers, including empty values, are of the string type hence {@linkcode Syntax.parse} will always return a `string`.
+   * - Declaring a section or a property more than once in the same section will cause an error to be thrown.
+   */
+  export const CONFIGPARSER = new SyntaxBuilder()
+    .removeDelimiter(":")
+    .addDelimiter(":") //'=' is written
+    .supportInline(false)
+    .removeSupportForNesting()
+    .removeSupportForEscape()
+    .setDuplicateDirective(DuplicateDirective.THROW)
+    .supportContinuationLines(true)
+    .setDefaultSection("DEFAULT")
+    .setInterpolation(Interpolation.BASIC)
+    .ignoreKeyCase(true)
+    .requireSectionHeader(true)
+    .setFileExt("cfg")
+    .setFormatParser((v) => v) //an empty value is an empty string
+    .build();
+  /**
+   * Parses the escapes of a git config value, which are `\n`, `\t`, `\b`, `\"`, `\\` and a `\` at the end of a line, which continues
+   * the value on the next line.
+   * @param {string} e the escape character and the character it escapes
+   * @returns {string} the escaped character
+   * @throws {parser.ParseError} if the argument is not an escape that git config has, as git rejects the line
+   */
+  function gitUnescape(e: string): string {
+    switch (e) {
+      case "\\n":
+        return "\n";
+      case "\\t":
+        return "\t";
+      case "\\b":
+        return "\b";
+      case '\\"':
+      case "\\\\":
+        return e[1];
+    }
+    if (isEol(e.substring(1))) return "";
+    throw new parser.ParseError(`'${e}' is not an escape of git config`);
+  }
+  /**
+   * Writes a git config key or value as `git config` does. It is quoted if it starts or ends with a space or has a `'#'` or `';'`,
+   * and line feeds, tabs, double quotes and backslashes are escaped.
+   * @param {string} text the key or value
+   * @returns {string} the text that is written
+   */
+  function gitQuote(text: string): string {
+    const escaped = text.replace(/[\n\t"\\]/g, (c) =>
+      c === "\n" ? "\\n" : c === "\t" ? "\\t" : `\\${c}`
+    );
+    return /^ | $|[#;]/.test(text) ? `"${escaped}"` : escaped;
+  }
+  /**
+   * @summary A syntax for a parser that can parse git's configuration files.
+   * @description
+   * A syntax for [git config](https://git-scm.com/docs/git-config#_configuration_file) files such as `.git/config` and
+   * `~/.gitconfig`. It has the following features:
+   * - Comments are lines that begin with `'#'` or `';'`, and inline comments are supported.
+   * - `'='` assigns a value to the declared key. A key without a value is parsed as `null`, which git reads as `true`, and an empty
+   * value (`key =` or `key = ""`) is parsed as an empty string.
+   * - `'['` begins a section name declaration and `']'` ends it. A section name may be followed by a subsection name in double
+   * quotes, so that `[remote "origin"]` is the subsection `origin` nested in the section `remote`. The deprecated `[section.subsection]`
+   * is a single section name.
+   * - Section names and keys are case-insensitive and are read in lower case. Subsection names keep their case.
+   * - Double quotes may begin and end anywhere in a value and are removed, so that `"a"b` is `ab`. Outside quotes, whitespace at
+   * either end of a value is removed, and `'#'` and `';'` begin an inline comment. The escapes `\n`, `\t`, `\b`, `\"` and `\\` are
+   * supported in and out of quotes, and a `\` at the end of a line continues the value on the next line. Any other escape is a
+   * syntax error. {@linkcode StringFormat}
+   * writes values as `git config` does.
+   * - Declaring a section more than once merges it with the original. Declaring a property with the same key more than once in a
+   * section makes it a multivar, whose values are kept in the order in which they were declared, so that {@linkcode JSFormat} gives
+   * `{ remote: { origin: { fetch: ["+refs/heads/*:refs/remotes/origin/*", "+refs/tags/*:refs/tags/*"] } } }`.
+   *
+   * An `[include]` section can be read with a {@linkcode Loader} that ignores missing files, as git does:
+   * ```ts
+   * const e = await new Loader(GIT_CONFIG, undefined, undefined, undefined, true).load(".git/config");
+   * ```
+   * The loader does not evaluate `[includeIf]` sections, whose condition can be checked by the directive function of the loader.
+   */
+  export const GIT_CONFIG = new SyntaxBuilder()
+    .removeDelimiter(":")
+    .removeSupportForNesting()
+    .supportNonQuotedEscape(true)
+    .removeUnicodeChar("x")
+    .removeUnicodeChar("X")
+    .removeUnicodeChar("u")
+    .removeUnicodeChar("U")
+    .setEscapeParser(gitUnescape)
+    .setEscapeFormatter(gitQuote)
+    .supportQuotedSubsections(true)
+    .supportQuotesInValues(true)
+    .setFormatParser((v) => v)
+    .ignoreCase(true)
+    .setFileExt("gitconfig")
+    .build();
+  /**
+   * Parses the escapes of a systemd unit, in which only a `\` at the end of a line is an escape. It continues the value on the next
+   * line, and is replaced by a space.
+   * @param {string} e the escape character and the character it escapes
+   * @returns {string} a space for a `\` at the end of a line, else the argument as systemd leaves other escapes to each setting
+   */
+  function systemdUnescape(e: string): string {
+    return isEol(e.substring(1)) ? " " : e;
+  }
+  /**
+   * Tells whether a directive of a systemd unit is a list, which has all the values that it is assigned, as `ExecStart=` and
+   * `After=` do. Other directives, such as `Description=` and `Restart=`, have the last value that they are assigned.
+   * @param {string} key the directive
+   * @returns {boolean} `true` if the directive is a list
+   */
+  function systemdList(key: string): boolean {
+    return /^(Exec(Start|StartPre|StartPost|Condition|Reload|Stop|StopPost)|(Pass|Unset)?Environment|EnvironmentFile|After|Before|Wants|Requires|Requisite|BindsTo|PartOf|Upholds|Conflicts|On(Failure|Success)|PropagatesReloadTo|ReloadPropagatedFrom|PropagatesStopTo|StopPropagatedFrom|JoinsNamespaceOf|(Requires|Wants)MountsFor|Documentation|WantedBy|RequiredBy|UpheldBy|Alias|Also|(Condition|Assert)[A-Za-z]+|Listen[A-Za-z]+|Sockets|Symlinks|On(Calendar|ActiveSec|BootSec|StartupSec|UnitActiveSec|UnitInactiveSec)|Path(Exists|ExistsGlob|Changed|Modified)|DirectoryNotEmpty|(ReadWrite|ReadOnly|Inaccessible|Exec|NoExec)Paths|Bind(ReadOnly)?Paths|TemporaryFileSystem|SupplementaryGroups|DeviceAllow|IPAddress(Allow|Deny)|(Load|Set)Credential(Encrypted)?|(Runtime|State|Cache|Logs|Configuration)Directory|CapabilityBoundingSet|AmbientCapabilities|SystemCall(Filter|Architectures|Log)|RestrictAddressFamilies|RestrictFileSystems|RestrictNetworkInterfaces|SocketBind(Allow|Deny))$/.test(
+      key
+    );
+  }
+  /**
+   * @summary A syntax for a parser that can parse systemd unit files.
+   * @description
+   * A syntax for the unit files of [systemd](https://www.freedesktop.org/software/systemd/man/systemd.syntax.html) such as
+   * `.service`, `.socket` and `.timer` files and their drop-ins. It has the following features:
+   * - Comments are lines that begin with `'#'` or `';'`. Inline comments are not supported, so a `'#'` after a value is part of the
+   * value. Comments are retained, and a comment line in a value that is continued by a `\` is skipped.
+   * - `'='` assigns a value to the declared key, and {@linkcode StringFormat} writes it as `Key=value`. A line with a key and no `'='`
+   * is a syntax error.
+   * - `'['` begins a section name declaration and `']'` ends it. Section names are not nested, so `[X-Fleet]` is a single name.
+   * - Quotes are not parsed, as systemd leaves them to each setting, so `ExecStart=/bin/echo "a b"` has the quotes in its value.
+   * - A `\` at the end of a line continues the value on the next line. The `\`, the whitespace before it and the indentation of the
+   * next line are replaced by a single space. Other escapes are parsed as literals. A value is written as it was parsed, so a continued value is
+   * written on one line.
+   * - A list directive, such as `ExecStart=`, `Environment=` and `After=`, that is declared more than once in a section has all of
+   * its values, but an empty value removes the values before it (see {@linkcode DuplicateDirective.RESET}). {@linkcode JSFormat}
+   * gives a list directive as an array, even if it has one value or none. The empty value is
+   * written back, so that a drop-in that resets a list still resets it. Any other directive, such as `Description=`, has the value
+   * of its last declaration, so that a drop-in overrides it. Declaring a section more than once merges it.
+   * - Specifiers such as `%n` and `%h` are not expanded, as they depend on the unit and the system. To expand them in the values
+   * given by {@linkcode JSFormat}, do:
+   * ```ts
+   * var syntax = new SyntaxBuilder()
+   *   .rebuild(SYSTEMD)
+   *   .setSpecifiers((c) => ({ n: "app.service", N: "app", h: "/root" })[c])
+   *   .build();
+   * ```
+   * - All identifiers are of the string type hence {@linkcode Syntax.parse} will always return a `string`.
+   *
+   * To read a unit with its drop-ins in `<unit>.d/*.conf`, use a {@linkcode Loader} that does not look for includes:
+   * ```ts
+   * const e = await new Loader(SYSTEMD, () => false, ".d").load("/etc/systemd/system/app.service");
+   * ```
+   */
+  export const SYSTEMD = new SyntaxBuilder()
+    .supportInline(false)
+    .removeDelimiter(":")
+    .removeSupportForNesting()
+    .supportQuotedText(false)
+    .supportNonQuotedEscape(true)
+    .removeUnicodeChar("x")
+    .removeUnicodeChar("X")
+    .removeUnicodeChar("u")
+    .removeUnicodeChar("U")
+    .setEscapeParser(systemdUnescape)
+    .setEscapeFormatter((text) => text)
+    .setDuplicateDirective(DuplicateDirective.RESET, true)
+    .setDuplicateDirective(DuplicateDirective.MERGE, false)
+    .setLists(systemdList)
+    .supportCommentsInContinuation(true)
+    .trimContinuation(true)
+    .requireDelimiter(true)
+    .setDelimiterPadding(false)
+    .setFileExt("service")
+    .build();
+  /**
+   * @summary A syntax for a parser that can parse `.editorconfig` files.
+   * @description
+   * A syntax for the files of [EditorConfig](https://spec.editorconfig.org), which {@linkcode EditorConfig} resolves for a file. It
+   * has the following features:
+   * - Comments are lines that begin with `'#'` or `';'`. Inline comments are not supported, so a `'#'` after a value is part of the
+   * value.
+   * - `'='` assigns a value to the declared key.
+   * - `'['` begins a section name declaration and the `']'` that matches it ends it, so `[*.[ch]]` is the section `*.[ch]`. A
+   * section name is a glob and is not nested, so `[lib/**.js]` is a single name.
+   * - Quotes and escapes are not parsed, so a `'\\'` in a glob is left for the glob.
+   * - The properties before the first section are the preamble, which has `root`.
+   * - A key that is declared more than once in a section has its last value, and a section that is declared more than once is
+   * merged. {@linkcode EditorConfig} reads the sections in the order in which they are declared instead.
+   * - All identifiers are of the string type hence {@linkcode Syntax.parse} will always return a `string`. Keys and values keep their
+   * case.
+   */
+  export const EDITORCONFIG = new SyntaxBuilder()
+    .supportInline(false)
+    .removeDelimiter(":")
+    .removeSupportForNesting()
+    .supportQuotedText(false)
+    .removeSupportForEscape()
+    .setDuplicateDirective(DuplicateDirective.OVERWRITE, true)
+    .setDuplicateDirective(DuplicateDirective.MERGE, false)
+    .setFileExt("editorconfig")
+    .build();
   // export const UNIX
 }
 export default ini;
@@ -1,6 +1,14 @@
+import {
+  createReadStream,
+  createWriteStream,
+  ReadStream,
+  WriteStream,
+} from "fs";
 import parser from "./parser.js";
 import { TransformOptions, TransformCallback } from "node:stream";
 import expression from "./expression.js";
+import utility from "../utility.js";
+import { Decimal } from "decimal.js";
 
 namespace json {
   /**
@@ -8,9 +16,11 @@ namespace json {
    * @param {any} data the value to be tested
    * @returns {boolean} `true` if the argument is not an object/array otherwise returns `false`
    */
-  export function isAtomic(data: any): boolean {
+  export function isAtomic(data: any): data is Atom {
     return (
-      data === null || (typeof data !== "object" && !Array.isArray(data))
+      data === null ||
+      Decimal.isDecimal(data) ||
+      (typeof data !== "object" && !Array.isArray(data))
     );
   }
   /**
@@ -24,8 +34,11 @@ namespace json {
     }
     return true;
   }
-  /**The atomic types of json, used elsewhere for detecting parameter that have json atomic type(s) */
-  export type Atom = null | boolean | number | string;
+  /**
+   * The atomic types of json, used elsewhere for detecting parameter that have json atomic type(s). `bigint` and `Decimal` are only
+   * produced by formats that are in a lossless numeric mode (see {@linkcode lossless})
+   */
+  export type Atom = null | boolean | number | bigint | Decimal | string;
   /**The object types of json, used elsewhere for detecting parameter that have object type(s) */
   export type Pair = {
     /**
@@ -38,11 +51,1832 @@ namespace json {
   export type List = Value[];
   /**The data types of json, used elsewhere for detecting parameter type(s) */
   export type Value = Atom | List | Pair;
+  /**
+   * The canonical form of a json number. Text such as `007` or `1.` is not matched so that codes and identifiers which only look
+   * like numbers are left alone by {@linkcode lossless}
+   */
+  const CANONICAL_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+  /**
+   * Creates a function that converts the text of a number to an in-memory value without losing precision. The value is a `number` if
+   * `Number` converts the text exactly, a `bigint` if it is an integer that is not safe and a `Decimal` otherwise (such as a fraction
+   * with more significant digits than a `number` can hold or an exponent that overflows it).
+   * @param {(text: string) => Value} fallback converts the text that is not a canonical json number, such as quoted csv fields or the
+   * hexadecimal numbers of JSON5
+   * @returns {(text: string) => Value} a function that can be used as the `parse` of the syntax of json, csv and ini
+   */
+  export function lossless(fallback: (text: string) => Value): (text: string) => Value {
+    return (text: string) => {
+      if (!CANONICAL_NUMBER.test(text)) return fallback(text);
+      const n = Number(text);
+      if (!/[.eE]/.test(text)) return Number.isSafeInteger(n) ? n : BigInt(text);
+      const d = utility.s(text);
+      return Number.isFinite(n) && d.equals(utility.i(n)) ? n : d;
+    };
+  }
+  /**
+   * Converts the argument to json text. Unlike `JSON.stringify`, a `bigint` or `Decimal` is written as a number with all of its digits
+   * and a property that is `undefined` is written as `null`.
+   * @param {Value} data the value to be converted
+   * @param {number} [indent] the number of spaces per indentation level. No whitespace is written if this is `0`
+   * @param {number} [depth] the nesting level of the argument
+   * @returns {string} the json text of the argument
+   */
+  export function stringify(data: Value, indent = 0, depth = 0): string {
+    const open = indent > 0 ? "\n" + " ".repeat(indent * (depth + 1)) : "";
+    const close = indent > 0 ? "\n" + " ".repeat(indent * depth) : "";
+    if (data === null || data === undefined) return "null";
+    else if (typeof data === "number") return Number.isFinite(data) ? String(data) : "null";
+    else if (isAtomic(data)) return typeof data === "string" ? JSON.stringify(data) : data.toString();
+    else if (Array.isArray(data))
+      return data.length === 0
+        ? "[]"
+        : "[" + data.map((v) => open + stringify(v, indent, depth + 1)).join(",") + close + "]";
+    const keys = Object.keys(data);
+    return keys.length === 0
+      ? "{}"
+      : "{" +
+          keys
+            .map((k) => open + JSON.stringify(k) + (indent > 0 ? ": " : ":") + stringify(data[k], indent, depth + 1))
+            .join(",") +
+          close +
+          "}";
+  }
+  /**
+   * Escapes the argument and encloses it in double quotes
+   * @param {string} s a string
+   * @returns {string} the argument as a json string
+   */
+  function quote(s: string): string {
+    return JSON.stringify(s);
+  }
+  /**
+   * Checks whether the argument is the text of a number in the given syntax
+   * @param {string} text the text to be checked
+   * @param {Syntax} s the syntax
+   * @returns {boolean} `true` if the argument is a number in the given syntax
+   */
+  function isNumber(text: string, s: Syntax): boolean {
+    if (NUMBER_PATTERN.test(text)) return true;
+    else if (text.startsWith("+") && !s.lenientNumbers) return false;
+    return (
+      (s.lenientNumbers && LENIENT_NUMBER_PATTERN.test(text)) ||
+      (s.hexNumbers && HEX_NUMBER_PATTERN.test(text)) ||
+      (s.nonFiniteNumbers && NON_FINITE_PATTERN.test(text))
+    );
+  }
+  /**
+   * Converts the text of a number in any of the forms accepted by {@linkcode isNumber} to a `number`. This is the default
+   * {@linkcode Syntax.parse}.
+   * @param {string} text the text of a number
+   * @returns {number} the number
+   */
+  function toNumber(text: string): number {
+    const sign = text.startsWith("-") ? -1 : 1;
+    const unsigned = text.replace(/^[+-]/, "");
+    return sign * (/^0[xX]/.test(unsigned) ? parseInt(unsigned.substring(2), 16) : Number(unsigned));
+  }
+  /**
+   * Checks whether the argument is whitespace between tokens in the given syntax
+   * @param {string} c a single character
+   * @param {Syntax} s the syntax
+   * @returns {boolean} `true` if the argument is whitespace
+   */
+  function isSpace(c: string, s: Syntax): boolean {
+    return (
+      c === " " ||
+      c === "\t" ||
+      c === "\n" ||
+      c === "\r" ||
+      (s.extendedWhitespace && /[\v\f\u00A0\uFEFF\u2028\u2029\p{Zs}]/u.test(c))
+    );
+  }
+  /**
+   * Checks whether the argument is a line terminator that an escape may be followed by in a string that supports {@linkcode Syntax.extendedEscapes}
+   * @param {string} c a single character
+   * @returns {boolean} `true` if the argument is a line terminator
+   */
+  function isBreak(c: string): boolean {
+    return c === "\n" || c === "\r" || c === "\u2028" || c === "\u2029";
+  }
+  /**
+   * Writes the keys and indexes from the root to a value in the form `$.key[0]`
+   * @param {readonly (string | number)[]} path the keys and indexes
+   * @returns {string} a string representation of the argument
+   */
+  function pointer(path: readonly (string | number)[]): string {
+    return path.reduce<string>(
+      (a, k) =>
+        typeof k === "number"
+          ? `${a}[${k}]`
+          : /^[A-Za-z_$][\w$]*$/.test(k)
+          ? `${a}.${k}`
+          : `${a}[${quote(k)}]`,
+      "$"
+    );
+  }
+  /**
+   * Throws a {@linkcode parser.SyntaxError} for a token that was not expected at its position
+   * @param {parser.GToken<string>} t the token that was found
+   * @param {string} expected a description of what was expected
+   * @param {Params} [pa] the params whose path is added to the message
+   */
+  function unexpected(t: parser.GToken<string>, expected: string, pa?: Params): never {
+    const found = t.type!.equals(EOF)
+      ? "the end of the text"
+      : t.type!.equals(STRING)
+      ? quote(t.value)
+      : `'${t.value}'`;
+    const at = utility.isValid(pa) && pa!.path.length > 0 ? ` in ${pointer(pa!.path)}` : "";
+    throw new parser.SyntaxError(
+      t,
+      new parser.ParseError(
+        `Expected ${expected} but found ${found}${at} at line: ${t.lineStart}, position: ${t.startPos}`
+      )
+    );
+  }
+  /**
+   * Parses the value that starts at the next token
+   * @param {Parser} p the parser
+   * @param {MutableLexer} l the lexer
+   * @param {Syntax} s the syntax
+   * @param {Params} pa the params
+   * @returns {Node} the value
+   */
+  function value(p: Parser, l: MutableLexer, s: Syntax, pa: Params): Node {
+    const t = p.peek(l, s, pa);
+    if (!VALUE_START.some((x) => x.equals(t.type))) unexpected(t, "a value", pa);
+    return p.parse(l, s, pa) as Node;
+  }
+  /**
+   * Formats the argument as json text
+   * @param {Node} n the value to be formatted
+   * @param {Syntax} [s] the syntax whose {@linkcode Syntax.indent indent} is used. No whitespace is written if this is `undefined`.
+   * A number that is not valid in this syntax (such as `0x1F` in strict json) is written as a decimal, or as `null` if it is not finite
+   * @param {number} [depth] the nesting level of the argument
+   * @returns {string} the json text of the argument
+   */
+  function write(n: Node, s?: Syntax, depth = 0): string {
+    const indent = s?.indent ?? 0;
+    const open = indent > 0 ? "\n" + " ".repeat(indent * (depth + 1)) : "";
+    const close = indent > 0 ? "\n" + " ".repeat(indent * depth) : "";
+    if (n instanceof Mapping)
+      return n.entries.length === 0
+        ? "{}"
+        : "{" +
+            n.entries
+              .map(
+                ([k, v]) =>
+                  open + quote(k.value) + (indent > 0 ? ": " : ":") + write(v, s, depth + 1)
+              )
+              .join(",") +
+            close +
+            "}";
+    else if (n instanceof Sequence)
+      return n.items.length === 0
+        ? "[]"
+        : "[" + n.items.map((v) => open + write(v, s, depth + 1)).join(",") + close + "]";
+    const x = n as Scalar;
+    if (x.type.equals(STRING)) return quote(x.value);
+    else if (!x.type.equals(NUMBER) || !utility.isValid(s) || isNumber(x.value, s!)) return x.value;
+    const v = toNumber(x.value);
+    return Number.isFinite(v) ? String(v) : "null";
+  }
+  /**
+   * Converts the argument to an in-memory value
+   * @param {Node} n the value to be converted
+   * @param {Syntax} [s] the syntax whose {@linkcode Syntax.parse} converts numbers. The default of that method is used if this is `undefined`
+   * @returns {Value} the in-memory value of the argument
+   */
+  function toJS(n: Node, s?: Syntax): Value {
+    if (n instanceof Mapping) {
+      const o: Pair = {};
+      for (const [k, v] of n.entries)
+        Object.defineProperty(o, k.value, {
+          value: toJS(v, s),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      return o;
+    } else if (n instanceof Sequence) return n.items.map((v) => toJS(v, s));
+    const x = n as Scalar;
+    if (x.type.equals(STRING)) return x.value;
+    else if (x.type.equals(NUMBER)) return utility.isValid(s) ? s!.parse(x.value) : toNumber(x.value);
+    return x.value === "null" ? null : x.value === "true";
+  }
+  /**
+   * @summary Builds a json syntax
+   * @description A builder for a json {@linkcode Syntax}. The default is a strict [RFC 8259](https://www.rfc-editor.org/rfc/rfc8259)
+   * syntax that formats with an indentation of 2 spaces. Each of the relaxations used by dialects such as JSONC and JSON5 can be
+   * enabled on its own with the `supportXxx` methods.
+   */
+  export class SyntaxBuilder implements utility.Builder<Syntax> {
+    /**The number of spaces per indentation level used when formatting */
+    private _ind = 2;
+    /**metadata part of a syntax*/
+    private _md = {
+      fileExt: "json",
+      isStandard: true,
+      standard: "https://www.rfc-editor.org/rfc/rfc8259",
+      mediaType: "application/json",
+    };
+    /**the relaxations of the strict syntax that are supported */
+    private _ext = {
+      comments: false,
+      trailingCommas: false,
+      unquotedKeys: false,
+      singleQuotes: false,
+      hexNumbers: false,
+      nonFiniteNumbers: false,
+      lenientNumbers: false,
+      extendedEscapes: false,
+      extendedWhitespace: false,
+    };
+    /**the number parser of this syntax*/
+    private _p: (v: string) => Value = toNumber;
+    /**`true` if numbers are converted without losing precision before they reach {@linkcode _p} */
+    private _lossless = false;
+    /**the infix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _infCmdlets: [parser.GType<string>, Command][] = [];
+    /**the prefix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _preCmdlets: [parser.GType<string>, Command][] = [];
+    /**the postfix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _posCmdlets: [parser.GType<string>, Command][] = [];
+    /**A function for getting the correct command based on the direction */
+    private _getCmd = (
+      d: parser.Direction,
+      type: parser.GType<string>
+    ): Command | undefined => {
+      switch (d) {
+        case parser.Direction.PREFIX:
+        default: {
+          const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+        }
+        case parser.Direction.INFIX: {
+          const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+        }
+        case parser.Direction.POSTFIX:
+          const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+      }
+    };
+    /**
+     * Constructs a `SyntaxBuilder`. This specifically compiles all the prefix commands needed by the syntax
+     */
+    constructor() {
+      this.addPrefixCommand(INIT, new Initialize());
+      this.addPrefixCommand(BEGIN_OBJECT, new ParseObject());
+      this.addPrefixCommand(BEGIN_ARRAY, new ParseArray());
+      this.addPrefixCommand(STRING, new ParseScalar());
+      this.addPrefixCommand(NUMBER, new ParseScalar());
+      this.addPrefixCommand(LITERAL, new ParseLiteral());
+    }
+    /**
+     * Sets the number of spaces used for each level of indentation when the parsed data is formatted.
+     * @param {number} n an integer in the range [0, 10] where `0` formats without any whitespace
+     * @defaultValue `2`
+     * @default {2}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if the argument is not an integer in the range [0, 10]
+     * @see {@linkcode Syntax.indent}
+     */
+    public setIndent(n: number): SyntaxBuilder {
+      if (!Number.isInteger(n) || n < 0 || n > 10)
+        throw new Error("The indentation must be an integer from 0 to 10");
+      this._ind = n;
+      return this;
+    }
+    /**
+     * Allows `//` line comments and `/* *\/` block comments.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.comments}
+     */
+    public supportComments(b: boolean): SyntaxBuilder {
+      this._ext.comments = !!b;
+      return this;
+    }
+    /**
+     * Allows a `,` after the last member of an object and the last element of an array.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.trailingCommas}
+     */
+    public supportTrailingCommas(b: boolean): SyntaxBuilder {
+      this._ext.trailingCommas = !!b;
+      return this;
+    }
+    /**
+     * Allows identifiers that are not in quotes as the names of members.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.unquotedKeys}
+     */
+    public supportUnquotedKeys(b: boolean): SyntaxBuilder {
+      this._ext.unquotedKeys = !!b;
+      return this;
+    }
+    /**
+     * Allows strings that are enclosed in single quotes.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.singleQuotes}
+     */
+    public supportSingleQuotes(b: boolean): SyntaxBuilder {
+      this._ext.singleQuotes = !!b;
+      return this;
+    }
+    /**
+     * Allows hexadecimal integers such as `0x1F`.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.hexNumbers}
+     */
+    public supportHexNumbers(b: boolean): SyntaxBuilder {
+      this._ext.hexNumbers = !!b;
+      return this;
+    }
+    /**
+     * Allows `Infinity`, `-Infinity` and `NaN`.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.nonFiniteNumbers}
+     */
+    public supportNonFiniteNumbers(b: boolean): SyntaxBuilder {
+      this._ext.nonFiniteNumbers = !!b;
+      return this;
+    }
+    /**
+     * Allows numbers that start with `+` and decimal points without digits before or after them.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.lenientNumbers}
+     */
+    public supportLenientNumbers(b: boolean): SyntaxBuilder {
+      this._ext.lenientNumbers = !!b;
+      return this;
+    }
+    /**
+     * Allows the escapes of JSON5 strings, including a `\` before a line break.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.extendedEscapes}
+     */
+    public supportExtendedEscapes(b: boolean): SyntaxBuilder {
+      this._ext.extendedEscapes = !!b;
+      return this;
+    }
+    /**
+     * Allows the whitespace of JSON5 such as non-breaking spaces and form feeds.
+     * @param {boolean} b `true` to allow them, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.extendedWhitespace}
+     */
+    public supportExtendedWhitespace(b: boolean): SyntaxBuilder {
+      this._ext.extendedWhitespace = !!b;
+      return this;
+    }
+    /**
+     * Sets the function that converts the text of a number to an in-memory value. Will not set anything if the argument is `null` or `undefined`.
+     * @param {(v: string) => Value} p a function that accepts the text of a number exactly as it was written and returns a `json.Value` type.
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.parse}
+     */
+    public setFormatParser(p: (v: string) => Value): SyntaxBuilder {
+      this._p = p ?? this._p;
+      return this;
+    }
+    /**
+     * Converts numbers to a `bigint` or `Decimal` when a `number` cannot hold them exactly, such as 64-bit identifiers and amounts with
+     * many decimal places. A number that is not in the canonical json form (such as `0x1F` in JSON5) is still converted by the
+     * {@linkcode setFormatParser format parser}.
+     * @param {boolean} b `true` to convert numbers without losing precision, `false` otherwise
+     * @defaultValue `false`
+     * @default {false}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode lossless}
+     */
+    public supportLosslessNumbers(b: boolean): SyntaxBuilder {
+      this._lossless = !!b;
+      return this;
+    }
+    /**
+     * Attempts to push the second and third argument into the given array. If the non-array arguments already exist in the array, then an overwrite operation is performed.
+     * @param {[parser.GType<string>, Command][]} map an array for type/command tuples
+     * @param { parser.GType<string>} t the type to be added to the array
+     * @param {Command} cmd the command to be added with the type
+     * @returns {void} does not return anything
+     */
+    private _pushOrOverite(
+      map: [parser.GType<string>, Command][],
+      t: parser.GType<string>,
+      cmd: Command
+    ): void {
+      for (let i = 0; i < map.length; i++)
+        if (map[i][0].equals(t)) {
+          map[i] = [t, cmd];
+          return;
+        }
+      map.push([t, cmd]);
+    }
+    /**
+     * @summary registers an infix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with infix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+     * @remark
+     * There are no default infix commands.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible infix type.
+     * @param {Command} cmd the command which can parse infix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addInfixCommand(
+      type: parser.GType<string>,
+      cmd: Command
+    ): SyntaxBuilder {
+      this._pushOrOverite(this._infCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the infix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addInfixCommand
+     */
+    public removeInfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._infCmdlets = this._infCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a prefix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with prefix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible prefix type.
+     * @param {Command} cmd the command which can parse prefix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addPrefixCommand(
+      type: parser.GType<string>,
+      cmd: Command
+    ): SyntaxBuilder {
+      this._pushOrOverite(this._preCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the prefix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPrefixCommand
+     */
+    public removePrefixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._preCmdlets = this._preCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a postfix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with postfix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * @remark
+     * Calling this method has no effect on the built `Syntax` as {@link Parser} does not support {@link parser.Direction.POSTFIX}.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible postfix type.
+     * @param {Command} cmd the command which can parse postfix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see Syntax.getCommand
+     */
+    public addPostfixCommand(
+      type: parser.GType<string>,
+      cmd: Command
+    ): SyntaxBuilder {
+      this._pushOrOverite(this._posCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the postfix command registered with the given type. In practice, this method does nothing
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPostfixCommand
+     */
+    public removePostfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._posCmdlets = this._posCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * Sets the extension string associated with the syntax as specified by {@link `Syntax.metadata.fileExt`}
+     * @remark
+     * The default is `'json'`.
+     * @param {string} ext the file extension as a string. This should not have any trailing dot(s). An undefined or null value has no effect
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setFileExt(ext: string): SyntaxBuilder {
+      this._md.fileExt = ext ?? this._md.fileExt;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.isStandard isStandard property} in the syntax to be built.
+     * @remark
+     * The default is `true`.
+     * @param {boolean} b `true` if the syntax is a web standard `false` if otherwise. A truthy value will be converted to a boolean.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setIsStandard(b: boolean): SyntaxBuilder {
+      this._md.isStandard = !!b;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.mediaType media type} associated with the data for which the syntax is being built.
+     * @remark
+     * The default is `'application/json'`
+     * @param {string} mediaType the MIME type for the syntax
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setMediaType(mediaType: string): SyntaxBuilder {
+      this._md.mediaType = mediaType ?? this._md.mediaType;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.standard standard} associated with the data for which the syntax is being built.
+     * @remark
+     * The default is `'https://www.rfc-editor.org/rfc/rfc8259'`
+     * @param {string} standard a string representing the standard specification for the data that this syntax will be created for.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setStandard(standard: string): SyntaxBuilder {
+      this._md.standard = standard ?? this._md.standard;
+      return this;
+    }
+    /**
+     * Clears this builder of all the values set into it by either reseting to the default or completely wiping all values. If the latter is chosen then Every value has to manually set again or this might not build.
+     * @param toDefault `true` for a reset `false` for a complete wipe. This is an optional value that defaults to `true`.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public clear(toDefault = true): SyntaxBuilder {
+      this._getCmd = (
+        d: parser.Direction,
+        type: parser.GType<string>
+      ): Command | undefined => {
+        switch (d) {
+          case parser.Direction.PREFIX:
+          default: {
+            const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.INFIX: {
+            const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.POSTFIX:
+            const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+        }
+      };
+      this._ext = {
+        comments: false,
+        trailingCommas: false,
+        unquotedKeys: false,
+        singleQuotes: false,
+        hexNumbers: false,
+        nonFiniteNumbers: false,
+        lenientNumbers: false,
+        extendedEscapes: false,
+        extendedWhitespace: false,
+      };
+      this._lossless = false;
+      if (toDefault) {
+        this._md = {
+          fileExt: "json",
+          isStandard: true,
+          standard: "https://www.rfc-editor.org/rfc/rfc8259",
+          mediaType: "application/json",
+        };
+        this._ind = 2;
+        this._p = toNumber;
+      } else {
+        this._md = {
+          fileExt: "",
+          isStandard: false,
+          standard: "",
+          mediaType: "",
+        };
+        this._ind = 0;
+        this._p = (v: string) => v;
+      }
+      return this;
+    }
+    /**
+     * @inheritdoc
+     * @returns {Syntax}
+     */
+    public build(): Syntax {
+      return Object.freeze({
+        metadata: { ...this._md, encoding: "utf-8" },
+        indent: this._ind,
+        ...this._ext,
+        parse: this._lossless ? lossless(this._p) : this._p,
+        getCommand: this._getCmd,
+      }) as Syntax;
+    }
+    /**
+     * @summary assigns all values from the syntax argument to the properties of this builder.
+     * @remark
+     * Note that the `encoding` property will not be copied and the argument `from` cannot be `null` or `undefined` or this will throw
+     * @param {Syntax} from the syntax from which this builder will be built
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @throws {Error} if the argument is not a valid object
+     */
+    public rebuild(from: Syntax): SyntaxBuilder {
+      if (!utility.isValid(from)) throw new Error("undefined not allowed here");
+      this._md.fileExt = (from.metadata ?? { fileExt: "" }).fileExt;
+      this._md.isStandard = (from.metadata ?? { isStandard: false }).isStandard;
+      this._md.mediaType = (from.metadata ?? { mediaType: "" }).mediaType;
+      this._md.standard = (from.metadata ?? { standard: "" }).standard;
+      this._ind = from.indent ?? 2;
+      for (const k of Object.keys(this._ext) as (keyof typeof this._ext)[])
+        this._ext[k] = !!from[k];
+      this._p = from.parse;
+      this._getCmd = from.getCommand;
+      return this;
+    }
+  }
+  /**
+   * @summary Defines how json data is parsed.
+   * @description
+   * A specialized json extension of the {@linkcode parser.Syntax} interface that defines the json syntax that this pipeline uses.
+   * It is recommended that users instantiate it through the use of the {@linkcode SyntaxBuilder} class.
+   */
+  export interface Syntax extends parser.GSyntax<Type, Command> {
+    /**
+     * The number of spaces used for each level of indentation by the {@link StringFormat} and {@link FileFormat}. A value of `0`
+     * formats without any whitespace between tokens. This has no effect on parsing.
+     * @type {number}
+     * @readonly
+     */
+    readonly indent: number;
+    /**
+     * Allows `//` line comments and `/* *\/` block comments wherever whitespace is allowed. Comments are discarded.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly comments: boolean;
+    /**
+     * Allows a `,` after the last member of an object and the last element of an array.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly trailingCommas: boolean;
+    /**
+     * Allows the name of a member to be an identifier (such as `name` or `$id`) that is not in quotes.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly unquotedKeys: boolean;
+    /**
+     * Allows strings to be enclosed in single quotes, in which a single quote can be escaped with `\'` and a double quote needs no escape.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly singleQuotes: boolean;
+    /**
+     * Allows hexadecimal integers such as `0x1F` and `-0xff`.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly hexNumbers: boolean;
+    /**
+     * Allows `Infinity`, `-Infinity` and `NaN` as numbers.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly nonFiniteNumbers: boolean;
+    /**
+     * Allows a number to start with `+` and a decimal point to have no digits before (`.5`) or after (`5.`) it.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly lenientNumbers: boolean;
+    /**
+     * Allows the escapes `\v`, `\0` and `\xFF` in a string, a `\` before a line break to continue the string on the next line, and any
+     * other character that is not a digit to be escaped as itself (such as `\'` and `\a`).
+     * @type {boolean}
+     * @readonly
+     */
+    readonly extendedEscapes: boolean;
+    /**
+     * Allows vertical tabs, form feeds, non-breaking spaces, byte order marks, line and paragraph separators and any other unicode
+     * space separator as whitespace between tokens.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly extendedWhitespace: boolean;
+    /**
+     * User defined conversion of a number. This enables users to define the in-memory data type they want for numbers, for example
+     * one that does not lose the precision of large integers. The default converts with `Number`, except for hexadecimal integers
+     * which are converted with `parseInt`.
+     * @param {string} value the text of a number exactly as it was written
+     * @returns {Value} the in-memory data to be associated with the argument.
+     */
+    parse(value: string): Value;
+  }
+  /**
+   * @summary An object that holds variables for the parsing process.
+   * @description A mutable visitor object used by the {@linkcode Parser} as a container for variables,
+   * 'a notice board' for the {@link Format formatter}.
+   */
+  export class Params {
+    /**The keys and indexes from the root to the value that is being parsed. This is used for describing the location of a syntax error */
+    path = Array<string | number>();
+  }
+  /**
+   * A concrete implementation of the {@link parser.GType `GType`}
+   */
+  class Type implements parser.GType<string> {
+    /**
+     * Constructs a `Type` with an assigned unique id and precedence.
+     * @param {string} id a unique id associated with this {@link parser.Type}
+     * @param {number} precedence the precedence of this type. This determines how it will be evaluated in the evaluation hierarchy (per se)
+     */
+    public constructor(
+      public readonly id: string,
+      public readonly precedence: number
+    ) {}
+
+    /**
+     * Test the equality of this `Type` to the given input
+     * @param {(object|undefined)} obj any object to test against `this`
+     * @returns {boolean} `true` if `this` is equal to the input and `false` if otherwise.
+     */
+    public equals(obj?: object): boolean {
+      if (obj instanceof Type)
+        return this.id === obj.id && this.precedence === obj.precedence;
+      return false;
+    }
+  }
+  /**
+   * The type used for end-of-file tokens.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const EOF: parser.GType<string> = new Type(
+    "-1",
+    Number.MIN_SAFE_INTEGER
+  );
+  /**
+   * A special type that starts the text. There will always be at most one token with this type in every given lexer.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const INIT: parser.GType<string> = new Type(
+    "0",
+    Number.MAX_SAFE_INTEGER
+  );
+  /**
+   * The type for the `{` that starts an object.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const BEGIN_OBJECT: parser.GType<string> = new Type("1", 2);
+  /**
+   * The type for the `}` that ends an object.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const END_OBJECT: parser.GType<string> = new Type("2", 2);
+  /**
+   * The type for the `[` that starts an array.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const BEGIN_ARRAY: parser.GType<string> = new Type("3", 2);
+  /**
+   * The type for the `]` that ends an array.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const END_ARRAY: parser.GType<string> = new Type("4", 2);
+  /**
+   * The type for the `:` between the name and the value of a member of an object.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const NAME_SEPARATOR: parser.GType<string> = new Type("5", 3);
+  /**
+   * The type for the `,` between the members of an object or the elements of an array.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const VALUE_SEPARATOR: parser.GType<string> = new Type("6", 3);
+  /**
+   * The type for a string. The value of the token is the content of the string after its escapes have been processed.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const STRING: parser.GType<string> = new Type("7", 4);
+  /**
+   * The type for a number. The value of the token is the number exactly as it was written.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const NUMBER: parser.GType<string> = new Type("8", 4);
+  /**
+   * The type for a sequence of letters, digits, `_` and `$` that is not in a string such as `true`, `false` and `null`. Whether
+   * the sequence is valid is decided by the parser.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const LITERAL: parser.GType<string> = new Type("9", 4);
+  /**
+   * The types of tokens that can start a value.
+   * @type {parser.GType<string>[]}
+   * @constant
+   */
+  const VALUE_START = [BEGIN_OBJECT, BEGIN_ARRAY, STRING, NUMBER, LITERAL];
+  /**
+   * The grammar of a number as specified in section 6 of RFC 8259.
+   * @type {RegExp}
+   * @constant
+   */
+  const NUMBER_PATTERN = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+  /**
+   * A number with an optional `+` sign and a decimal point that may have no digits before or after it.
+   * @type {RegExp}
+   * @constant
+   */
+  const LENIENT_NUMBER_PATTERN = /^[+-]?(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/;
+  /**
+   * A hexadecimal integer such as `0x1F`.
+   * @type {RegExp}
+   * @constant
+   */
+  const HEX_NUMBER_PATTERN = /^[+-]?0[xX][0-9A-Fa-f]+$/;
+  /**
+   * `Infinity` and `NaN` with an optional sign.
+   * @type {RegExp}
+   * @constant
+   */
+  const NON_FINITE_PATTERN = /^[+-]?(?:Infinity|NaN)$/;
+  /**
+   * The characters that an escape in a string may have after the `\` (except `u`), mapped to the character they represent.
+   * @type {{ [key: string]: string }}
+   * @constant
+   */
+  const ESCAPES: { [key: string]: string } = {
+    '"': '"',
+    "\\": "\\",
+    "/": "/",
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+  };
+  /**
+   * The escapes that {@linkcode Syntax.extendedEscapes} adds to {@linkcode ESCAPES}. Any other character that is not a digit,
+   * `x`, `u` or a line terminator represents itself when it is escaped.
+   * @type {{ [key: string]: string }}
+   * @constant
+   */
+  const EXTENDED_ESCAPES: { [key: string]: string } = {
+    v: "\v",
+    0: "\0",
+  };
+  /**
+   * @summary An object representing a valid lexeme in a json data format.
+   * @description
+   * A `Token` is concrete implementation of the {@link parser.GToken} interface where each token maps to a one or more lexeme in json data.
+   */
+  class Token implements parser.GToken<string> {
+    /**
+     * The length of a token
+     * @type {number}
+     * @readonly
+     * @constant
+     */
+    public readonly length;
+    /**
+     * Constructs a `Token`, giving details such as the line and position (within the data format) from which it was formed
+     * @param {string} value the payload of this token containing the actual value of the data it carries
+     * @param {Type} type the type of the token. This is the main determinant of a token that differentiates one from another
+     * @param {number} lineStart the line within the data format that this token was assembled from
+     * @param {number} lineEnd the line within the data format that this token was assembled from
+     * @param {number} startPos the position within the line from which this token was assembled.
+     */
+    constructor(
+      public readonly value: string,
+      public readonly type: Type,
+      public readonly lineStart: number,
+      public readonly lineEnd: number,
+      public readonly startPos: number
+    ) {
+      this.length = value.length;
+    }
+    /**
+     * Test if the argument is the same `Token` object as `this`.
+     * @param {object | undefined} obj
+     * @returns {boolean} `true` if the argument is a `Token` and is the same type, is in the same line, position as `this`.
+     */
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Token)
+        return (
+          this.lineStart == obj.lineStart &&
+          this.lineEnd == obj.lineEnd &&
+          this.startPos === obj.startPos &&
+          this.type.equals(obj.type)
+        );
+      return false;
+    }
+    /**
+     * Returns the hascode of this `Token`
+     * @returns {number} the hashcode of this token
+     */
+    hashCode32(): number {
+      return utility.hashCode32(
+        true,
+        utility.asHashable(this.value),
+        utility.asHashable(this.type.id),
+        utility.asHashable(this.type.precedence),
+        utility.asHashable(this.startPos),
+        utility.asHashable(this.lineEnd),
+        utility.asHashable(this.lineStart)
+      );
+    }
+    /**
+     * Takes an optional {@linkcode parser.Token} argument and returns a value that specifies the ordering between `this` and the argument.
+     * @param {parser.Token | undefined} obj the value which `this` is tobe compared
+     * @returns {utility.Compare} a numerical value to specify ordering after comparison has been done.
+     * @see {@linkcode utility.Comparable}
+     */
+    compareTo(obj?: parser.Token | undefined): utility.Compare {
+      if (utility.isValid(obj)) {
+        let by = utility.compare(this.lineStart, obj!.lineStart);
+        if (by !== 0) return by;
+        by = utility.compare(this.lineEnd, obj!.lineEnd);
+        if (by !== 0) return by;
+        by = utility.compare(this.startPos, obj!.startPos);
+        if (by !== 0) return by;
+        by = utility.asCompare(
+          utility.hashCode32(
+            true,
+            utility.asHashable(this.type.id),
+            utility.asHashable(this.type.precedence)
+          )
+        );
+        if (by !== 0) return by;
+        return utility.compare(this.value, obj!.value);
+      }
+      return 1;
+    }
+    /**
+     * Gets a debug value for this `Token`.
+     * @returns {string} a debug string for this `Token`
+     */
+    public toString() {
+      return JSON.stringify(
+        { token: this.value, type: this.type.toString() },
+        null,
+        2
+      );
+    }
+  }
+  /**
+   * @summary An interface that extends {@link parser.MutableLexer} for convenience and documentation purposes.
+   * @description
+   * An object that creates `Token` objects from a json data format. It allows new data to be added even after the initial one
+   * has been transformed into tokens.
+   */
+  export interface MutableLexer<CH = string>
+    extends parser.MutableLexer<Token, Syntax, CH> {
+    end(syntax: Syntax, p: Params | any): void;
+    process(chunk: CH, syntax: Syntax, p: Params | any): void;
+  }
+  /**
+   * @summary Creates tokens from updatable text recieved.
+   * @description A {@linkcode MutableLexer} that processes strings (probably from a file or network) in the json format
+   * into tokens meant to be parsed by a {@linkcode Parser}.\
+   * \
+   * Every token that is complete in the text sent to {@linkcode process} is created immediately. A string, number or literal
+   * at the end of the text may continue in the next chunk, so it is kept in {@linkcode src} until the next chunk shows where it
+   * ends or until {@linkcode end} is called. Malformed text is reported with a {@linkcode parser.SyntaxError} whose message has the
+   * line and position at which it was found.
+   */
+  export class StringLexer implements MutableLexer {
+    #ln: number;
+    #col: number;
+    #queue: Token[];
+    /**The index in the queue of the next token to be returned by {@linkcode next} */
+    #head = 0;
+    public src: string;
+    /**Whether the last character tokenised was a carriage return, so that a line feed after it does not start another line */
+    #cr = false;
+    /**Whether any text has been received. Used for removing the byte order mark */
+    #started = false;
+    constructor() {
+      this.#ln = 1;
+      this.#col = 0;
+      this.#queue = [new Token("", INIT, -1, -1, -1)];
+      this.src = "";
+    }
+    #error(msg: string, line = this.#ln, col = this.#col): never {
+      const last = this.#queue[this.#queue.length - 1];
+      throw new parser.SyntaxError(
+        utility.isValid(last) && !last.type.equals(INIT)
+          ? last
+          : new Token("", INIT, line, line, col + 1),
+        new parser.ParseError(`${msg} at line: ${line}, position: ${col + 1}`)
+      );
+    }
+    /**
+     * Reports an error at an index of {@linkcode src} that is after the start of the token being created
+     * @param {string} msg the message of the error
+     * @param {number} i the index of the start of the token
+     * @param {number} j the index at which the error was found
+     */
+    #fail(msg: string, i: number, j: number): never {
+      this.#advance(this.src.substring(i, j));
+      this.#error(msg);
+    }
+    /**
+     * Updates the line and position with the given text that has been tokenised
+     * @param {string} text the text
+     */
+    #advance(text: string) {
+      for (const c of text) {
+        if (c === "\n" || c === "\r") {
+          if (c !== "\n" || !this.#cr) this.#ln++;
+          this.#col = 0;
+        } else this.#col++;
+        this.#cr = c === "\r";
+      }
+    }
+    #manufacture(value: string, type: Type, text: string) {
+      const ln = this.#ln,
+        col = this.#col;
+      this.#advance(text);
+      this.#queue.push(new Token(value, type, ln, this.#ln, col + 1));
+    }
+    /**
+     * Tokenises the text in {@linkcode src}, leaving the token that may not be complete
+     * @param {Syntax} s the syntax
+     * @param {boolean} end `true` if no more text will be received
+     */
+    #scan(s: Syntax, end: boolean) {
+      let i = 0;
+      while (i < this.src.length) {
+        const c = this.src[i];
+        if (isSpace(c, s)) {
+          this.#advance(c);
+          i++;
+          continue;
+        }
+        const n = c === "/" && s.comments ? this.#comment(i, end) : this.#token(i, s, end);
+        if (n < 0) break;
+        i = n;
+      }
+      this.src = this.src.substring(i);
+    }
+    /**
+     * Skips the comment that starts at the given index of {@linkcode src}
+     * @param {number} i the index of the `/` that starts the comment
+     * @param {boolean} end `true` if no more text will be received
+     * @returns {number} the index after the comment or `-1` if the comment may continue in the text that has not been received
+     */
+    #comment(i: number, end: boolean): number {
+      let j: number;
+      if (this.src[i + 1] === "/") {
+        j = this.#run(i + 2, /[^\n\r\u2028\u2029]/);
+        if (j === this.src.length && !end) return -1;
+      } else if (this.src[i + 1] === "*") {
+        j = this.src.indexOf("*/", i + 2);
+        if (j < 0) {
+          if (end) this.#error("The comment that starts here was not closed");
+          return -1;
+        }
+        j += 2;
+      } else if (i + 1 >= this.src.length && !end) return -1;
+      else this.#error("Unexpected character '/'");
+      this.#advance(this.src.substring(i, j));
+      return j;
+    }
+    /**
+     * Creates the token that starts at the given index of {@linkcode src}
+     * @param {number} i the index of the first character of the token
+     * @param {Syntax} s the syntax
+     * @param {boolean} end `true` if no more text will be received
+     * @returns {number} the index after the token or `-1` if the token may continue in the text that has not been received
+     */
+    #token(i: number, s: Syntax, end: boolean): number {
+      const c = this.src[i];
+      switch (c) {
+        case "{":
+          this.#manufacture(c, BEGIN_OBJECT, c);
+          return i + 1;
+        case "}":
+          this.#manufacture(c, END_OBJECT, c);
+          return i + 1;
+        case "[":
+          this.#manufacture(c, BEGIN_ARRAY, c);
+          return i + 1;
+        case "]":
+          this.#manufacture(c, END_ARRAY, c);
+          return i + 1;
+        case ":":
+          this.#manufacture(c, NAME_SEPARATOR, c);
+          return i + 1;
+        case ",":
+          this.#manufacture(c, VALUE_SEPARATOR, c);
+          return i + 1;
+        case '"':
+          return this.#string(i, s, end);
+        case "'":
+          if (s.singleQuotes) return this.#string(i, s, end);
+      }
+      if (/[-+.0-9]/.test(c)) {
+        const j = this.#run(i, /[\w.+\-]/);
+        if (j === this.src.length && !end) return -1;
+        const text = this.src.substring(i, j);
+        if (!isNumber(text, s)) this.#error(`'${text}' is not a valid number`);
+        this.#manufacture(text, NUMBER, text);
+        return j;
+      } else if (/[\p{ID_Start}$_]/u.test(c)) {
+        const j = this.#run(i, /[\p{ID_Continue}$\u200C\u200D]/u);
+        if (j === this.src.length && !end) return -1;
+        const text = this.src.substring(i, j);
+        this.#manufacture(text, LITERAL, text);
+        return j;
+      }
+      this.#error(`Unexpected character ${quote(c)}`);
+    }
+    /**
+     * Gets the index of the first character at or after the given index that is not matched by the given pattern
+     * @param {number} i an index of {@linkcode src}
+     * @param {RegExp} re a pattern for a single character
+     * @returns {number} an index of {@linkcode src} or its length
+     */
+    #run(i: number, re: RegExp): number {
+      while (i < this.src.length && re.test(this.src[i])) i++;
+      return i;
+    }
+    /**
+     * Creates a string token for the string that starts at the given index of {@linkcode src}
+     * @param {number} i the index of the opening quote
+     * @param {Syntax} s the syntax
+     * @param {boolean} end `true` if no more text will be received
+     * @returns {number} the index after the closing quote or `-1` if the closing quote has not been received
+     */
+    #string(i: number, s: Syntax, end: boolean): number {
+      const q = this.src[i];
+      let v = "";
+      for (let j = i + 1; j < this.src.length; j++) {
+        const c = this.src[j];
+        if (c === q) {
+          this.#manufacture(v, STRING, this.src.substring(i, j + 1));
+          return j + 1;
+        } else if (c < " ") this.#fail("A control character must be escaped in a string", i, j);
+        else if (c !== "\\") {
+          v += c;
+          continue;
+        }
+        const e = this.src[j + 1];
+        //the characters after an escape that are needed for knowing what it is
+        const needed = e === "u" ? 4 : e === "x" ? 2 : e === "\r" || e === "0" ? 1 : 0;
+        if (j + 1 + needed >= this.src.length && !end) break;
+        if (e === "u" || (e === "x" && s.extendedEscapes)) {
+          const hex = this.src.substring(j + 2, j + 2 + needed);
+          if (!new RegExp(`^[0-9A-Fa-f]{${needed}}$`).test(hex))
+            this.#fail(`'\\${e}${hex}' is not a valid unicode escape`, i, j);
+          v += String.fromCharCode(parseInt(hex, 16));
+          j += needed + 1;
+        } else if (utility.isValid(ESCAPES[e])) {
+          v += ESCAPES[e];
+          j++;
+        } else if (e === q) {
+          v += e;
+          j++;
+        } else if (!s.extendedEscapes || e === undefined || /[1-9]/.test(e) || (e === "0" && /\d/.test(this.src[j + 2])))
+          this.#fail(`'\\${e ?? ""}' is not a valid escape`, i, j);
+        else if (isBreak(e)) j += e === "\r" && this.src[j + 2] === "\n" ? 2 : 1;
+        else {
+          v += EXTENDED_ESCAPES[e] ?? e;
+          j++;
+        }
+      }
+      if (end) this.#error("The string that starts here was not closed");
+      return -1;
+    }
+    /**
+     * Adds the argument to the text waiting to be tokenised and tokenises every token that is complete.
+     * @inheritdoc
+     */
+    process(chunk: string = "", syntax: Syntax, p: Params): void {
+      if (!this.#started && chunk.length > 0) {
+        this.#started = true;
+        if (chunk.startsWith("\uFEFF")) chunk = chunk.substring(1);
+      }
+      this.src += chunk;
+      this.#scan(syntax, false);
+    }
+    /**
+     * Tokenises all the text that is waiting to be tokenised.
+     * @inheritdoc
+     */
+    end(syntax: Syntax, params: Params): void {
+      this.#scan(syntax, true);
+    }
+    processed = () => this.#queue.slice(this.#head);
+    unprocessed = () => this.src;
+    frequency(type: parser.Type): number {
+      let frqy = 0;
+      for (let i = this.#head; i < this.#queue.length; i++) {
+        if (this.#queue[i].type.equals(type)) frqy++;
+      }
+      return frqy;
+    }
+    indexOf(type: parser.Type): number {
+      for (let i = this.#head; i < this.#queue.length; i++) {
+        if (this.#queue[i].type.equals(type)) return i - this.#head;
+      }
+      return -1;
+    }
+    lastIndexOf(type: parser.Type): number {
+      for (let i = this.#queue.length - 1; i >= this.#head; i--) {
+        if (this.#queue[i].type.equals(type)) return i - this.#head;
+      }
+      return -1;
+    }
+    hasTokens(): boolean {
+      return this.#queue.length > this.#head;
+    }
+    canProcess(): boolean {
+      return this.src.length > 0;
+    }
+    /**
+     * Returns the next token. The tokens that have been returned are removed in batches because a large text has too many tokens
+     * for them to be shifted one at a time.
+     * @inheritdoc
+     */
+    next(): Token {
+      if (!this.hasTokens())
+        return new Token("", EOF, this.line(), this.line(), this.position());
+      const t = this.#queue[this.#head++];
+      if (this.#head >= 1024 && this.#head * 2 >= this.#queue.length) {
+        this.#queue = this.#queue.slice(this.#head);
+        this.#head = 0;
+      }
+      return t;
+    }
+    position(): number {
+      return this.#col + 1;
+    }
+    line(): number {
+      return this.#ln;
+    }
+  }
+  /**
+   * @summary A specialised mini-parser that is json syntax-specific.
+   * @description An object that can parse {@link parser.GType type(s)} of json {@link parser.Token tokens} effectively in a way
+   * that is specific to the json data format and produces an expression for the tokens it parsed.
+   */
+  export interface Command
+    extends parser.GCommand<Token, Expression, Syntax, MutableLexer, Parser> {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer,
+      s: Syntax,
+      pa?: Params
+    ): Expression;
+  }
+  /**A special command that parses the single value of the text and ensures that nothing comes after it */
+  class Initialize implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const params = pa ?? new Params();
+      params.path = [];
+      const v = value(p, l, s, params);
+      if (!p.match(EOF, l, s, params)) unexpected(p.peek(l, s, params), "the end of the text", params);
+      return v;
+    }
+  }
+  /**A command that parses the members of an object until the `}` that ends it */
+  class ParseObject implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const entries = Array<[Scalar, Node]>();
+      while (!p.match(END_OBJECT, l, s, pa)) {
+        if (entries.length > 0) {
+          if (!p.match(VALUE_SEPARATOR, l, s, pa)) unexpected(p.peek(l, s, pa), "',' or '}'", pa);
+          p.consume(VALUE_SEPARATOR, l, s, pa);
+          if (s.trailingCommas && p.match(END_OBJECT, l, s, pa)) break;
+        }
+        const k = p.peek(l, s, pa);
+        if (!k.type!.equals(STRING) && !(s.unquotedKeys && k.type!.equals(LITERAL)))
+          unexpected(k, "the name of a member", pa);
+        p.consume(k.type!.equals(STRING) ? STRING : LITERAL, l, s, pa);
+        if (!p.match(NAME_SEPARATOR, l, s, pa)) unexpected(p.peek(l, s, pa), "':'", pa);
+        p.consume(NAME_SEPARATOR, l, s, pa);
+        pa!.path.push(k.value);
+        entries.push([new Scalar(k.value, STRING), value(p, l, s, pa!)]);
+        pa!.path.pop();
+      }
+      p.consume(END_OBJECT, l, s, pa);
+      return new Mapping(Object.freeze(entries));
+    }
+  }
+  /**A command that parses the elements of an array until the `]` that ends it */
+  class ParseArray implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const items = Array<Node>();
+      while (!p.match(END_ARRAY, l, s, pa)) {
+        if (items.length > 0) {
+          if (!p.match(VALUE_SEPARATOR, l, s, pa)) unexpected(p.peek(l, s, pa), "',' or ']'", pa);
+          p.consume(VALUE_SEPARATOR, l, s, pa);
+          if (s.trailingCommas && p.match(END_ARRAY, l, s, pa)) break;
+        }
+        pa!.path.push(items.length);
+        items.push(value(p, l, s, pa!));
+        pa!.path.pop();
+      }
+      p.consume(END_ARRAY, l, s, pa);
+      return new Sequence(Object.freeze(items));
+    }
+  }
+  /**A command that parses a string or a number */
+  class ParseScalar implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      return new Scalar(yp.value, yp.type);
+    }
+  }
+  /**A command that parses `true`, `false` and `null`, and also `Infinity` and `NaN` if the syntax supports {@linkcode Syntax.nonFiniteNumbers} */
+  class ParseLiteral implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      if (s.nonFiniteNumbers && NON_FINITE_PATTERN.test(yp.value))
+        return new Scalar(yp.value, NUMBER);
+      else if (yp.value !== "true" && yp.value !== "false" && yp.value !== "null")
+        unexpected(yp, "a value", pa);
+      return new Scalar(yp.value, yp.type);
+    }
+  }
+  /**
+   * @summary A representation of parsed `Token` objects.
+   * @description The result after the parser has returned. This is especially for convenience and documentation purposes.
+   */
+  export interface Expression extends expression.GExpression<Format> {
+    format(format: Format, syntax?: Syntax, params?: Params | any): void;
+  }
+  /**
+   * An object, array, string, number or literal in a json text.
+   */
+  abstract class Node implements Expression {
+    format(format: Format, syntax?: Syntax | undefined, params?: any): void {
+      format.append(this, syntax, params);
+    }
+    debug(): string {
+      return write(this);
+    }
+    abstract equals(obj?: object | undefined): boolean;
+    abstract hashCode32(): number;
+    toString(): string {
+      return this.debug();
+    }
+  }
+  /**
+   * A string, number or literal.
+   */
+  class Scalar extends Node {
+    /**
+     * Constructs a `Scalar`
+     * @param {string} value the content of a string after its escapes have been processed, or the text of a number or literal
+     * @param {parser.GType<string>} type {@linkcode STRING}, {@linkcode NUMBER} or {@linkcode LITERAL}
+     */
+    constructor(public readonly value: string, public readonly type: parser.GType<string>) {
+      super();
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Scalar)
+        return this.value === obj.value && this.type.equals(obj.type);
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.value),
+        utility.asHashable(this.type.id)
+      );
+    }
+  }
+  /**
+   * An object whose members are kept in the order they were parsed, including members with the same name.
+   */
+  class Mapping extends Node {
+    /**
+     * Constructs a `Mapping`
+     * @param {readonly [Scalar, Node][]} entries the name/value pairs of this object
+     */
+    constructor(public readonly entries: readonly [Scalar, Node][]) {
+      super();
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Mapping)
+        return (
+          this.entries.length === obj.entries.length &&
+          this.entries.every(
+            (e, i) => e[0].equals(obj.entries[i][0]) && e[1].equals(obj.entries[i][1])
+          )
+        );
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        ...this.entries.map((e) => utility.asHashable(e[0].hashCode32() ^ e[1].hashCode32()))
+      );
+    }
+  }
+  /**
+   * An array.
+   */
+  class Sequence extends Node {
+    /**
+     * Constructs a `Sequence`
+     * @param {readonly Node[]} items the elements of this array
+     */
+    constructor(public readonly items: readonly Node[]) {
+      super();
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Sequence)
+        return (
+          this.items.length === obj.items.length &&
+          this.items.every((e, i) => e.equals(obj.items[i]))
+        );
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        ...this.items.map((e) => utility.asHashable(e.hashCode32()))
+      );
+    }
+  }
+  /**
+   * @summary Convenience class to allow for proper return values using `parse` and for namepsace documentation
+   * @description The json variant of the {@link parser.PrattParser Vaughn Pratt's parser}
+   */
+  export class Parser extends parser.PrattParser<Expression, Syntax> {
+    /**
+     * Gets the next token without consuming it
+     * @param {MutableLexer} l the token generator
+     * @param {Syntax} s a syntax for the token generator
+     * @param {Params} [pa] the params of the parsing process
+     * @returns {parser.GToken<string>} the token that will be consumed next
+     */
+    public peek(l: MutableLexer, s: Syntax, pa?: Params): parser.GToken<string> {
+      return this.readAndPeek(0, l, s, pa);
+    }
+  }
+  /**
+   * @summary The type of value accepted by the {@linkcode Format.append} method.
+   * @description The value that will be sent to (and expected by) {@linkcode Format} objects
+   */
+  export type Appendage = string | Expression;
+  /**
+   * @summary A base json format
+   * @description Defines how the {@link Expression parsed expression(s)} is/are outputted.
+   */
+  export interface Format<T = any> extends expression.GFormat<Expression, T> {
+    append(data: Appendage, s?: Syntax, p?: Params): void;
+  }
+  /**
+   * @summary The {@linkcode Expression} output as a string.
+   * @description Builds and stores the parsed json data as a string indented with {@linkcode Syntax.indent}. Numbers are written
+   * exactly as they were parsed unless the syntax does not support them. Comments are not written, strings and names are always
+   * double quoted and no trailing commas are written. When more than one value is appended, each value after the first starts on a new line.
+   */
+  export class StringFormat implements Format<string> {
+    public readonly logger;
+    private _data = "";
+    /**The number of values appended to this format */
+    private _values = 0;
+    constructor() {
+      //Some classic js code
+      this.logger = console as any as utility.Messenger;
+      /* We will be using 0x7 because it is the smallest value that has all 3 msb on. */
+      (this.logger as any)._bit = 0x0; //the msb is error, the mid bit is warn and the lsb is info
+      this.logger.seal = (l) => {
+        if (this.logger.isSealed(l)) return;
+        if (l === 0) {
+          ((this.logger as any)._bit as number) =
+            0x1 & ((this.logger as any)._bit as number);
+          this.logger.error = (m) => {
+            throw Error("Sealed");
+          };
+        } else if (l === 1) {
+          ((this.logger as any)._bit as number) =
+            0x2 & ((this.logger as any)._bit as number);
+          this.logger.info = (m) => {
+            throw Error("Sealed");
+          };
+        } else if (l === 2) {
+          ((this.logger as any)._bit as number) =
+            0x4 & ((this.logger as any)._bit as number);
+          this.logger.warn = (m) => {
+            throw Error("Sealed");
+          };
+        }
+      };
+      this.logger.isSealed = (l) => {
+        if (l === 0) {
+          return (0x1 & ((this.logger as any)._bit as number)) !== 0;
+        } else if (l === 1) {
+          return (0x2 & ((this.logger as any)._bit as number)) !== 0;
+        } else if (l === 2) {
+          return (0x4 & ((this.logger as any)._bit as number)) !== 0;
+        }
+        return false;
+      };
+    }
+    append(
+      data: Appendage,
+      s?: Syntax | undefined,
+      p?: Params | undefined
+    ): void {
+      if (typeof data === "string") {
+        this._data += data;
+        this.modifications++;
+      } else if (data instanceof Node)
+        this.append((this._values++ > 0 ? "\n" : "") + write(data, s), s, p);
+      else throw new expression.FormatError("format not supported");
+    }
+    data(): string {
+      this.logger.seal(0);
+      this.logger.seal(1);
+      this.logger.seal(2);
+      return this._data;
+    }
+    reverse(): this {
+      this._data.split("").reverse().join("");
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, string>): boolean {
+      if (another instanceof StringFormat) return this._data === another._data;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._data)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+    compareTo(
+      obj?: expression.GFormat<Expression, string> | undefined
+    ): utility.Compare {
+      return utility.compare(this.hashCode32(), obj?.hashCode32());
+    }
+  }
+  /**
+   * @summary The {@linkcode Expression} output as an in-memory value format.
+   * @description Builds and stores the parsed json data as an in-memory value, converting numbers with {@linkcode Syntax.parse}.
+   * As with `JSON.parse`, the last of the members with the same name in an object is the one that is kept.
+   * @remark
+   * If exactly one value was appended, {@linkcode data} returns that value, else it returns an array of the values (in the order
+   * they were appended).
+   */
+  export class JSFormat implements Format<Value> {
+    private _data = Array<Value>();
+    append(
+      data: Appendage,
+      s?: Syntax | undefined,
+      p?: Params | undefined
+    ): void {
+      if (data instanceof Node) {
+        this._data.push(toJS(data, s));
+        this.modifications++;
+      } else
+        throw new expression.FormatError("format not supported", data as any);
+    }
+    data(): Value {
+      return this._data.length === 1 ? this._data[0] : this._data;
+    }
+    reverse(): this {
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, Value>): boolean {
+      if (another instanceof JSFormat) return this._data === another._data;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._data)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * @summary The {@linkcode Expression} output written to a file system.
+   * @description Writes the parsed json data to a file system in the same way as {@linkcode StringFormat}.
+   */
+  export class FileFormat implements Format<ReadStream> {
+    public readonly logger;
+    private _str: WriteStream;
+    /**The number of values appended to this format */
+    private _values = 0;
+    /**
+     * Constructs a `FileFormat`
+     * @param {string} filename the path of the file to be written
+     */
+    constructor(filename: string) {
+      this._str = createWriteStream(filename, {
+        autoClose: true,
+        emitClose: false,
+        encoding: "utf-8",
+      });
+      //Some classic js code
+      this.logger = console as any as utility.Messenger;
+      (this.logger as any)._bit = 0x0; //the msb is error, the mid bit is warn and the lsb is info
+      this.logger.seal = (l) => {
+        if (this.logger.isSealed(l)) return;
+        if (l === 0) {
+          ((this.logger as any)._bit as number) =
+            0x1 & ((this.logger as any)._bit as number);
+          this.logger.error = (m) => {
+            throw Error("Sealed");
+          };
+        } else if (l === 1) {
+          ((this.logger as any)._bit as number) =
+            0x2 & ((this.logger as any)._bit as number);
+          this.logger.info = (m) => {
+            throw Error("Sealed");
+          };
+        } else if (l === 2) {
+          ((this.logger as any)._bit as number) =
+            0x4 & ((this.logger as any)._bit as number);
+          this.logger.warn = (m) => {
+            throw Error("Sealed");
+          };
+        }
+      };
+      this.logger.isSealed = (l) => {
+        if (l === 0) {
+          return (0x1 & ((this.logger as any)._bit as number)) !== 0;
+        } else if (l === 1) {
+          return (0x2 & ((this.logger as any)._bit as number)) !== 0;
+        } else if (l === 2) {
+          return (0x4 & ((this.logger as any)._bit as number)) !== 0;
+        }
+        return false;
+      };
+    }
+    public endWrite() {
+      this.logger.seal(0);
+      this.logger.seal(1);
+      this.logger.seal(2);
+      this._str!.end();
+      this._str!.close();
+    }
+    append(
+      data: Appendage,
+      s?: Syntax | undefined,
+      p?: Params | undefined
+    ): void {
+      if (typeof data === "string") {
+        this._str.write(data);
+        this.modifications++;
+      } else if (data instanceof Node)
+        this.append((this._values++ > 0 ? "\n" : "") + write(data, s), s, p);
+      else throw new expression.FormatError("format not supported");
+    }
+    data(): ReadStream {
+      this.logger.seal(0);
+      this.logger.seal(1);
+      this.logger.seal(2);
+      return createReadStream(this._str.path, {
+        autoClose: true,
+        encoding: "utf-8",
+      });
+    }
+    reverse(): this {
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, ReadStream>): boolean {
+      if (another instanceof FileFormat)
+        return this._str.path === another._str.path;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._str)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
   /**
    * A converter that accepts {@link expression.Expression} objects and outputs in-memory json
    * @template S the {@link Syntax} to use during conversion
    * @template P a mutable parameter object
    * @template F a type of {@link GFormat} that actually does the conversion, provided by the users of this class
+   * @remark
+   * By default, every chunk is formatted into the same format and its data is pushed once, when the stream ends. If a
+   * `perChunk` factory is given, each chunk is formatted into a new format from that factory and the data of that format is
+   * pushed immediately, so that a stream of documents comes out as a stream of values.
    */
   export class Converter<
     S extends parser.Syntax,
@@ -56,7 +1890,8 @@ namespace json {
       options: TransformOptions = {
         readableObjectMode: true,
         writableObjectMode: true
-      }
+      },
+      public readonly perChunk?: () => F
     ) {
       super({
         ...options,
@@ -73,6 +1908,16 @@ namespace json {
       callback: TransformCallback
     ): void {
       try {
+        if (this.perChunk !== undefined) {
+          const format = this.perChunk();
+          (chunk as expression.GExpression<F>).format(
+            format,
+            this.syntax,
+            this.params
+          );
+          this.push(format.data());
+          return callback();
+        }
         (chunk as expression.GExpression<F>).format(
           this.format,
           this.syntax,
@@ -89,9 +1934,63 @@ namespace json {
      * @inheritdoc
      */
     _flush(callback: TransformCallback): void {
-      this.push(this.format.data());
+      if (this.perChunk === undefined) this.push(this.format.data());
       callback();
     }
   }
+  /**
+   * @summary The strict json syntax
+   * @description A syntax that retains all the defaults of the `SyntaxBuilder` class, which accepts exactly the json text
+   * specified by [RFC 8259](https://www.rfc-editor.org/rfc/rfc8259), formats with an indentation of 2 spaces and converts
+   * numbers with `Number`.
+   */
+  export const RFC_8259 = new SyntaxBuilder().build();
+  /**
+   * @summary A syntax for json with comments
+   * @description
+   * A syntax for the json with comments used by editor and compiler configuration files such as `tsconfig.json` and `.vscode/settings.json`.
+   * It has the following features:
+   * - `//` line comments and `/* *\/` block comments are allowed wherever whitespace is allowed. Comments are not retained,
+   * hence {@linkcode StringFormat} and {@linkcode FileFormat} will not write them.
+   * - A trailing comma is allowed after the last member of an object and the last element of an array.
+   * - Everything else is the same as {@linkcode RFC_8259}.
+   */
+  export const JSONC = new SyntaxBuilder()
+    .supportComments(true)
+    .supportTrailingCommas(true)
+    .setFileExt("jsonc")
+    .setIsStandard(false)
+    .setStandard("https://code.visualstudio.com/docs/languages/json#_json-with-comments")
+    .build();
+  /**
+   * @summary A syntax for JSON5
+   * @description
+   * A syntax for [JSON5](https://spec.json5.org/), the superset of json that allows the ECMAScript 5.1 forms of its values.
+   * It has the following features:
+   * - `//` line comments and `/* *\/` block comments are allowed and are not retained.
+   * - A trailing comma is allowed after the last member of an object and the last element of an array.
+   * - The name of a member may be an identifier that is not in quotes.
+   * - Strings may be single quoted and may have the escapes `\v`, `\0`, `\xFF` and a `\` before a line break, which continues the
+   * string on the next line. Any other character that is not a digit is itself when it is escaped.
+   * - Numbers may be hexadecimal, `Infinity`, `-Infinity` or `NaN`, may start with `+` and may have a decimal point without digits
+   * before or after it.
+   * - Whitespace includes the unicode space separators, non-breaking spaces, form feeds, vertical tabs, byte order marks and line
+   * and paragraph separators.
+   */
+  export const JSON5 = new SyntaxBuilder()
+    .supportComments(true)
+    .supportTrailingCommas(true)
+    .supportUnquotedKeys(true)
+    .supportSingleQuotes(true)
+    .supportHexNumbers(true)
+    .supportNonFiniteNumbers(true)
+    .supportLenientNumbers(true)
+    .supportExtendedEscapes(true)
+    .supportExtendedWhitespace(true)
+    .setFileExt("json5")
+    .setIsStandard(false)
+    .setStandard("https://spec.json5.org/")
+    .setMediaType("application/json5")
+    .build();
 }
 export default json;
@@ -58,7 +58,7 @@ namespace parser {
   }
 
   export type Unicode = "utf-1" | "utf1" | "utf-7" | "utf7" | "utf-8" | "utf8" | "utf-16" | "utf16" | "utf16le" | "utf-16le" |  "utf-32" | "utf32" |  "utf-32le" | "utf32le" | "utf-64" | "utf64" | "utf-128" | "utf128" | "utf-ebcdic" | "utfebcdic";
-  export type Encoding = Unicode | "ascii" | "scsu" | "bocu-1" | "bocu1" | "gb18030" | "binary";
+  export type Encoding = Unicode | "ascii" | "iso-8859-1" | "scsu" | "bocu-1" | "bocu1" | "gb18030" | "binary";
   /**
    * Represents data info of a given source or syntax
    */
@@ -117,8 +117,10 @@ namespace parser {
      * Constructs a `SyntaxError` object.
      * @param {Token} token a {@link Token} object
      * @param {Error|undefined} cause the error that caused this object to be thrown
+     * @param {Token|undefined} origin the token of an earlier definition that `token` conflicts with, such as the first definition of a
+     * key that is defined twice
      */
-    constructor(public readonly token: Token, cause?: Error) {
+    constructor(public readonly token: Token, cause?: Error, public readonly origin?: Token) {
       super((util.isValid(cause) ? `The token after '${token.value}' was not parsed because of the following: ` :
         `The type ${JSON.stringify(token.type)} was an unexpected token "${token.value}" at line: ${token.lineStart}, position: ${token.startPos}`) + "\tat: " + token.lineStart + ":" + token.startPos,
         cause
@@ -0,0 +1,1418 @@
+import { createReadStream, createWriteStream, ReadStream, WriteStream } from "fs";
+import { TransformCallback } from "node:stream";
+import utility from "../utility.js";
+import expression from "./expression.js";
+import json from "./json.js";
+import parser from "./parser.js";
+import iconv from "iconv-lite";
+/**
+ * @summary Defines the constituents of the `.properties` pipeline.
+ * @description
+ * The `.properties` pipeline constitutes tokenisers (lexers) for tokenising text and json data; a parser which translates the
+ * tokens into expressions; formatters which can create file, in-memory and simple string formats; a converter which binds several
+ * of the aforementioned components so that the data contained within can be tranferred to other data languages seamlessly.\
+ * \
+ * Documents are parsed exactly as [`java.util.Properties.load`](https://docs.oracle.com/javase/8/docs/api/java/util/Properties.html#load-java.io.Reader-)
+ * parses them:
+ * - A line whose first non-whitespace character is `#` or `!` is a comment and a line that only has whitespace is blank. Both are
+ * ignored. Whitespace is the space, `\t` and `\f` and a line may end with `\n`, `\r\n` or `\r`.
+ * - A line that ends with an odd number of `\` continues on the next line, without the last `\`, the line terminator and the
+ * whitespace at the start of the next line. A comment line cannot be continued.
+ * - The key ends at the first `=`, `:` or whitespace that is not escaped. The whitespace after the key, at most one `=` or `:` and
+ * the whitespace after that are skipped and the value is the rest of the line.
+ * - `\t`, `\n`, `\r`, `\f` and `\uXXXX` are escapes in keys and values. A `\` before any other character is dropped.
+ * - A key that is defined more than once has its last value.
+ * @example ### An example of a `.properties` file:
+ * ```properties
+ * # a comment
+ * ! another comment
+ * website = https://en.wikipedia.org/
+ * language : English
+ * topic	.properties files
+ * welcome = Welcome to \
+ *           Wikipedia!
+ * key\ with\ spaces = été
+ * ```
+ */
+namespace properties {
+  /**
+   * The encodings in which `.properties` files are read and written. `java.util.Properties.load(InputStream)` reads
+   * `"iso-8859-1"` and `java.util.PropertyResourceBundle` reads `"utf-8"` since java 9.
+   */
+  export type Encoding = "iso-8859-1" | "utf-8";
+  /**
+   * @summary Builds a `.properties` syntax
+   * @description A builder for a `.properties` {@linkcode Syntax}. The defaults are for `.properties` files that are read and written
+   * as `ISO-8859-1` with `\n` as the line terminator.
+   */
+  export class SyntaxBuilder implements utility.Builder<Syntax> {
+    /**The line terminator that is written */
+    private _eol = "\n";
+    /**`true` if comments and blank lines are kept */
+    private _comments = true;
+    /**metadata part of a syntax*/
+    private _md = {
+      encoding: "iso-8859-1" as Encoding,
+      fileExt: "properties",
+      isStandard: false,
+      standard: "https://docs.oracle.com/javase/8/docs/api/java/util/Properties.html#load-java.io.Reader-",
+      mediaType: "text/x-java-properties",
+    };
+    /**the infix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _infCmdlets: [parser.GType<string>, Command][] = [];
+    /**the prefix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _preCmdlets: [parser.GType<string>, Command][] = [];
+    /**the postfix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _posCmdlets: [parser.GType<string>, Command][] = [];
+    /**A function for getting the correct command based on the direction */
+    private _getCmd = (
+      d: parser.Direction,
+      type: parser.GType<string>
+    ): Command | undefined => {
+      switch (d) {
+        case parser.Direction.PREFIX:
+        default: {
+          const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+        }
+        case parser.Direction.INFIX: {
+          const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+        }
+        case parser.Direction.POSTFIX:
+          const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+      }
+    };
+    /**
+     * Constructs a `SyntaxBuilder`. This specifically compiles all the prefix commands needed by the syntax
+     */
+    constructor() {
+      this.addPrefixCommand(INIT, new Initialize());
+    }
+    /**
+     * Sets the line terminator that is written after every line by {@linkcode StringFormat} and {@linkcode FileFormat}. Every line
+     * terminator is read regardless of this value.
+     * @param {string} eol the line terminator. Only `\r`, `\n` and `\r\n` are supported.
+     * @defaultValue `'\n'`
+     * @default {'\n'}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if the argument is not a supported line terminator
+     * @see {@linkcode Syntax.eol}
+     */
+    public setEol(eol: string): SyntaxBuilder {
+      if (eol !== "\n" && eol !== "\r\n" && eol !== "\r")
+        throw new Error("Only '\\r', '\\n' and '\\r\\n' are supported as line terminators");
+      this._eol = eol;
+      return this;
+    }
+    /**
+     * Keeps the comments and blank lines of a parsed document so that they are written with it.
+     * @param {boolean} b `true` to keep them, `false` otherwise
+     * @defaultValue `true`
+     * @default {true}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.comments}
+     */
+    public retainComments(b: boolean): SyntaxBuilder {
+      this._comments = !!b;
+      return this;
+    }
+    /**
+     * Sets the encoding in which the data is read by a {@linkcode Converter} and written by a {@linkcode FileFormat}.
+     * @param {Encoding} encoding the encoding
+     * @defaultValue `'iso-8859-1'`
+     * @default {'iso-8859-1'}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if the argument is not a supported encoding
+     */
+    public setEncoding(encoding: Encoding): SyntaxBuilder {
+      if (encoding !== "iso-8859-1" && encoding !== "utf-8")
+        throw new Error("Only 'iso-8859-1' and 'utf-8' are supported as encodings");
+      this._md.encoding = encoding;
+      return this;
+    }
+    /**
+     * Attempts to push the second and third argument into the given array. If the non-array arguments already exist in the array, then an overwrite operation is performed.
+     * @param {[parser.GType<string>, Command][]} map an array for type/command tuples
+     * @param { parser.GType<string>} t the type to be added to the array
+     * @param {Command} cmd the command to be added with the type
+     * @returns {void} does not return anything
+     */
+    private _pushOrOverite(
+      map: [parser.GType<string>, Command][],
+      t: parser.GType<string>,
+      cmd: Command
+    ): void {
+      for (let i = 0; i < map.length; i++)
+        if (map[i][0].equals(t)) {
+          map[i] = [t, cmd];
+          return;
+        }
+      map.push([t, cmd]);
+    }
+    /**
+     * @summary registers an infix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with infix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+     * @remark
+     * There are no default infix commands.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible infix type.
+     * @param {Command} cmd the command which can parse infix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addInfixCommand(type: parser.GType<string>, cmd: Command): SyntaxBuilder {
+      this._pushOrOverite(this._infCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the infix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addInfixCommand
+     */
+    public removeInfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._infCmdlets = this._infCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a prefix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with prefix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+     * @remark
+     * The only default prefix command is the one for {@linkcode INIT}, which parses the whole document.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible prefix type.
+     * @param {Command} cmd the command which can parse prefix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addPrefixCommand(type: parser.GType<string>, cmd: Command): SyntaxBuilder {
+      this._pushOrOverite(this._preCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the prefix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPrefixCommand
+     */
+    public removePrefixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._preCmdlets = this._preCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a postfix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with postfix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * @remark
+     * Calling this method has no effect on the built `Syntax` as {@link Parser} does not support {@link parser.Direction.POSTFIX}.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible postfix type.
+     * @param {Command} cmd the command which can parse postfix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see Syntax.getCommand
+     */
+    public addPostfixCommand(type: parser.GType<string>, cmd: Command): SyntaxBuilder {
+      this._pushOrOverite(this._posCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the postfix command registered with the given type. In practice, this method does nothing
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPostfixCommand
+     */
+    public removePostfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._posCmdlets = this._posCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * Sets the extension string associated with the syntax as specified by {@link `Syntax.metadata.fileExt`}
+     * @remark
+     * The default is `'properties'`.
+     * @param {string} ext the file extension as a string. This should not have any trailing dot(s). An undefined or null value has no effect
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setFileExt(ext: string): SyntaxBuilder {
+      this._md.fileExt = ext ?? this._md.fileExt;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.isStandard isStandard property} in the syntax to be built.
+     * @remark
+     * The default is `false`.
+     * @param {boolean} b `true` if the syntax is a web standard `false` if otherwise. A truthy value will be converted to a boolean.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setIsStandard(b: boolean): SyntaxBuilder {
+      this._md.isStandard = !!b;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.mediaType media type} associated with the data for which the syntax is being built.
+     * @remark
+     * The default is `'text/x-java-properties'`
+     * @param {string} mediaType the MIME type for the syntax
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setMediaType(mediaType: string): SyntaxBuilder {
+      this._md.mediaType = mediaType ?? this._md.mediaType;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.standard standard} associated with the data for which the syntax is being built.
+     * @remark
+     * The default is the documentation of `java.util.Properties.load`
+     * @param {string} standard a string representing the standard specification for the data that this syntax will be created for.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setStandard(standard: string): SyntaxBuilder {
+      this._md.standard = standard ?? this._md.standard;
+      return this;
+    }
+    /**
+     * Clears this builder of all the values set into it by either reseting to the default or completely wiping all values. If the latter is chosen then Every value has to manually set again or this might not build.
+     * @param toDefault `true` for a reset `false` for a complete wipe. This is an optional value that defaults to `true`.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public clear(toDefault = true): SyntaxBuilder {
+      this._getCmd = (
+        d: parser.Direction,
+        type: parser.GType<string>
+      ): Command | undefined => {
+        switch (d) {
+          case parser.Direction.PREFIX:
+          default: {
+            const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.INFIX: {
+            const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.POSTFIX:
+            const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+        }
+      };
+      this._eol = "\n";
+      this._comments = true;
+      if (toDefault)
+        this._md = {
+          encoding: "iso-8859-1",
+          fileExt: "properties",
+          isStandard: false,
+          standard: "https://docs.oracle.com/javase/8/docs/api/java/util/Properties.html#load-java.io.Reader-",
+          mediaType: "text/x-java-properties",
+        };
+      else
+        this._md = {
+          encoding: "iso-8859-1",
+          fileExt: "",
+          isStandard: false,
+          standard: "",
+          mediaType: "",
+        };
+      return this;
+    }
+    /**
+     * @inheritdoc
+     * @returns {Syntax}
+     */
+    public build(): Syntax {
+      return Object.freeze({
+        metadata: { ...this._md },
+        eol: this._eol,
+        comments: this._comments,
+        getCommand: this._getCmd,
+      }) as Syntax;
+    }
+    /**
+     * @summary assigns all values from the syntax argument to the properties of this builder.
+     * @remark
+     * Note that the argument `from` cannot be `null` or `undefined` or this will throw
+     * @param {Syntax} from the syntax from which this builder will be built
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @throws {Error} if the argument is not a valid object
+     */
+    public rebuild(from: Syntax): SyntaxBuilder {
+      if (!utility.isValid(from)) throw new Error("undefined not allowed here");
+      this._md.encoding = from.metadata?.encoding === "utf-8" ? "utf-8" : "iso-8859-1";
+      this._md.fileExt = (from.metadata ?? { fileExt: "" }).fileExt;
+      this._md.isStandard = (from.metadata ?? { isStandard: false }).isStandard;
+      this._md.mediaType = (from.metadata ?? { mediaType: "" }).mediaType;
+      this._md.standard = (from.metadata ?? { standard: "" }).standard;
+      this._eol = from.eol ?? "\n";
+      this._comments = from.comments ?? true;
+      this._getCmd = from.getCommand;
+      return this;
+    }
+  }
+  /**
+   * @summary Defines how `.properties` data is parsed and written.
+   * @description
+   * A specialized `.properties` extension of the {@linkcode parser.Syntax} interface. It is recommended that users instantiate it
+   * through the use of the {@linkcode SyntaxBuilder} class.
+   */
+  export interface Syntax extends parser.GSyntax<Type, Command> {
+    /**
+     * The line terminator written by {@linkcode StringFormat} and {@linkcode FileFormat} after every line. This has no effect on
+     * parsing, where `\n`, `\r\n` and `\r` are all line terminators.
+     * @type {string}
+     * @readonly
+     */
+    readonly eol: string;
+    /**
+     * `true` if the comments and blank lines of a parsed document are kept and written before the property after them, else they are
+     * discarded as `java.util.Properties.load` does.
+     * @type {boolean}
+     * @readonly
+     */
+    readonly comments: boolean;
+  }
+  /**
+   * @summary An object that holds variables for the parsing process.
+   * @description A mutable visitor object used by the {@linkcode Parser} as a container for variables, 'a notice board' for the {@link Format formatter}.
+   */
+  export class Params {
+    /**
+     * The comment and blank lines, as they were written, that have been parsed since the last property.
+     * @type {string[]}
+     */
+    public blk: string[] = [];
+  }
+  /**
+   * A concrete implementation of the {@link parser.GType `GType`}
+   */
+  class Type implements parser.GType<string> {
+    /**
+     * Constructs a `Type` with an assigned unique id and precedence.
+     * @param {string} id a unique id associated with this {@link parser.Type}
+     * @param {number} precedence the precedence of this type. This determines how it will be evaluated in the evaluation hierarchy (per se)
+     */
+    public constructor(
+      public readonly id: string,
+      public readonly precedence: number
+    ) {}
+    /**
+     * Test the equality of this `Type` to the given input
+     * @param {(object|undefined)} obj any object to test against `this`
+     * @returns {boolean} `true` if `this` is equal to the input and `false` if otherwise.
+     */
+    public equals(obj?: object): boolean {
+      if (obj instanceof Type)
+        return this.id === obj.id && this.precedence === obj.precedence;
+      return false;
+    }
+  }
+  /**
+   * A special type that starts the document. There will always be at most one token with this type in every given lexer.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const INIT: parser.GType<string> = new Type("0", Number.MAX_SAFE_INTEGER);
+  /**
+   * The type used for the line terminators that end a line, which may be `\n`, `\r\n` or `\r`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const EOL: parser.GType<string> = new Type("1", 1);
+  /**
+   * The type used for the `#` or `!` that starts a comment line. The rest of the line is a {@linkcode TEXT} token.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const COMMENT: parser.GType<string> = new Type("2", 1);
+  /**
+   * The type used for text that is not whitespace, a delimiter or an escape.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const TEXT: parser.GType<string> = new Type("3", 1);
+  /**
+   * The type used for a run of spaces, `\t` and `\f`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const WHITESPACE: parser.GType<string> = new Type("4", 1);
+  /**
+   * The type used for a `=` or `:` that is not escaped.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const SEPARATOR: parser.GType<string> = new Type("5", 1);
+  /**
+   * The type used for a `\` and the character after it, such as `\t` or `\=`. The 4 hexadecimal digits of a `\uXXXX` escape are
+   * not part of the token.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const ESCAPE: parser.GType<string> = new Type("6", 1);
+  /**
+   * The type used for a `\` and the line terminator after it, which continue a line on the next line. A `\` at the end of the data
+   * is also this type.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const CONTINUATION: parser.GType<string> = new Type("7", 1);
+  /**
+   * The type used for end-of-file tokens.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const EOF: parser.GType<string> = new Type("-1", Number.MIN_SAFE_INTEGER);
+  /**
+   * @summary An object representing a valid lexeme in a `.properties` data format.
+   * @description
+   * A `Token` is concrete implementation of the {@link parser.GToken} interface where each token maps to a one or more lexeme in
+   * `.properties` data.
+   */
+  class Token implements parser.GToken<string> {
+    /**
+     * The length of a token
+     * @type {number}
+     * @readonly
+     * @constant
+     */
+    public readonly length: number;
+    /**
+     * Constructs a `Token`, giving details such as the line and position (within the data format) from which it was formed
+     * @param {string} value the payload of this token containing the actual value of the data it carries
+     * @param {Type} type the type of the token. This is the main determinant of a token that differentiates one from another
+     * @param {number} lineStart the line within the data format that this token was assembled from
+     * @param {number} lineEnd the line within the data format that this token was assembled from
+     * @param {number} startPos the position within the line from which this token was assembled.
+     */
+    constructor(
+      public readonly value: string,
+      public readonly type: Type,
+      public readonly lineStart: number,
+      public readonly lineEnd: number,
+      public readonly startPos: number
+    ) {
+      this.length = value.length;
+    }
+    /**
+     * Test if the argument is the same `Token` object as `this`.
+     * @param {object | undefined} obj
+     * @returns {boolean} `true` if the argument is a `Token` and is the same type, is in the same line, position as `this`.
+     */
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Token)
+        return (
+          this.lineStart == obj.lineStart &&
+          this.lineEnd == obj.lineEnd &&
+          this.startPos === obj.startPos &&
+          this.type.equals(obj.type)
+        );
+      return false;
+    }
+    /**
+     * Returns the hascode of this `Token`
+     * @returns {number} the hashcode of this token
+     */
+    hashCode32(): number {
+      return utility.hashCode32(
+        true,
+        utility.asHashable(this.value),
+        utility.asHashable(this.type.id),
+        utility.asHashable(this.type.precedence),
+        utility.asHashable(this.startPos),
+        utility.asHashable(this.lineEnd),
+        utility.asHashable(this.lineStart)
+      );
+    }
+    /**
+     * Takes an optional {@linkcode parser.Token} argument and returns a value that specifies the ordering between `this` and the argument.
+     * @param {parser.Token | undefined} obj the value which `this` is tobe compared
+     * @returns {utility.Compare} a numerical value to specify ordering after comparison has been done.
+     * @see {@linkcode utility.Comparable}
+     */
+    compareTo(obj?: parser.Token | undefined): utility.Compare {
+      if (utility.isValid(obj)) {
+        let by = utility.compare(this.lineStart, obj!.lineStart);
+        if (by !== 0) return by;
+        by = utility.compare(this.lineEnd, obj!.lineEnd);
+        if (by !== 0) return by;
+        by = utility.compare(this.startPos, obj!.startPos);
+        if (by !== 0) return by;
+        by = utility.asCompare(
+          utility.hashCode32(true, utility.asHashable(this.type.id), utility.asHashable(this.type.precedence))
+        );
+        if (by !== 0) return by;
+        return utility.compare(this.value, obj!.value);
+      }
+      return 1;
+    }
+    /**
+     * Gets a debug value for this `Token`.
+     * @returns {string} a debug string for this `Token`
+     */
+    public toString(): string {
+      return JSON.stringify({ token: this.value, type: this.type.toString() }, null, 2);
+    }
+  }
+  export interface MutableLexer<CH = string> extends parser.MutableLexer<Token, Syntax, CH> {
+    end(syntax: Syntax, p: Params | any): void;
+    process(chunk: CH, syntax: Syntax, p: Params | any): void;
+  }
+  /**The line and the position within the line of a character */
+  type At = [number, number];
+  /**
+   * @summary Creates `.properties` tokens from json data.
+   * @description
+   * A lexer that tokenises a json object as the lines that `java.util.Properties.store` writes for it, without the date comment:
+   * - Every key/value pair is a `key=value` line.
+   * - `\`, `=`, `:`, `#` and `!` are escaped with a `\` and `\t`, `\n`, `\r` and `\f` are written as escapes. Every space in a key
+   * and a space at the start of a value are escaped with a `\`.
+   * - Any other control character is written as a `\uXXXX` escape. Characters that are not in `ISO-8859-1` are escaped as
+   * `\uXXXX` by {@linkcode StringFormat} and {@linkcode FileFormat} when the {@linkcode Encoding} is `"iso-8859-1"`.
+   * - A `number`, `boolean`, `bigint` or `Decimal` is written as its string value and a `null` or `undefined` value is not written.
+   */
+  export class JSONLexer implements MutableLexer<json.Value> {
+    private queue: Token[] = [new Token("", INIT, -1, -1, -1)];
+    /**The line of the next token */
+    #ln = 1;
+    /**The position of the next token within its line */
+    #li = 1;
+    #canProcess = true;
+    /**
+     * Does nothing as {@linkcode process} tokenises all of the data.
+     * @inheritdoc
+     */
+    end(syntax: Syntax, p: any): void {}
+    /**
+     * Tokenises a json object as a `.properties` document. Calling this method when {@link JSONLexer.canProcess `canProcess`}
+     * returns `false` puts this `JSONLexer` object in an undefined state.
+     * @param {json.Value} chunk a json object whose values are all atoms
+     * @throws {expression.ExpressionError} if the argument is not an object or one of its values is an object or an array
+     * @inheritdoc
+     */
+    process(chunk: json.Value, syntax: Syntax, p: any): void {
+      if (!utility.isValid(chunk) || json.isAtomic(chunk) || Array.isArray(chunk))
+        throw new expression.ExpressionError("Only an object can be written as a .properties document");
+      this.src = chunk;
+      const o = chunk as json.Pair;
+      for (const k of Object.keys(o)) {
+        const v = o[k];
+        if (!utility.isValid(v)) continue;
+        else if (!json.isAtomic(v))
+          throw new expression.ExpressionError(`The value of '${k}' is not a string, number, boolean or bigint`);
+        for (const [x, t] of pieces(k, true)) this.#manufacture(x, t);
+        this.#manufacture("=", SEPARATOR);
+        for (const [x, t] of pieces(String(v), false)) this.#manufacture(x, t);
+        this.#manufacture(syntax.eol, EOL);
+      }
+      this.#canProcess = false;
+    }
+    #manufacture(value: string, type: Type) {
+      this.queue.push(new Token(value, type, this.#ln, this.#ln, this.#li));
+      if (type.equals(EOL)) {
+        this.#ln++;
+        this.#li = 1;
+      } else this.#li += value.length;
+    }
+    /**
+     * The json data that was given to {@linkcode process}
+     */
+    src?: json.Value;
+    processed = () => this.queue;
+    unprocessed = () => this.src;
+    frequency(type: parser.Type): number {
+      let frqy = 0;
+      for (let i = 0; i < this.queue.length; i++) {
+        if (this.queue[i].type.equals(type)) frqy++;
+      }
+      return frqy;
+    }
+    indexOf(type: parser.Type): number {
+      for (let i = 0; i < this.queue.length; i++) {
+        if (this.queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    lastIndexOf(type: parser.Type): number {
+      for (let i = this.queue.length - 1; i >= 0; i--) {
+        if (this.queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    hasTokens(): boolean {
+      return this.queue.length > 0;
+    }
+    canProcess(): boolean {
+      return this.#canProcess;
+    }
+    next(): Token {
+      while (true) {
+        if (!this.hasTokens()) break;
+        return this.queue.shift()!;
+      }
+      return new Token("", EOF, this.line(), this.line(), this.position());
+    }
+    position(): number {
+      return this.#li;
+    }
+    line(): number {
+      return this.#ln;
+    }
+  }
+  /**The value and type of a token created by {@linkcode JSONLexer} */
+  type Piece = [string, Type];
+  /**The characters that have a short escape and the character after the `\` of each one */
+  const SHORT_ESCAPES: { [c: string]: string } = { "\t": "t", "\n": "n", "\r": "r", "\f": "f" };
+  /**
+   * Creates the tokens of a key or a value as `java.util.Properties.store` escapes it.
+   * @param {string} text the key or value
+   * @param {boolean} key `true` for a key, in which every space is escaped, `false` for a value, in which only a space at the start
+   * is escaped
+   * @returns {Piece[]} the tokens
+   */
+  function pieces(text: string, key: boolean): Piece[] {
+    const r: Piece[] = [];
+    let run = "";
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      let e: string | undefined = SHORT_ESCAPES[c];
+      if (!utility.isValid(e)) {
+        if ("\\=:#!".includes(c) || (c === " " && (key || i === 0))) e = c;
+        else if (c < " " || c === "\x7f") e = `u${hex(c)}`;
+      }
+      if (!utility.isValid(e)) run += c;
+      else {
+        if (run.length > 0) r.push([run, TEXT]);
+        run = "";
+        r.push([`\\${e![0]}`, ESCAPE]);
+        if (e!.length > 1) r.push([e!.substring(1), TEXT]);
+      }
+    }
+    if (run.length > 0) r.push([run, TEXT]);
+    return r;
+  }
+  /**
+   * Gets the 4 hexadecimal digits of the `\uXXXX` escape of a UTF-16 code unit
+   * @param {string} c the code unit
+   * @returns {string} the digits in upper case, as java writes them
+   */
+  function hex(c: string): string {
+    return c.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0");
+  }
+  /**
+   * @summary Creates `.properties` tokens from text.
+   * @description
+   * A lexer that splits `.properties` text into lines, comments, whitespace, separators, escapes and continuations. The text can be
+   * given in chunks that split a line, an escape or a `\r\n` anywhere. {@linkcode end} must be called after the last chunk.
+   */
+  export class StringLexer implements MutableLexer {
+    private queue: Token[] = [new Token("", INIT, -1, -1, -1)];
+    /**The line of the next character */
+    #ln = 1;
+    /**The position of the next character within its line */
+    #li = 1;
+    /**The text of the token being built */
+    #run = "";
+    /**The type of the token being built */
+    #type?: Type;
+    /**Where the token being built starts */
+    #at: At = [1, 1];
+    /**Where the `\` that is waiting for the character that it escapes is */
+    #esc?: At;
+    /**A line terminator that ends with `\r`, which is waiting to see if a `\n` is after it, and where it starts */
+    #cr?: [string, At];
+    /**`true` if only whitespace has been read since the start of the current line */
+    #bol = true;
+    /**`true` if the current line is a comment */
+    #cmt = false;
+    #ended = false;
+    /**
+     * Creates the tokens that are waiting for more characters. A `\` at the end of the data is a {@linkcode CONTINUATION}, which is
+     * dropped by `java.util.Properties.load`.
+     * @inheritdoc
+     */
+    end(syntax?: Syntax, p?: Params): void {
+      if (utility.isValid(this.#cr)) {
+        const [v, at] = this.#cr!;
+        this.#cr = undefined;
+        this.#terminate(v, at);
+      }
+      if (utility.isValid(this.#esc)) {
+        this.#manufacture("\\", CONTINUATION, this.#esc!);
+        this.#esc = undefined;
+      }
+      this.#flush();
+      this.#ended = true;
+    }
+    /**
+     * Tokenises a chunk of `.properties` text.
+     * @param {string} chunk the text
+     * @param {Syntax} syntax the syntax, which is not used as every `.properties` document is tokenised in the same way
+     * @param {Params} p the params, which are not used
+     * @inheritdoc
+     */
+    process(chunk: string, syntax?: Syntax, p?: Params): void {
+      for (const c of chunk) this.#read(c);
+    }
+    #read(c: string) {
+      if (utility.isValid(this.#cr)) {
+        const [v, at] = this.#cr!;
+        this.#cr = undefined;
+        if (c === "\n") return this.#terminate(v + c, at);
+        this.#terminate(v, at);
+      }
+      const at: At = [this.#ln, this.#li++];
+      if (utility.isValid(this.#esc)) {
+        const esc = this.#esc!;
+        this.#esc = undefined;
+        if (c === "\r") this.#cr = ["\\\r", esc];
+        else if (c === "\n") this.#terminate("\\\n", esc);
+        else this.#manufacture(`\\${c}`, ESCAPE, esc);
+      } else if (c === "\r" || c === "\n") {
+        this.#flush();
+        if (c === "\r") this.#cr = [c, at];
+        else this.#terminate(c, at);
+      } else if (this.#cmt) this.#append(c, TEXT, at);
+      else if (c === " " || c === "\t" || c === "\f") this.#append(c, WHITESPACE, at);
+      else if (this.#bol && (c === "#" || c === "!")) {
+        this.#flush();
+        this.#manufacture(c, COMMENT, at);
+        this.#cmt = true;
+      } else {
+        this.#bol = false;
+        if (c === "\\") {
+          this.#flush();
+          this.#esc = at;
+        } else if (c === "=" || c === ":") {
+          this.#flush();
+          this.#manufacture(c, SEPARATOR, at);
+        } else this.#append(c, TEXT, at);
+      }
+    }
+    /**
+     * Creates the token of a line terminator, which is a {@linkcode CONTINUATION} if it is escaped and ends the line otherwise.
+     * @param {string} value the line terminator, with the `\` before it if it is escaped
+     * @param {At} at where the token starts
+     */
+    #terminate(value: string, at: At) {
+      const escaped = value[0] === "\\";
+      this.queue.push(new Token(value, escaped ? CONTINUATION : EOL, at[0], at[0] + 1, at[1]));
+      this.#ln++;
+      this.#li = 1;
+      if (!escaped) {
+        this.#bol = true;
+        this.#cmt = false;
+      }
+    }
+    /**
+     * Adds a character to the token being built, first creating that token if it is not of the given type.
+     */
+    #append(c: string, type: Type, at: At) {
+      if (utility.isValid(this.#type) && !this.#type!.equals(type)) this.#flush();
+      if (this.#run.length === 0) this.#at = at;
+      this.#type = type;
+      this.#run += c;
+    }
+    /**
+     * Creates the token being built, if there is one.
+     */
+    #flush() {
+      if (this.#run.length > 0) this.#manufacture(this.#run, this.#type!, this.#at);
+      this.#run = "";
+      this.#type = undefined;
+    }
+    #manufacture(value: string, type: Type, at: At) {
+      this.queue.push(new Token(value, type, at[0], at[0], at[1]));
+    }
+    /**
+     * Gets the queue of {@linkcode Token} objects ready to be consumed by a parser. DO NOT MODIFY the array returned as that may
+     * cause parsing to be undefined.
+     * @returns {Token[]} the queue of `Token` objects which is an array
+     */
+    processed = (): Token[] => this.queue;
+    /**
+     * Gets the text that has been read but is not yet in a token.
+     * @returns {string} the text
+     */
+    unprocessed = (): string => this.#run;
+    frequency(type: parser.Type): number {
+      let frqy = 0;
+      for (let i = 0; i < this.queue.length; i++) {
+        if (this.queue[i].type.equals(type)) frqy++;
+      }
+      return frqy;
+    }
+    indexOf(type: parser.Type): number {
+      for (let i = 0; i < this.queue.length; i++) {
+        if (this.queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    lastIndexOf(type: parser.Type): number {
+      for (let i = this.queue.length - 1; i >= 0; i--) {
+        if (this.queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    hasTokens(): boolean {
+      return this.queue.length > 0;
+    }
+    canProcess(): boolean {
+      return !this.#ended;
+    }
+    next(): Token {
+      while (true) {
+        if (!this.hasTokens()) break;
+        return this.queue.shift()!;
+      }
+      return new Token("", EOF, this.line(), this.line(), this.position());
+    }
+    position(): number {
+      return this.#li;
+    }
+    line(): number {
+      return this.#ln;
+    }
+  }
+  export interface Command extends parser.GCommand<Token, Expression, Syntax, MutableLexer, Parser> {
+    parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression;
+  }
+  /**
+   * @summary a section of code.
+   * @description The text that an expression was parsed from, as it was written.
+   */
+  export type Snippet = {
+    /**
+     * The lines before the expression that are comments or blank, without their line terminators.
+     * @readonly
+     * @type {readonly string[]}
+     */
+    readonly blk: readonly string[];
+    /**
+     * The text of the expression, which has the escaped line terminators of its continuations but not the line terminator that
+     * ends it.
+     * @readonly
+     * @type {string}
+     */
+    readonly src: string;
+  };
+  export interface Expression extends expression.GExpression<Format> {
+    /**
+     * The source code from which this expression was parsed.
+     * @readonly
+     * @type {Snippet}
+     */
+    readonly c?: Snippet;
+    format(format: Format, syntax?: Syntax, params?: Params | any): void;
+  }
+  /**
+   * A key and its value, both unescaped.
+   */
+  class Property implements Expression {
+    constructor(public readonly key: string, public readonly value: string, public readonly c: Snippet) {}
+    format(format: Format<any>, syntax?: Syntax | undefined, params?: any): void {
+      format.append(this, syntax, params);
+    }
+    debug(): string {
+      return [...this.c.blk, this.c.src].join("\n");
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Property) return this.key === obj.key && this.value === obj.value;
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(true, utility.asHashable(this.key), utility.asHashable(this.value));
+    }
+    toString() {
+      return this.debug();
+    }
+  }
+  /**
+   * The properties of a document in the order in which their keys were first defined.
+   */
+  class Document implements Expression {
+    /**The properties, keyed by their keys */
+    public readonly map = new Map<string, Property>();
+    /**
+     * @param {string[]} blk the comment and blank lines after the last property
+     */
+    constructor(public blk: string[] = []) {}
+    format(format: Format<any>, syntax?: Syntax | undefined, params?: any): void {
+      format.append(this, syntax, params);
+    }
+    debug(): string {
+      return [...this.map.values()].map((x) => x.debug()).concat(this.blk).join("\n");
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Document)
+        return (
+          this.map.size === obj.map.size &&
+          [...this.map.values()].every((x) => x.equals(obj.map.get(x.key)))
+        );
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(true, ...[...this.map.values()].map((x) => utility.asHashable(x.hashCode32())));
+    }
+    toString() {
+      return this.debug();
+    }
+  }
+  /**
+   * Checks the type of a token
+   * @param {parser.GToken<string>} t the token
+   * @param {parser.GType<string>[]} types the types to check against
+   * @returns {boolean} `true` if the token has one of the types
+   */
+  function is(t: parser.GToken<string>, ...types: parser.GType<string>[]): boolean {
+    return types.some((x) => x.equals(t.type));
+  }
+  /**
+   * Throws a `parser.SyntaxError` at the given token.
+   * @param {parser.GToken<string>} t the token where the error was found
+   * @param {number} offset the position of the error within the token
+   * @param {string} msg the description of the error
+   * @throws {parser.SyntaxError} always
+   */
+  function error(t: parser.GToken<string>, offset: number, msg: string): never {
+    throw new parser.SyntaxError(
+      t,
+      new parser.ParseError(`${msg} at line: ${t.lineStart}, position: ${t.startPos! + offset}`)
+    );
+  }
+  /**
+   * The text of a logical line, which is the text of its lines without the continuations and the whitespace at the start of each
+   * line, and the tokens that the text is from.
+   */
+  type Logical = {
+    text: string;
+    /**The tokens of the text and where the text of each one starts in {@linkcode Logical.text} */
+    tokens: [number, parser.GToken<string>][];
+    /**`true` if the last line ends with a continuation */
+    continued: boolean;
+    /**
+     * The text of the lines as they were written, without a continuation at the end and the whitespace after it, which would
+     * continue the line that is written after this one
+     */
+    src: string;
+  };
+  /**
+   * Parses the tokens of a line and the lines that continue it, leaving the line terminator that ends them.
+   * @returns {Logical | undefined} the logical line or `undefined` if it is a comment, in which case the comment is consumed
+   */
+  function logical(p: Parser, l: MutableLexer, s: Syntax, pa: Params): Logical | undefined {
+    const line: Logical = { text: "", tokens: [], continued: false, src: "" };
+    //whitespace is skipped at the start of a line
+    let skip = true;
+    //`true` right after a continuation
+    let cont = false;
+    while (!is(p.peek(l, s, pa), EOL, EOF)) {
+      const t = p.pop(l, s, pa);
+      if (is(t, COMMENT)) {
+        while (!is(p.peek(l, s, pa), EOL, EOF)) p.pop(l, s, pa);
+        return undefined;
+      }
+      line.continued = is(t, CONTINUATION);
+      if (line.continued) skip = cont = true;
+      else {
+        if (!cont || !is(t, WHITESPACE)) {
+          cont = false;
+          line.src = p.since(0);
+        }
+        if (!skip || !is(t, WHITESPACE)) {
+          skip = false;
+          line.tokens.push([line.text.length, t]);
+          line.text += t.value;
+        }
+      }
+    }
+    return line;
+  }
+  /**
+   * Finds the token of a character in a logical line.
+   * @param {Logical} line the logical line
+   * @param {number} i the index of the character in {@linkcode Logical.text}
+   * @returns {[parser.GToken<string>, number]} the token and the index of the character in the token
+   */
+  function locate(line: Logical, i: number): [parser.GToken<string>, number] {
+    let j = line.tokens.length - 1;
+    while (j > 0 && line.tokens[j][0] > i) j--;
+    return [line.tokens[j][1], i - line.tokens[j][0]];
+  }
+  /**
+   * Unescapes a key or value as `java.util.Properties.loadConvert` does.
+   * @param {Logical} line the logical line of the key or value
+   * @param {number} start the index of the first character of the key or value in {@linkcode Logical.text}
+   * @param {number} end the index after the last character of the key or value
+   * @returns {string} the key or value
+   * @throws {parser.SyntaxError} if a `\u` is not followed by 4 hexadecimal digits
+   */
+  function unescape(line: Logical, start: number, end: number): string {
+    let r = "";
+    let i = start;
+    while (i < end) {
+      let c = line.text[i++];
+      if (c === "\\" && i < end) {
+        c = line.text[i++];
+        if (c === "u") {
+          const digits = line.text.substring(i, Math.min(i + 4, end));
+          if (!/^[0-9A-Fa-f]{4}$/.test(digits)) error(...locate(line, i - 2), "Malformed \\uxxxx encoding");
+          r += String.fromCharCode(parseInt(digits, 16));
+          i += 4;
+        } else r += c === "t" ? "\t" : c === "r" ? "\r" : c === "n" ? "\n" : c === "f" ? "\f" : c;
+      } else r += c;
+    }
+    return r;
+  }
+  /**
+   * Splits a logical line into a key and a value as `java.util.Properties.load` does.
+   * @param {Logical} line the logical line, which is not empty
+   * @returns {[string, string]} the key and the value, both unescaped
+   */
+  function split(line: Logical): [string, string] {
+    const text = line.text;
+    const limit = text.length;
+    let keyLen = 0;
+    let valueStart = limit;
+    let hasSep = false;
+    let precedingBackslash = false;
+    while (keyLen < limit) {
+      const c = text[keyLen];
+      if ((c === "=" || c === ":") && !precedingBackslash) {
+        valueStart = keyLen + 1;
+        hasSep = true;
+        break;
+      } else if ((c === " " || c === "\t" || c === "\f") && !precedingBackslash) {
+        valueStart = keyLen + 1;
+        break;
+      }
+      precedingBackslash = c === "\\" ? !precedingBackslash : false;
+      keyLen++;
+    }
+    while (valueStart < limit) {
+      const c = text[valueStart];
+      if (c !== " " && c !== "\t" && c !== "\f") {
+        if (!hasSep && (c === "=" || c === ":")) hasSep = true;
+        else break;
+      }
+      valueStart++;
+    }
+    return [unescape(line, 0, keyLen), unescape(line, valueStart, limit)];
+  }
+  /**
+   * Parses a whole `.properties` document into a {@linkcode Document}. A key that is defined again keeps its place in the document
+   * but gets the value and comments of the last definition.\
+   * \
+   * A line that is empty apart from a continuation is blank, unless the continuation is at the end of the data, in which case the line
+   * defines an empty key with an empty value, as it does in java.
+   */
+  class Initialize implements Command {
+    parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression {
+      pa = pa ?? new Params();
+      pa.blk = [];
+      const doc = new Document();
+      while (!is(p.peek(l, s, pa), EOF)) {
+        p.forget();
+        const line = logical(p, l, s, pa);
+        if (utility.isValid(line) && (line!.text.length > 0 || (line!.continued && is(p.peek(l, s, pa), EOF)))) {
+          const [key, value] = split(line!);
+          //an empty key at the end of the data is written so that it can be parsed before other properties
+          doc.map.set(key, new Property(key, value, { blk: pa.blk, src: line!.text.length > 0 ? line!.src : "=" }));
+          pa.blk = [];
+        } else if (s.comments) pa.blk.push(utility.isValid(line) ? line!.src : p.since(0));
+        if (is(p.peek(l, s, pa), EOL)) p.pop(l, s, pa);
+      }
+      doc.blk = pa.blk;
+      return doc;
+    }
+  }
+  /**
+   * @summary Parses `.properties` tokens into a document.
+   * @description A {@linkcode parser.PrattParser} that keeps the text of the tokens that it consumes so that every property has the
+   * source that it was parsed from (see {@linkcode Snippet.src}).
+   */
+  export class Parser extends parser.PrattParser<Expression, Syntax> {
+    /**The text of the tokens consumed since the last call to {@linkcode forget} */
+    #src = "";
+    protected override readAndPop<P>(
+      l: parser.GLexer<parser.GToken<string>, Syntax>,
+      s: Syntax,
+      params: P
+    ): parser.GToken<string> {
+      const t = super.readAndPop(l, s, params);
+      this.#src += t.value;
+      return t;
+    }
+    /**
+     * Gets a token without consuming it
+     * @param {MutableLexer} l the token generator
+     * @param {Syntax} s a syntax for the token generator
+     * @param {Params} pa the params of the parsing process
+     * @returns {parser.GToken<string>} the token
+     */
+    public peek(l: MutableLexer, s: Syntax, pa: Params): parser.GToken<string> {
+      return this.readAndPeek(0, l, s, pa);
+    }
+    /**
+     * Consumes the next token
+     * @param {MutableLexer} l the token generator
+     * @param {Syntax} s a syntax for the token generator
+     * @param {Params} pa the params of the parsing process
+     * @returns {parser.GToken<string>} the token
+     */
+    public pop(l: MutableLexer, s: Syntax, pa: Params): parser.GToken<string> {
+      return this.readAndPop(l, s, pa);
+    }
+    /**
+     * Gets the text of the tokens consumed after the given position.
+     * @param {number} mark a position in the text consumed since the last call to {@linkcode forget}
+     * @returns {string} the text as it was written
+     */
+    public since(mark: number): string {
+      return this.#src.substring(mark);
+    }
+    /**
+     * Discards the text of the tokens consumed so far. This is called at the start of every line of a document.
+     */
+    public forget(): void {
+      this.#src = "";
+    }
+  }
+  /**
+   * Escapes the characters that are not in `ISO-8859-1` as `\uXXXX`, as `java.util.Properties.store` does. A character that is
+   * already escaped by a `\` has that `\` replaced.
+   * @param {string} text the text
+   * @returns {string} the text, which only has `ISO-8859-1` characters
+   */
+  function latin1(text: string): string {
+    return text.replace(/\\[\s\S]|[^\u0000-\u00ff]/g, (m) =>
+      m.length === 1 ? `\\u${hex(m)}` : m.charCodeAt(1) > 0xff ? `\\u${hex(m[1])}` : m
+    );
+  }
+  /**
+   * Writes data as `.properties` text. Every property is written as it was parsed, after the comment and blank lines before it,
+   * and every line ends with the line terminator of the syntax.
+   * @param {Appendage} data a string, which is written as it is, or an expression
+   * @param {Syntax} [s] the syntax. The characters that are not in `ISO-8859-1` are escaped unless its encoding is `"utf-8"`
+   * @returns {string} the text
+   */
+  function write(data: Appendage, s?: Syntax): string {
+    const eol = s?.eol ?? "\n";
+    const lines = (x: Property) => [...x.c.blk, x.c.src];
+    let text = "";
+    if (typeof data === "string") text = data;
+    else if (data instanceof Property) text = lines(data).map((x) => x + eol).join("");
+    else if (data instanceof Document)
+      text = [...data.map.values()].flatMap(lines).concat(data.blk).map((x) => x + eol).join("");
+    return s?.metadata?.encoding === "utf-8" ? text : latin1(text);
+  }
+  /**
+   * @summary The type of value accepted by the {@linkcode Format.append} method.
+   * @description The value that will be sent to (and expected by) {@linkcode Format} objects
+   */
+  export type Appendage = string | Expression;
+  /**A base `.properties` format */
+  export interface Format<T = any> extends expression.GFormat<Expression, T> {
+    append(data: Appendage, s?: Syntax, p?: Params): void;
+  }
+  /**
+   * @summary The {@linkcode Expression} output as a string.
+   * @description Builds and stores the parsed `.properties` data as a string. The properties are written as they were parsed, in the
+   * order in which their keys were first defined, with the line terminator of the syntax at the end of every line.
+   */
+  export class StringFormat implements Format<string> {
+    private _data = "";
+    append(data: Appendage, s?: Syntax | undefined, p?: Params | undefined): void {
+      this._data += write(data, s);
+      this.modifications++;
+    }
+    data(): string {
+      return this._data;
+    }
+    reverse(): expression.GFormat<Expression, string> {
+      this._data.split("").reverse().join("");
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, string>): boolean {
+      if (another instanceof StringFormat) return this._data === another._data;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    readonly prettyfier?: expression.Prettyfier | undefined;
+    readonly minifier?: expression.Minifier | undefined;
+    readonly logger?: utility.Messenger | undefined;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._data)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * @summary The {@linkcode Expression} output as json data.
+   * @description Converts the parsed `.properties` data to a json object whose keys and values are all strings, in the order in which
+   * the keys were first defined.
+   */
+  export class JSFormat implements Format<json.Value> {
+    private _data = {} as json.Value;
+    append(data: Appendage, s?: Syntax | undefined, p?: Params | undefined): void {
+      if (typeof data === "string")
+        throw new expression.FormatError("A string must be parsed before it can be converted to json");
+      const o = {} as json.Pair;
+      const props = data instanceof Document ? [...data.map.values()] : [data as Property];
+      for (const x of props)
+        Object.defineProperty(o, x.key, { value: x.value, writable: true, enumerable: true, configurable: true });
+      this._data = o;
+      this.modifications++;
+    }
+    data(): json.Value {
+      return this._data;
+    }
+    reverse(): expression.GFormat<Expression, json.Value> {
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, json.Value>): boolean {
+      if (another instanceof JSFormat) return this._data === another._data;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    prettyfier?: expression.Prettyfier | undefined;
+    minifier?: expression.Minifier | undefined;
+    logger?: utility.Messenger | undefined;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._data)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * @summary The {@linkcode Expression} output as a file.
+   * @description Writes the parsed `.properties` data to a file in the same way as {@linkcode StringFormat}, encoded in the
+   * {@linkcode Encoding} of the syntax.
+   */
+  export class FileFormat implements Format<ReadStream> {
+    private _str: WriteStream;
+    /**The encoding of the file, which is the encoding of the last syntax given to {@linkcode append} */
+    #encoding: Encoding = "iso-8859-1";
+    constructor(filename: string) {
+      this._str = createWriteStream(filename, {
+        autoClose: true,
+        emitClose: false,
+      });
+    }
+    public endWrite() {
+      this._str!.end();
+      this._str!.close();
+    }
+    append(data: Appendage, s?: Syntax | undefined, p?: Params | undefined): void {
+      this.#encoding = s?.metadata?.encoding === "utf-8" ? "utf-8" : "iso-8859-1";
+      this._str.write(iconv.encode(write(data, s), this.#encoding));
+      this.modifications++;
+    }
+    data(): ReadStream {
+      return createReadStream(this._str.path, {
+        autoClose: true,
+        encoding: this.#encoding === "utf-8" ? "utf-8" : "latin1",
+      });
+    }
+    reverse(): this {
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, ReadStream>): boolean {
+      if (another instanceof FileFormat) return this._str.path === another._str.path;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._str)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * Converts a stream of `.properties` data, which is decoded in the {@linkcode Encoding} of the syntax, to a {@linkcode Document}.
+   */
+  export class Converter extends parser.Converter<
+    parser.GToken<string>,
+    Expression,
+    Syntax,
+    Parser,
+    Params,
+    MutableLexer,
+    any
+  > {
+    _transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback): void {
+      if (!this.writableObjectMode) {
+        chunk = Buffer.isBuffer(chunk)
+          ? iconv.decode(chunk as Buffer, this.syntax.metadata!.encoding)
+          : String(chunk);
+      }
+      try {
+        this.lexer.process(chunk, this.syntax, this.params);
+      } catch (e) {
+        return callback(e as Error);
+      }
+      callback();
+    }
+    _flush(callback: TransformCallback): void {
+      try {
+        this.lexer.end(this.syntax, this.params);
+        return callback(null, this.parser.parse(this.lexer, this.syntax, this.params));
+      } catch (e) {
+        return callback(e as Error);
+      }
+    }
+  }
+  /**
+   * The syntax of `java.util.Properties.load(InputStream)` and `java.util.Properties.store(OutputStream, String)`, which read and
+   * write `ISO-8859-1`. Characters that are not in `ISO-8859-1` are written as `\uXXXX` escapes.
+   */
+  export const ISO_8859_1 = new SyntaxBuilder().build();
+  /**
+   * The syntax of `java.util.Properties.load(Reader)` with a `UTF-8` reader, which is how `java.util.PropertyResourceBundle` reads
+   * `.properties` files since java 9. Characters are written as they are.
+   */
+  export const UTF_8 = new SyntaxBuilder().setEncoding("utf-8").build();
+}
+export default properties;
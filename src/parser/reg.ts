@@ -0,0 +1,403 @@
+import utility from "../utility.js";
+import expression from "./expression.js";
+import ini from "./ini.js";
+import json from "./json.js";
+/**
+ * @summary Defines the `.reg` dialect of the ini pipeline.
+ * @description
+ * Windows Registry files (`.reg`), as `regedit.exe` exports and imports them, are parsed by the {@linkcode ini.StringLexer} and
+ * the {@linkcode ini.Parser} with the {@linkcode REGEDIT} syntax. This namespace adds what ini does not know about them:
+ * - The typed values, which {@linkcode JSFormat} maps to json and {@linkcode stringify} writes back:
+ *
+ * | `.reg` | registry type | json |
+ * | --- | --- | --- |
+ * | `"text"` | `REG_SZ` | `string` |
+ * | `dword:0000002a` | `REG_DWORD` | `number` |
+ * | `hex(b):2a,00,00,00,00,00,00,00` | `REG_QWORD` | `bigint` |
+ * | `hex(7):61,00,00,00,00,00` | `REG_MULTI_SZ` | `string[]` |
+ * | `hex:de,ad,be,ef` | `REG_BINARY` | `number[]` of bytes |
+ * | `hex(2):25,00,54,00,4d,00,50,00,25,00,00,00` | `REG_EXPAND_SZ` | `{ type: 2, value: "%TMP%" }` |
+ * | `-` | a deleted value | `null` |
+ *
+ * `hex(1)` is read as a `string` and `hex(4)` as a `number`, which are written back as `"text"` and `dword:` of the same type. A
+ * value whose json type would be written back as another registry type is read as a {@linkcode Typed} value, as `hex(2)` is. So
+ * are an empty `hex(7)`, which is `{ type: 7, value: [] }`, `hex(5)` (`REG_DWORD_BIG_ENDIAN`), which is a `number`, and any other
+ * `hex(n)`, which is `number[]` of bytes.
+ * - The version line at the start of the file, which is not in the json data.
+ * - The default value of a key, whose name is `@` in the file and `""` in the json data.
+ * - A deleted key, which is a section whose name starts with `-` in the file and whose value is `null` in the json data.
+ * - The encoding, which is UTF-16LE with a byte order mark. Node keeps the byte order mark as a `'\uFEFF'` at the start of the text
+ * when a file is read as `"utf16le"`, and {@linkcode ini.FileFormat} writes it back when it is given that encoding, so that:
+ * ```ts
+ * const doc = new ini.Document(readFileSync("app.reg", "utf16le"), reg.REGEDIT);
+ * const f = new ini.FileFormat("copy.reg", "utf16le");
+ * doc.format(f);
+ * f.endWrite();
+ * ```
+ * writes the same bytes that were read. json data is written as a file in the same way, from
+ * `new ini.Document(reg.stringify(data), reg.REGEDIT)`. The version line of `REGEDIT4` files, which are not UTF-16, is read but their `hex(2)` and
+ * `hex(7)` values are not.
+ * @example ### An example of a `.reg` file:
+ * ```reg
+ * Windows Registry Editor Version 5.00
+ *
+ * [HKEY_CURRENT_USER\Software\Example\App]
+ * @="Example application"
+ * "InstallDir"="C:\\Program Files\\Example"
+ * "Version"=dword:0000002a
+ * "Servers"=hex(7):61,00,6c,00,70,00,68,00,61,00,00,00,62,00,65,00,74,00,61,00,\
+ *   00,00,00,00
+ * "Obsolete"=-
+ *
+ * [-HKEY_CURRENT_USER\Software\Example\Old]
+ * ```
+ */
+namespace reg {
+  /**The version line of the `.reg` files that this namespace writes */
+  export const VERSION = "Windows Registry Editor Version 5.00";
+  /**The version lines that may start a `.reg` file, after its byte order mark */
+  const VERSIONS = [VERSION, "REGEDIT4"];
+  /**The column after which `regedit.exe` continues a hex value on the next line */
+  const HEX_WIDTH = 77;
+  /**
+   * @summary A syntax for `.reg` files.
+   * @description
+   * - Comments are lines that begin with `';'`.
+   * - `'='` assigns a value to a name. `key=value` is written without spaces around the `'='`.
+   * - `'['` begins a key and `']'` ends it. The `'\'` in the key is not nesting, so the full path of a key is one section name.
+   * - Names and values are read with their quotes and escapes, so that {@linkcode JSFormat} can tell `"-"` from `-`. A name in
+   * quotes ends at its closing quote, so it may have a `'='`.
+   * - A value that ends with `'\'` continues on the next line, as the hex values of `regedit.exe` do.
+   * - A value that is set more than once keeps the last one and a key that is declared more than once is merged, as
+   * `regedit.exe` imports them.
+   * - Values are {@link value typed} by {@linkcode ini.Syntax.parse}.
+   * - `'\r\n'` is written as the line terminator.
+   */
+  export const REGEDIT = new ini.SyntaxBuilder()
+    .removeCommentChar("#")
+    .supportInline(false)
+    .removeDelimiter(":")
+    .removeSupportForNesting()
+    .supportQuotedText(false)
+    .supportNonQuotedEscape(true)
+    .removeUnicodeChar("x")
+    .removeUnicodeChar("X")
+    .removeUnicodeChar("u")
+    .removeUnicodeChar("U")
+    .setEscapeParser((e) => (/^\\(?:\r\n|\r|\n)$/.test(e) ? "" : e))
+    .setEscapeFormatter((t) => t)
+    .supportQuotedKeys(true)
+    .setDuplicateDirective(ini.DuplicateDirective.OVERWRITE, true)
+    .setDuplicateDirective(ini.DuplicateDirective.MERGE, false)
+    .setFormatParser(value)
+    .setEol("\r\n")
+    .setDelimiterPadding(false)
+    .setFileExt("reg")
+    .setMediaType("text/x-ms-regedit")
+    .build();
+  /**
+   * A value with the number of its registry type, which is the `n` of `hex(n)`. It is the json of a value whose registry type is not
+   * the one that its json type is written as, such as `REG_EXPAND_SZ`, whose `value` is a `string`.
+   */
+  export type Typed = {
+    /**The number of the registry type, such as `2` for `REG_EXPAND_SZ` */
+    readonly type: number;
+    /**
+     * The value, which is a `string` for `REG_SZ` and `REG_EXPAND_SZ`, a `string[]` for `REG_MULTI_SZ`, a `number` for `REG_DWORD`
+     * and `REG_DWORD_BIG_ENDIAN`, a `bigint` for `REG_QWORD` and a `number[]` of bytes for any other type
+     */
+    readonly value: json.Value;
+  };
+  /**
+   * Checks if a json value is a {@linkcode Typed} value
+   * @param {json.Value} v the value
+   * @returns {boolean} `true` if it is an object that has only a numeric `type` and a `value`
+   */
+  function isTyped(v: json.Value): v is Typed {
+    return (
+      utility.isValid(v) &&
+      typeof v === "object" &&
+      !Array.isArray(v) &&
+      typeof (v as json.Pair).type === "number" &&
+      "value" in (v as json.Pair) &&
+      Object.keys(v as json.Pair).length === 2
+    );
+  }
+  /**
+   * Reads a name or a `REG_SZ` value
+   * @param {string} text the text in double quotes, where `\"` is a double quote and `\\` is a backslash
+   * @returns {string | undefined} the text without its quotes and escapes, or `undefined` if it is not in double quotes
+   */
+  function unquote(text: string): string | undefined {
+    const m = /^"((?:[^"\\]|\\.)*)"$/s.exec(text);
+    return utility.isValid(m) ? m![1].replace(/\\(.)/gs, "$1") : undefined;
+  }
+  /**
+   * Reads the bytes of a hex value
+   * @param {string} text the comma separated bytes, which may have whitespace around them
+   * @returns {number[]} the bytes
+   * @throws {expression.FormatError} if an item is not a byte in hex
+   */
+  function bytes(text: string): number[] {
+    const items = text.split(",").map((x) => x.trim());
+    //a value that ends with a comma before its continuation
+    if (items[items.length - 1] === "") items.pop();
+    return items.map((x) => {
+      if (!/^[0-9a-f]{1,2}$/i.test(x))
+        throw new expression.FormatError(`'${x}' is not a byte in hex`);
+      return parseInt(x, 16);
+    });
+  }
+  /**
+   * Decodes UTF-16LE text
+   * @param {number[]} b the bytes
+   * @returns {string} the text, without the `'\0'` that ends it
+   * @throws {expression.FormatError} if there is an odd number of bytes
+   */
+  function utf16(b: number[]): string {
+    if (b.length % 2 !== 0)
+      throw new expression.FormatError(`${b.length} bytes are not UTF-16 text`);
+    const text = Buffer.from(b).toString("utf16le");
+    return text.endsWith("\0") ? text.substring(0, text.length - 1) : text;
+  }
+  /**
+   * Converts a value as it is written in a `.reg` file to json. This is the {@linkcode ini.Syntax.parse} of {@linkcode REGEDIT}.
+   * @param {string} text the value after the `'='`, with its quotes and escapes
+   * @returns {json.Value} the value as the table in the {@link reg namespace docs} maps it, or `null` for an empty text such as
+   * that of the version line
+   * @throws {expression.FormatError} if the text is not a valid value
+   */
+  export function value(text: string): json.Value {
+    let m: RegExpExecArray | null;
+    if (text === "-" || text.length === 0) return null;
+    else if (utility.isValid(unquote(text))) return unquote(text)!;
+    else if ((m = /^dword:([0-9a-f]{1,8})$/i.exec(text)))
+      return parseInt(m[1], 16);
+    else if ((m = /^hex(?:\(([0-9a-f]{1,8})\))?:(.*)$/is.exec(text))) {
+      const type = parseInt(m[1] ?? "3", 16);
+      const b = bytes(m[2]);
+      switch (type) {
+        case 1:
+          return utf16(b);
+        case 2:
+          return { type, value: utf16(b) };
+        case 3:
+          return b;
+        case 4:
+        case 5: {
+          if (b.length !== 4)
+            throw new expression.FormatError(`'${text}' does not have 4 bytes`);
+          const n = Buffer.from(b)[type === 4 ? "readUInt32LE" : "readUInt32BE"]();
+          return type === 4 ? n : { type, value: n };
+        }
+        case 7: {
+          const items = utf16(b).split("\0");
+          if (items[items.length - 1] === "") items.pop();
+          return items.length > 0 ? items : { type, value: items };
+        }
+        case 0xb:
+          if (b.length !== 8)
+            throw new expression.FormatError(`'${text}' does not have 8 bytes`);
+          return Buffer.from(b).readBigUInt64LE();
+      }
+      return { type, value: b };
+    }
+    throw new expression.FormatError(`'${text}' is not a registry value`);
+  }
+  /**
+   * Writes a hex value as `regedit.exe` does, which continues it on the next line after {@linkcode HEX_WIDTH} columns
+   * @param {string} type the text before the bytes, such as `hex(7):`
+   * @param {Uint8Array} b the bytes
+   * @param {string} eol the line terminator
+   * @param {number} column the length of the text before the value on its line
+   * @returns {string} the value
+   */
+  function hex(type: string, b: Uint8Array, eol: string, column: number): string {
+    let text = type;
+    column += type.length;
+    b.forEach((x, i) => {
+      text += x.toString(16).padStart(2, "0");
+      if (i === b.length - 1) return;
+      text += ",";
+      column += 3;
+      if (column >= HEX_WIDTH) {
+        text += `\\${eol}  `;
+        column = 2;
+      }
+    });
+    return text;
+  }
+  /**
+   * Gets the bytes of a value of a registry type, as `hex(n)` has them
+   * @param {number} type the number of the registry type
+   * @param {json.Value} v the value
+   * @returns {Uint8Array | undefined} the bytes, or `undefined` if the value cannot be of the type
+   */
+  function encode(type: number, v: json.Value): Uint8Array | undefined {
+    switch (type) {
+      case 1:
+      case 2:
+        return typeof v === "string"
+          ? Buffer.from(`${v}\0`, "utf16le")
+          : undefined;
+      case 4:
+      case 5: {
+        if (
+          typeof v !== "number" ||
+          !Number.isInteger(v) ||
+          v < -0x80000000 ||
+          v > 0xffffffff
+        )
+          return undefined;
+        const b = Buffer.alloc(4);
+        b[type === 4 ? "writeUInt32LE" : "writeUInt32BE"](v >>> 0);
+        return b;
+      }
+      case 7:
+        return Array.isArray(v) && v.every((x) => typeof x === "string")
+          ? Buffer.from(`${v.map((x) => `${x}\0`).join("")}\0`, "utf16le")
+          : undefined;
+      case 0xb: {
+        if (typeof v !== "bigint" || v < -(2n ** 63n) || v >= 2n ** 64n)
+          return undefined;
+        const b = Buffer.alloc(8);
+        b.writeBigUInt64LE(BigInt.asUintN(64, v));
+        return b;
+      }
+    }
+    return Array.isArray(v) &&
+      v.every(
+        (x) => typeof x === "number" && Number.isInteger(x) && x >= 0 && x < 256
+      )
+      ? Uint8Array.from(v as number[])
+      : undefined;
+  }
+  /**
+   * Writes a name as it is written in a `.reg` file
+   * @param {string} name the name of a value, which is `""` for the default value of a key
+   * @returns {string} `@` or the name in double quotes
+   */
+  function name(name: string): string {
+    return name.length === 0 ? "@" : `"${name.replace(/["\\]/g, "\\$&")}"`;
+  }
+  /**
+   * Writes a json value as it is written in a `.reg` file. This is the reverse of {@linkcode value}, except that a `string` with
+   * a line terminator is written as `hex(1)`, which a `"text"` value cannot have. A {@linkcode Typed} value is written as `hex(n)`
+   * of its type, or as `hex:` for `REG_BINARY`.
+   * @param {json.Value} v the value
+   * @param {string} [eol] the line terminator after which a long hex value continues. The default is `'\r\n'`.
+   * @param {number} [column] the length of the name and the `'='` before the value, which a hex value counts to continue on the
+   * next line where `regedit.exe` does. The default is `0`.
+   * @returns {string} the value
+   * @throws {expression.ExpressionError} if the value does not have a registry type, or a {@linkcode Typed} value cannot be of its
+   * type
+   */
+  export function text(v: json.Value, eol = "\r\n", column = 0): string {
+    const wrong = () =>
+      new expression.ExpressionError(
+        `${json.stringify(v)} does not have a registry type`
+      );
+    let b: Uint8Array | undefined;
+    if (v === null) return "-";
+    else if (isTyped(v)) {
+      if (
+        Number.isInteger(v.type) &&
+        v.type >= 0 &&
+        v.type <= 0xffffffff &&
+        utility.isValid((b = encode(v.type, v.value)))
+      )
+        return hex(
+          v.type === 3 ? "hex:" : `hex(${v.type.toString(16)}):`,
+          b!,
+          eol,
+          column
+        );
+    } else if (typeof v === "string")
+      return /[\r\n]/.test(v)
+        ? hex("hex(1):", encode(1, v)!, eol, column)
+        : `"${v.replace(/["\\]/g, "\\$&")}"`;
+    else if (typeof v === "number") {
+      if (!Number.isInteger(v) || v < -0x80000000 || v > 0xffffffff)
+        throw wrong();
+      return `dword:${(v >>> 0).toString(16).padStart(8, "0")}`;
+    } else if (typeof v === "bigint") {
+      if (utility.isValid((b = encode(0xb, v))))
+        return hex("hex(b):", b!, eol, column);
+    } else if (Array.isArray(v)) {
+      if (v.length > 0 && v.every((x) => typeof x === "string"))
+        return hex("hex(7):", encode(7, v)!, eol, column);
+      else if (utility.isValid((b = encode(3, v))))
+        return hex("hex:", b!, eol, column);
+    }
+    throw wrong();
+  }
+  /**
+   * Writes json data as a `.reg` file, with a byte order mark, the {@linkcode VERSION} line and a blank line after every key, as
+   * `regedit.exe` exports them
+   * @param {json.Pair} data an object whose properties are the full paths of keys, each of which is an object of the values of the
+   * key or `null` for a key that is deleted
+   * @param {string} [eol] the line terminator. The default is `'\r\n'`.
+   * @returns {string} the text of the file, which starts with `'\uFEFF'`
+   * @throws {expression.ExpressionError} if the data is not such an object or a value does not have a registry type
+   */
+  export function stringify(data: json.Pair, eol = "\r\n"): string {
+    if (!utility.isValid(data) || json.isAtomic(data) || Array.isArray(data))
+      throw new expression.ExpressionError(
+        "Only an object of keys can be written as a .reg file"
+      );
+    let s = `\uFEFF${VERSION}${eol}${eol}`;
+    for (const key in data) {
+      const values = data[key];
+      if (values === null) s += `[-${key}]${eol}${eol}`;
+      else if (!utility.isValid(values)) continue;
+      else if (json.isAtomic(values) || Array.isArray(values))
+        throw new expression.ExpressionError(
+          `The key '${key}' is not an object of values`
+        );
+      else {
+        s += `[${key}]${eol}`;
+        for (const k in values as json.Pair)
+          if (values[k] !== undefined)
+            s += `${name(k)}=${text(values[k], eol, name(k).length + 1)}${eol}`;
+        s += eol;
+      }
+    }
+    return s;
+  }
+  /**
+   * @summary Maps a `.reg` file to json.
+   * @description
+   * An {@linkcode ini.JSFormat} that gives an object whose properties are the full paths of the keys, as {@linkcode stringify} takes
+   * it. The names of the values are read without their quotes and escapes and the values are typed by {@linkcode value}. The version
+   * line is left out. It is given an {@linkcode ini.Document} or the expression of the {@linkcode ini.Parser} that were parsed with
+   * {@linkcode REGEDIT}.
+   */
+  export class JSFormat extends ini.JSFormat {
+    constructor() {
+      super(true);
+    }
+    data(): json.Pair {
+      const parsed = super.data();
+      if (!utility.isValid(parsed)) return parsed;
+      const data: json.Pair = {};
+      for (const key in parsed) {
+        const values = parsed[key];
+        //the version line
+        if (json.isAtomic(values) || Array.isArray(values)) {
+          if (VERSIONS.indexOf(key.replace(/^\uFEFF/, "")) < 0)
+            throw new expression.FormatError(
+              `'${key}' is not a key or a version line`
+            );
+        } else if (key.startsWith("-")) data[key.substring(1)] = null;
+        else {
+          const o: json.Pair = {};
+          for (const k in values as json.Pair)
+            o[k === "@" ? "" : unquote(k) ?? k] = values[k];
+          data[key] = o;
+        }
+      }
+      return data;
+    }
+  }
+}
+export default reg;
@@ -4,6 +4,8 @@ import utility from "../utility.js";
 import expression from "./expression.js";
 import json from "./json.js";
 import parser from "./parser.js";
+import iconv from "iconv-lite";
+import { Decimal } from "decimal.js";
 /**
  * @summary Defines the constituents of the toml pipeline.
  * @description The toml pipeline constitutes tokenisers (lexers) for tokenising text and json data; a parser which translates the
@@ -11,27 +13,439 @@ import parser from "./parser.js";
  * of the aforementioned components so that the data contained within can be tranferred to other data languages seamlessly.
  */ 
 namespace toml {
+    /**
+     * @summary Builds a toml syntax
+     * @description A builder for a toml {@linkcode Syntax}. The defaults are for [TOML 1.0](https://toml.io/en/v1.0.0) documents
+     * that are written with `\n` as the line terminator.
+     */
     export class SyntaxBuilder implements utility.Builder<Syntax> {
-      build(): Syntax {
-        throw new Error("Method not implemented.");
+      /**The line terminator of the syntax */
+      private _eol = "\n";
+      /**`true` if `snan` is a float */
+      private _snan = false;
+      /**`true` if `qnan` is a float */
+      private _qnan = false;
+      /**The deepest nesting of an inline table or array written by the {@linkcode JSONLexer} */
+      private _depth = 2;
+      /**The widest line of an inline table or array written by the {@linkcode JSONLexer} */
+      private _width = 80;
+      /**metadata part of a syntax*/
+      private _md = {
+        fileExt: "toml",
+        isStandard: true,
+        standard: "https://toml.io/en/v1.0.0",
+        mediaType: "application/toml",
+      };
+      /**the infix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+       * the default is `[]`
+       * @defaultValue `[]`*/
+      private _infCmdlets: [parser.GType<string>, Command][] = [];
+      /**the prefix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+       * the default is `[]`
+       * @defaultValue `[]`*/
+      private _preCmdlets: [parser.GType<string>, Command][] = [];
+      /**the postfix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+       * the default is `[]`
+       * @defaultValue `[]`*/
+      private _posCmdlets: [parser.GType<string>, Command][] = [];
+      /**A function for getting the correct command based on the direction */
+      private _getCmd = (
+        d: parser.Direction,
+        type: parser.GType<string>
+      ): Command | undefined => {
+        switch (d) {
+          case parser.Direction.PREFIX:
+          default: {
+            const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.INFIX: {
+            const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.POSTFIX:
+            const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+        }
+      };
+      /**
+       * Constructs a `SyntaxBuilder`. This specifically compiles all the prefix commands needed by the syntax
+       */
+      constructor() {
+        this.addPrefixCommand(INIT, new Initialize());
+        this.addPrefixCommand(D_QUOTE, new ParseString());
+        this.addPrefixCommand(TRI_D_QUOTE, new ParseString());
+        this.addPrefixCommand(QUOTE, new ParseString());
+        this.addPrefixCommand(TRI_QUOTE, new ParseString());
+        this.addPrefixCommand(LEFT_BRACKET, new ParseArray());
+        this.addPrefixCommand(DUAL_LEFT_BRACKET, new ParseArray());
+        this.addPrefixCommand(LEFT_BRACE, new ParseInlineTable());
+        this.addPrefixCommand(TEXT, new ParseScalar());
+        this.addPrefixCommand(INT, new ParseScalar());
+        this.addPrefixCommand(PLUS, new ParseScalar());
+        this.addPrefixCommand(MINUS, new ParseScalar());
+        this.addPrefixCommand(PREFIX_16, new ParseScalar());
+      }
+      /**
+       * Sets the line terminator of the syntax. The lexer will read a line terminator that is not this as whitespace.
+       * @param {string} eol the line terminator. Only `\r`, `\n` and `\r\n` are supported.
+       * @defaultValue `'\n'`
+       * @default {'\n'}
+       * @returns {SyntaxBuilder} this same builder object for method chaining
+       * @throws {Error} if the argument is not a supported line terminator
+       * @see {@linkcode Syntax.eol}
+       */
+      public setEol(eol: string): SyntaxBuilder {
+        if (eol !== "\n" && eol !== "\r\n" && eol !== "\r")
+          throw new Error("Only '\\r', '\\n' and '\\r\\n' are supported as line terminators");
+        this._eol = eol;
+        return this;
+      }
+      /**
+       * Allows `snan`, `+snan` and `-snan` as floats. They are parsed as `NaN`.
+       * @param {boolean} b `true` to allow them, `false` otherwise
+       * @defaultValue `false`
+       * @default {false}
+       * @returns {SyntaxBuilder} this same builder object for method chaining
+       * @see {@linkcode Syntax.snan}
+       */
+      public supportSnan(b: boolean): SyntaxBuilder {
+        this._snan = !!b;
+        return this;
+      }
+      /**
+       * Allows `qnan`, `+qnan` and `-qnan` as floats. They are parsed as `NaN`.
+       * @param {boolean} b `true` to allow them, `false` otherwise
+       * @defaultValue `false`
+       * @default {false}
+       * @returns {SyntaxBuilder} this same builder object for method chaining
+       * @see {@linkcode Syntax.qnan}
+       */
+      public supportQnan(b: boolean): SyntaxBuilder {
+        this._qnan = !!b;
+        return this;
+      }
+      /**
+       * Sets how deeply an object or array may be nested for the {@linkcode JSONLexer} to write it inline, where an array of atoms
+       * has a nesting of `1` and an object that has such an array has a nesting of `2`. This has no effect on parsing.
+       * @param {number} n a non-negative integer
+       * @defaultValue `2`
+       * @default {2}
+       * @returns {SyntaxBuilder} this same builder object for method chaining
+       * @throws {Error} if the argument is not a non-negative integer
+       * @see {@linkcode Syntax.inlineDepth}
+       */
+      public setInlineDepth(n: number): SyntaxBuilder {
+        if (!Number.isInteger(n) || n < 0) throw new Error("The inline depth must be a non-negative integer");
+        this._depth = n;
+        return this;
+      }
+      /**
+       * Sets the widest line, in characters, of a key/value pair whose value is written inline by the {@linkcode JSONLexer}.
+       * This has no effect on parsing.
+       * @param {number} n a positive integer
+       * @defaultValue `80`
+       * @default {80}
+       * @returns {SyntaxBuilder} this same builder object for method chaining
+       * @throws {Error} if the argument is not a positive integer
+       * @see {@linkcode Syntax.inlineWidth}
+       */
+      public setInlineWidth(n: number): SyntaxBuilder {
+        if (!Number.isInteger(n) || n < 1) throw new Error("The inline width must be a positive integer");
+        this._width = n;
+        return this;
+      }
+      /**
+       * Attempts to push the second and third argument into the given array. If the non-array arguments already exist in the array, then an overwrite operation is performed.
+       * @param {[parser.GType<string>, Command][]} map an array for type/command tuples
+       * @param { parser.GType<string>} t the type to be added to the array
+       * @param {Command} cmd the command to be added with the type
+       * @returns {void} does not return anything
+       */
+      private _pushOrOverite(
+        map: [parser.GType<string>, Command][],
+        t: parser.GType<string>,
+        cmd: Command
+      ): void {
+        for (let i = 0; i < map.length; i++)
+          if (map[i][0].equals(t)) {
+            map[i] = [t, cmd];
+            return;
+          }
+        map.push([t, cmd]);
+      }
+      /**
+       * @summary registers an infix {@link Command}
+       * @description
+       * Registers a {@link parser.GType<string>} (which is compatible with infix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+       * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+       * @remark
+       * There are no default infix commands.
+       * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible infix type.
+       * @param {Command} cmd the command which can parse infix tokens into {@link Expression expression(s)}
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       * @see parser.Syntax.getCommand
+       */
+      public addInfixCommand(
+        type: parser.GType<string>,
+        cmd: Command
+      ): SyntaxBuilder {
+        this._pushOrOverite(this._infCmdlets, type, cmd);
+        return this;
+      }
+      /**
+       * Removes the infix command registered with the given type
+       * @param {parser.GType<string>} type the type of command to be removed
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       * @see addInfixCommand
+       */
+      public removeInfixCommand(type: parser.GType<string>): SyntaxBuilder {
+        this._infCmdlets = this._infCmdlets.filter((v) => !v[0].equals(type));
+        return this;
+      }
+      /**
+       * @summary registers a prefix {@link Command}
+       * @description
+       * Registers a {@link parser.GType<string>} (which is compatible with prefix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+       * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+       * A value may only start with a token whose type has a prefix command.
+       * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible prefix type.
+       * @param {Command} cmd the command which can parse prefix tokens into {@link Expression expression(s)}
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       * @see parser.Syntax.getCommand
+       */
+      public addPrefixCommand(
+        type: parser.GType<string>,
+        cmd: Command
+      ): SyntaxBuilder {
+        this._pushOrOverite(this._preCmdlets, type, cmd);
+        return this;
+      }
+      /**
+       * Removes the prefix command registered with the given type
+       * @param {parser.GType<string>} type the type of command to be removed
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       * @see addPrefixCommand
+       */
+      public removePrefixCommand(type: parser.GType<string>): SyntaxBuilder {
+        this._preCmdlets = this._preCmdlets.filter((v) => !v[0].equals(type));
+        return this;
+      }
+      /**
+       * @summary registers a postfix {@link Command}
+       * @description
+       * Registers a {@link parser.GType<string>} (which is compatible with postfix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+       * @remark
+       * Calling this method has no effect on the built `Syntax` as {@link Parser} does not support {@link parser.Direction.POSTFIX}.
+       * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible postfix type.
+       * @param {Command} cmd the command which can parse postfix tokens into {@link Expression expression(s)}
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       * @see Syntax.getCommand
+       */
+      public addPostfixCommand(
+        type: parser.GType<string>,
+        cmd: Command
+      ): SyntaxBuilder {
+        this._pushOrOverite(this._posCmdlets, type, cmd);
+        return this;
+      }
+      /**
+       * Removes the postfix command registered with the given type. In practice, this method does nothing
+       * @param {parser.GType<string>} type the type of command to be removed
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       * @see addPostfixCommand
+       */
+      public removePostfixCommand(type: parser.GType<string>): SyntaxBuilder {
+        this._posCmdlets = this._posCmdlets.filter((v) => !v[0].equals(type));
+        return this;
+      }
+      /**
+       * Sets the extension string associated with the syntax as specified by {@link `Syntax.metadata.fileExt`}
+       * @remark
+       * The default is `'toml'`.
+       * @param {string} ext the file extension as a string. This should not have any trailing dot(s). An undefined or null value has no effect
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       */
+      public setFileExt(ext: string): SyntaxBuilder {
+        this._md.fileExt = ext ?? this._md.fileExt;
+        return this;
+      }
+      /**
+       * Sets the {@link Syntax.metadata.isStandard isStandard property} in the syntax to be built.
+       * @remark
+       * The default is `true`.
+       * @param {boolean} b `true` if the syntax is a web standard `false` if otherwise. A truthy value will be converted to a boolean.
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       */
+      public setIsStandard(b: boolean): SyntaxBuilder {
+        this._md.isStandard = !!b;
+        return this;
+      }
+      /**
+       * Sets the {@link Syntax.metadata.mediaType media type} associated with the data for which the syntax is being built.
+       * @remark
+       * The default is `'application/toml'`
+       * @param {string} mediaType the MIME type for the syntax
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       */
+      public setMediaType(mediaType: string): SyntaxBuilder {
+        this._md.mediaType = mediaType ?? this._md.mediaType;
+        return this;
+      }
+      /**
+       * Sets the {@link Syntax.metadata.standard standard} associated with the data for which the syntax is being built.
+       * @remark
+       * The default is `'https://toml.io/en/v1.0.0'`
+       * @param {string} standard a string representing the standard specification for the data that this syntax will be created for.
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       */
+      public setStandard(standard: string): SyntaxBuilder {
+        this._md.standard = standard ?? this._md.standard;
+        return this;
+      }
+      /**
+       * Clears this builder of all the values set into it by either reseting to the default or completely wiping all values. If the latter is chosen then Every value has to manually set again or this might not build.
+       * @param toDefault `true` for a reset `false` for a complete wipe. This is an optional value that defaults to `true`.
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       */
+      public clear(toDefault = true): SyntaxBuilder {
+        this._getCmd = (
+          d: parser.Direction,
+          type: parser.GType<string>
+        ): Command | undefined => {
+          switch (d) {
+            case parser.Direction.PREFIX:
+            default: {
+              const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+              return x ? x[1] : undefined;
+            }
+            case parser.Direction.INFIX: {
+              const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+              return x ? x[1] : undefined;
+            }
+            case parser.Direction.POSTFIX:
+              const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+              return x ? x[1] : undefined;
+          }
+        };
+        this._eol = "\n";
+        this._snan = false;
+        this._qnan = false;
+        this._depth = 2;
+        this._width = 80;
+        if (toDefault)
+          this._md = {
+            fileExt: "toml",
+            isStandard: true,
+            standard: "https://toml.io/en/v1.0.0",
+            mediaType: "application/toml",
+          };
+        else
+          this._md = {
+            fileExt: "",
+            isStandard: false,
+            standard: "",
+            mediaType: "",
+          };
+        return this;
       }
-      rebuild(from: Syntax): utility.Builder<Syntax> {
-        throw new Error("Method not implemented.");
+      /**
+       * @inheritdoc
+       * @returns {Syntax}
+       */
+      public build(): Syntax {
+        return Object.freeze({
+          metadata: { ...this._md, encoding: "utf-8" },
+          eol: this._eol,
+          snan: this._snan,
+          qnan: this._qnan,
+          inlineDepth: this._depth,
+          inlineWidth: this._width,
+          getCommand: this._getCmd,
+        }) as Syntax;
       }
-      clear(): utility.Builder<Syntax> {
-        throw new Error("Method not implemented.");
+      /**
+       * @summary assigns all values from the syntax argument to the properties of this builder.
+       * @remark
+       * Note that the `encoding` property will not be copied and the argument `from` cannot be `null` or `undefined` or this will throw
+       * @param {Syntax} from the syntax from which this builder will be built
+       * @returns {SyntaxBuilder} the same builder object for method chaining
+       * @throws {Error} if the argument is not a valid object
+       */
+      public rebuild(from: Syntax): SyntaxBuilder {
+        if (!utility.isValid(from)) throw new Error("undefined not allowed here");
+        this._md.fileExt = (from.metadata ?? { fileExt: "" }).fileExt;
+        this._md.isStandard = (from.metadata ?? { isStandard: false }).isStandard;
+        this._md.mediaType = (from.metadata ?? { mediaType: "" }).mediaType;
+        this._md.standard = (from.metadata ?? { standard: "" }).standard;
+        this._eol = from.eol ?? "\n";
+        this._snan = !!from.snan;
+        this._qnan = !!from.qnan;
+        this._depth = from.inlineDepth ?? 2;
+        this._width = from.inlineWidth ?? 80;
+        this._getCmd = from.getCommand;
+        return this;
       }
     }
+    /**
+     * @summary Defines how toml data is parsed.
+     * @description
+     * A specialized toml extension of the {@linkcode parser.Syntax} interface that defines the toml syntax that this pipeline uses.
+     * It is recommended that users instantiate it through the use of the {@linkcode SyntaxBuilder} class.
+     */
     export interface Syntax extends parser.GSyntax<Type, Command>{
       /**
+       * The line terminator. A line terminator that is not this is read as whitespace, hence a `\r\n` document can be parsed
+       * with `\n`, but not the other way round. This is also the line terminator written by {@linkcode StringFormat} and {@linkcode FileFormat}.
        * Only `\r`, `\n` and `\r\n` are supported. 
+       * @type {string}
+       * @readonly
        */
       readonly eol: string;
-      readonly global: boolean;
+      /**
+       * Allows `snan` (optionally signed) as a float, which is parsed as `NaN`. This is not part of TOML 1.0.
+       * @type {boolean}
+       * @readonly
+       */
       readonly snan: boolean;
+      /**
+       * Allows `qnan` (optionally signed) as a float, which is parsed as `NaN`. This is not part of TOML 1.0.
+       * @type {boolean}
+       * @readonly
+       */
       readonly qnan: boolean;
+      /**
+       * The deepest nesting of an object or array that the {@linkcode JSONLexer} writes inline. An object or array that is nested
+       * deeper is written as a table or as an array with an item on each line. This has no effect on parsing.
+       * @type {number}
+       * @readonly
+       */
+      readonly inlineDepth: number;
+      /**
+       * The widest line, in characters, of a key/value pair whose value is an object or array that the {@linkcode JSONLexer} writes
+       * inline. This has no effect on parsing.
+       * @type {number}
+       * @readonly
+       */
+      readonly inlineWidth: number;
+    }
+    /**
+     * @summary An object that holds variables for the parsing process.
+     * @description A mutable visitor object used by the {@linkcode Parser} as a container for variables, 'a notice board' for the {@link Format formatter}.
+     */
+    export class Params {
+      /**
+       * The keys of the table that the key/value pairs being parsed are added to. This is empty for the root table.
+       * @type {string[]}
+       */
+      public path: string[] = [];
+      /**
+       * The first token of the header or key/value pair that defined each table and value of the document being parsed, which is the
+       * {@linkcode parser.SyntaxError.origin origin} of an error for a conflicting definition.
+       * @type {Map<Expression, parser.GToken<string>>}
+       */
+      public readonly origins = new Map<Expression, parser.GToken<string>>();
     }
-    export class Params {}
     /**
      * A concrete implementation of the {@link parser.GType `GType`}
      */
@@ -291,41 +705,272 @@ namespace toml {
       end(syntax: Syntax, p: Params | any): void;
       process(chunk: CH, syntax: Syntax, p: Params | any): void;
     }
+    /**
+     * @summary Creates toml tokens from json data.
+     * @description
+     * A lexer that tokenises a json object as a toml document that a person might have written:
+     * - The atoms and the inline values of a table are written before the tables in it.
+     * - An object in the root object is written as a table with a `[header]`. A table that only has tables in it does not get
+     * a header.
+     * - An array whose items are all objects is written as an array of tables, where every item has a `[[header]]`.
+     * - Any other object is an inline table and any other array is an inline array if it is not nested deeper than
+     * {@linkcode Syntax.inlineDepth} and its line is not wider than {@linkcode Syntax.inlineWidth}, else the object is written as a
+     * table and the array has one item on each line.
+     * - Keys that are not valid bare keys are quoted.
+     * - `undefined` values of an object are not written. A `null` value is an error because toml does not have it.
+     * - A `number` that is a safe integer other than `-0` is an integer and any other `number` is a float, so `-0` keeps its sign. A
+     * `bigint` is an integer and a `Decimal` is an integer if it is one, else a float.
+     * - A {@linkcode TaggedDateTime} is written as the date-time literal of its type and a `Date` is an offset date-time in UTC, with
+     * the milliseconds only if they are not `0`.
+     */
     export class JSONLexer implements MutableLexer<json.Value> {
-      private queue = [] as Token[];
-      end(syntax: Syntax, p: any): void {
-        throw new Error("Method not implemented.");
-      }
+      private queue: Token[] = [new Token("", INIT, -1, -1, -1)];
+      /**The line of the next token */
+      #ln = 1;
+      /**The position of the next token within its line */
+      #li = 1;
+      #canProcess = true;
+      /**
+       * Does nothing as {@linkcode process} tokenises all of the data.
+       * @inheritdoc
+       */
+      end(syntax: Syntax, p: any): void {}
+      /**
+       * Tokenises a json object as a toml document. Calling this method when {@link JSONLexer.canProcess `canProcess`} returns `false`
+       * puts this `JSONLexer` object in an undefined state.
+       * @param {json.Value} chunk a json object
+       * @throws {expression.ExpressionError} if the argument is not an object or has a `null` value
+       * @inheritdoc
+       */
       process(chunk: json.Value, syntax: Syntax, p: any): void {
-        throw new Error("Method not implemented.");
+        if (!isTable(chunk)) throw new expression.ExpressionError("Only an object can be written as a toml document");
+        this.src = chunk;
+        for (const [v, t] of document(chunk as json.Pair, [], syntax)) this.#manufacture(v, t);
+        this.#canProcess = false;
+      }
+      #manufacture(value: string, type: parser.GType<string>) {
+        this.queue.push(new Token(value, type, this.#ln, this.#ln, this.#li));
+        if (type.equals(EOL)) {
+          this.#ln++;
+          this.#li = 1;
+        } else this.#li += value.length;
       }
-      processed: () => Token[] = () => this.queue;
-      unprocessed: () => any = () => this.src;
+      /**
+       * The json data that was given to {@linkcode process}
+       */
+      src?: json.Value;
+      processed = () => this.queue;
+      unprocessed = () => this.src;
       frequency(type: parser.Type): number {
-        throw new Error("Method not implemented.");
+        let frqy = 0;
+        for (let i = 0; i < this.queue.length; i++) {
+          if (this.queue[i].type.equals(type)) frqy++;
+        }
+        return frqy;
       }
       indexOf(type: parser.Type): number {
-        throw new Error("Method not implemented.");
+        for (let i = 0; i < this.queue.length; i++) {
+          if (this.queue[i].type.equals(type)) return i;
+        }
+        return -1;
       }
       lastIndexOf(type: parser.Type): number {
-        throw new Error("Method not implemented.");
+        for (let i = this.queue.length - 1; i >= 0; i--) {
+          if (this.queue[i].type.equals(type)) return i;
+        }
+        return -1;
       }
       hasTokens(): boolean {
-        throw new Error("Method not implemented.");
+        return this.queue.length > 0;
       }
       canProcess(): boolean {
-        throw new Error("Method not implemented.");
+        return this.#canProcess;
       }
-      next<P>(syntax?: Syntax | undefined, params?: P | undefined): Token {
-        throw new Error("Method not implemented.");
+      next(): Token {
+        while (true) {
+          if (!this.hasTokens()) break;
+          return this.queue.shift()!;
+        }
+        return new Token("", EOF, this.line(), this.line(), this.position());
       }
-      src?: any;
       position(): number {
-        throw new Error("Method not implemented.");
+        return this.#li;
       }
       line(): number {
-        throw new Error("Method not implemented.");
+        return this.#ln;
+      }
+    }
+    /**The value and type of a token created by {@linkcode JSONLexer} */
+    type Piece = [string, parser.GType<string>];
+    /**The characters that have a short escape in a basic string and the character after the `\` of each one */
+    const SHORT_ESCAPES: { [c: string]: string } = { "\b": "b", "\t": "t", "\n": "n", "\f": "f", "\r": "r", '"': '"', "\\": "\\" };
+    /**
+     * Checks if a json value is written as a table
+     * @param {json.Value | undefined} v the value
+     * @returns {boolean} `true` if the value is an object that is not an array, a `Decimal` or a date-time
+     */
+    function isTable(v?: json.Value): boolean {
+      return utility.isValid(v) && !json.isAtomic(v!) && !Array.isArray(v) && !isDateTime(v!);
+    }
+    /**
+     * Checks if a json value is a date-time that {@linkcode JSFormat} created
+     * @param {json.Value} v the value
+     * @returns {boolean} `true` for a `Date` or an object that only has a known `$type` and a string `value`
+     */
+    function isDateTime(v: json.Value): boolean {
+      if ((v as unknown) instanceof Date) return true;
+      else if (json.isAtomic(v) || Array.isArray(v)) return false;
+      const keys = Object.keys(v);
+      return keys.length === 2 && DATE_TIME_TYPES.indexOf((v as json.Pair).$type as DateTimeType) >= 0 && typeof (v as json.Pair).value === "string";
+    }
+    /**
+     * Gets the number of containers that a json value is nested in.
+     * @param {json.Value} v the value
+     * @returns {number} `0` for an atom, else 1 more than the depth of its deepest item
+     */
+    function depth(v: json.Value): number {
+      if (Array.isArray(v)) return 1 + Math.max(0, ...v.map(depth));
+      else if (isTable(v)) return 1 + Math.max(0, ...Object.values(v as json.Pair).filter((x) => x !== undefined).map(depth));
+      return 0;
+    }
+    /**
+     * Checks if a key/value pair whose value is an object or an array can be written on one line.
+     * @param {string} k the key
+     * @param {json.Value} v the value
+     * @param {Syntax} s the syntax, which has the limits
+     * @returns {boolean} `true` if the value is not nested deeper than {@linkcode Syntax.inlineDepth} and the line is not wider than
+     * {@linkcode Syntax.inlineWidth}
+     */
+    function fits(k: string, v: json.Value, s: Syntax): boolean {
+      if (depth(v) > s.inlineDepth) return false;
+      const width = (p: Piece[]) => p.reduce((w, x) => w + x[0].length, 0);
+      return width(keyPieces(k)) + 3 + width(pieces(v)) <= s.inlineWidth;
+    }
+    /**
+     * Creates the tokens of a key
+     * @param {string} k the key
+     * @returns {Piece[]} a bare key or a basic string
+     */
+    function keyPieces(k: string): Piece[] {
+      return BARE_KEY.test(k) ? [[k, TEXT]] : pieces(k);
+    }
+    /**
+     * Creates the tokens of the key/value pairs and tables of a table.
+     * @param {json.Pair} o the table
+     * @param {string[]} path the keys of the table
+     * @param {Syntax} s the syntax
+     * @param {boolean} [aot] `true` if the table is an item of an array of tables, `false` if it is any other table and `undefined`
+     * if it is the root table.
+     * @param {Piece[]} [out] the tokens created so far, to which the tokens of the table are added
+     * @returns {Piece[]} the tokens
+     */
+    function document(o: json.Pair, path: string[], s: Syntax, aot?: boolean, out: Piece[] = []): Piece[] {
+      const pairs: string[] = [];
+      const tables: string[] = [];
+      for (const k of Object.keys(o))
+        if (o[k] !== undefined) (isHeaded(k, o[k], path.length + 1, s) ? tables : pairs).push(k);
+      if (aot === true || (aot === false && (pairs.length > 0 || tables.length === 0))) {
+        //a blank line before every header, except at the start
+        if (out.length > 0) out.push([s.eol, EOL]);
+        out.push(aot ? ["[[", DUAL_LEFT_BRACKET] : ["[", LEFT_BRACKET]);
+        path.forEach((k, i) => {
+          if (i > 0) out.push([".", DOT]);
+          out.push(...keyPieces(k));
+        });
+        out.push(aot ? ["]]", DUAL_RIGHT_BRACKET] : ["]", RIGHT_BRACKET], [s.eol, EOL]);
+      }
+      for (const k of pairs) {
+        const v = o[k];
+        out.push(...keyPieces(k), [" ", WHITESPACE], ["=", EQUALS], [" ", WHITESPACE]);
+        if (Array.isArray(v) && !fits(k, v, s)) {
+          out.push(["[", LEFT_BRACKET], [s.eol, EOL]);
+          for (const x of v) out.push(["    ", WHITESPACE], ...pieces(x), [",", COMMA], [s.eol, EOL]);
+          out.push(["]", RIGHT_BRACKET]);
+        } else out.push(...pieces(v));
+        out.push([s.eol, EOL]);
       }
+      for (const k of tables) {
+        const v = o[k];
+        if (Array.isArray(v)) for (const x of v) document(x as json.Pair, [...path, k], s, true, out);
+        else document(v as json.Pair, [...path, k], s, false, out);
+      }
+      return out;
+    }
+    /**
+     * Checks if a value is written with its own header.
+     * @param {string} k the key of the value
+     * @param {json.Value} v the value
+     * @param {number} level the number of keys in the path of the value
+     * @param {Syntax} s the syntax
+     * @returns {boolean} `true` for a table that is not inline or an array of tables
+     */
+    function isHeaded(k: string, v: json.Value, level: number, s: Syntax): boolean {
+      if (Array.isArray(v)) return v.length > 0 && v.every(isTable);
+      return isTable(v) && (level < 2 || !fits(k, v, s));
+    }
+    /**
+     * Creates the tokens of a value that is written on one line
+     * @param {json.Value} v the value
+     * @returns {Piece[]} the tokens
+     * @throws {expression.ExpressionError} if the value is or has a `null`, or is a date-time that toml cannot have
+     */
+    function pieces(v: json.Value): Piece[] {
+      if (!utility.isValid(v)) throw new expression.ExpressionError("toml does not have a null value");
+      else if ((v as unknown) instanceof Date) {
+        const d = v as unknown as Date;
+        if (isNaN(d.getTime()) || d.getUTCFullYear() < 0 || d.getUTCFullYear() > 9999)
+          throw new expression.ExpressionError("A date-time must be in the years 0 to 9999");
+        return [[d.toISOString().replace(".000Z", "Z"), TEXT]];
+      } else if (isDateTime(v)) {
+        const { $type, value } = v as TaggedDateTime;
+        const m = DATE_TIME.exec(value);
+        const type = m ? (!utility.isValid(m[4]) ? "local-date" : utility.isValid(m[8]) ? "offset-date-time" : "local-date-time") : LOCAL_TIME.test(value) ? "local-time" : undefined;
+        if (type !== $type) throw new expression.ExpressionError(`'${value}' is not a ${$type}`);
+        return [[value, TEXT]];
+      }
+      else if (typeof v === "boolean") return [[String(v), TEXT]];
+      else if (typeof v === "bigint") return [[v.toString(), INT]];
+      else if (typeof v === "number") return [Number.isSafeInteger(v) && !Object.is(v, -0) ? [String(v), INT] : [float(v), TEXT]];
+      else if (typeof v === "string") {
+        const r: Piece[] = [['"', D_QUOTE]];
+        let run = "";
+        for (const c of v) {
+          const e = SHORT_ESCAPES[c] ?? (/[\u0000-\u001f\u007f]/.test(c) ? `u${c.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}` : undefined);
+          if (!utility.isValid(e)) run += c;
+          else {
+            if (run.length > 0) r.push([run, TEXT]);
+            run = "";
+            r.push(["\\", B_SLASH], [e!, ESCAPED]);
+          }
+        }
+        if (run.length > 0) r.push([run, TEXT]);
+        r.push(['"', D_QUOTE_END]);
+        return r;
+      } else if (json.isAtomic(v)) {
+        //a Decimal
+        const d = v as Decimal;
+        const big = d.isInteger() ? BigInt(d.toFixed()) : undefined;
+        if (utility.isValid(big) && big! >= MIN_INT && big! <= MAX_INT) return [[big!.toString(), INT]];
+        return [[/[.e]/.test(d.toString()) ? d.toString() : `${d.toString()}.0`, TEXT]];
+      } else if (Array.isArray(v)) {
+        const r: Piece[] = [["[", LEFT_BRACKET]];
+        v.forEach((x, i) => {
+          if (i > 0) r.push([",", COMMA], [" ", WHITESPACE]);
+          r.push(...pieces(x));
+        });
+        r.push(["]", RIGHT_BRACKET]);
+        return r;
+      }
+      const o = v as json.Pair;
+      const keys = Object.keys(o).filter((k) => o[k] !== undefined);
+      if (keys.length === 0) return [["{", LEFT_BRACE], ["}", RIGHT_BRACE]];
+      const r: Piece[] = [["{", LEFT_BRACE], [" ", WHITESPACE]];
+      keys.forEach((k, i) => {
+        if (i > 0) r.push([",", COMMA], [" ", WHITESPACE]);
+        r.push(...keyPieces(k), [" ", WHITESPACE], ["=", EQUALS], [" ", WHITESPACE], ...pieces(o[k]));
+      });
+      r.push([" ", WHITESPACE], ["}", RIGHT_BRACE]);
+      return r;
     }
     /**
      * @summary Builds tokens for a {@linkcode TokenFactory}.
@@ -500,6 +1145,11 @@ namespace toml {
        * @type {boolean}
        */
       private he: boolean;//hash encountered
+      /**
+       * A switch for when the first character of the data has been read, before which a byte order mark is skipped.
+       * @type {boolean}
+       */
+      private started = false;
       /**
        * The token processing mill. It is an object that accepts single character strings and produces/manufactures
        * {@linkplain parser.Token tokens}.
@@ -512,7 +1162,8 @@ namespace toml {
             // if(ic()){} else {}
             if(this.mill.ls !== null) this.mill[this.mill.ls].ca();
             this.manufacture(new Token('#', HASH, this.ln, this.ln, this.li - 1));
-            this.he = true;
+            //a '#' in a string does not start a comment
+            if(!this.isStr()) this.he = true;
           }).bind(this),
           ca: (() => {}).bind(this),
           ge: (() => this.mill['#'].ad()).bind(this)
@@ -522,7 +1173,8 @@ namespace toml {
           ad: (() => {
             if(this.mill.ls !== null) this.mill[this.mill.ls].ca();
             this.manufacture(new Token('\\', B_SLASH, this.ln, this.ln, this.li - 1));
-            if(!this.lStr()) this.esc++;
+            //only basic strings have escapes, a '\\' in a comment or literal string is just a character
+            if(this.bStr()) this.esc++;
             else this.esc = 0;
           }).bind(this),
           ca: (() => {}).bind(this),
@@ -1111,25 +1763,34 @@ namespace toml {
       end(syntax: Syntax, params: Params): void {
         if (this.canProcess()) this.process("", syntax, params);
         this.process(syntax.eol, syntax, params);
+        //the line terminator that pushed out the last token is not part of the data, so it has no text
+        const t = this.queue[this.queue.length - 1];
+        if (utility.isValid(t) && t.type.equals(EOL)) this.queue[this.queue.length - 1] = new Token("", EOL, t.lineStart, t.lineEnd, t.startPos);
       }
       /**
        * @summary Processes a string into tokens
        * @description
        * Appends the given `chunk` to `src` and then gradually polls (extracts the first character of) `src`, process it, and
-       * appends a fully processed token to the token queue.
+       * appends a fully processed token to the token queue. A `'\uFEFF'` byte order mark at the start of the data is skipped.
        * @param {Syntax} syntax a reference to a syntax object which is used to call {@linkcode StringLexer.process process()}.
        * @param {Params} p can be left `undefined` if possible or defined as `null`.
        * @returns {void} an imperative and mutative code, does not return anything.
        */
       process(chunk: string, syntax: Syntax, p: Params): void {
         this.src += chunk;
+        if (!this.started && this.src.length > 0) {
+          //a byte order mark at the start of the data is not part of the document
+          if (this.src[0] === "\uFEFF") this.src = this.src.substring(1);
+          this.started = true;
+        }
         while(this.src.length > 0){
           let token = this.shiftSrc(1);
 
           if(!this.escIsEven()) {//if there is an escape already waiting for it's correspondent
             if (this.escText.length === 0) {//There is no escaped text stored yet
               this.escText += token;//append
-              if (this.escText[0].toLowerCase() !== 'u' && this.escText[0] !== syntax.eol[0]) {//If the escaped text is not unicode
+              const eol = this.escText === syntax.eol;//a single character line terminator such as '\n'
+              if (this.escText[0].toLowerCase() !== 'u' && (this.escText[0] !== syntax.eol[0] || eol)) {//If the escaped text is not unicode
                 if (utility.isValid(this.mill.ls)) {//if we have values waiting in the mill to be processed into tokens
                   this.mill.ca();
                 }
@@ -1141,6 +1802,12 @@ namespace toml {
                 this.manufacture(new Token(this.escText, ESCAPED, this.ln, this.ln, this.li - this.escText.length));
                 this.escText = "";
                 this.esc = 0;
+                if (eol) {
+                  //an escaped line terminator ends a line
+                  this.ln++;
+                  this.li = 1;
+                  this.he = false;
+                }
               }
             } else if (/[A-Fa-f0-9]/.test(token)) {//a hexadecimal escape. Probably for a unicode escape
               this.escText += token;
@@ -1400,6 +2067,36 @@ namespace toml {
         super(val, c);
       }
     }
+    /**
+     * @summary Boolean implementation as per the toml spec.
+     * @description
+     * A wrapper for the `true` and `false` values.
+     */
+    class Bool implements Expression {
+      /**
+       * Constructs a `Bool`
+       * @param {boolean} val the value wrapped by this object
+       * @param {Snippet | undefined} c the code snippet that created this expression
+       */
+      constructor(public readonly val: boolean, public readonly c?: Snippet){}
+      format(format: Format<any>, syntax?: Syntax | undefined, params?: any): void {
+        format.append(this, syntax, params);
+      }
+      debug(): string {
+        let v = "";
+        if(utility.isValid(this.c) && this.c!.blk.length > 0) v += this.c!.blk.join("\n").concat("\n");
+        v += String(this.val);
+        if(utility.isValid(this.c) && utility.isValid(this.c!.iln)) v += ` # ${this.c!.iln!}`;
+        return v;
+      }
+      equals(obj?: object | undefined): boolean {
+        if(obj instanceof Bool) return this.val === obj.val && this.c === obj.c;
+        return false;
+      }
+      hashCode32(): number {
+        return utility.hashCode32(true, utility.asHashable(this.val));
+      }
+    }
     /**
      * A local date as defined by the toml spec.
      */
@@ -1532,39 +2229,8 @@ namespace toml {
       }
       debug(): string {
         let v = "";
-
         if(utility.isValid(this.c) && this.c!.blk.length > 0) v += this.c!.blk.join("\n").concat("\n");
-
-        if((this.val as LocalDate).yr) {
-          let date = [(this.val as LocalDate).yr.debug()];
-          if(utility.isValid((this.val as LocalDate).mo)){
-            date.push((this.val as LocalDate).mo!.debug());
-            date.push((this.val as LocalDate).dy!.debug());
-            v += date.join("-");
-          } else v += date[0];
-          if(v.indexOf("-") < 0) {
-            if(utility.isValid(this.c) && utility.isValid(this.c!.iln)) v += ` # ${this.c!.iln!}`;
-            return v;
-          }
-        }
-        if((this.val as LocalTime).hr) {
-          let time = [(this.val as LocalTime).hr.debug()];
-          if(utility.isValid((this.val as LocalTime).mi)){
-            time.push((this.val as LocalTime).mi!.debug());
-            time.push((this.val as LocalTime).se!.debug());
-          } else time.push("00", "00")
-          v += time.join(":");
-          v += (this.val as OffsetTime).type === null ? "Z" :
-                 (this.val as OffsetTime).type === true ? "+" :
-                     (this.val as OffsetTime).type === false ? "-" : "";
-          if((this.val as OffsetTime).ohr) {
-            let oft = [(this.val as OffsetTime).ohr!.debug()];
-            if(utility.isValid((this.val as OffsetTime).omi)){
-              oft.push((this.val as OffsetTime).omi!.debug());
-            } else oft.push("00")
-            v += oft.join(":");
-          }
-        }
+        v += iso(this.val);
         if(utility.isValid(this.c) && utility.isValid(this.c!.iln)) v += ` # ${this.c!.iln!}`;
         return v;
       }
@@ -1671,48 +2337,76 @@ namespace toml {
     //for inline tables, inline comments are after the table has been created
     // also note that the c.src property cannot have the whole body, just the head of thee table
     class Table extends Str<TablularData> {
-      constructor(inline?: TablularData, public readonly c?: Snippet){
+      /**
+       * How this table was defined. `"["` if it was defined by a table header (this includes the tables of an array of tables),
+       * `"."` if it was defined by dotted keys and `""` if it was only defined implicitly as the super-table of another table. This
+       * is always `""` for inline tables.
+       * @type {"" | "[" | "."}
+       */
+      public def: "" | "[" | "." = "";
+      /**
+       * The statements of the document, in the order that they were written, if this is the root table of a parsed document.
+       * @type {Line[] | undefined}
+       */
+      public lines?: Line[];
+      /**
+       * The start and end in the source of this inline table of each key that is not dotted and of its value, if this table was parsed.
+       * @type {Map<string, [Span, Span]> | undefined}
+       */
+      public at?: Map<string, [Span, Span]>;
+      constructor(inline?: TablularData, public c?: Snippet){
         super(inline??{}, utility.isValid(inline), c);
       }
-      /**@summary print block table */
-      private pbt(vl: string, pa?: string, e?: Expression){
-        for (const k in this.data) {
-          const v = this.data[k][1];
-          if(v instanceof Table && !v.inl){}
-          else if(v instanceof Seq && !v.inl){}
-          else {
-            vl += this.data[k][0].debug();//key
-            vl += " = ";
-            vl += this.data[k][1].debug();
-          }
-        }
+      /**
+       * Gets the key and value that are stored with the given key.
+       * @param {string} key the value of a key
+       * @returns {[Text, Expression] | undefined} the key and value or `undefined` if this table does not have the key
+       */
+      public get(key: string): [Text, Expression] | undefined {
+        return Object.prototype.hasOwnProperty.call(this.data, key) ? this.data[key] : undefined;
+      }
+      /**
+       * Stores a value in this table. A value that is already stored with the same key is replaced.
+       * @param {Text} key the key of the value
+       * @param {Expression} value the value to be stored
+       * @throws {expression.ExpressionError} if this is an inline table
+       */
+      public set(key: Text, value: Expression): void {
+        if(this.inl) throw new expression.ExpressionError("An inline table cannot be modified");
+        define(this.data, key, value);
+      }
+      /**
+       * Removes a value from this table.
+       * @param {string} key the value of the key of the value
+       * @throws {expression.ExpressionError} if this is an inline table
+       */
+      public remove(key: string): void {
+        if(this.inl) throw new expression.ExpressionError("An inline table cannot be modified");
+        delete this.data[key];
+      }
+      /**
+       * Stores a value with another key, in the same position as its current key.
+       * @param {string} key the value of the current key
+       * @param {Text} to the new key
+       * @throws {expression.ExpressionError} if this is an inline table
+       */
+      public rename(key: string, to: Text): void {
+        if(this.inl) throw new expression.ExpressionError("An inline table cannot be modified");
+        const e = this.entries();
+        for (const [k] of e) delete this.data[k.val];
+        for (const [k, v] of e) define(this.data, k.val === key ? to : k, v);
+      }
+      /**
+       * Gets the keys and values of this table in the order that they were stored.
+       * @returns {[Text, Expression][]} an array of key/value tuples
+       */
+      public entries(): [Text, Expression][] {
+        return Object.keys(this.data).map((k) => this.data[k]);
       }
       override debug(): string {
-        let r = "";
-        if(this.inl) {
-          r += "{ ";
-          for (const k in this.data) {
-            r += this.data[k][0].debug();
-            r += " = ";
-            r += this.data[k][1].debug();
-            r += ", ";
-          }
-          if(r.endsWith(", ")) r = r.substring(0, r.length - 1);
-          r += " }";
-          if(utility.isValid(this.c) && utility.isValid(this.c!.iln)) r += ` # ${this.c!.iln!}`;
-          return r;
-        } else {
-          r += "";
-          for (const k in this.data) {
-            const v = this.data[k];
-            if(v instanceof Table){
-            }
-          }
-          if(r.endsWith(",")) r = r.substring(0, r.length - 1);
-          r += "}";
-          if(utility.isValid(this.c) && utility.isValid(this.c!.iln)) r += ` # ${this.c!.iln!}`;
-        }
-        return r;
+        const r = this.entries().map(([k, v]) => `${k.debug()} = ${v.debug()}`);
+        if(this.inl) return `{ ${r.join(", ")} }`;
+        return r.join("\n");
       }
       override equals(obj?: object | undefined): boolean {
         if(obj instanceof Table) {
@@ -1728,11 +2422,42 @@ namespace toml {
      * they are created but inline arrays cannot be modified after they have been created.
      */
     class Seq extends Str<Expression[]> {
+      /**
+       * The start and end in the source of this inline array of each item, if this array was parsed.
+       * @type {Span[] | undefined}
+       */
+      public at?: Span[];
       constructor(inline?: Expression[], public readonly c?: Snippet){
         super(inline??[], utility.isValid(inline), c);
       }
-      override debug(): string {
-        throw new Error("Method not implemented.");
+      /**
+       * Gets the items in this array.
+       * @returns {readonly Expression[]} the items in the order they were added
+       */
+      public items(): readonly Expression[] {
+        return this.data;
+      }
+      /**
+       * Adds an item to the end of this array.
+       * @param {Expression} e the item to be added
+       * @throws {expression.ExpressionError} if this is an inline array
+       */
+      public push(e: Expression): void {
+        if(this.inl) throw new expression.ExpressionError("An inline array cannot be modified");
+        this.data.push(e);
+      }
+      /**
+       * Removes an item from this array.
+       * @param {number} i the index of the item
+       * @throws {expression.ExpressionError} if this is an inline array
+       */
+      public remove(i: number): void {
+        if(this.inl) throw new expression.ExpressionError("An inline array cannot be modified");
+        this.data.splice(i, 1);
+      }
+      override debug(): string {
+        if(this.inl) return `[${this.data.map((x) => x.debug()).join(", ")}]`;
+        return this.data.map((x) => x.debug()).join("\n\n");
       }
       override equals(obj?: object | undefined): boolean {
         if(obj instanceof Seq) {
@@ -1741,17 +2466,880 @@ namespace toml {
         return false;
       }
     }
-    /**Convenience class to allow for proper return values using `parse` */
-    export class Parser extends parser.PrattParser<Expression, Syntax> {}
+    /**The start and end of a part of some text */
+    type Span = [number, number];
+    /**
+     * A statement of a parsed document as it was written, which is a key/value pair, a table header or a blank line. The comments on the
+     * lines just before a key/value pair or header are part of its statement and the other comments are part of the blank line after
+     * them. A statement spans several lines if it has a multi-line value.
+     */
+    type Line = {
+      /**The text of the statement, from the start of its first line to the end of its line terminator, if it has one */
+      text: string;
+      /**The table that the statement is in. This is the table of the header for a header */
+      tbl: Table;
+      /**
+       * The value of each key of a key/value pair or header, in the order that they were written. For a key/value pair, the last value
+       * is the value of the pair and the others are tables defined with dotted keys. For an array of tables header, the value of the last
+       * key is the array. Blank lines do not have keys.
+       */
+      chain?: Expression[];
+      /**The start and end in {@linkcode text} of each key in {@linkcode chain} */
+      names?: Span[];
+      /**The start and end in {@linkcode text} of the value of a key/value pair */
+      val?: Span;
+    };
+    /**
+     * Stores a key and its value in the given data. A key such as `__proto__` is stored as an own property.
+     * @param {TablularData} data the data of a table
+     * @param {Text} key the key
+     * @param {Expression} value the value
+     */
+    function define(data: TablularData, key: Text, value: Expression) {
+      Object.defineProperty(data, key.val, {value: [key, value], writable: true, enumerable: true, configurable: true});
+    }
+    /**
+     * Writes a date-time as RFC 3339 text with a `T` between the date and the time. The seconds are always written and the fraction
+     * of a second is written to at most 9 places.
+     * @param {OffsetDateTime | LocalDateTime | LocalDate | LocalTime} v the date-time
+     * @returns {string} the text of the date-time
+     */
+    function iso(v: OffsetDateTime | LocalDateTime | LocalDate | LocalTime): string {
+      const pad = (i?: Int, n = 2) => (i ? i.val : 0).toString().padStart(n, "0");
+      let r = "";
+      const d = v as LocalDate;
+      if (utility.isValid(d.yr)) r += `${pad(d.yr, 4)}-${pad(d.mo)}-${pad(d.dy)}`;
+      const t = v as FullTime;
+      if (utility.isValid(t.hr)) {
+        if (r.length > 0) r += "T";
+        const se = t.se ? (t.se.val as number) : 0;
+        const whole = Math.floor(se);
+        const frac = (se - whole).toFixed(9).substring(1).replace(/\.?0+$/, "");
+        r += `${pad(t.hr)}:${pad(t.mi)}:${whole.toString().padStart(2, "0")}${frac}`;
+        if (t.type === null) r += "Z";
+        else if (utility.isValid(t.type)) r += `${t.type ? "+" : "-"}${pad(t.ohr)}:${pad(t.omi)}`;
+      }
+      return r;
+    }
+    /**
+     * Gets the type of a date-time
+     * @param {OffsetDateTime | LocalDateTime | LocalDate | LocalTime} v the date-time
+     * @returns {DateTimeType} the type
+     */
+    function dateTimeType(v: OffsetDateTime | LocalDateTime | LocalDate | LocalTime): DateTimeType {
+      if (!utility.isValid((v as LocalDate).yr)) return "local-time";
+      else if (!utility.isValid((v as LocalTime).hr)) return "local-date";
+      return (v as OffsetTime).type !== undefined ? "offset-date-time" : "local-date-time";
+    }
+    /**
+     * Gets the instant of an offset date-time. The fraction of a second is truncated to milliseconds, as toml requires of a
+     * precision that cannot be kept.
+     * @param {OffsetDateTime} v the date-time
+     * @param {string} [text] the date-time as it was written, whose digits are used instead of the seconds of `v`, which are a float
+     * @returns {Date} the instant
+     */
+    function instant(v: OffsetDateTime, text?: string): Date {
+      const m = utility.isValid(text) ? DATE_TIME.exec(text!) : null;
+      //the float is only read for a date-time that was not parsed from text
+      const [se, fr] = utility.isValid(m)
+        ? [m![6], m![7] ?? ""]
+        : (/^(\d+)(\.\d+)?/.exec(String(v.se ? v.se.val : 0)) ?? ["", "0", ""]).slice(1);
+      const d = new Date(0);
+      //not Date.UTC, which puts the years 0 to 99 in the 1900s
+      d.setUTCFullYear(Number(v.yr.val), Number(v.mo!.val) - 1, Number(v.dy!.val));
+      d.setUTCHours(Number(v.hr.val), Number(v.mi!.val), Number(se), Number((fr ?? "").substring(1, 4).padEnd(3, "0")));
+      const offset = v.type === null ? 0 : (v.type ? 1 : -1) * (Number(v.ohr!.val) * 60 + Number(v.omi!.val));
+      return new Date(d.getTime() - offset * 60000);
+    }
+    /**The types of the date-times of toml */
+    const DATE_TIME_TYPES: DateTimeType[] = ["offset-date-time", "local-date-time", "local-date", "local-time"];
+    /**The types of the tokens that a bare key is made of. The lexer splits a bare key such as `0x-key` into several tokens */
+    const KEY_FRAGMENTS = [TEXT, INT, MINUS, UNDERSCORE, PREFIX_16, PREFIX_8, PREFIX_2];
+    /**The types of the tokens that a boolean, number or date-time is made of */
+    const FRAGMENTS = [...KEY_FRAGMENTS, PLUS, DOT];
+    /**The largest integer that toml supports */
+    const MAX_INT = 2n ** 63n - 1n;
+    /**The smallest integer that toml supports */
+    const MIN_INT = -(2n ** 63n);
+    const BARE_KEY = /^[A-Za-z0-9_-]+$/;
+    const DEC_INT = /^[+-]?(?:0|[1-9](?:_?\d)*)$/;
+    const HEX_INT = /^0x[0-9A-Fa-f](?:_?[0-9A-Fa-f])*$/;
+    const OCT_INT = /^0o[0-7](?:_?[0-7])*$/;
+    const BIN_INT = /^0b[01](?:_?[01])*$/;
+    const FLOAT = /^[+-]?(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*(?:[eE][+-]?\d(?:_?\d)*)?|[eE][+-]?\d(?:_?\d)*)$/;
+    const SPECIAL_FLOAT = /^[+-]?(?:inf|nan)$/;
+    /**A full date, which may be followed by a time and an offset. The captured groups are the parts of the date-time in order */
+    const DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[Tt ](\d{2}):(\d{2}):(\d{2})(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?)?$/;
+    const LOCAL_TIME = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?$/;
+    /**
+     * Checks the type of a token
+     * @param {parser.GToken<string>} t the token
+     * @param {parser.GType<string>[]} types the types to check against
+     * @returns {boolean} `true` if the token has one of the types
+     */
+    function is(t: parser.GToken<string>, ...types: parser.GType<string>[]): boolean {
+      return types.some((x) => x.equals(t.type));
+    }
+    /**
+     * Throws a `parser.SyntaxError` at the given token.
+     * @param {parser.GToken<string>} t the token where the error was found
+     * @param {string} msg the description of the error
+     * @param {Params} [pa] the params of the parsing process. Its path is added to the message
+     * @param {parser.GToken<string>} [origin] the first token of an earlier definition that conflicts with the one being parsed
+     * @throws {parser.SyntaxError} always
+     */
+    function error(t: parser.GToken<string>, msg: string, pa?: Params, origin?: parser.GToken<string>): never {
+      const at = utility.isValid(pa) && pa!.path.length > 0 ? ` in [${pa!.path.join(".")}]` : "";
+      const was = utility.isValid(origin) ? `, which conflicts with the definition at line: ${origin!.lineStart}, position: ${origin!.startPos}` : "";
+      throw new parser.SyntaxError(t, new parser.ParseError(`${msg}${at} at line: ${t.lineStart}, position: ${t.startPos}${was}`), origin);
+    }
+    /**
+     * Throws a `parser.SyntaxError` for a token that was not expected.
+     * @param {parser.GToken<string>} t the token
+     * @param {string} expected a description of what was expected instead
+     * @param {Params} [pa] the params of the parsing process
+     * @throws {parser.SyntaxError} always
+     */
+    function unexpected(t: parser.GToken<string>, expected: string, pa?: Params): never {
+      const found = is(t, EOF) ? "the end of the data" : is(t, EOL) ? "a new line" : `'${t.value}'`;
+      error(t, `Expected ${expected} but found ${found}`, pa);
+    }
+    /**
+     * Skips whitespace on the current line
+     */
+    function ws(p: Parser, l: MutableLexer, s: Syntax, pa: Params) {
+      while (is(p.peek(l, s, pa), WHITESPACE)) p.pop(l, s, pa);
+    }
+    /**
+     * Skips the whitespace, new lines and comments between the items of an array
+     */
+    function gap(p: Parser, l: MutableLexer, s: Syntax, pa: Params) {
+      while (true) {
+        const t = p.peek(l, s, pa);
+        if (is(t, WHITESPACE, EOL)) p.pop(l, s, pa);
+        else if (is(t, HASH)) comment(p, l, s, pa);
+        else break;
+      }
+    }
+    /**
+     * Parses a comment, leaving the line terminator after it.
+     * @returns {string} the text after the `#`
+     */
+    function comment(p: Parser, l: MutableLexer, s: Syntax, pa: Params): string {
+      p.pop(l, s, pa);
+      let c = "";
+      while (!is(p.peek(l, s, pa), EOL, EOF)) c += p.pop(l, s, pa).value;
+      //a '\r' of a '\r\n' document parsed with '\n'
+      return c.endsWith("\r") ? c.substring(0, c.length - 1) : c;
+    }
+    /**
+     * Parses the end of a line that has a key/value pair or a table header.
+     * @returns {string | undefined} the inline comment or `undefined` if the line does not have one
+     */
+    function end(p: Parser, l: MutableLexer, s: Syntax, pa: Params): string | undefined {
+      ws(p, l, s, pa);
+      const c = is(p.peek(l, s, pa), HASH) ? comment(p, l, s, pa) : undefined;
+      const t = p.peek(l, s, pa);
+      if (is(t, EOL)) p.pop(l, s, pa);
+      else if (!is(t, EOF)) unexpected(t, "a new line", pa);
+      return c;
+    }
+    /**
+     * Parses a simple key i.e a bare key or a single-line quoted key.
+     */
+    function simpleKey(p: Parser, l: MutableLexer, s: Syntax, pa: Params): Text {
+      const t = p.peek(l, s, pa);
+      if (is(t, D_QUOTE, QUOTE)) return string(p.pop(l, s, pa), p, l, s, pa);
+      else if (is(t, TRI_D_QUOTE, TRI_QUOTE)) error(t, "A multi-line string cannot be a key", pa);
+      else if (!is(t, ...KEY_FRAGMENTS)) unexpected(t, "a key", pa);
+      const m = p.mark();
+      while (is(p.peek(l, s, pa), ...KEY_FRAGMENTS)) p.pop(l, s, pa);
+      const k = p.since(m);
+      if (!BARE_KEY.test(k)) error(t, `'${k}' is not a valid bare key`, pa);
+      return new Text(k, "", { src: k, blk: [] });
+    }
+    /**
+     * Parses a key, which may be dotted, and the whitespace after it.
+     * @param {Span[]} [names] an array to which the start and end of each simple key in the text given by {@linkcode Parser.since}
+     * are added
+     * @returns {Text[]} the simple keys that make up the key
+     */
+    function keys(p: Parser, l: MutableLexer, s: Syntax, pa: Params, names: Span[] = []): Text[] {
+      const k: Text[] = [];
+      while (true) {
+        const m = p.mark();
+        k.push(simpleKey(p, l, s, pa));
+        names.push([m, p.mark()]);
+        ws(p, l, s, pa);
+        if (!is(p.peek(l, s, pa), DOT)) break;
+        p.pop(l, s, pa);
+        ws(p, l, s, pa);
+      }
+      return k;
+    }
+    /**
+     * Parses a value with the prefix command of its first token.
+     */
+    function value(p: Parser, l: MutableLexer, s: Syntax, pa: Params): Expression {
+      const t = p.peek(l, s, pa);
+      if (is(t, INIT) || !utility.isValid(s.getCommand(parser.Direction.PREFIX, t.type as Type))) unexpected(t, "a value", pa);
+      return p.parse(l, s, pa);
+    }
+    /**
+     * Gets the character(s) of an escape in a basic string.
+     * @param {parser.GToken<string>} e the token after the `\`
+     * @param {boolean} ml `true` if the string is a multi-line string
+     * @returns {string} the escaped character(s)
+     */
+    function escape(e: parser.GToken<string>, ml: boolean, p: Parser, l: MutableLexer, s: Syntax, pa: Params): string {
+      if (!is(e, ESCAPED)) unexpected(e, "an escaped character", pa);
+      const c = e.value;
+      switch (c) {
+        case "b": return "\b";
+        case "t": return "\t";
+        case "n": return "\n";
+        case "f": return "\f";
+        case "r": return "\r";
+        case '"': return '"';
+        case "\\": return "\\";
+      }
+      if (c[0] === "u" || c[0] === "U") {
+        const n = c[0] === "u" ? 4 : 8;
+        const hex = c.substring(1, n + 1);
+        const cp = parseInt(hex, 16);
+        if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length < n || cp > 0x10ffff || (cp >= 0xd800 && cp <= 0xdfff))
+          error(e, `'\\${c.substring(0, n + 1)}' is not a valid unicode escape`, pa);
+        return String.fromCodePoint(cp) + c.substring(n + 1);
+      } else if (ml && /^[ \t\r\n]/.test(c)) {
+        //a line ending backslash trims the whitespace and new lines after it
+        if (c !== s.eol) {
+          ws(p, l, s, pa);
+          if (!is(p.peek(l, s, pa), EOL)) unexpected(p.peek(l, s, pa), "a new line after '\\'", pa);
+        }
+        while (is(p.peek(l, s, pa), WHITESPACE, EOL)) p.pop(l, s, pa);
+        return "";
+      }
+      error(e, `'\\${c}' is not a valid escape`, pa);
+    }
+    /**
+     * Parses a string.
+     * @param {parser.GToken<string>} t the opening quote(s), which has been consumed
+     */
+    function string(t: parser.GToken<string>, p: Parser, l: MutableLexer, s: Syntax, pa: Params): Text {
+      const m = p.mark() - t.value.length;
+      const close = is(t, D_QUOTE) ? D_QUOTE_END : is(t, QUOTE) ? QUOTE_END : is(t, TRI_D_QUOTE) ? TRI_D_QUOTE_END : TRI_QUOTE_END;
+      const ml = is(t, TRI_D_QUOTE, TRI_QUOTE);
+      const basic = is(t, D_QUOTE, TRI_D_QUOTE);
+      if (ml) {
+        //a new line immediately after the opening quotes is trimmed
+        if (p.peek(l, s, pa).value === "\r" && is(p.peek(l, s, pa, 1), EOL)) p.pop(l, s, pa);
+        if (is(p.peek(l, s, pa), EOL)) p.pop(l, s, pa);
+      }
+      let v = "";
+      while (true) {
+        const x = p.pop(l, s, pa);
+        if (is(x, close)) break;
+        else if (is(x, EOF)) error(t, "The string that starts here was not closed", pa);
+        else if (is(x, EOL) && !ml) error(x, "A new line is not allowed in a single-line string", pa);
+        else if (basic && is(x, B_SLASH)) v += escape(p.pop(l, s, pa), ml, p, l, s, pa);
+        else if (/[\u0000-\u0008\u000a-\u001f\u007f]/.test(x.value.replace(/\r?\n/g, "")) && !(ml && x.value === "\r" && is(p.peek(l, s, pa), EOL)))
+          error(x, "A control character must be escaped in a string", pa);
+        else v += x.value;
+      }
+      return new Text(v, t.value as '"' | '"""' | "'" | "'''", { src: p.since(m), blk: [] });
+    }
+    /**
+     * Gets the number of days in a month
+     * @param {number} yr the year
+     * @param {number} mo the month in the range [1, 12]
+     * @returns {number} the number of days
+     */
+    function days(yr: number, mo: number): number {
+      if (mo === 2) return yr % 4 === 0 && (yr % 100 !== 0 || yr % 400 === 0) ? 29 : 28;
+      return [4, 6, 9, 11].indexOf(mo) >= 0 ? 30 : 31;
+    }
+    /**
+     * Creates a time from the parts captured by {@linkcode DATE_TIME} or {@linkcode LOCAL_TIME}.
+     * @param {string[]} m the hour, minute, second, fraction of a second and offset in that order
+     * @param {parser.GToken<string>} t the first token of the date-time, for errors
+     * @param {Params} pa the params of the parsing process
+     * @returns {FullTime} the time. The offset type is `undefined` for a local time
+     */
+    function time(m: string[], t: parser.GToken<string>, pa: Params): FullTime {
+      const [hr, mi, se, fr, of] = m;
+      if (+hr > 23 || +mi > 59 || +se > 59) error(t, `'${hr}:${mi}:${se}' is not a valid time`, pa);
+      const r = { hr: new Int(BigInt(hr)), mi: new Int(BigInt(mi)), se: new B64(Number(se + (fr ?? ""))) };
+      if (!utility.isValid(of)) return { ...r, type: undefined };
+      else if (of.toUpperCase() === "Z") return { ...r, type: null };
+      else if (+of.substring(1, 3) > 23 || +of.substring(4) > 59) error(t, `'${of}' is not a valid offset`, pa);
+      return { ...r, type: of[0] === "+", ohr: new Int(BigInt(of.substring(1, 3))), omi: new Int(BigInt(of.substring(4))) };
+    }
+    /**
+     * Creates the value of a boolean, number or date-time.
+     * @param {string} text the text of the value as it was written
+     * @param {parser.GToken<string>} t the first token of the value, for errors
+     * @param {Syntax} s the syntax
+     * @param {Params} pa the params of the parsing process
+     * @returns {Expression} the value
+     */
+    function scalar(text: string, t: parser.GToken<string>, s: Syntax, pa: Params): Expression {
+      const c = { src: text, blk: [] };
+      if (text === "true" || text === "false") return new Bool(text === "true", c);
+      else if (DEC_INT.test(text) || HEX_INT.test(text) || OCT_INT.test(text) || BIN_INT.test(text)) {
+        const digits = text.replace(/_/g, "");
+        const v = digits.startsWith("-") ? -BigInt(digits.substring(1)) : BigInt(digits.replace(/^\+/, ""));
+        if (v < MIN_INT || v > MAX_INT) error(t, `${text} is not a 64 bit integer`, pa);
+        return new Int(v, c);
+      } else if (FLOAT.test(text)) return new B64(Number(text.replace(/_/g, "")), c);
+      else if (SPECIAL_FLOAT.test(text) || (s.snan && /^[+-]?snan$/.test(text)) || (s.qnan && /^[+-]?qnan$/.test(text)))
+        return new B64(text.endsWith("inf") ? (text.startsWith("-") ? -Infinity : Infinity) : NaN, c);
+      let m = DATE_TIME.exec(text);
+      if (m) {
+        const [yr, mo, dy] = [+m[1], +m[2], +m[3]];
+        if (mo < 1 || mo > 12 || dy < 1 || dy > days(yr, mo)) error(t, `'${text}' is not a valid date`, pa);
+        const d = { yr: new Int(BigInt(yr)), mo: new Int(BigInt(mo)), dy: new Int(BigInt(dy)) };
+        if (!utility.isValid(m[4])) return new R39(d, c);
+        const tm = time(m.slice(4), t, pa);
+        return new R39(utility.isValid(tm.type) || tm.type === null ? { ...d, ...tm } : { ...d, hr: tm.hr, mi: tm.mi, se: tm.se }, c);
+      }
+      m = LOCAL_TIME.exec(text);
+      if (m) {
+        const tm = time(m.slice(1), t, pa);
+        return new R39({ hr: tm.hr, mi: tm.mi, se: tm.se }, c);
+      }
+      error(t, `'${text}' is not a valid value`, pa);
+    }
+    /**
+     * Parses an array.
+     * @param {parser.GToken<string>} t the opening bracket(s), which has been consumed. A `[[` also opens the first item of the array.
+     * @returns {[Seq, parser.GToken<string> | undefined]} the array and the `]]` that closed it, if it was closed with one. A `]]` also
+     * closes the array that has this array.
+     */
+    function array(t: parser.GToken<string>, p: Parser, l: MutableLexer, s: Syntax, pa: Params): [Seq, parser.GToken<string> | undefined] {
+      const m = p.mark() - t.value.length;
+      const items: Expression[] = [];
+      const seq = (closer?: parser.GToken<string>): [Seq, parser.GToken<string> | undefined] => {
+        //the source of an array that was closed with the first character of a ']]' does not have the second one
+        const src = p.since(m);
+        const r = new Seq(items, { src: closer ? src.substring(0, src.length - 1) : src, blk: [] });
+        r.at = at;
+        return [r, closer];
+      };
+      const at: Span[] = [];
+      //consumes the ',' after an item if there is one
+      const comma = () => {
+        gap(p, l, s, pa);
+        const b = is(p.peek(l, s, pa), COMMA);
+        if (b) p.pop(l, s, pa);
+        return b;
+      };
+      let expectValue = true;
+      if (is(t, DUAL_LEFT_BRACKET)) {
+        const [first, closer] = array(new Token("[", LEFT_BRACKET, t.lineStart!, t.lineEnd!, t.startPos! + 1), p, l, s, pa);
+        items.push(first);
+        at.push([1, p.mark() - m - (closer ? 1 : 0)]);
+        if (closer) return seq();
+        expectValue = comma();
+      }
+      while (true) {
+        gap(p, l, s, pa);
+        const x = p.peek(l, s, pa);
+        if (is(x, RIGHT_BRACKET)) {
+          p.pop(l, s, pa);
+          return seq();
+        } else if (is(x, DUAL_RIGHT_BRACKET)) return seq(p.pop(l, s, pa));
+        else if (!expectValue) unexpected(x, "',' or ']'", pa);
+        const start = p.mark() - m;
+        if (is(x, LEFT_BRACKET, DUAL_LEFT_BRACKET)) {
+          const [item, closer] = array(p.pop(l, s, pa), p, l, s, pa);
+          items.push(item);
+          at.push([start, p.mark() - m - (closer ? 1 : 0)]);
+          if (closer) return seq();
+        } else {
+          items.push(value(p, l, s, pa));
+          at.push([start, p.mark() - m]);
+        }
+        expectValue = comma();
+      }
+    }
+    /**
+     * Creates an inline table from its key/value pairs, where dotted keys create inline tables within it.
+     * @param {[Text[], Expression, parser.GToken<string>][]} pairs the keys, value and first token of each pair in the order they were written
+     * @param {Params} pa the params of the parsing process
+     * @param {Snippet} [c] the code snippet that created the table
+     * @returns {Table} the inline table
+     */
+    function inline(pairs: [Text[], Expression, parser.GToken<string>][], pa: Params, c?: Snippet): Table {
+      const order: Text[] = [];
+      const values = new Map<string, Expression>();
+      const nested = new Map<string, [Text[], Expression, parser.GToken<string>][]>();
+      //the first pair of each key
+      const origins = new Map<string, parser.GToken<string>>();
+      for (const [k, v, t] of pairs) {
+        const first = k[0].val;
+        if (values.has(first) || (k.length === 1 && nested.has(first)))
+          error(t, `The key '${first}' has already been defined in the inline table`, pa, origins.get(first));
+        if (!nested.has(first)) {
+          order.push(k[0]);
+          origins.set(first, t);
+        }
+        if (k.length === 1) values.set(first, v);
+        else nested.set(first, [...(nested.get(first) ?? []), [k.slice(1), v, t]]);
+      }
+      const data: TablularData = {};
+      for (const k of order) define(data, k, values.has(k.val) ? values.get(k.val)! : inline(nested.get(k.val)!, pa));
+      return new Table(data, c);
+    }
+    /**
+     * Gets the table that a table header or dotted key is in, creating it if it does not exist.
+     * @param {Table} tbl the table that has the key
+     * @param {Text} k the key of the table
+     * @param {parser.GToken<string>} t the first token of the header or key, for errors
+     * @param {Params} pa the params of the parsing process
+     * @returns {Table} the table. This is the last table of an array of tables
+     */
+    function descend(tbl: Table, k: Text, t: parser.GToken<string>, pa: Params): Table {
+      const e = tbl.get(k.val);
+      if (!utility.isValid(e)) {
+        const n = new Table();
+        tbl.set(k, n);
+        pa.origins.set(n, t);
+        return n;
+      } else if (e![1] instanceof Table && !e![1].inl) return e![1];
+      else if (e![1] instanceof Seq && !e![1].inl) return e![1].items()[e![1].items().length - 1] as Table;
+      else if (e![1] instanceof Table) error(t, `The inline table '${k.val}' cannot be extended`, pa, pa.origins.get(e![1]));
+      error(t, `The key '${k.val}' already has a value that is not a table`, pa, pa.origins.get(e![1]));
+    }
+    /**
+     * Parses a table header or an array of tables header and the rest of its line.
+     * @param {Table} root the root table
+     * @param {string[]} blk the comments before the header
+     * @returns {Line} the statement of the header, whose table is the table that the key/value pairs after the header belong to
+     */
+    function header(root: Table, blk: string[], p: Parser, l: MutableLexer, s: Syntax, pa: Params): Line {
+      const t = p.pop(l, s, pa);
+      const m = p.mark() - t.value.length;
+      const aot = is(t, DUAL_LEFT_BRACKET);
+      ws(p, l, s, pa);
+      const names: Span[] = [];
+      const k = keys(p, l, s, pa, names);
+      const x = p.peek(l, s, pa);
+      if (!is(x, aot ? DUAL_RIGHT_BRACKET : RIGHT_BRACKET)) unexpected(x, aot ? "']]'" : "']'", pa);
+      p.pop(l, s, pa);
+      const c = { src: p.since(m), blk, iln: end(p, l, s, pa) };
+      pa.path = [];
+      let tbl = root;
+      const chain: Expression[] = [];
+      for (const key of k.slice(0, -1)) {
+        const n = descend(tbl, key, t, pa);
+        chain.push(tbl.get(key.val)![1]);
+        tbl = n;
+        pa.path.push(key.val);
+      }
+      const last = k[k.length - 1];
+      const e = tbl.get(last.val);
+      pa.path.push(last.val);
+      const n = new Table(undefined, c);
+      n.def = "[";
+      const line = (x: Table, v: Expression): Line => ({ text: p.since(0), tbl: x, chain: [...chain, v], names });
+      const origin = utility.isValid(e) ? pa.origins.get(e![1]) : undefined;
+      if (aot) {
+        if (!utility.isValid(e)) {
+          const seq = new Seq();
+          seq.push(n);
+          tbl.set(last, seq);
+          pa.origins.set(seq, t);
+          pa.origins.set(n, t);
+          return line(n, seq);
+        } else if (e![1] instanceof Seq && !e![1].inl) {
+          e![1].push(n);
+          pa.origins.set(n, t);
+          return line(n, e![1]);
+        } else if (e![1] instanceof Seq) error(t, `${c.src} cannot append a table to '${last.val}' as it is an inline array`, pa, origin);
+        error(t, `${c.src} cannot be defined as '${last.val}' already has a value that is not an array of tables`, pa, origin);
+      } else if (!utility.isValid(e)) {
+        tbl.set(last, n);
+        pa.origins.set(n, t);
+        return line(n, n);
+      } else if (e![1] instanceof Table && !e![1].inl && e![1].def === "") {
+        //a table that was created by the header of one of its sub-tables
+        e![1].def = "[";
+        e![1].c = c;
+        pa.origins.set(e![1], t);
+        return line(e![1], e![1]);
+      } else if (e![1] instanceof Table && !e![1].inl && e![1].def === ".")
+        error(t, `${c.src} cannot be defined as '${last.val}' was defined with dotted keys`, pa, origin);
+      else if (e![1] instanceof Seq && !e![1].inl) error(t, `${c.src} cannot be defined as '${last.val}' is an array of tables`, pa, origin);
+      error(t, `${c.src} has already been defined`, pa, origin);
+    }
+    /**
+     * Parses a key/value pair and the rest of its line and adds it to the given table.
+     * @param {Table} tbl the table of the current section
+     * @param {string[]} blk the comments before the key/value pair
+     * @returns {Line} the statement of the key/value pair
+     */
+    function keyval(tbl: Table, blk: string[], p: Parser, l: MutableLexer, s: Syntax, pa: Params): Line {
+      const t = p.peek(l, s, pa);
+      const names: Span[] = [];
+      const k = keys(p, l, s, pa, names);
+      const eq = p.peek(l, s, pa);
+      if (!is(eq, EQUALS)) unexpected(eq, "'='", pa);
+      p.pop(l, s, pa);
+      ws(p, l, s, pa);
+      const m = p.mark();
+      const v = value(p, l, s, pa);
+      const val: Span = [m, p.mark()];
+      const last = k.pop()!;
+      const iln = end(p, l, s, pa);
+      const section = tbl;
+      const chain: Expression[] = [];
+      for (const key of k) {
+        const e = tbl.get(key.val);
+        if (!utility.isValid(e)) {
+          const n = new Table();
+          n.def = ".";
+          tbl.set(key, n);
+          pa.origins.set(n, t);
+          tbl = n;
+        } else if (e![1] instanceof Table && !e![1].inl && e![1].def === ".") tbl = e![1];
+        else
+          error(t, `The key '${key.val}' cannot be extended with a dotted key as it is not a table that was defined with dotted keys`, pa, pa.origins.get(e![1]));
+        chain.push(tbl);
+      }
+      const e = tbl.get(last.val);
+      if (utility.isValid(e)) error(t, `The key '${last.val}' has already been defined`, pa, pa.origins.get(e![1]));
+      tbl.set(new Text(last.val, last.q, { src: last.c!.src, blk, iln }), v);
+      pa.origins.set(v, t);
+      return { text: p.since(0), tbl: section, chain: [...chain, v], names, val };
+    }
+    /**
+     * Parses a whole toml document. Because a document is a table, this command returns a {@linkcode Table} that is not inline. The
+     * table has the {@linkplain Table.lines statements} of the document so that it can be written as it was parsed.
+     */
+    class Initialize implements Command {
+      parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression {
+        pa = pa ?? new Params();
+        pa.path = [];
+        pa.origins.clear();
+        const root = new Table();
+        const lines: Line[] = [];
+        root.lines = lines;
+        let tbl = root;
+        //the comments before the next key/value pair or header
+        let blk: string[] = [];
+        p.forget();
+        while (true) {
+          ws(p, l, s, pa);
+          const t = p.peek(l, s, pa);
+          if (is(t, EOF)) {
+            if (p.mark() > 0) lines.push({ text: p.since(0), tbl });
+            break;
+          } else if (is(t, EOL)) {
+            p.pop(l, s, pa);
+            //the line terminator that a lexer adds at the end of the data has no text
+            if (p.mark() > 0) lines.push({ text: p.since(0), tbl });
+            p.forget();
+          } else if (is(t, HASH)) {
+            blk.push(comment(p, l, s, pa));
+            end(p, l, s, pa);
+          } else {
+            const line = is(t, LEFT_BRACKET, DUAL_LEFT_BRACKET) ? header(root, blk, p, l, s, pa) : keyval(tbl, blk, p, l, s, pa);
+            lines.push(line);
+            tbl = line.tbl;
+            blk = [];
+            p.forget();
+          }
+        }
+        return root;
+      }
+    }
+    /**
+     * Parses the 4 kinds of strings.
+     */
+    class ParseString implements Command {
+      parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression {
+        return string(yp, p, l, s, pa!);
+      }
+    }
+    /**
+     * Parses an inline array.
+     */
+    class ParseArray implements Command {
+      parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression {
+        const [seq, closer] = array(yp, p, l, s, pa!);
+        if (utility.isValid(closer)) unexpected(closer!, "']'", pa);
+        return seq;
+      }
+    }
+    /**
+     * Parses an inline table.
+     */
+    class ParseInlineTable implements Command {
+      parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression {
+        const m = p.mark() - yp.value.length;
+        const pairs: [Text[], Expression, parser.GToken<string>][] = [];
+        const at = new Map<string, [Span, Span]>();
+        ws(p, l, s, pa!);
+        if (is(p.peek(l, s, pa!), RIGHT_BRACE)) p.pop(l, s, pa!);
+        else
+          while (true) {
+            ws(p, l, s, pa!);
+            const t = p.peek(l, s, pa!);
+            const names: Span[] = [];
+            const k = keys(p, l, s, pa!, names);
+            const eq = p.peek(l, s, pa!);
+            if (!is(eq, EQUALS)) unexpected(eq, "'='", pa);
+            p.pop(l, s, pa!);
+            ws(p, l, s, pa!);
+            const start = p.mark() - m;
+            pairs.push([k, value(p, l, s, pa!), t]);
+            if (k.length === 1) at.set(k[0].val, [[names[0][0] - m, names[0][1] - m], [start, p.mark() - m]]);
+            ws(p, l, s, pa!);
+            const x = p.pop(l, s, pa!);
+            if (is(x, RIGHT_BRACE)) break;
+            else if (!is(x, COMMA)) unexpected(x, "',' or '}'", pa);
+          }
+        const r = inline(pairs, pa!, { src: p.since(m), blk: [] });
+        r.at = at;
+        return r;
+      }
+    }
+    /**
+     * Parses booleans, integers, floats and date-times, which the lexer splits into several tokens.
+     */
+    class ParseScalar implements Command {
+      parse(ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params): Expression {
+        const m = p.mark() - yp.value.length;
+        while (is(p.peek(l, s, pa!), ...FRAGMENTS)) p.pop(l, s, pa!);
+        //a space may separate the date and time of a date-time
+        if (/^\d{4}-\d{2}-\d{2}$/.test(p.since(m)) && p.peek(l, s, pa!).value === " " && /^\d{2}$/.test(p.peek(l, s, pa!, 1).value)) {
+          p.pop(l, s, pa!);
+          while (is(p.peek(l, s, pa!), ...FRAGMENTS)) p.pop(l, s, pa!);
+        }
+        return scalar(p.since(m), yp, s, pa!);
+      }
+    }
+    /**
+     * @summary Parses toml tokens into a {@linkcode Table}.
+     * @description A {@linkcode parser.PrattParser} that keeps the text of the tokens that it consumes so that every expression has the
+     * source that it was parsed from (see {@linkcode Snippet.src}).
+     */
+    export class Parser extends parser.PrattParser<Expression, Syntax> {
+      /**The text of the tokens consumed since the last call to {@linkcode forget} */
+      #src = "";
+      protected override readAndPop<P>(l: parser.GLexer<parser.GToken<string>, Syntax>, s: Syntax, params: P): parser.GToken<string> {
+        const t = super.readAndPop(l, s, params);
+        this.#src += t.value;
+        return t;
+      }
+      /**
+       * Gets a token without consuming it
+       * @param {MutableLexer} l the token generator
+       * @param {Syntax} s a syntax for the token generator
+       * @param {Params} pa the params of the parsing process
+       * @param {number} [distance] the number of tokens between the token that will be consumed next and the token to be returned
+       * @returns {parser.GToken<string>} the token
+       */
+      public peek(l: MutableLexer, s: Syntax, pa: Params, distance = 0): parser.GToken<string> {
+        return this.readAndPeek(distance, l, s, pa);
+      }
+      /**
+       * Consumes the next token
+       * @param {MutableLexer} l the token generator
+       * @param {Syntax} s a syntax for the token generator
+       * @param {Params} pa the params of the parsing process
+       * @returns {parser.GToken<string>} the token
+       */
+      public pop(l: MutableLexer, s: Syntax, pa: Params): parser.GToken<string> {
+        return this.readAndPop(l, s, pa);
+      }
+      /**
+       * Gets a position in the text of the consumed tokens.
+       * @returns {number} the length of the text consumed since the last call to {@linkcode forget}
+       */
+      public mark(): number {
+        return this.#src.length;
+      }
+      /**
+       * Gets the text of the tokens consumed after the given position.
+       * @param {number} mark a value returned by {@linkcode mark}
+       * @returns {string} the text as it was written
+       */
+      public since(mark: number): string {
+        return this.#src.substring(mark);
+      }
+      /**
+       * Discards the text of the tokens consumed so far. This is called at the start of every statement of a document.
+       */
+      public forget(): void {
+        this.#src = "";
+      }
+    }
+    /**
+     * Writes a key as it was written or as a bare key if possible.
+     * @param {Text} k the key
+     * @returns {string} the text of the key
+     */
+    function key(k: Text): string {
+      if (utility.isValid(k.c) && k.c!.src.length > 0) return k.c!.src;
+      return BARE_KEY.test(k.val) ? k.val : quote(k.val);
+    }
+    /**
+     * Writes a basic string
+     * @param {string} v the value of the string
+     * @returns {string} the text of the string in double quotes
+     */
+    function quote(v: string): string {
+      //the escapes of a json string are all valid in a basic string, which must also escape the delete character
+      return JSON.stringify(v).replace(/\u007f/g, "\\u007F");
+    }
+    /**
+     * Writes a float
+     * @param {number} n the value of the float
+     * @returns {string} the text of the float, which always has a decimal point or an exponent
+     */
+    function float(n: number): string {
+      if (Number.isNaN(n)) return "nan";
+      else if (!Number.isFinite(n)) return n > 0 ? "inf" : "-inf";
+      else if (Object.is(n, -0)) return "-0.0";
+      return /[.e]/.test(String(n)) ? String(n) : `${n}.0`;
+    }
+    /**
+     * Writes a value as it was written, or in the canonical form of its type if it was not parsed.
+     * @param {Expression} e the value
+     * @returns {string} the text of the value
+     */
+    function text(e: Expression): string {
+      if (utility.isValid(e.c) && e.c!.src.length > 0) return e.c!.src;
+      else if (e instanceof Text) return quote(e.val);
+      else if (e instanceof Int || e instanceof Bool) return e.val.toString();
+      else if (e instanceof B64) return float(e.val as number);
+      else if (e instanceof R39) return iso(e.val);
+      else if (e instanceof Table) {
+        const x = e.entries();
+        return x.length === 0 ? "{}" : `{ ${x.map(([k, v]) => `${key(k)} = ${text(v)}`).join(", ")} }`;
+      } else if (e instanceof Seq) return `[${e.items().map(text).join(", ")}]`;
+      throw new expression.FormatError("Unknown toml expression");
+    }
+    /**
+     * Writes the block comment of a snippet
+     * @returns {string[]} a line for each line of the comment
+     */
+    function blk(c?: SourceComment): string[] {
+      return utility.isValid(c) ? c!.blk.map((x) => `#${x}`) : [];
+    }
+    /**
+     * Writes the inline comment of a snippet
+     * @returns {string} the comment and the space before it or an empty string if there is no inline comment
+     */
+    function iln(c?: SourceComment): string {
+      return utility.isValid(c) && utility.isValid(c!.iln) ? ` #${c!.iln}` : "";
+    }
+    /**
+     * Writes the key/value pairs of a table, which include the key/value pairs of the tables in it that were defined with dotted keys.
+     * @param {Table} tbl the table
+     * @param {Text[]} prefix the keys before the key of each pair
+     * @param {string[]} out the lines of the document
+     */
+    function pairs(tbl: Table, prefix: Text[], out: string[]) {
+      for (const [k, v] of tbl.entries()) {
+        if (v instanceof Table && !v.inl) {
+          if (v.def === ".") pairs(v, [...prefix, k], out);
+        } else if (!(v instanceof Seq && !v.inl))
+          out.push(...blk(k.c), `${[...prefix, k].map(key).join(".")} = ${text(v)}${iln(k.c)}`);
+      }
+    }
+    /**
+     * Writes the header and the key/value pairs of a table that was defined with a header.
+     * @param {Table} tbl the table
+     * @param {Text[]} path the keys of the table
+     * @param {boolean} aot `true` if the table is in an array of tables
+     * @param {string[]} out the lines of the document
+     */
+    function section(tbl: Table, path: Text[], aot: boolean, out: string[]) {
+      if (out.length > 0) out.push("");
+      const h = utility.isValid(tbl.c) ? tbl.c!.src : `${aot ? "[[" : "["}${path.map(key).join(".")}${aot ? "]]" : "]"}`;
+      out.push(...blk(tbl.c), h + iln(tbl.c));
+      pairs(tbl, [], out);
+      sections(tbl, path, out);
+    }
+    /**
+     * Writes the tables in a table that are written with headers.
+     * @param {Table} tbl the table
+     * @param {Text[]} path the keys of the table
+     * @param {string[]} out the lines of the document
+     */
+    function sections(tbl: Table, path: Text[], out: string[]) {
+      for (const [k, v] of tbl.entries()) {
+        if (v instanceof Table && !v.inl) {
+          if (v.def === "[") section(v, [...path, k], false, out);
+          else sections(v, [...path, k], out);
+        } else if (v instanceof Seq && !v.inl) for (const x of v.items()) section(x as Table, [...path, k], true, out);
+      }
+    }
+    /**
+     * Writes toml text.
+     * @param {Appendage} data a string, which is written as it is, or an expression. A table that is not inline is written as a document,
+     * which is the statements of the document if it was parsed
+     * @param {Syntax} [s] the syntax, which has the line terminator
+     * @returns {string} the text
+     */
+    function write(data: Appendage, s?: Syntax): string {
+      if (typeof data === "string") return data;
+      else if (data instanceof Table && utility.isValid(data.lines)) return data.lines!.map((x) => x.text).join("");
+      else if (data instanceof Table && !data.inl) {
+        const out: string[] = [];
+        pairs(data, [], out);
+        sections(data, [], out);
+        const eol = s?.eol ?? "\n";
+        return out.length > 0 ? out.join(eol) + eol : "";
+      }
+      return text(data);
+    }
+    /**
+     * Converts an expression to json. Integers that are not safe integers are `bigint`s.
+     * @param {Expression} e the expression
+     * @param {DateTimeMapping} [dates] how date-times are converted. The default is `"string"`
+     * @returns {json.Value} the json value
+     */
+    function js(e: Expression, dates: DateTimeMapping = "string"): json.Value {
+      if (e instanceof Table) {
+        const o = {} as json.Pair;
+        for (const [k, v] of e.entries()) Object.defineProperty(o, k.val, { value: js(v, dates), writable: true, enumerable: true, configurable: true });
+        return o;
+      } else if (e instanceof Seq) return e.items().map((x) => js(x, dates));
+      else if (e instanceof Int) return Number.isSafeInteger(Number(e.val)) ? Number(e.val) : e.val;
+      else if (e instanceof R39) {
+        const type = dateTimeType(e.val);
+        if (dates === "string") return iso(e.val);
+        else if (dates === "date" && type === "offset-date-time") return instant(e.val as OffsetDateTime, e.c?.src) as unknown as json.Value;
+        return { $type: type, value: iso(e.val) };
+      }
+      else if (e instanceof Text || e instanceof B64 || e instanceof Bool) return e.val;
+      throw new expression.FormatError("Unknown toml expression");
+    }
+    /**
+     * @summary The type of value accepted by the {@linkcode Format.append} method.
+     * @description The value that will be sent to (and expected by) {@linkcode Format} objects
+     */
     export type Appendage = string | Expression;
     /**A base toml format */
     export interface Format<T = any> extends expression.GFormat<Expression, T> {
       append(data: Appendage, s?: Syntax, p?: Params): void;
     }
+    /**
+     * @summary The {@linkcode Expression} output as a string.
+     * @description Builds and stores the parsed toml data as a string. A parsed document is written exactly as it was parsed, except for
+     * the statements that were changed by an {@linkcode Editor}. Any other table is written with its keys and values as they were
+     * parsed, including the comments before them and on the same line as them, but whitespace and blank lines are not retained. The
+     * key/value pairs of a table are written before the tables in it, tables that were defined with dotted keys are written with dotted
+     * keys and a table that was only defined implicitly does not get a header.
+     */
     export class StringFormat implements Format<string> {
       private _data = "";
       append(data: Appendage, s?: Syntax | undefined, p?: Params | undefined): void {
-        throw new Error("Method not implemented.");
+        this._data += write(data, s);
+        this.modifications++;
       }
       data(): string {
         return this._data;
@@ -1783,10 +3371,42 @@ namespace toml {
         return JSON.stringify(this);
       }
     }
+    /**
+     * The types of the date-times of toml, as they are named in the `$type` of a {@linkcode TaggedDateTime}
+     */
+    export type DateTimeType = "offset-date-time" | "local-date-time" | "local-date" | "local-time";
+    /**
+     * A date-time that keeps its toml type, such as `{ $type: "local-date", value: "1979-05-27" }`. The value is RFC 3339 text with a
+     * `T` between the date and the time, and the offset of an offset date-time is written as it was parsed.
+     */
+    export type TaggedDateTime = { $type: DateTimeType; value: string };
+    /**
+     * How {@linkcode JSFormat} converts the date-times of a toml document:
+     * - `"string"` converts every date-time to RFC 3339 text, so the type of a date-time can only be known from its text.
+     * - `"tagged"` converts every date-time to a {@linkcode TaggedDateTime}.
+     * - `"date"` converts an offset date-time to a `Date` of the same instant, which does not have the offset and only has milliseconds.
+     * This normalises the date-time to UTC, so {@linkcode JSONLexer} writes `1979-05-27T00:32:00-07:00` back as
+     * `1979-05-27T07:32:00Z`. Use `"tagged"` to write date-times back as they were parsed. A local date-time, date or time is not an
+     * instant, so it is converted to a {@linkcode TaggedDateTime}.
+     */
+    export type DateTimeMapping = "string" | "tagged" | "date";
+    /**
+     * @summary The {@linkcode Expression} output as json data.
+     * @description Converts the parsed toml data to json. Integers that cannot be a safe integer are `bigint`s, date-times are
+     * converted as specified by {@linkcode JSFormat.dates} and comments are not retained. {@linkcode JSONLexer} writes the date-times
+     * back as toml date-times.
+     */
     export class JSFormat implements Format<json.Value> {
-      private _data = {} as json.Pair;
+      private _data = {} as json.Value;
+      /**
+       * Constructs a `JSFormat`
+       * @param {DateTimeMapping} dates how date-times are converted. The default is `"string"`.
+       */
+      constructor(public readonly dates: DateTimeMapping = "string") {}
       append(data: Appendage, s?: Syntax | undefined, p?: Params | undefined): void {
-        throw new Error("Method not implemented.");
+        if (typeof data === "string") throw new expression.FormatError("A string must be parsed before it can be converted to json");
+        this._data = js(data, this.dates);
+        this.modifications++;
       }
       data(): json.Value {
         return this._data;
@@ -1817,6 +3437,10 @@ namespace toml {
         return JSON.stringify(this);
       }
     }
+    /**
+     * @summary The {@linkcode Expression} output as a file.
+     * @description Writes the parsed toml data to a file in the same way as {@linkcode StringFormat}.
+     */
     export class FileFormat implements Format<ReadStream> {
       private _str: WriteStream;
       constructor(filename: string) {
@@ -1835,7 +3459,8 @@ namespace toml {
         s?: Syntax | undefined,
         p?: Params | undefined
       ): void {
-        throw new expression.FormatError("format not supported");
+        this._str.write(write(data, s));
+        this.modifications++;
       }
       data(): ReadStream {
         return createReadStream(this._str.path, {
@@ -1869,11 +3494,628 @@ namespace toml {
     }
     export class Converter extends parser.Converter<parser.GToken<string>, Expression, Syntax, Parser, Params, MutableLexer, any > {
       _transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback): void {
-        throw new Error("Method not implemented.");
+        if (!this.writableObjectMode) {
+          chunk = Buffer.isBuffer(chunk)
+            ? iconv.decode(chunk as Buffer, this.syntax.metadata!.encoding)
+            : String(chunk);
+        }
+        try {
+          this.lexer.process(chunk, this.syntax, this.params);
+        } catch (e) {
+          return callback(e as Error);
+        }
+        callback();
       }
       _flush(callback: TransformCallback): void {
-        throw new Error("Method not implemented.");
+        try {
+          this.lexer.end(this.syntax, this.params);
+          return callback(null, this.parser.parse(this.lexer, this.syntax, this.params));
+        } catch (e) {
+          return callback(e as Error);
+        }
+      }
+    }
+    /**
+     * Parses a toml document.
+     * @param {string} text the document
+     * @param {Syntax} s the syntax
+     * @returns {Table} the root table of the document
+     */
+    function read(text: string, s: Syntax): Table {
+      const l = new StringLexer(s.eol);
+      const pa = new Params();
+      l.process(text, s, pa);
+      l.end(s, pa);
+      return new Parser().parse(l, s, pa) as Table;
+    }
+    /**
+     * Gets the text of tokens created by {@linkcode JSONLexer}
+     * @param {Piece[]} p the tokens
+     * @returns {string} the text
+     */
+    function join(p: Piece[]): string {
+      return p.map((x) => x[0]).join("");
+    }
+    /**
+     * Creates the expression of a json value that is written on one line.
+     * @param {json.Value} v the value
+     * @param {Syntax} s the syntax
+     * @returns {Expression} the expression, whose source is the text of the value
+     */
+    function expr(v: json.Value, s: Syntax): Expression {
+      return read(`v = ${join(pieces(v))}`, s).get("v")![1];
+    }
+    /**
+     * Creates a key
+     * @param {string} k the value of the key
+     * @returns {Text} a bare key or a basic string
+     */
+    function name(k: string): Text {
+      return new Text(k, BARE_KEY.test(k) ? "" : '"', { src: join(keyPieces(k)), blk: [] });
+    }
+    /**
+     * Gets the value of a key in a table or an item of an array.
+     * @param {Expression} e the table or array
+     * @param {string | number} k the key or index
+     * @returns {Expression | undefined} the value or `undefined` if there is no such value
+     */
+    function child(e: Expression, k: string | number): Expression | undefined {
+      if (e instanceof Table && typeof k === "string") return e.get(k)?.[1];
+      else if (e instanceof Seq && typeof k === "number") return e.items()[k];
+      return undefined;
+    }
+    /**
+     * Creates an inline copy of a table or array in which one value is changed.
+     * @param {Expression} e the table or array
+     * @param {string | number} k the key or index of the value
+     * @param {Expression} [v] the new value, which is added to the end if the table or array does not have the key or index. The value is
+     * removed if this is `undefined`
+     * @param {string} [to] the new key of the value
+     * @returns {Expression} the copy
+     * @throws {expression.ExpressionError} if the key is not a key of a table or the index is not an index of an array
+     */
+    function copy(e: Expression, k: string | number, v?: Expression, to?: string): Expression {
+      if (e instanceof Table && typeof k === "string") {
+        const data: TablularData = {};
+        for (const [x, y] of e.entries())
+          if (x.val !== k) define(data, x, y);
+          else if (utility.isValid(v)) define(data, utility.isValid(to) ? name(to!) : x, v!);
+        if (!utility.isValid(e.get(k)) && utility.isValid(v)) define(data, name(k), v!);
+        return new Table(data);
+      } else if (e instanceof Seq && typeof k === "number") {
+        const items = [...e.items()];
+        if (utility.isValid(v)) items.splice(k, 1, v!);
+        else items.splice(k, 1);
+        return new Seq(items);
+      }
+      throw new expression.ExpressionError(`'${k}' is not a key of a table or an index of an array`);
+    }
+    /**
+     * Creates an inline copy of a table or array in which a value nested in it is changed.
+     * @param {Expression} e the table or array
+     * @param {(string | number)[]} path the keys and indexes of the value in the table or array
+     * @param {(e: Expression, k: string | number) => Expression} f creates the copy of the table or array that has the value, given the
+     * table or array and the last key or index of the path
+     * @returns {Expression} the copy
+     */
+    function change(e: Expression, path: (string | number)[], f: (e: Expression, k: string | number) => Expression): Expression {
+      if (path.length === 1) return f(e, path[0]);
+      const x = child(e, path[0]);
+      if (!utility.isValid(x)) throw new expression.ExpressionError(`'${path[0]}' does not exist`);
+      return copy(e, path[0], change(x!, path.slice(1), f));
+    }
+    /**
+     * Gets a table or array of tables and the tables and arrays of tables in it that are not inline.
+     * @param {Expression} e the table or array
+     * @param {Set<Expression>} [r] the set to which they are added
+     * @returns {Set<Expression>} the set
+     */
+    function subtree(e: Expression, r = new Set<Expression>()): Set<Expression> {
+      r.add(e);
+      if (e instanceof Table) {
+        for (const [, v] of e.entries()) if ((v instanceof Table || v instanceof Seq) && !v.inl) subtree(v, r);
+      } else if (e instanceof Seq && !e.inl) for (const x of e.items()) subtree(x, r);
+      return r;
+    }
+    /**
+     * Gets the whitespace before the key of a key/value pair or header.
+     * @param {Line} l the statement of the key/value pair or header
+     * @returns {string} the whitespace
+     */
+    function indent(l: Line): string {
+      const start = l.names![0][0];
+      return /[ \t]*$/.exec(l.text.substring(l.text.lastIndexOf("\n", start - 1) + 1, start))![0];
+    }
+    /**
+     * Gets the start and end of the values of an inline table or array in its source.
+     * @param {Expression} e the table or array
+     * @returns {Span[] | undefined} the start and end of each value in the order they were written or `undefined` if the table or array
+     * was not parsed or has a dotted key
+     */
+    function spans(e: Expression): Span[] | undefined {
+      if (e instanceof Seq) return e.at;
+      else if (!(e instanceof Table) || !utility.isValid(e.at)) return undefined;
+      const r = e.entries().map(([k]) => e.at!.get(k.val)?.[1]);
+      return r.every(utility.isValid) ? (r as Span[]) : undefined;
+    }
+    /**
+     * Gets the start and end of a value of an inline table or array in its source.
+     * @param {Expression} e the table or array
+     * @param {string | number} k the key or index of the value
+     * @returns {Span | undefined} the start and end or `undefined` if it is not known
+     */
+    function span(e: Expression, k: string | number): Span | undefined {
+      if (e instanceof Seq && typeof k === "number") return e.at?.[k];
+      else if (e instanceof Table && typeof k === "string") return e.at?.get(k)?.[1];
+      return undefined;
+    }
+    /**
+     * Changes the source of an inline table or array so that it has a value nested in it, keeping the rest of the source.
+     * @param {Expression} e the table or array
+     * @param {(string | number)[]} path the keys and indexes of the value in the table or array
+     * @param {(e: Expression, k: string | number) => string | undefined} f changes the source of the table or array that has the value,
+     * given the table or array and the last key or index of the path
+     * @returns {string | undefined} the source or `undefined` if the start and end of a value in the path is not known
+     */
+    function splice(e: Expression, path: (string | number)[], f: (e: Expression, k: string | number) => string | undefined): string | undefined {
+      if (path.length === 1) return f(e, path[0]);
+      const x = child(e, path[0]);
+      const y = span(e, path[0]);
+      if (!utility.isValid(x) || !utility.isValid(y)) return undefined;
+      const r = splice(x!, path.slice(1), f);
+      return utility.isValid(r) ? e.c!.src.substring(0, y![0]) + r + e.c!.src.substring(y![1]) : undefined;
+    }
+    /**
+     * Changes the source of an inline table or array so that a key or index has the given value. A new value is added after the last
+     * one. In a multi-line array, it is on a new line with the same indentation as the last item and it gets a trailing comma if the
+     * last item has one.
+     * @param {Expression} e the table or array
+     * @param {string | number} k the key or index
+     * @param {string} v the source of the value
+     * @param {string} eol the line terminator of the document
+     * @returns {string | undefined} the source or `undefined` if the start and end of the values are not known
+     */
+    function put(e: Expression, k: string | number, v: string, eol: string): string | undefined {
+      const at = spans(e);
+      if (!utility.isValid(at)) return undefined;
+      const src = e.c!.src;
+      const x = span(e, k);
+      if (utility.isValid(x)) return src.substring(0, x![0]) + v + src.substring(x![1]);
+      else if (e instanceof Table) {
+        const pair = `${join(keyPieces(k as string))} = ${v}`;
+        if (at!.length === 0) return `{ ${pair} }`;
+        const end = at![at!.length - 1][1];
+        return `${src.substring(0, end)}, ${pair}${src.substring(end)}`;
+      } else if (at!.length === 0) return `[${v}${src.substring(1)}`;
+      const end = at![at!.length - 1][1];
+      const rest = src.substring(end);
+      const nl = rest.search(/\r?\n/);
+      //the last item is on the same line as the closing bracket
+      if (nl < 0) return `${src.substring(0, end)}, ${v}${rest}`;
+      const i = end + nl;
+      const ws = /^[ \t]*/.exec(src.substring(src.lastIndexOf("\n", end - 1) + 1))![0];
+      if (/^[ \t]*,/.test(rest)) return `${src.substring(0, i)}${eol}${ws}${v},${src.substring(i)}`;
+      return `${src.substring(0, end)},${src.substring(end, i)}${eol}${ws}${v}${src.substring(i)}`;
+    }
+    /**
+     * Changes the source of an inline table or array so that it does not have a value. The value is removed with the comma and whitespace
+     * between it and the next value, or the previous value if it is the last.
+     * @param {Expression} e the table or array
+     * @param {string | number} k the key or index of the value
+     * @returns {string | undefined} the source or `undefined` if the start and end of the values are not known
+     */
+    function drop(e: Expression, k: string | number): string | undefined {
+      const at = spans(e);
+      if (!utility.isValid(at)) return undefined;
+      const src = e.c!.src;
+      //the start of each key/value pair or item
+      const starts = e instanceof Table ? e.entries().map(([x]) => e.at!.get(x.val)![0][0]) : at!.map((x) => x[0]);
+      const i = e instanceof Table ? e.entries().findIndex(([x]) => x.val === k) : (k as number);
+      if (i < at!.length - 1) return src.substring(0, starts[i]) + src.substring(starts[i + 1]);
+      else if (i > 0) return src.substring(0, at![i - 1][1]) + src.substring(at![i][1]);
+      //the only value, which may have a trailing comma
+      return src.substring(0, starts[i]) + src.substring(at![i][1]).replace(/^[ \t]*,/, "");
+    }
+    /**
+     * Changes the source of an inline table so that a key is replaced.
+     * @param {Expression} e the table
+     * @param {string | number} k the key
+     * @param {string} to the new key
+     * @returns {string | undefined} the source or `undefined` if the start and end of the key is not known
+     */
+    function renamed(e: Expression, k: string | number, to: string): string | undefined {
+      const x = e instanceof Table && typeof k === "string" ? e.at?.get(k)?.[0] : undefined;
+      if (!utility.isValid(x)) return undefined;
+      return e.c!.src.substring(0, x![0]) + join(keyPieces(to)) + e.c!.src.substring(x![1]);
+    }
+    /**A value in a document, with the table or array that has it */
+    type Step = { parent: Expression; key: string | number; value: Expression };
+    /**
+     * @summary Edits a parsed toml document in place.
+     * @description
+     * Changes the data of a document that was parsed by a {@linkcode Parser} together with the statements of the document that have the
+     * data, so that {@linkcode StringFormat} and {@linkcode FileFormat} write the rest of the document exactly as it was parsed, with its
+     * comments, blank lines, indentation and quotes.
+     * - A key/value pair that is set is written after the last key/value pair of its table, with the indentation of that pair. The keys
+     * after the header of the table are written as dotted keys if the table was defined with dotted keys.
+     * - A table that is inserted, or that a key/value pair is set in and does not exist, is written with a header after the last statement
+     * of the table that has it. An array of tables gets a new item after the last statement of its last item.
+     * - A value in an inline table or array is changed where it was written, which keeps the rest of the inline value. A value that is
+     * added is written after the last value, and an item of a multi-line array is written on its own line like the last item. An inline
+     * table that has dotted keys in it is rewritten on one line when a value in it changes.
+     * - The comments before a key/value pair or header are deleted with it.
+     *
+     * A path is the keys of a value starting from the root table, where the index of an item of an array is a `number`. New lines use the
+     * line terminator of the document.
+     * @example
+     * ```ts
+     * const doc = parser.parse(lexer, toml.V1_0, params);
+     * new toml.Editor(doc).set(["package", "version"], "0.2.0").delete(["dev-dependencies"]);
+     * doc.format(new toml.FileFormat("Cargo.toml"), toml.V1_0, params);
+     * ```
+     */
+    export class Editor {
+      readonly #root: Table;
+      readonly #s: Syntax;
+      /**
+       * Constructs an `Editor`.
+       * @param {Expression} doc the expression returned by {@linkcode Parser.parse} for a document
+       * @param {Syntax} [syntax] the syntax of the document
+       * @throws {expression.ExpressionError} if the expression is not a parsed document
+       */
+      constructor(doc: Expression, syntax: Syntax = V1_0) {
+        if (!(doc instanceof Table) || !utility.isValid(doc.lines)) throw new expression.ExpressionError("Only a parsed toml document can be edited");
+        this.#root = doc;
+        this.#s = syntax;
+      }
+      /**
+       * Gets a value.
+       * @param {(string | number)[]} path the path of the value
+       * @returns {json.Value} the value as it would be converted by {@linkcode JSFormat}
+       * @throws {expression.ExpressionError} if the value does not exist
+       */
+      public get(path: (string | number)[]): json.Value {
+        const steps = this.#walk(path);
+        return js(steps.length > 0 ? steps[steps.length - 1].value : this.#root);
+      }
+      /**
+       * Sets a value, which replaces the current value of the key, if there is one. A table or an array of tables that is replaced is
+       * deleted and the value is set as a key/value pair.
+       * @param {(string | number)[]} path the path of the value. The tables in the path that do not exist are created
+       * @param {json.Value} value the value, which is written on one line as an inline value
+       * @returns {Editor} this editor
+       * @throws {expression.ExpressionError} if the path is empty, ends with an index of an array of tables, has a value that is not a table
+       * or the value cannot be written as toml
+       */
+      public set(path: (string | number)[], value: json.Value): Editor {
+        if (path.length === 0) throw new expression.ExpressionError("The root table cannot be replaced");
+        const e = expr(value, this.#s);
+        const steps = this.#walk(path, true);
+        const i = this.#owner(steps);
+        if (i >= 0 && i < path.length - 1) this.#inline(steps, i, path, (c, k) => put(c, k, text(e), this.#eol()), (c, k) => copy(c, k, e));
+        else if (i >= 0) this.#replace(this.#pair(steps[i].value), e);
+        else {
+          if (typeof path[path.length - 1] !== "string") throw new expression.ExpressionError("An item of an array of tables must be a table");
+          if (steps.length === path.length) this.delete(path);
+          this.#add(path, e);
+        }
+        return this;
+      }
+      /**
+       * Changes the key of a value, which keeps its position in its table. For a table, the key is also changed in the headers and dotted
+       * keys of the tables in it.
+       * @param {(string | number)[]} path the path of the value
+       * @param {string} to the new key
+       * @returns {Editor} this editor
+       * @throws {expression.ExpressionError} if the value does not exist, the path ends with an index or the table already has the new key
+       */
+      public rename(path: (string | number)[], to: string): Editor {
+        const steps = this.#walk(path);
+        const last = steps[steps.length - 1];
+        if (!utility.isValid(last) || typeof last.key !== "string") throw new expression.ExpressionError("Only a key can be renamed");
+        else if (utility.isValid(child(last.parent, to))) throw new expression.ExpressionError(`'${to}' already exists`);
+        const i = this.#owner(steps);
+        if (i >= 0 && i < path.length - 1) return this.#inline(steps, i, path, (c, k) => renamed(c, k, to), (c, k) => copy(c, k, child(c, k), to));
+        const n = join(keyPieces(to));
+        for (const l of this.#root.lines!) {
+          const j = l.chain?.indexOf(last.value) ?? -1;
+          if (j < 0) continue;
+          const [a, b] = l.names![j];
+          const d = n.length - (b - a);
+          l.text = l.text.substring(0, a) + n + l.text.substring(b);
+          l.names = l.names!.map(([x, y], m) => (m < j ? [x, y] : m === j ? [a, b + d] : [x + d, y + d]));
+          if (utility.isValid(l.val)) l.val = [l.val![0] + d, l.val![1] + d];
+        }
+        const tbl = last.parent as Table;
+        const k = tbl.get(last.key)![0];
+        tbl.rename(last.key, new Text(to, BARE_KEY.test(to) ? "" : '"', { src: n, blk: k.c?.blk ?? [], iln: k.c?.iln }));
+        return this;
+      }
+      /**
+       * Deletes a value. A table that is left empty is also deleted, unless it was defined with a header.
+       * @param {(string | number)[]} path the path of the value
+       * @returns {Editor} this editor
+       * @throws {expression.ExpressionError} if the path is empty or the value does not exist
+       */
+      public delete(path: (string | number)[]): Editor {
+        const steps = this.#walk(path);
+        const last = steps[steps.length - 1];
+        if (!utility.isValid(last)) throw new expression.ExpressionError("The root table cannot be deleted");
+        const i = this.#owner(steps);
+        if (i >= 0 && i < path.length - 1) return this.#inline(steps, i, path, drop, (c, k) => copy(c, k));
+        else if (i >= 0) this.#root.lines!.splice(this.#pair(last.value), 1);
+        else {
+          const gone = subtree(last.value);
+          this.#root.lines = this.#root.lines!.filter((x) => !gone.has(x.tbl) && !x.chain?.some((y) => gone.has(y)));
+        }
+        if (last.parent instanceof Seq) last.parent.remove(last.key as number);
+        else (last.parent as Table).remove(last.key as string);
+        for (let j = steps.length - 2; j >= 0; j--) {
+          const { parent, key, value } = steps[j];
+          if (value instanceof Table && !value.inl && value.def !== "[" && value.entries().length === 0) (parent as Table).remove(key as string);
+          else if (value instanceof Seq && !value.inl && value.items().length === 0) (parent as Table).remove(key as string);
+          else break;
+        }
+        return this;
+      }
+      /**
+       * Inserts a table that is written with a header.
+       * @param {(string | number)[]} path the path of the table. The tables in the path that do not exist are created
+       * @param {json.Pair} [data] the values of the table, which are written in the same way as {@linkcode JSONLexer} writes them
+       * @returns {Editor} this editor
+       * @throws {expression.ExpressionError} if the table already exists, the path has a value that is not a table or an index of an item
+       * that is not the last item of an array of tables
+       */
+      public insertTable(path: (string | number)[], data: json.Pair = {}): Editor {
+        return this.#graft(path, data, false);
+      }
+      /**
+       * Appends an item to an array. An item of an array of tables is written with a header.
+       * @param {(string | number)[]} path the path of the array
+       * @param {json.Value} value the item
+       * @returns {Editor} this editor
+       * @throws {expression.ExpressionError} if the array does not exist or the item of an array of tables is not an object
+       */
+      public append(path: (string | number)[], value: json.Value): Editor {
+        const steps = this.#walk(path);
+        const seq = steps[steps.length - 1]?.value;
+        if (!(seq instanceof Seq)) throw new expression.ExpressionError(`'${path.join(".")}' is not an array`);
+        else if (!seq.inl) {
+          if (!isTable(value)) throw new expression.ExpressionError("Only a table can be appended to an array of tables");
+          return this.#graft(path, value as json.Pair, true);
+        }
+        const e = expr(value, this.#s);
+        const n = [...path, seq.items().length];
+        return this.#inline(steps, this.#owner(steps), n, (c, k) => put(c, k, text(e), this.#eol()), (c, k) => copy(c, k, e));
+      }
+      /**
+       * Gets the values of a path.
+       * @param {(string | number)[]} path the path
+       * @param {boolean} [partial] `true` to stop at the first value that does not exist instead of throwing
+       * @returns {Step[]} a value for each key or index of the path that exists
+       */
+      #walk(path: (string | number)[], partial = false): Step[] {
+        const r: Step[] = [];
+        let e: Expression = this.#root;
+        for (const k of path) {
+          const v = child(e, k);
+          if (!utility.isValid(v)) {
+            if (partial) break;
+            throw new expression.ExpressionError(`'${path.join(".")}' does not exist`);
+          }
+          r.push({ parent: e, key: k, value: v! });
+          e = v!;
+        }
+        return r;
+      }
+      /**
+       * Gets the values of a path, where the tables that do not exist are created as tables that are only defined implicitly.
+       * @param {(string | number)[]} path the path
+       * @returns {Expression[]} a value for each key or index of the path
+       */
+      #tables(path: (string | number)[]): Expression[] {
+        const r: Expression[] = [];
+        let e: Expression = this.#root;
+        for (const k of path) {
+          let v = child(e, k);
+          if (!utility.isValid(v)) {
+            if (!(e instanceof Table) || e.inl || typeof k !== "string") throw new expression.ExpressionError(`'${path.join(".")}' does not exist`);
+            v = new Table();
+            e.set(name(k), v);
+          }
+          r.push(v!);
+          e = v!;
+        }
+        return r;
+      }
+      /**
+       * Gets the statement of a key/value pair
+       * @param {Expression} v the value of the pair
+       * @returns {number} the index of the statement or `-1` if the value is not the value of a key/value pair
+       */
+      #pair(v: Expression): number {
+        return this.#root.lines!.findIndex((x) => utility.isValid(x.val) && x.chain![x.chain!.length - 1] === v);
+      }
+      /**
+       * Gets the first value of a path that is the value of a key/value pair. The values after it are in an inline table or array.
+       * @param {Step[]} steps the values of the path
+       * @returns {number} the index of the value or `-1` if there is none
+       */
+      #owner(steps: Step[]): number {
+        return steps.findIndex((x) => this.#pair(x.value) >= 0);
+      }
+      /**
+       * Gets the line terminator of the document
+       * @returns {string} the first line terminator in the document or the line terminator of the syntax if there is none
+       */
+      #eol(): string {
+        for (const l of this.#root.lines!) {
+          const m = /\r\n|\n|\r/.exec(l.text);
+          if (m) return m[0];
+        }
+        return this.#s.eol;
+      }
+      /**
+       * Adds a line terminator to a statement that does not end with one.
+       * @param {number} i the index of the statement
+       */
+      #terminate(i: number) {
+        const l = this.#root.lines![i];
+        if (!/[\r\n]$/.test(l.text)) l.text += this.#eol();
+      }
+      /**
+       * Replaces the value of a key/value pair.
+       * @param {number} i the index of the statement of the pair
+       * @param {Expression} e the new value
+       */
+      #replace(i: number, e: Expression) {
+        const l = this.#root.lines![i];
+        const old = l.chain![l.chain!.length - 1];
+        const tbl = l.chain!.length > 1 ? (l.chain![l.chain!.length - 2] as Table) : l.tbl;
+        const [a, b] = l.val!;
+        const t = text(e);
+        l.text = l.text.substring(0, a) + t + l.text.substring(b);
+        l.val = [a, a + t.length];
+        l.chain![l.chain!.length - 1] = e;
+        tbl.set(tbl.entries().find((x) => x[1] === old)![0], e);
+      }
+      /**
+       * Changes a value in the inline table or array of a key/value pair. The source of the inline value is changed where the value is,
+       * else the inline value is rewritten.
+       * @param {Step[]} steps the values of the path of the value
+       * @param {number} i the index of the value of the key/value pair
+       * @param {(string | number)[]} path the path of the value
+       * @param {(e: Expression, k: string | number) => string | undefined} f changes the source of the table or array that has the value
+       * @param {(e: Expression, k: string | number) => Expression} g creates a changed copy of the table or array that has the value
+       * @returns {Editor} this editor
+       */
+      #inline(steps: Step[], i: number, path: (string | number)[], f: (e: Expression, k: string | number) => string | undefined, g: (e: Expression, k: string | number) => Expression): Editor {
+        const e = steps[i].value;
+        const src = splice(e, path.slice(i + 1), f);
+        this.#replace(this.#pair(e), utility.isValid(src) ? read(`v = ${src}`, this.#s).get("v")![1] : change(e, path.slice(i + 1), g));
+        return this;
+      }
+      /**
+       * Adds a key/value pair to a table that is not inline.
+       * @param {(string | number)[]} path the path of the value, which does not exist
+       * @param {Expression} e the value
+       */
+      #add(path: (string | number)[], e: Expression) {
+        const k = path[path.length - 1] as string;
+        const vals = this.#tables(path.slice(0, -1));
+        const tbl = vals.length > 0 ? vals[vals.length - 1] : this.#root;
+        if (!(tbl instanceof Table) || tbl.inl) throw new expression.ExpressionError(`'${path.slice(0, -1).join(".")}' is not a table`);
+        //the table of the section and the tables defined with dotted keys after its header
+        let section = this.#root;
+        let dotted: Table[] = [];
+        let keys: string[] = [];
+        vals.forEach((v, j) => {
+          if (!(v instanceof Table)) return;
+          else if (v.def === ".") {
+            dotted.push(v);
+            keys.push(path[j] as string);
+          } else {
+            section = v;
+            dotted = [];
+            keys = [];
+          }
+        });
+        if (section !== this.#root && section.def === "") this.#graft(path.slice(0, -1), {}, false);
+        const lines = this.#root.lines!;
+        let at = -1;
+        lines.forEach((x, j) => {
+          if (x.tbl === section && utility.isValid(x.chain)) at = j;
+        });
+        //the root table without key/value pairs, where the pair is written before the first header
+        if (at < 0) {
+          const h = lines.findIndex((x) => utility.isValid(x.chain));
+          at = (h < 0 ? lines.length : h) - 1;
+        }
+        const ref = lines.filter((x) => x.tbl === section && utility.isValid(x.val)).pop();
+        let t = utility.isValid(ref) ? indent(ref!) : "";
+        const names: Span[] = [];
+        for (const x of [...keys, k]) {
+          if (names.length > 0) t += ".";
+          const n = join(keyPieces(x));
+          names.push([t.length, t.length + n.length]);
+          t += n;
+        }
+        t += " = ";
+        const v = text(e);
+        const val: Span = [t.length, t.length + v.length];
+        if (at >= 0) this.#terminate(at);
+        lines.splice(at + 1, 0, { text: t + v + this.#eol(), tbl: section, chain: [...dotted, e], names, val });
+        tbl.set(name(k), e);
+      }
+      /**
+       * Inserts a table or an item of an array of tables.
+       * @param {(string | number)[]} path the path of the table or array
+       * @param {json.Pair} data the values of the table
+       * @param {boolean} aot `true` for an item of an array of tables
+       * @returns {Editor} this editor
+       */
+      #graft(path: (string | number)[], data: json.Pair, aot: boolean): Editor {
+        const k = path[path.length - 1];
+        if (typeof k !== "string") throw new expression.ExpressionError("A table must have a key");
+        const vals = this.#tables(path.slice(0, -1));
+        const parent = vals.length > 0 ? vals[vals.length - 1] : this.#root;
+        if (!(parent instanceof Table) || parent.inl) throw new expression.ExpressionError(`'${path.slice(0, -1).join(".")}' is not a table`);
+        path.forEach((x, j) => {
+          if (typeof x === "number" && x !== (vals[j - 1] as Seq).items().length - 1)
+            throw new expression.ExpressionError("A header can only add a table to the last item of an array of tables");
+        });
+        const existing = parent.get(k)?.[1];
+        if (utility.isValid(existing) && !(aot ? existing instanceof Seq && !existing.inl : existing instanceof Table && !existing.inl && existing.def === ""))
+          throw new expression.ExpressionError(`'${path.join(".")}' already exists`);
+        const eol = this.#eol();
+        const keys = path.filter((x): x is string => typeof x === "string");
+        const doc = read(join(document(data, keys, { ...this.#s, eol }, aot)), this.#s);
+        //the tables of the parsed table that are the tables of this document
+        const map = new Map<Expression, Expression>();
+        const reals = vals.filter((x, j) => typeof path[j] === "string");
+        let m: Table = doc;
+        keys.slice(0, -1).forEach((x, j) => {
+          m = m.get(x)![1] as Table;
+          map.set(m, reals[j]);
+        });
+        const [key, created] = m.get(k)!;
+        let area: Expression = parent;
+        if (utility.isValid(existing)) {
+          if (aot) (existing as Seq).push((created as Seq).items()[0]);
+          else {
+            const t = existing as Table;
+            for (const [x, y] of (created as Table).entries()) {
+              if (utility.isValid(t.get(x.val))) throw new expression.ExpressionError(`'${[...path, x.val].join(".")}' already exists`);
+              t.set(x, y);
+            }
+            t.def = (created as Table).def;
+            t.c = (created as Table).c;
+          }
+          map.set(created, existing!);
+          area = existing!;
+        } else parent.set(key, created);
+        const lines = this.#root.lines!;
+        const r = subtree(area);
+        let at = -1;
+        lines.forEach((x, j) => {
+          if (r.has(x.tbl) || x.chain?.some((y) => r.has(y))) at = j;
+        });
+        if (at < 0) at = lines.length - 1;
+        while (at >= 0 && lines[at].text.trim().length === 0) at--;
+        const add = doc.lines!.map((x): Line => ({ ...x, tbl: (map.get(x.tbl) ?? x.tbl) as Table, chain: x.chain?.map((y) => map.get(y) ?? y) }));
+        if (at >= 0) {
+          this.#terminate(at);
+          add.unshift({ text: eol, tbl: lines[at].tbl });
+        }
+        lines.splice(at + 1, 0, ...add);
+        return this;
       }
     }
+    /**
+     * @summary The TOML 1.0 syntax
+     * @description A syntax that retains all the defaults of the `SyntaxBuilder` class, which accepts exactly the documents specified by
+     * [TOML 1.0](https://toml.io/en/v1.0.0) with `\n` as the line terminator.
+     */
+    export const V1_0 = new SyntaxBuilder().build();
 }
 export default toml;
\ No newline at end of file
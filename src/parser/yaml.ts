@@ -1,42 +1,3408 @@
-import { ReadStream } from "fs";
+import {
+  createReadStream,
+  createWriteStream,
+  ReadStream,
+  WriteStream,
+} from "fs";
+import { TransformCallback } from "node:stream";
 import utility from "../utility.js";
 import expression from "./expression.js";
 import json from "./json.js";
 import parser from "./parser.js";
+import iconv from "iconv-lite";
 /**
  * @summary Defines the constituents of the yaml pipeline.
  * @description The yaml pipeline constitutes tokenisers (lexers) for tokenising text and json data; a parser which translates the
  * tokens into expressions; formatters which can create file, in-memory and simple string formats; a converter which binds several
- * of the aforementioned components so that the data contained within can be tranferred to other data languages seamlessly.
+ * of the aforementioned components so that the data contained within can be tranferred to other data languages seamlessly.\
+ * \
+ * The pipeline follows the [YAML 1.2.2](https://yaml.org/spec/1.2.2/) specification and resolves plain scalars using the core schema
+ * by default.
+ * @example ### An example of a yaml stream:
+ * ```yaml
+ * %YAML 1.2
+ * --- # the first document
+ * name: Data Serialization Format
+ * tags: [csv, ini, json, toml, yaml]
+ * version: 0x1F
+ * ratio: .inf
+ * description: |
+ *   A literal block scalar
+ *   keeps its line breaks.
+ * summary: >-
+ *   A folded block scalar
+ *   joins its lines.
+ * authors:
+ *   - &tony
+ *     name: 'Tony "T" Oruovo'
+ *     active: true
+ *   - { name: "Anon\tymous", active: ~ }
+ * maintainer:
+ *   <<: *tony
+ *   role: lead
+ * ...
+ * ---
+ * - the second document
+ * ```
+ * @remarks
+ * Every alias adds the size of the node it refers to to the size of its document. A document whose aliases add more nodes than
+ * {@linkcode Syntax.expansionLimit} is rejected while it is parsed, so inputs such as the "billion laughs" attack fail early
+ * instead of exhausting memory when they are resolved.
  */
 namespace yaml {
-    export class SyntaxBuilder implements utility.Builder<Syntax> {}
-    export interface Syntax extends parser.GSyntax<Type, Command>{}
-    export class Params {}
-    class Type implements parser.GType<string> {}
-    class Token implements parser.GToken<string> {}
-    export interface MutableLexer<CH = string> extends parser.MutableLexer<Token, Syntax, CH> {
-      end(syntax: Syntax, p: Params | any): void;
-      process(chunk: CH, syntax: Syntax, p: Params | any): void;
-    }
-    export class JSONLexer implements MutableLexer<json.Value>{}
-    export class StringLexer implements MutableLexer{}
-    export interface Command extends parser.GCommand<Token, Expression, Syntax, MutableLexer, Parser> {
-      parse( ap: Expression, yp: Token, p: Parser, l: MutableLexer, s: Syntax, pa?: Params ): Expression;
-    }
-    export interface Expression extends expression.GExpression<Format> {
-      format(format: Format, syntax?: Syntax, params?: Params | any): void;
-    }
-    /**Convenience class to allow for proper return values using `parse` */
-    export class Parser extends parser.PrattParser<Expression, Syntax> {}
-    export type Appendage = string | Expression;
-    /**A base yaml format */
-    export interface Format<T = any> extends expression.GFormat<Expression, T> {
-      append(data: Appendage, s?: Syntax, p?: Params): void;
-    }
-    export class StringFormat implements Format<string> {}
-    export class JSFormat implements Format<json.Value> {}
-    export class FileFormat implements Format<ReadStream> {}
-    export class Converter extends parser.Converter< parser.GToken<string>, Expression, Syntax, Parser, Params, MutableLexer, any > {}
+  /**
+   * The characters that start and end flow collections and separate their entries.
+   * @type {string}
+   * @constant
+   */
+  const FLOW_INDICATORS = ",[]{}";
+  /**
+   * The characters that cannot start a plain scalar. `-`, `?` and `:` may start one if they are followed by a non-space character.
+   * @type {string}
+   * @constant
+   */
+  const INDICATORS = "-?:,[]{}#&*!|>'\"%@`";
+  /**
+   * The prefix associated with the secondary tag handle `!!`
+   * @type {string}
+   * @constant
+   */
+  const CORE_PREFIX = "tag:yaml.org,2002:";
+  /**
+   * The single character escape sequences of double quoted scalars, mapped to the characters they represent.
+   * @type {{[key: string]: string}}
+   * @constant
+   */
+  const ESCAPES: { [key: string]: string } = {
+    "0": "\0",
+    a: "\x07",
+    b: "\b",
+    t: "\t",
+    "\t": "\t",
+    n: "\n",
+    v: "\v",
+    f: "\f",
+    r: "\r",
+    e: "\x1b",
+    " ": " ",
+    '"': '"',
+    "/": "/",
+    "\\": "\\",
+    N: "\x85",
+    _: "\xa0",
+    L: " ",
+    P: " ",
+  };
+  /**
+   * Checks if the argument is a space or a tab
+   * @param {string} c a single character
+   * @returns {boolean} `true` if the argument is a space or a tab, `false` if otherwise
+   */
+  function isBlank(c: string): boolean {
+    return c === " " || c === "\t";
+  }
+  /**
+   * Checks if the argument is a line break. Line breaks are normalised to `\n` before scanning.
+   * @param {string} c a single character
+   * @returns {boolean} `true` if the argument is a line break, `false` if otherwise
+   */
+  function isBreak(c: string): boolean {
+    return c === "\n";
+  }
+  /**
+   * Checks if the argument is a space, tab, line break or the end of the input (an empty string)
+   * @param {string} c a single character
+   * @returns {boolean} `true` if the argument is a blank, break or the end of the input, `false` if otherwise
+   */
+  function isBlankOrEnd(c: string): boolean {
+    return c === "" || isBlank(c) || isBreak(c);
+  }
+  /**
+   * Checks if the argument can be written as a plain scalar without changing it's content.
+   * @param {string} v the value to be checked
+   * @param {boolean} flow `true` if the value will be written inside a flow collection
+   * @returns {boolean} `true` if the argument needs no quotes, `false` if otherwise
+   */
+  function isPlainSafe(v: string, flow: boolean): boolean {
+    if (v.length === 0 || v !== v.trim() || /[\n\r\t\x00-\x08\x0b-\x1f]/.test(v))
+      return false;
+    if (
+      INDICATORS.indexOf(v[0]) >= 0 &&
+      !(
+        "-?:".indexOf(v[0]) >= 0 &&
+        v.length > 1 &&
+        !isBlank(v[1]) &&
+        FLOW_INDICATORS.indexOf(v[1]) < 0
+      )
+    )
+      return false;
+    if (/^(---|\.\.\.)/.test(v)) return false;
+    if (v.indexOf(": ") >= 0 || v.indexOf(" #") >= 0 || v.endsWith(":"))
+      return false;
+    return !flow || !/[,\[\]{}]/.test(v);
+  }
+  /**
+   * @summary The core schema.
+   * @description
+   * Resolves a scalar's content to a json value using the [core schema](https://yaml.org/spec/1.2.2/#103-core-schema). The tag
+   * `?` is given to plain scalars without an explicit tag and `!` to quoted and block scalars without an explicit tag.
+   * @param {string} value the content of a scalar
+   * @param {string} tag the tag of the scalar
+   * @returns {json.Value} the resolved value
+   * @throws {parser.ParseError} if the value does not match an explicit core schema tag such as `!!int`
+   */
+  function coreSchema(value: string, tag: string): json.Value {
+    const t = tag.startsWith("!!") ? CORE_PREFIX + tag.substring(2) : tag;
+    if (t === "!" || t === `${CORE_PREFIX}str`) return value;
+    let v: json.Value = value;
+    if (/^(null|Null|NULL|~)?$/.test(value)) v = null;
+    else if (/^(true|True|TRUE|false|False|FALSE)$/.test(value))
+      v = value[0] === "t" || value[0] === "T";
+    else if (/^[-+]?[0-9]+$/.test(value)) v = Number.parseInt(value, 10);
+    else if (/^0o[0-7]+$/.test(value))
+      v = Number.parseInt(value.substring(2), 8);
+    else if (/^0x[0-9a-fA-F]+$/.test(value))
+      v = Number.parseInt(value.substring(2), 16);
+    else if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(value))
+      v = Number.parseFloat(value);
+    else if (/^[-+]?\.(inf|Inf|INF)$/.test(value))
+      v = value[0] === "-" ? -Infinity : Infinity;
+    else if (/^\.(nan|NaN|NAN)$/.test(value)) v = NaN;
+    if (t === "?") return v;
+    if (
+      (t === `${CORE_PREFIX}null` && v === null) ||
+      (t === `${CORE_PREFIX}bool` && typeof v === "boolean") ||
+      (t === `${CORE_PREFIX}int` && Number.isInteger(v)) ||
+      (t === `${CORE_PREFIX}float` && typeof v === "number")
+    )
+      return v;
+    if (t.startsWith(CORE_PREFIX))
+      throw new parser.ParseError(`'${value}' cannot be resolved as ${tag}`);
+    return value;
+  }
+  /**
+   * Skips the comments tokens at the current position of the lexer, storing block comments in {@linkcode Params.block} and
+   * inline comments in {@linkcode Params.inline}.
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Parser} p a reference for a parser
+   * @param {Params} pa a reference for a Params
+   * @returns {void}
+   */
+  function skipComments(
+    l: MutableLexer<any>,
+    s: Syntax,
+    p: Parser,
+    pa: Params
+  ): void {
+    while (true) {
+      if (p.match(COMMENT, l, s, pa))
+        pa.block.push(p.consume(COMMENT, l, s, pa).value);
+      else if (p.match(INLINE_COMMENT, l, s, pa))
+        pa.inline = p.consume(INLINE_COMMENT, l, s, pa).value;
+      else break;
+    }
+  }
+  /**
+   * Removes and returns the block comments stored in the params object.
+   * @param {Params} pa a reference for a Params
+   * @returns {readonly string[]} the block comments that were stored
+   */
+  function takeBlock(pa: Params): readonly string[] {
+    const b = Object.freeze(pa.block);
+    pa.block = [];
+    return b;
+  }
+  /**
+   * Removes and returns the inline comment stored in the params object.
+   * @param {Params} pa a reference for a Params
+   * @returns {string} the inline comment that was stored
+   */
+  function takeInline(pa: Params): string {
+    const i = pa.inline;
+    pa.inline = "";
+    return i;
+  }
+  /**
+   * Checks if the next token in the lexer starts a node
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Parser} p a reference for a parser
+   * @param {Params} pa a reference for a Params
+   * @returns {boolean} `true` if the next token can start a node, `false` if otherwise
+   */
+  function isNodeStart(
+    l: MutableLexer<any>,
+    s: Syntax,
+    p: Parser,
+    pa: Params
+  ): boolean {
+    for (const t of NODE_START) if (p.match(t, l, s, pa)) return true;
+    return false;
+  }
+  /**
+   * Parses the next node. If there is none (as in `key:` with no value), an empty plain scalar is returned.
+   * @param {Parser} p a reference for a parser
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Params} pa a reference for a Params
+   * @param {boolean} indentless allows a block sequence that has the same indentation as it's parent mapping's keys
+   * @returns {Node} the parsed node
+   */
+  function parseNode(
+    p: Parser,
+    l: MutableLexer<any>,
+    s: Syntax,
+    pa: Params,
+    indentless = false
+  ): Node {
+    skipComments(l, s, p, pa);
+    if (isNodeStart(l, s, p, pa) || (indentless && p.match(ENTRY, l, s, pa)))
+      return p.parse(l, s, pa) as Node;
+    return new Scalar("", "");
+  }
+  /**
+   * Parses a node that follows an indicator such as `-` and `:` and attaches the comments found around it to it.
+   * @param {Parser} p a reference for a parser
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Params} pa a reference for a Params
+   * @param {boolean} indentless allows a block sequence that has the same indentation as it's parent mapping's keys
+   * @returns {Node} the parsed node
+   */
+  function parseValue(
+    p: Parser,
+    l: MutableLexer<any>,
+    s: Syntax,
+    pa: Params,
+    indentless = false
+  ): Node {
+    skipComments(l, s, p, pa);
+    const lead = takeInline(pa);
+    const n = parseNode(p, l, s, pa, indentless);
+    skipComments(l, s, p, pa);
+    const inline = takeInline(pa) || lead;
+    if (inline.length > 0)
+      n.comments = { preceding: n.comments.preceding, inline };
+    return n;
+  }
+  /**
+   * Records a directive in the params object.
+   * @param {Token} t the directive token
+   * @param {Params} pa a reference for a Params
+   * @returns {void}
+   * @throws {parser.SyntaxError} if the directive is a `%YAML` or `%TAG` directive that is malformed or repeated
+   */
+  function directive(t: Token, pa: Params): void {
+    const [name, ...args] = t.value.split(/[ \t]+/);
+    if (name === "YAML") {
+      if (args.length !== 1 || !/^1\.[0-9]+$/.test(args[0]))
+        throw new parser.SyntaxError(
+          t,
+          new parser.ParseError(`Unsupported yaml version '${args.join(" ")}'`)
+        );
+      else if (utility.isValid(pa.version))
+        throw new parser.SyntaxError(
+          t,
+          new parser.ParseError("Found a duplicate %YAML directive")
+        );
+      pa.version = args[0];
+    } else if (name === "TAG") {
+      if (args.length !== 2 || !/^!([-0-9A-Za-z]*!)?$/.test(args[0]))
+        throw new parser.SyntaxError(
+          t,
+          new parser.ParseError(`Malformed %TAG directive '${t.value}'`)
+        );
+      else if (pa.tags.has(args[0]))
+        throw new parser.SyntaxError(
+          t,
+          new parser.ParseError(`Found a duplicate %TAG directive for '${args[0]}'`)
+        );
+      pa.tags.set(args[0], args[1]);
+    }
+    pa.directives = Object.freeze([...pa.directives, t.value]);
+  }
+  /**
+   * Parses the next document in the lexer, skipping the stream's start token and any `...` marker that is not followed by a
+   * document.
+   * @param {Parser} p a reference for a parser
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Params} pa a reference for a Params
+   * @returns {Document | undefined} the parsed document or `undefined` if the end of the stream was reached
+   */
+  function nextDocument(
+    p: Parser,
+    l: MutableLexer<any>,
+    s: Syntax,
+    pa: Params
+  ): Document | undefined {
+    while (true) {
+      skipComments(l, s, p, pa);
+      if (p.match(INIT, l, s, pa)) p.consume(INIT, l, s, pa);
+      else if (p.match(DOC_END, l, s, pa)) p.consume(DOC_END, l, s, pa);
+      else break;
+    }
+    if (p.match(EOF, l, s, pa)) return undefined;
+    else if (p.match(DOC_START, l, s, pa))
+      return parseDocument(p.consume(DOC_START, l, s, pa) as Token, p, l, s, pa);
+    else if (p.match(DIRECTIVE, l, s, pa))
+      return parseDocument(p.consume(DIRECTIVE, l, s, pa) as Token, p, l, s, pa);
+    return parseDocument(undefined, p, l, s, pa);
+  }
+  /**
+   * Checks if the tokens of the lexer include all the tokens of the next document i.e if the tokens of the next document are
+   * followed by a document marker or directive.
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @returns {boolean} `true` if the next document can be parsed without waiting for more data
+   */
+  function hasDocument(l: MutableLexer<any>): boolean {
+    const q = l.processed();
+    let i = 0,
+      started = false;
+    for (; i < q.length; i++) {
+      const t = q[i].type;
+      if (
+        t.equals(INIT) ||
+        t.equals(COMMENT) ||
+        t.equals(INLINE_COMMENT) ||
+        t.equals(DIRECTIVE) ||
+        (t.equals(DOC_END) && !started)
+      )
+        continue;
+      else if (t.equals(DOC_START) && !started) started = true;
+      else break;
+    }
+    for (; i < q.length; i++)
+      if (
+        q[i].type.equals(DOC_START) ||
+        q[i].type.equals(DOC_END) ||
+        q[i].type.equals(DIRECTIVE)
+      )
+        return true;
+    return false;
+  }
+  /**
+   * Parses a document from the current position of the lexer.
+   * @param {Token | undefined} yp the `---` or directive token that started the document. `undefined` for a bare document
+   * @param {Parser} p a reference for a parser
+   * @param {MutableLexer<any>} l a reference for a lexer
+   * @param {Syntax} s a reference for a syntax
+   * @param {Params} pa a reference for a Params
+   * @returns {Document} the parsed document
+   */
+  function parseDocument(
+    yp: Token | undefined,
+    p: Parser,
+    l: MutableLexer<any>,
+    s: Syntax,
+    pa: Params
+  ): Document {
+    pa.anchors = new Map();
+    pa.expansions = 0;
+    pa.document++;
+    pa.directives = [];
+    pa.version = undefined;
+    pa.tags = new Map();
+    let start = utility.isValid(yp) && yp!.type.equals(DOC_START);
+    if (utility.isValid(yp) && yp!.type.equals(DIRECTIVE)) {
+      directive(yp!, pa);
+      skipComments(l, s, p, pa);
+      while (p.match(DIRECTIVE, l, s, pa)) {
+        directive(p.consume(DIRECTIVE, l, s, pa) as Token, pa);
+        skipComments(l, s, p, pa);
+      }
+      p.consume(DOC_START, l, s, pa);
+      start = true;
+    }
+    const directives = pa.directives;
+    const preceding = takeBlock(pa);
+    skipComments(l, s, p, pa);
+    const root =
+      p.match(DOC_START, l, s, pa) ||
+      p.match(DOC_END, l, s, pa) ||
+      p.match(DIRECTIVE, l, s, pa)
+        ? new Scalar("", "")
+        : parseValue(p, l, s, pa);
+    skipComments(l, s, p, pa);
+    const trailing = takeBlock(pa);
+    const end = p.match(DOC_END, l, s, pa);
+    if (end) p.consume(DOC_END, l, s, pa);
+    else if (!p.match(DOC_START, l, s, pa)) p.consume(EOF, l, s, pa);
+    return new Document(
+      { preceding },
+      root,
+      start,
+      end,
+      Object.freeze(directives),
+      trailing
+    );
+  }
+  /**
+   * Gets the number of spaces used for each level of indentation when formatting.
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {number} the indentation width
+   */
+  function step(s?: Syntax): number {
+    return s?.indent ?? 2;
+  }
+  /**
+   * Formats the node properties (the anchor and the tag) of the argument.
+   * @param {Node} n the node whose properties are to be formatted
+   * @returns {string} the properties as they appear in a yaml document
+   */
+  function props(n: Node): string {
+    return [utility.isValid(n.anchor) ? `&${n.anchor}` : "", n.tag ?? ""]
+      .filter((x) => x.length > 0)
+      .join(" ");
+  }
+  /**
+   * Checks if the argument or any of the nodes within it has an anchor
+   * @param {Node} n the node to be checked
+   * @returns {boolean} `true` if an anchor is defined within the argument
+   */
+  function isAnchored(n: Node): boolean {
+    if (utility.isValid(n.anchor)) return true;
+    if (n instanceof Mapping)
+      return n.entries.some(([k, v]) => isAnchored(k) || isAnchored(v));
+    if (n instanceof Sequence) return n.items.some(isAnchored);
+    return false;
+  }
+  /**
+   * Copies the argument such that every non-empty mapping or sequence that is equal to one that precedes it is replaced with an
+   * alias of the preceding one, which is given an anchor if it does not have one already. Comments within a replaced node are lost.
+   * @param {Node} root the node to be copied
+   * @returns {Node} the copy
+   */
+  function shareRepeats(root: Node): Node {
+    const names = new Set<string>();
+    (function collect(n: Node) {
+      if (utility.isValid(n.anchor)) names.add(n.anchor!);
+      if (n instanceof Mapping)
+        n.entries.forEach(([k, v]) => (collect(k), collect(v)));
+      else if (n instanceof Sequence) n.items.forEach(collect);
+    })(root);
+    const seen = new Map<number, Node[]>();
+    const bound = new Map<string, Node>();
+    const copies = new Map<Node, Node>();
+    let id = 0;
+    const visit = (n: Node): Node => {
+      if (n instanceof Alias) return n;
+      if (utility.isValid(n.anchor)) bound.set(n.anchor!, n);
+      if (
+        (n instanceof Mapping && n.entries.length > 0) ||
+        (n instanceof Sequence && n.items.length > 0)
+      ) {
+        const h = n.hashCode32();
+        if (!isAnchored(n)) {
+          const first = (seen.get(h) ?? []).find(
+            (x) =>
+              x.equals(n) &&
+              (!utility.isValid(x.anchor) || bound.get(x.anchor!) === x)
+          );
+          if (utility.isValid(first)) {
+            const target = copies.get(first!)!;
+            if (!utility.isValid(target.anchor)) {
+              do target.anchor = `id${String(++id).padStart(3, "0")}`;
+              while (names.has(target.anchor));
+              bound.set(target.anchor, first!);
+            }
+            const a = new Alias(target.anchor!, target);
+            a.comments = n.comments;
+            return a;
+          }
+        }
+        seen.set(h, [...(seen.get(h) ?? []), n]);
+      }
+      let c: Node;
+      if (n instanceof Mapping)
+        c = new Mapping(
+          Object.freeze(
+            n.entries.map(([k, v]) => [visit(k), visit(v)] as [Node, Node])
+          ),
+          n.flow
+        );
+      else if (n instanceof Sequence)
+        c = new Sequence(Object.freeze(n.items.map(visit)), n.flow);
+      else c = new Scalar((n as Scalar).value, (n as Scalar).style);
+      c.comments = n.comments;
+      c.tag = n.tag;
+      c.anchor = n.anchor;
+      copies.set(n, c);
+      return c;
+    };
+    return visit(root);
+  }
+  /**
+   * Checks if the argument is a non-empty block mapping or block sequence
+   * @param {Node} n the node to be checked
+   * @returns {boolean} `true` if the argument is a block collection with at least one entry
+   */
+  function isBlockCollection(n: Node): n is Mapping | Sequence {
+    return (
+      (n instanceof Mapping && !n.flow && n.entries.length > 0) ||
+      (n instanceof Sequence && !n.flow && n.items.length > 0)
+    );
+  }
+  /**
+   * Checks if the argument is a literal or folded scalar
+   * @param {Node} n the node to be checked
+   * @returns {boolean} `true` if the argument is a block scalar
+   */
+  function isBlockScalar(n: Node): n is Scalar {
+    return n instanceof Scalar && (n.style === "|" || n.style === ">");
+  }
+  /**
+   * Stringifies the block comments of an expression
+   * @param {{ preceding: readonly string[] }} comments the comments to be unwrapped
+   * @param {string} indent the indentation of each comment line
+   * @returns {string} each comment on it's own line
+   */
+  function unwrapComments(
+    comments: { preceding: readonly string[] },
+    indent: string
+  ): string {
+    return comments.preceding.map((c) => `${indent}#${c}\n`).join("");
+  }
+  /**
+   * Stringifies the inline comment of an expression
+   * @param {{ inline?: string }} comments the comments of an expression
+   * @returns {string} the inline comment (with a leading space) or an empty string if there is none
+   */
+  function inlineComment(comments: { inline?: string }): string {
+    return comments.inline ? ` #${comments.inline}` : "";
+  }
+  /**
+   * Formats a scalar that is not a block scalar in a way that keeps it on a single line.
+   * @param {Scalar} n the scalar to be formatted
+   * @param {boolean} flow `true` if the scalar is inside a flow collection
+   * @returns {string} the formatted scalar. An empty plain scalar returns an empty string
+   */
+  function scalarText(n: Scalar, flow: boolean): string {
+    const v = n.value;
+    if (n.style === "'" && v.indexOf("\n") < 0)
+      return `'${v.replace(/'/g, "''")}'`;
+    if (n.style === "" && (v.length === 0 || isPlainSafe(v, flow))) return v;
+    return JSON.stringify(v);
+  }
+  /**
+   * Re-arranges the lines of a folded scalar's content such that reading them back yields the same content.
+   * @param {string[]} lines the content of the scalar split at each line break
+   * @returns {string[]} the lines to be written
+   */
+  function fold(lines: string[]): string[] {
+    const out = Array<string>();
+    let prev: string | undefined = undefined;
+    let k = 0;
+    for (let i = 0; i < lines.length; i++) {
+      if (i > 0) k++;
+      const l = lines[i];
+      if (l.length === 0) continue;
+      const n =
+        prev === undefined || /^[ \t]/.test(prev) || /^[ \t]/.test(l)
+          ? prev === undefined
+            ? k
+            : k - 1
+          : k;
+      for (let j = 0; j < n; j++) out.push("");
+      out.push(l);
+      prev = l;
+      k = 0;
+    }
+    return out;
+  }
+  /**
+   * Formats a literal or folded scalar whose parent collection starts at the given column.
+   * @param {Scalar} n the block scalar
+   * @param {number} col the column of the parent collection
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {string} the header of the scalar followed by it's content on the next lines
+   */
+  function blockScalar(n: Scalar, col: number, s?: Syntax): string {
+    const ind = utility.chars(" ", col + step(s));
+    const trail = /\n*$/.exec(n.value)![0].length;
+    const body = n.value.substring(0, n.value.length - trail);
+    const lines =
+      body.length === 0
+        ? []
+        : n.style === ">"
+        ? fold(body.split("\n"))
+        : body.split("\n");
+    const first = lines.find((x) => x.length > 0) ?? "";
+    let r = n.style;
+    if (/^[ \t]/.test(first)) r += String(step(s));
+    r += trail === 0 ? "-" : trail === 1 && lines.length > 0 ? "" : "+";
+    r += inlineComment(n.comments) + "\n";
+    for (const line of lines) r += line.length > 0 ? `${ind}${line}\n` : "\n";
+    return r + utility.chars("\n", lines.length > 0 ? trail - 1 : trail);
+  }
+  /**
+   * Formats a node on a single line, using flow styles for collections.
+   * @param {Node} n the node to be formatted
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {string} the formatted node
+   */
+  function flowText(n: Node, s?: Syntax): string {
+    if (n instanceof Alias) return `*${n.name}`;
+    const pr = props(n);
+    let t: string;
+    if (n instanceof Mapping)
+      t = `{${n.entries
+        .map(([k, v]) => `${keyText(k, true, s)}: ${flowText(v, s)}`)
+        .join(", ")}}`;
+    else if (n instanceof Sequence)
+      t = `[${n.items.map((x) => flowText(x, s)).join(", ")}]`;
+    else {
+      t = scalarText(n as Scalar, true);
+      if (t.length === 0) return pr.length > 0 ? pr : "null";
+    }
+    return pr.length > 0 ? `${pr} ${t}` : t;
+  }
+  /**
+   * Formats a scalar or a flow (or empty) collection so that it fits on the line of it's parent's indicator.
+   * @param {Node} n the node to be formatted
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {string} the formatted node
+   */
+  function inlineText(n: Node, s?: Syntax): string {
+    if (n instanceof Scalar)
+      return [props(n), scalarText(n, false)]
+        .filter((x) => x.length > 0)
+        .join(" ");
+    return flowText(n, s);
+  }
+  /**
+   * Formats an implicit key. Aliases are followed by a space as `:` is a valid character of an alias name.
+   * @param {Node} n the key
+   * @param {boolean} flow `true` if the key is in a flow mapping
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {string} the formatted key without the `:` indicator
+   */
+  function keyText(n: Node, flow: boolean, s?: Syntax): string {
+    if (n instanceof Alias) return `*${n.name} `;
+    return flow ? flowText(n, s) : inlineText(n, s);
+  }
+  /**
+   * Checks if the argument can be written as an implicit key i.e without the `?` indicator
+   * @param {Node} n the key
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {boolean} `true` if the argument can be written as an implicit key
+   */
+  function isImplicitKey(n: Node, s?: Syntax): boolean {
+    if (isBlockCollection(n) || isBlockScalar(n)) return false;
+    const t = inlineText(n, s);
+    return t.indexOf("\n") < 0 && t.length <= 1024;
+  }
+  /**
+   * Formats the node that follows an indicator such as `-`, `?`, `:` or `---`.
+   * @param {Node} n the node to be formatted
+   * @param {number} col the column of the collection that contains the indicator
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {string} the text that comes after the indicator, ending with a line break
+   */
+  function nodeText(n: Node, col: number, s?: Syntax): string {
+    const pr = props(n);
+    if (isBlockCollection(n))
+      return `${pr.length > 0 ? " " + pr : ""}${inlineComment(
+        n.comments
+      )}\n${blockText(n, col + step(s), s)}`;
+    if (isBlockScalar(n))
+      return ` ${pr.length > 0 ? pr + " " : ""}${blockScalar(n, col, s)}`;
+    const t = inlineText(n, s);
+    return `${t.length > 0 ? " " + t : ""}${inlineComment(n.comments)}\n`;
+  }
+  /**
+   * Formats a block mapping or block sequence at the given column
+   * @param {Mapping | Sequence} n the collection
+   * @param {number} col the column at which each key or entry starts
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {string} the formatted collection, with each line ending in a line break
+   */
+  function blockText(n: Mapping | Sequence, col: number, s?: Syntax): string {
+    const ind = utility.chars(" ", col);
+    let r = "";
+    if (n instanceof Mapping) {
+      for (const [k, v] of n.entries) {
+        r += unwrapComments(k.comments, ind);
+        if (isImplicitKey(k, s)) r += `${ind}${keyText(k, false, s)}:`;
+        else r += `${ind}?${nodeText(k, col, s)}${ind}:`;
+        r += nodeText(v, col, s);
+      }
+      return r;
+    }
+    for (const item of n.items) {
+      r += unwrapComments(item.comments, ind);
+      if (
+        isBlockCollection(item) &&
+        props(item).length === 0 &&
+        !item.comments.inline &&
+        (item instanceof Mapping ? item.entries[0][0] : item.items[0])
+          .comments.preceding.length === 0
+      )
+        r += `${ind}- ${blockText(item, col + 2, s).substring(col + 2)}`;
+      else r += `${ind}-${nodeText(item, col, s)}`;
+    }
+    return r;
+  }
+  /**
+   * Formats a whole document
+   * @param {Document} d the document
+   * @param {number} index the position of the document in it's stream. Documents after the first always start with `---`
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @returns {string} the formatted document
+   */
+  function documentText(d: Document, index: number, s?: Syntax): string {
+    let r = unwrapComments(d.comments, "");
+    r += d.directives.map((x) => `%${x}\n`).join("");
+    const root = d.root;
+    const marker =
+      d.start || index > 0 || d.directives.length > 0 || props(root).length > 0;
+    if (isBlockCollection(root))
+      r += marker
+        ? `---${nodeText(root, -step(s), s)}`
+        : blockText(root, 0, s);
+    else if (marker) r += `---${nodeText(root, 0, s)}`;
+    else if (
+      !(root instanceof Scalar && root.style === "" && root.value.length === 0)
+    )
+      r += nodeText(root, 0, s).substring(1);
+    r += unwrapComments({ preceding: d.trailing }, "");
+    if (d.end) r += "...\n";
+    return r;
+  }
+  /**
+   * Checks if the argument is the merge key `<<`
+   * @param {Node} n the key of a mapping entry
+   * @returns {boolean} `true` if the argument is an untagged plain `<<` or a `<<` with the `!!merge` tag
+   */
+  function isMergeKey(n: Node): boolean {
+    return (
+      n instanceof Scalar &&
+      n.value === "<<" &&
+      ((n.style === "" && !utility.isValid(n.tag)) ||
+        n.tag === "!!merge" ||
+        n.tag === `!<${CORE_PREFIX}merge>`)
+    );
+  }
+  /**
+   * Converts a node into it's in-memory value. The entries of mappings merged with the `<<` key come before the entries of the
+   * mapping itself, which override them.
+   * @param {Node} n the node to be converted
+   * @param {Syntax | undefined} s a reference for a syntax
+   * @param {Map<Node, json.Value> | undefined} shared the values of the anchored nodes converted so far. If this is `undefined`,
+   * each alias is converted into a copy of the value of the node it refers to, else it is converted into that same value.
+   * @returns {json.Value} the in-memory value of the argument
+   * @throws {expression.FormatError} if a mapping has duplicate keys or a merge key is not mapped to mappings
+   */
+  function toJS(
+    n: Node,
+    s?: Syntax,
+    shared?: Map<Node, json.Value>
+  ): json.Value {
+    if (n instanceof Alias) {
+      if (!utility.isValid(shared)) return toJS(n.target, s);
+      if (!shared!.has(n.target))
+        shared!.set(n.target, toJS(n.target, s, shared));
+      return shared!.get(n.target)!;
+    }
+    let value: json.Value;
+    if (n instanceof Mapping) {
+      const o: json.Pair = {};
+      const merged: json.Pair = {};
+      for (const [k, v] of n.entries) {
+        if (isMergeKey(k)) {
+          const m = toJS(v, s, shared);
+          for (const x of Array.isArray(m) ? m : [m]) {
+            if (json.isAtomic(x) || Array.isArray(x))
+              throw new expression.FormatError(
+                "The value of a merge key must be a mapping or a sequence of mappings"
+              );
+            for (const key in x as json.Pair)
+              if (!Object.prototype.hasOwnProperty.call(merged, key))
+                merged[key] = (x as json.Pair)[key];
+          }
+          continue;
+        }
+        const key =
+          k instanceof Scalar || (k instanceof Alias && k.target instanceof Scalar)
+            ? String(toJS(k, s, shared))
+            : JSON.stringify(toJS(k, s, shared));
+        if (Object.prototype.hasOwnProperty.call(o, key))
+          throw new expression.FormatError(`Duplicate mapping key '${key}' found`);
+        o[key] = toJS(v, s, shared);
+      }
+      value = Object.assign(merged, o);
+    } else if (n instanceof Sequence)
+      value = n.items.map((x) => toJS(x, s, shared));
+    else {
+      const sc = n as Scalar;
+      const tag = sc.tag ?? (sc.style === "" ? "?" : "!");
+      value = utility.isValid(s)
+        ? s!.parse(sc.value, tag)
+        : coreSchema(sc.value, tag);
+    }
+    if (utility.isValid(shared) && utility.isValid(n.anchor))
+      shared!.set(n, value);
+    return value;
+  }
+  /**
+   * @summary Builds a syntax for the yaml pipeline.
+   * @description
+   * A builder for the {@linkcode Syntax} object used by the yaml pipeline. The default values of this builder are:
+   * ```js
+   * {
+   *   comments: { retain: true },
+   *   indent: 2,
+   *   expansionLimit: 100000,
+   *   metadata: {
+   *     fileExt: "yaml",
+   *     isStandard: true,
+   *     standard: "https://yaml.org/spec/1.2.2/",
+   *     mediaType: "application/yaml, application/x-yaml, text/yaml"
+   *   },
+   *   parse: (v, tag) => {}//the core schema
+   * }
+   * ```
+   * @remark
+   * Whenever 'syntax' is mentioned in the docs of this class, it refers to the final object that will be returned when {@link SyntaxBuilder.build `SyntaxBuilder.build`} is called.
+   */
+  export class SyntaxBuilder implements utility.Builder<Syntax> {
+    /**Represent the comment part*/
+    private _com = { retain: true };
+    /**The number of spaces per indentation level used when formatting */
+    private _ind = 2;
+    /**The maximum number of nodes that aliases may add to a document */
+    private _exp = 100000;
+    /**metadata part of a syntax*/
+    private _md = {
+      fileExt: "yaml",
+      isStandard: true,
+      standard: "https://yaml.org/spec/1.2.2/",
+      mediaType: "application/yaml, application/x-yaml, text/yaml",
+    };
+    /**the scalar resolver of this syntax*/
+    private _p: (v: string, tag: string) => json.Value = coreSchema;
+    /**the infix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _infCmdlets: [parser.GType<string>, Command][] = [];
+    /**the prefix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _preCmdlets: [parser.GType<string>, Command][] = [];
+    /**the postfix array that hold a 2-length tuple of `parser.GType<string>` and `Command`
+     * the default is `[]`
+     * @defaultValue `[]`*/
+    private _posCmdlets: [parser.GType<string>, Command][] = [];
+    /**A function for getting the correct command based on the direction */
+    private _getCmd = (
+      d: parser.Direction,
+      type: parser.GType<string>
+    ): Command | undefined => {
+      switch (d) {
+        case parser.Direction.PREFIX:
+        default: {
+          const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+        }
+        case parser.Direction.INFIX: {
+          const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+        }
+        case parser.Direction.POSTFIX:
+          const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+          return x ? x[1] : undefined;
+      }
+    };
+    /**
+     * Constructs a `SyntaxBuilder`. This specifically compiles all the prefix commands needed by the syntax
+     */
+    constructor() {
+      this.addPrefixCommand(INIT, new Initialize());
+      this.addPrefixCommand(MAP_START, new ParseBlockMapping());
+      this.addPrefixCommand(SEQ_START, new ParseBlockSequence());
+      this.addPrefixCommand(ENTRY, new ParseIndentlessSequence());
+      this.addPrefixCommand(FLOW_MAP_START, new ParseFlowMapping());
+      this.addPrefixCommand(FLOW_SEQ_START, new ParseFlowSequence());
+      this.addPrefixCommand(TAG, new ParseTag());
+      this.addPrefixCommand(ANCHOR, new ParseAnchor());
+      this.addPrefixCommand(ALIAS, new ParseAlias());
+      this.addPrefixCommand(PLAIN, new ParseScalar());
+      this.addPrefixCommand(SINGLE, new ParseScalar());
+      this.addPrefixCommand(DOUBLE, new ParseScalar());
+      this.addPrefixCommand(LITERAL, new ParseScalar());
+      this.addPrefixCommand(FOLDED, new ParseScalar());
+    }
+    /**
+     * Retains and allows comments to be formatted during formatting.
+     * @param {boolean} b `true` to retain comments `false` otherwise
+     * @defaultValue `true`
+     * @default {true}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.comments.retain}
+     */
+    public retainComments(b: boolean): SyntaxBuilder {
+      this._com.retain = b;
+      return this;
+    }
+    /**
+     * Sets the number of spaces used for each level of indentation when the parsed data is formatted.
+     * @param {number} n an integer in the range [1, 9]. This is the range of the indentation indicator of block scalars
+     * @defaultValue `2`
+     * @default {2}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if the argument is not an integer in the range [1, 9]
+     * @see {@linkcode Syntax.indent}
+     */
+    public setIndent(n: number): SyntaxBuilder {
+      if (!Number.isInteger(n) || n < 1 || n > 9)
+        throw new Error("The indentation must be an integer from 1 to 9");
+      this._ind = n;
+      return this;
+    }
+    /**
+     * Sets the maximum number of nodes that the aliases in a document may add to it when they are expanded. For example, in
+     * `[&a [x, y], *a, *a]` each alias adds 3 nodes (the sequence and its 2 entries), for a total of 6.
+     * @param {number} n a non-negative integer or `Infinity` to allow any number of expansions
+     * @defaultValue `100000`
+     * @default {100000}
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @throws {Error} if the argument is negative or is neither an integer nor `Infinity`
+     * @see {@linkcode Syntax.expansionLimit}
+     */
+    public setExpansionLimit(n: number): SyntaxBuilder {
+      if (!(n >= 0 && (Number.isInteger(n) || n === Infinity)))
+        throw new Error("The expansion limit must be a non-negative integer");
+      this._exp = n;
+      return this;
+    }
+    /**
+     * Sets the function that resolves scalars to in-memory values. Will not set anything if the argument is `null` or `undefined`.
+     * @param {(v: string, tag: string) => json.Value} p a function that accepts the content and the tag of a scalar and returns a `json.Value` type.
+     * Plain scalars without an explicit tag have the tag `?` and other scalars without an explicit tag have the tag `!`.
+     * @returns {SyntaxBuilder} this same builder object for method chaining
+     * @see {@linkcode Syntax.parse}
+     */
+    public setFormatParser(
+      p: (v: string, tag: string) => json.Value
+    ): SyntaxBuilder {
+      this._p = p ?? this._p;
+      return this;
+    }
+    /**
+     * Attempts to push the second and third argument into the given array. If the non-array arguments already exist in the array, then an overwrite operation is performed.
+     * @param {[parser.GType<string>, Command][]} map an array for type/command tuples
+     * @param { parser.GType<string>} t the type to be added to the array
+     * @param {Command} cmd the command to be added with the type
+     * @returns {void} does not return anything
+     */
+    private _pushOrOverite(
+      map: [parser.GType<string>, Command][],
+      t: parser.GType<string>,
+      cmd: Command
+    ): void {
+      for (let i = 0; i < map.length; i++)
+        if (map[i][0].equals(t)) {
+          map[i] = [t, cmd];
+          return;
+        }
+      map.push([t, cmd]);
+    }
+    /**
+     * @summary registers an infix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with infix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+     * @remark
+     * There are no default infix commands.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible infix type.
+     * @param {Command} cmd the command which can parse infix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addInfixCommand(
+      type: parser.GType<string>,
+      cmd: Command
+    ): SyntaxBuilder {
+      this._pushOrOverite(this._infCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the infix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addInfixCommand
+     */
+    public removeInfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._infCmdlets = this._infCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a prefix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with prefix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * Consecutive calls of this method with the same `parser.GType<string>` invalidates the previous call with that `parser.GType<string>`.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible prefix type.
+     * @param {Command} cmd the command which can parse prefix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see parser.Syntax.getCommand
+     */
+    public addPrefixCommand(
+      type: parser.GType<string>,
+      cmd: Command
+    ): SyntaxBuilder {
+      this._pushOrOverite(this._preCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the prefix command registered with the given type
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPrefixCommand
+     */
+    public removePrefixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._preCmdlets = this._preCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * @summary registers a postfix {@link Command}
+     * @description
+     * Registers a {@link parser.GType<string>} (which is compatible with postfix tokens) with the corresponding {@link Command} that can parse that `parser.GType<string>`.
+     * @remark
+     * Calling this method has no effect on the built `Syntax` as {@link Parser} does not support {@link parser.Direction.POSTFIX}.
+     * @param {parser.GType<string>} type the type with which to query this command. This is expected to be a compatible postfix type.
+     * @param {Command} cmd the command which can parse postfix tokens into {@link Expression expression(s)}
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see Syntax.getCommand
+     */
+    public addPostfixCommand(
+      type: parser.GType<string>,
+      cmd: Command
+    ): SyntaxBuilder {
+      this._pushOrOverite(this._posCmdlets, type, cmd);
+      return this;
+    }
+    /**
+     * Removes the postfix command registered with the given type. In practice, this method does nothing
+     * @param {parser.GType<string>} type the type of command to be removed
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @see addPostfixCommand
+     */
+    public removePostfixCommand(type: parser.GType<string>): SyntaxBuilder {
+      this._posCmdlets = this._posCmdlets.filter((v) => !v[0].equals(type));
+      return this;
+    }
+    /**
+     * Sets the extension string associated with the syntax as specified by {@link `Syntax.metadata.fileExt`}
+     * @remark
+     * The default is `'yaml'`.
+     * @param {string} ext the file extension as a string. This should not have any trailing dot(s). An undefined or null value has no effect
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setFileExt(ext: string): SyntaxBuilder {
+      this._md.fileExt = ext ?? this._md.fileExt;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.isStandard isStandard property} in the syntax to be built.
+     * @remark
+     * The default is `true`.
+     * @param {boolean} b `true` if the syntax is a web standard `false` if otherwise. A truthy value will be converted to a boolean.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setIsStandard(b: boolean): SyntaxBuilder {
+      this._md.isStandard = !!b;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.mediaType media type} associated with the data for which the syntax is being built.
+     * @remark
+     * The default is `'application/yaml, application/x-yaml, text/yaml'`
+     * @param {string} mediaType the MIME type for the syntax
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setMediaType(mediaType: string): SyntaxBuilder {
+      this._md.mediaType = mediaType ?? this._md.mediaType;
+      return this;
+    }
+    /**
+     * Sets the {@link Syntax.metadata.standard standard} associated with the data for which the syntax is being built.
+     * @remark
+     * The default is `'https://yaml.org/spec/1.2.2/'`
+     * @param {string} standard a string representing the standard specification for the data that this syntax will be created for.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public setStandard(standard: string): SyntaxBuilder {
+      this._md.standard = standard ?? this._md.standard;
+      return this;
+    }
+    /**
+     * Clears this builder of all the values set into it by either reseting to the default or completely wiping all values. If the latter is chosen then Every value has to manually set again or this might not build.
+     * @param toDefault `true` for a reset `false` for a complete wipe. This is an optional value that defaults to `true`.
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     */
+    public clear(toDefault = true): SyntaxBuilder {
+      this._getCmd = (
+        d: parser.Direction,
+        type: parser.GType<string>
+      ): Command | undefined => {
+        switch (d) {
+          case parser.Direction.PREFIX:
+          default: {
+            const x = this._preCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.INFIX: {
+            const x = this._infCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+          }
+          case parser.Direction.POSTFIX:
+            const x = this._posCmdlets.filter((x) => x[0].equals(type))[0];
+            return x ? x[1] : undefined;
+        }
+      };
+      if (toDefault) {
+        this._md = {
+          fileExt: "yaml",
+          isStandard: true,
+          standard: "https://yaml.org/spec/1.2.2/",
+          mediaType: "application/yaml, application/x-yaml, text/yaml",
+        };
+        this._com = { retain: true };
+        this._ind = 2;
+        this._exp = 100000;
+        this._p = coreSchema;
+      } else {
+        this._md = {
+          fileExt: "",
+          isStandard: false,
+          standard: "",
+          mediaType: "",
+        };
+        this._com = { retain: false };
+        this._ind = 2;
+        this._exp = 0;
+        this._p = (v: string) => v;
+      }
+      return this;
+    }
+    /**
+     * @inheritdoc
+     * @returns {Syntax}
+     */
+    public build(): Syntax {
+      return Object.freeze({
+        metadata: { ...this._md, encoding: "utf-8" },
+        comments: Object.freeze({ ...this._com }),
+        indent: this._ind,
+        expansionLimit: this._exp,
+        parse: this._p,
+        getCommand: this._getCmd,
+      }) as Syntax;
+    }
+    /**
+     * @summary assigns all values from the syntax argument to the properties of this builder.
+     * @remark
+     * Note that the `encoding` property will not be copied and the argument `from` cannot be `null` or `undefined` or this will throw
+     * @param {Syntax} from the syntax from which this builder will be built
+     * @returns {SyntaxBuilder} the same builder object for method chaining
+     * @throws {Error} if the argument is not a valid object
+     */
+    public rebuild(from: Syntax): SyntaxBuilder {
+      if (!utility.isValid(from)) throw new Error("undefined not allowed here");
+      this._md.fileExt = (from.metadata ?? { fileExt: "" }).fileExt;
+      this._md.isStandard = (from.metadata ?? { isStandard: false }).isStandard;
+      this._md.mediaType = (from.metadata ?? { mediaType: "" }).mediaType;
+      this._md.standard = (from.metadata ?? { standard: "" }).standard;
+      this._com.retain = (from.comments ?? { retain: false }).retain;
+      this._ind = from.indent ?? 2;
+      this._exp = from.expansionLimit ?? 100000;
+      this._p = from.parse;
+      this._getCmd = from.getCommand;
+      return this;
+    }
+  }
+  /**
+   * @summary Defines how yaml data is parsed.
+   * @description
+   * A specialized yaml extension of the {@linkcode parser.Syntax} interface that defines the yaml syntax that this pipeline uses.
+   * It is recommended that users instantiate it through the use of the {@linkcode SyntaxBuilder} class.
+   */
+  export interface Syntax extends parser.GSyntax<Type, Command> {
+    /**
+     * An object that specifies how comments are parsed
+     */
+    readonly comments: {
+      /**
+       * A check that specifies whether to store comments. If `true`, comments can be found in the {@link Expression} they precede
+       * or (for inline comments) follow.
+       * @type {boolean}
+       * @readonly
+       */
+      readonly retain: boolean;
+    };
+    /**
+     * The number of spaces used for each level of indentation by the {@link StringFormat} and {@link FileFormat}. This has no effect
+     * on parsing as yaml allows any indentation as long as it is consistent within a collection.
+     * @type {number}
+     * @readonly
+     */
+    readonly indent: number;
+    /**
+     * The maximum number of nodes that the aliases in a single document may add to it. The parser throws a {@linkcode parser.SyntaxError}
+     * at the first alias that exceeds this limit.
+     * @type {number}
+     * @readonly
+     */
+    readonly expansionLimit: number;
+    /**
+     * User defined resolution of a scalar's content. This enables users to define the in-memory data type they want for a specific
+     * scalar. The default is the yaml core schema.
+     * @param {string} value the content of a scalar
+     * @param {string} tag the tag of the scalar. This is `?` for untagged plain scalars and `!` for other untagged scalars
+     * @returns {json.Value} the in-memory data to be associated with the argument.
+     */
+    parse(value: string, tag: string): json.Value;
+  }
+  /**
+   * @summary An object that holds variables for the parsing process.
+   * @description A mutable visitor object used by the {@linkcode Parser} as a container for variables,
+   * 'a notice board' for the {@link Format formatter}.
+   */
+  export class Params {
+    /**An array of strings representing the most recent consecutive line of comments parsed. This value is emptied when a node claims them. */
+    block = Array<string>();
+    /**The most recent parsed inline comment as a `string`. This value is reset every time a node claims it */
+    inline: string = "";
+    /**The anchored nodes of the current document, by their anchor. A later node with the same anchor replaces the earlier one. */
+    anchors = new Map<string, Node>();
+    /**The number of nodes that the aliases parsed so far have added to the current document */
+    expansions = 0;
+    /**The index of the current (or most recently parsed) document in the stream, starting from `0`. This is `-1` before the first document is parsed. */
+    document = -1;
+    /**The directives of the current document without the `%` such as `YAML 1.2` and `TAG !e! tag:example.com,2000:` */
+    directives: readonly string[] = [];
+    /**The version given by the `%YAML` directive of the current document. `undefined` if the document has no such directive */
+    version?: string;
+    /**The prefixes given by the `%TAG` directives of the current document, by their handle */
+    tags = new Map<string, string>();
+  }
+  /**
+   * A concrete implementation of the {@link parser.GType `GType`}
+   */
+  class Type implements parser.GType<string> {
+    /**
+     * Constructs a `Type` with an assigned unique id and precedence.
+     * @param {string} id a unique id associated with this {@link parser.Type}
+     * @param {number} precedence the precedence of this type. This determines how it will be evaluated in the evaluation hierarchy (per se)
+     */
+    public constructor(
+      public readonly id: string,
+      public readonly precedence: number
+    ) {}
+
+    /**
+     * Test the equality of this `Type` to the given input
+     * @param {(object|undefined)} obj any object to test against `this`
+     * @returns {boolean} `true` if `this` is equal to the input and `false` if otherwise.
+     */
+    public equals(obj?: object): boolean {
+      if (obj instanceof Type)
+        return this.id === obj.id && this.precedence === obj.precedence;
+      return false;
+    }
+  }
+  /**
+   * The type used for end-of-file tokens.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const EOF: parser.GType<string> = new Type(
+    "-1",
+    Number.MIN_SAFE_INTEGER
+  );
+  /**
+   * A special type that starts the stream. There will always be at most one token with this type in every given lexer.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const INIT: parser.GType<string> = new Type(
+    "0",
+    Number.MAX_SAFE_INTEGER
+  );
+  /**
+   * The type for a directive such as `%YAML 1.2` and `%TAG ! tag:example.com,2000:`. The value of the token excludes the `%`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const DIRECTIVE: parser.GType<string> = new Type("1", 1);
+  /**
+   * The type for the document start marker `---`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const DOC_START: parser.GType<string> = new Type("2", 1);
+  /**
+   * The type for the document end marker `...`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const DOC_END: parser.GType<string> = new Type("3", 1);
+  /**
+   * The type for the start of a block mapping. It has no lexeme as it is inferred from the indentation of the first key.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const MAP_START: parser.GType<string> = new Type("4", 2);
+  /**
+   * The type for the start of a block sequence. It has no lexeme as it is inferred from the indentation of the first `-`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const SEQ_START: parser.GType<string> = new Type("5", 2);
+  /**
+   * The type for the end of a block collection. It has no lexeme as it is inferred from a decrease in indentation.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const BLOCK_END: parser.GType<string> = new Type("6", 2);
+  /**
+   * The type for a mapping key. This is either the explicit key indicator `?` or an inferred token with no lexeme that is placed
+   * before an implicit key.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const KEY: parser.GType<string> = new Type("7", 3);
+  /**
+   * The type for the mapping value indicator `:`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const VALUE: parser.GType<string> = new Type("8", 3);
+  /**
+   * The type for the block sequence entry indicator `-`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const ENTRY: parser.GType<string> = new Type("9", 3);
+  /**
+   * The type for `[`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const FLOW_SEQ_START: parser.GType<string> = new Type("10", 4);
+  /**
+   * The type for `]`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const FLOW_SEQ_END: parser.GType<string> = new Type("11", 4);
+  /**
+   * The type for `{`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const FLOW_MAP_START: parser.GType<string> = new Type("12", 4);
+  /**
+   * The type for `}`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const FLOW_MAP_END: parser.GType<string> = new Type("13", 4);
+  /**
+   * The type for `,` within a flow collection
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const FLOW_ENTRY: parser.GType<string> = new Type("14", 4);
+  /**
+   * The type for a node tag such as `!!str`, `!local` and `!<tag:yaml.org,2002:str>`
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const TAG: parser.GType<string> = new Type("15", 5);
+  /**
+   * The type for plain (unquoted) scalars. The value of the token is the content of the scalar after line folding.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const PLAIN: parser.GType<string> = new Type("16", 5);
+  /**
+   * The type for single quoted scalars. The value of the token is the content of the scalar.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const SINGLE: parser.GType<string> = new Type("17", 5);
+  /**
+   * The type for double quoted scalars. The value of the token is the content of the scalar after escapes are processed.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const DOUBLE: parser.GType<string> = new Type("18", 5);
+  /**
+   * The type for literal block scalars i.e scalars started with `|`. The value of the token is the content of the scalar.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const LITERAL: parser.GType<string> = new Type("19", 5);
+  /**
+   * The type for folded block scalars i.e scalars started with `>`. The value of the token is the content of the scalar.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const FOLDED: parser.GType<string> = new Type("20", 5);
+  /**
+   * The type for a comment that is on a line by itself. The value of the token excludes the `#`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const COMMENT: parser.GType<string> = new Type("21", 0);
+  /**
+   * The type for a comment that comes after another token on the same line. The value of the token excludes the `#`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const INLINE_COMMENT: parser.GType<string> = new Type("22", 0);
+  /**
+   * The type for a node anchor such as `&base`. The value of the token excludes the `&`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const ANCHOR: parser.GType<string> = new Type("23", 5);
+  /**
+   * The type for an alias such as `*base`. The value of the token excludes the `*`.
+   * @type {parser.GType<string>}
+   * @constant
+   * @readonly
+   */
+  export const ALIAS: parser.GType<string> = new Type("24", 5);
+  /**
+   * The types of tokens that can start a node.
+   * @type {parser.GType<string>[]}
+   * @constant
+   */
+  const NODE_START = [
+    MAP_START,
+    SEQ_START,
+    FLOW_SEQ_START,
+    FLOW_MAP_START,
+    PLAIN,
+    SINGLE,
+    DOUBLE,
+    LITERAL,
+    FOLDED,
+    TAG,
+    ANCHOR,
+    ALIAS,
+  ];
+  /**
+   * @summary An object representing a valid lexeme in a yaml data format.
+   * @description
+   * A `Token` is concrete implementation of the {@link parser.GToken} interface where each token maps to a one or more lexeme in yaml data.
+   * Some tokens (such as {@linkcode MAP_START} and {@linkcode BLOCK_END}) have no lexeme and are inferred from the indentation.
+   */
+  class Token implements parser.GToken<string> {
+    /**
+     * The length of a token
+     * @type {number}
+     * @readonly
+     * @constant
+     */
+    public readonly length;
+    /**
+     * Constructs a `Token`, giving details such as the line and position (within the data format) from which it was formed
+     * @param {string} value the payload of this token containing the actual value of the data it carries
+     * @param {Type} type the type of the token. This is the main determinant of a token that differentiates one from another
+     * @param {number} lineStart the line within the data format that this token was assembled from
+     * @param {number} lineEnd the line within the data format that this token was assembled from
+     * @param {number} startPos the position within the line from which this token was assembled.
+     */
+    constructor(
+      public readonly value: string,
+      public readonly type: Type,
+      public readonly lineStart: number,
+      public readonly lineEnd: number,
+      public readonly startPos: number
+    ) {
+      this.length = value.length;
+    }
+    /**
+     * Test if the argument is the same `Token` object as `this`.
+     * @param {object | undefined} obj
+     * @returns {boolean} `true` if the argument is a `Token` and is the same type, is in the same line, position as `this`.
+     */
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Token)
+        return (
+          this.lineStart == obj.lineStart &&
+          this.lineEnd == obj.lineEnd &&
+          this.startPos === obj.startPos &&
+          this.type.equals(obj.type)
+        );
+      return false;
+    }
+    /**
+     * Returns the hascode of this `Token`
+     * @returns {number} the hashcode of this token
+     */
+    hashCode32(): number {
+      return utility.hashCode32(
+        true,
+        utility.asHashable(this.value),
+        utility.asHashable(this.type.id),
+        utility.asHashable(this.type.precedence),
+        utility.asHashable(this.startPos),
+        utility.asHashable(this.lineEnd),
+        utility.asHashable(this.lineStart)
+      );
+    }
+    /**
+     * Takes an optional {@linkcode parser.Token} argument and returns a value that specifies the ordering between `this` and the argument.
+     * @param {parser.Token | undefined} obj the value which `this` is tobe compared
+     * @returns {utility.Compare} a numerical value to specify ordering after comparison has been done.
+     * @see {@linkcode utility.Comparable}
+     */
+    compareTo(obj?: parser.Token | undefined): utility.Compare {
+      if (utility.isValid(obj)) {
+        let by = utility.compare(this.lineStart, obj!.lineStart);
+        if (by !== 0) return by;
+        by = utility.compare(this.lineEnd, obj!.lineEnd);
+        if (by !== 0) return by;
+        by = utility.compare(this.startPos, obj!.startPos);
+        if (by !== 0) return by;
+        by = utility.asCompare(
+          utility.hashCode32(
+            true,
+            utility.asHashable(this.type.id),
+            utility.asHashable(this.type.precedence)
+          )
+        );
+        if (by !== 0) return by;
+        return utility.compare(this.value, obj!.value);
+      }
+      return 1;
+    }
+    /**
+     * Gets a debug value for this `Token`.
+     * @returns {string} a debug string for this `Token`
+     */
+    public toString() {
+      return JSON.stringify(
+        { token: this.value, type: this.type.toString() },
+        null,
+        2
+      );
+    }
+  }
+  /**
+   * @summary An interface that extends {@link parser.MutableLexer} for convenience and documentation purposes.
+   * @description
+   * An object that creates `Token` objects from a yaml data format. It allows new data to be added even after the initial one
+   * has been transformed into tokens.
+   */
+  export interface MutableLexer<CH = string>
+    extends parser.MutableLexer<Token, Syntax, CH> {
+    end(syntax: Syntax, p: Params | any): void;
+    process(chunk: CH, syntax: Syntax, p: Params | any): void;
+  }
+  /**
+   * @summary Creates tokens from a json value such as a `string`, `number`, `boolean`, `null`, arrays and objects.
+   * @description A {@linkcode MutableLexer} that processes json in-memory values into tokens that can be extracted
+   * via {@linkcode next}. The tokens are ordered in the way the {@linkcode StringLexer} orders its tokens. Each value sent
+   * to {@linkcode process} becomes a document.\
+   * \
+   * Strings that would be resolved as something else (such as `"true"` or `"12"`) by the syntax are double quoted and multi-line
+   * strings are written as literal block scalars.\
+   * \
+   * This is the direct opposite of {@link JSFormat `JSFormat`}
+   */
+  export class JSONLexer implements MutableLexer<json.Value> {
+    private _queue;
+    private _i = 0;
+    private _docs = 0;
+    constructor() {
+      this._queue = Array<Token>(new Token("", INIT, -1, -1, -1));
+    }
+    /**
+     * Creates a scalar token for the given string
+     * @param {string} v a string
+     * @param {Syntax} s a reference for a syntax
+     * @returns {Token} a plain, literal or double quoted scalar token
+     */
+    private _string(v: string, s: Syntax): Token {
+      let type = DOUBLE;
+      if (isPlainSafe(v, false) && s.parse(v, "?") === v) type = PLAIN;
+      else if (v.indexOf("\n") >= 0 && !/[\r\x00-\x08\x0b-\x1f\x7f]/.test(v))
+        type = LITERAL;
+      return new Token(v, type, 0, 0, this._i++);
+    }
+    /**Called by {@linkcode process} */
+    private _process(o: json.Value, s: Syntax) {
+      if (o === null) this.#manufacture(new Token("null", PLAIN, 0, 0, this._i++));
+      else if (typeof o === "boolean")
+        this.#manufacture(new Token(String(o), PLAIN, 0, 0, this._i++));
+      else if (typeof o === "number")
+        this.#manufacture(
+          new Token(
+            Number.isNaN(o)
+              ? ".nan"
+              : o === Infinity
+              ? ".inf"
+              : o === -Infinity
+              ? "-.inf"
+              : String(o),
+            PLAIN,
+            0,
+            0,
+            this._i++
+          )
+        );
+      else if (typeof o === "string") this.#manufacture(this._string(o, s));
+      //a bigint or Decimal
+      else if (json.isAtomic(o))
+        this.#manufacture(new Token(o.toString(), PLAIN, 0, 0, this._i++));
+      else if (Array.isArray(o)) {
+        if (o.length === 0) {
+          this.#manufacture(new Token("[", FLOW_SEQ_START, 0, 0, this._i++));
+          this.#manufacture(new Token("]", FLOW_SEQ_END, 0, 0, this._i++));
+          return;
+        }
+        this.#manufacture(new Token("", SEQ_START, 0, 0, this._i++));
+        for (let i = 0; i < o.length; i++) {
+          this.#manufacture(new Token("-", ENTRY, 0, 0, this._i++));
+          this._process(o[i], s);
+        }
+        this.#manufacture(new Token("", BLOCK_END, 0, 0, this._i++));
+      } else {
+        const keys = Object.keys(o);
+        if (keys.length === 0) {
+          this.#manufacture(new Token("{", FLOW_MAP_START, 0, 0, this._i++));
+          this.#manufacture(new Token("}", FLOW_MAP_END, 0, 0, this._i++));
+          return;
+        }
+        this.#manufacture(new Token("", MAP_START, 0, 0, this._i++));
+        for (const key of keys) {
+          this.#manufacture(new Token("", KEY, 0, 0, this._i++));
+          this.#manufacture(this._string(key, s));
+          this.#manufacture(new Token(":", VALUE, 0, 0, this._i++));
+          this._process(o[key], s);
+        }
+        this.#manufacture(new Token("", BLOCK_END, 0, 0, this._i++));
+      }
+    }
+    #manufacture(t: Token) {
+      this._queue.push(t);
+    }
+    end(): void {}
+    /**
+     * Each call to this method adds a new document to the tokens that this lexer has created.
+     * @inheritdoc
+     */
+    process(chunk: json.Value, syntax: Syntax, p: any): void {
+      this.src = chunk;
+      if (this._docs++ > 0)
+        this.#manufacture(new Token("---", DOC_START, 0, 0, this._i++));
+      this._process(chunk, syntax);
+    }
+    processed = () => this._queue;
+    unprocessed = () => this.src;
+    frequency(type: parser.Type): number {
+      let frqy = 0;
+      for (let i = 0; i < this._queue.length; i++) {
+        if (this._queue[i].type.equals(type)) frqy++;
+      }
+      return frqy;
+    }
+    indexOf(type: parser.Type): number {
+      for (let i = 0; i < this._queue.length; i++) {
+        if (this._queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    public lastIndexOf(type: parser.Type) {
+      for (let i = this._queue.length - 1; i >= 0; i--) {
+        if (this._queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    hasTokens(): boolean {
+      return this._queue.length > 0;
+    }
+    canProcess(): boolean {
+      return true;
+    }
+    next(): Token {
+      while (true) {
+        if (!this.hasTokens()) break;
+        return this._queue!.shift()!;
+      }
+      return new Token("", EOF, this.line(), this.line(), this.position());
+    }
+    /**
+     * Will be `undefined` if `process` is yet to be called
+     * @inheritdoc
+     */
+    public src?: json.Value;
+    position(): number {
+      return this._i;
+    }
+    line(): 0 {
+      return 0;
+    }
+  }
+  /**
+   * The state of a scalar, tag or flow collection that may turn out to be an implicit mapping key if a `:` follows it on the same line.
+   */
+  type SimpleKey = {
+    /**`false` if this can no longer be a key */
+    possible: boolean;
+    /**`true` if this must be a key because it is at the indentation of the current block mapping */
+    required: boolean;
+    /**The index in the token queue where a {@linkcode KEY} token will be inserted */
+    index: number;
+    /**The line of the key */
+    line: number;
+    /**The column of the key */
+    col: number;
+    /**The index of the key in the text being scanned */
+    pos: number;
+  };
+  /**
+   * @summary Creates tokens from updatable text recieved.
+   * @description A {@linkcode MutableLexer} that processes strings (probably from a file or network) in the yaml format
+   * into tokens meant to be parsed by a {@linkcode Parser}.\
+   * \
+   * Because the meaning of a yaml token may depend on the lines that come after it, text sent to {@linkcode process} is buffered
+   * until a line that starts with a document marker (`---` or `...`) is received, at which point everything up to and including
+   * that marker is tokenised. The rest is tokenised when {@linkcode end} is called. Indentation is converted into {@linkcode MAP_START},
+   * {@linkcode SEQ_START} and {@linkcode BLOCK_END} tokens and implicit keys are preceded by a {@linkcode KEY} token so that the
+   * parser never has to inspect the indentation of a token.
+   */
+  export class StringLexer implements MutableLexer {
+    #ln: number;
+    #col: number;
+    #queue: Token[];
+    public src: string;
+    /**The text that is being tokenised */
+    #text = "";
+    /**The index of the current character in the text being tokenised */
+    #i = 0;
+    /**The indentation of the innermost block collection */
+    #indent = -1;
+    /**The indentation of the enclosing block collections */
+    #indents = Array<number>();
+    /**The number of unclosed flow collections */
+    #flow = 0;
+    /**The possible implicit keys. One per flow level where the first is for the block context */
+    #keys = Array<SimpleKey | undefined>(undefined);
+    /**Whether an implicit key may start at the current position */
+    #allowKey = true;
+    /**Whether a token has been created on the current line */
+    #inLine = false;
+    constructor() {
+      this.#ln = 1;
+      this.#col = 0;
+      this.#queue = [new Token("", INIT, -1, -1, -1)];
+      this.src = "";
+    }
+    #ch(k = 0): string {
+      return this.#text[this.#i + k] ?? "";
+    }
+    #adv(n = 1) {
+      while (n-- > 0 && this.#i < this.#text.length) {
+        if (isBreak(this.#text[this.#i])) {
+          this.#ln++;
+          this.#col = 0;
+          this.#inLine = false;
+        } else this.#col++;
+        this.#i++;
+      }
+    }
+    #manufacture(t: Token) {
+      this.#queue.push(t);
+      this.#inLine = t.lineEnd === this.#ln;
+    }
+    #isDocumentMarker(): boolean {
+      return (
+        this.#col === 0 &&
+        (this.#text.startsWith("---", this.#i) ||
+          this.#text.startsWith("...", this.#i)) &&
+        isBlankOrEnd(this.#ch(3))
+      );
+    }
+    #error(msg: string, line = this.#ln, col = this.#col): never {
+      throw new parser.SyntaxError(
+        this.#queue[this.#queue.length - 1] ??
+          new Token("", INIT, line, line, col + 1),
+        new parser.ParseError(`${msg} at line: ${line}, position: ${col + 1}`)
+      );
+    }
+    /**Finds the index in {@linkcode src} of the end of the last document marker that starts a line */
+    #boundary(): number {
+      const re = /\n(?:---|\.\.\.)(?=[ \t\r\n])/g;
+      let last = -1;
+      for (let m = re.exec(this.src); m !== null; m = re.exec(this.src))
+        last = m.index + 4;
+      return last;
+    }
+    #scan(text: string, s: Syntax) {
+      this.#text = text.replace(/\r\n?/g, "\n");
+      this.#i = 0;
+      while (true) {
+        this.#skip(s);
+        this.#stale();
+        if (this.#i >= this.#text.length) break;
+        this.#unroll(this.#col);
+        this.#fetch(s);
+      }
+      this.#text = "";
+      this.#i = 0;
+    }
+    /**Skips whitespaces, line breaks and comments until the start of the next token */
+    #skip(s: Syntax) {
+      while (true) {
+        while (
+          this.#ch() === " " ||
+          (this.#ch() === "\t" && (this.#flow > 0 || !this.#allowKey))
+        )
+          this.#adv();
+        if (this.#ch() === "#") {
+          const ln = this.#ln,
+            col = this.#col,
+            inline = this.#inLine;
+          let c = "";
+          this.#adv();
+          while (this.#ch() !== "" && !isBreak(this.#ch())) {
+            c += this.#ch();
+            this.#adv();
+          }
+          if (s.comments.retain)
+            this.#manufacture(
+              new Token(c, inline ? INLINE_COMMENT : COMMENT, ln, ln, col + 1)
+            );
+        }
+        if (!isBreak(this.#ch())) break;
+        this.#adv();
+        if (this.#flow === 0) this.#allowKey = true;
+      }
+    }
+    /**Invalidates possible implicit keys that are no longer on the current line */
+    #stale() {
+      for (const k of this.#keys) {
+        if (
+          utility.isValid(k) &&
+          k!.possible &&
+          (k!.line !== this.#ln || this.#i - k!.pos > 1024)
+        ) {
+          if (k!.required) this.#error("could not find expected ':'", k!.line, k!.col);
+          k!.possible = false;
+        }
+      }
+    }
+    #save() {
+      if (!this.#allowKey) return;
+      this.#remove();
+      this.#keys[this.#flow] = {
+        possible: true,
+        required: this.#flow === 0 && this.#indent === this.#col,
+        index: this.#queue.length,
+        line: this.#ln,
+        col: this.#col,
+        pos: this.#i,
+      };
+    }
+    #remove() {
+      const k = this.#keys[this.#flow];
+      if (utility.isValid(k) && k!.possible && k!.required)
+        this.#error("could not find expected ':'", k!.line, k!.col);
+      this.#keys[this.#flow] = undefined;
+    }
+    #roll(col: number, type: Type, index = this.#queue.length, line = this.#ln) {
+      if (this.#flow > 0 || this.#indent >= col) return;
+      this.#indents.push(this.#indent);
+      this.#indent = col;
+      this.#queue.splice(index, 0, new Token("", type, line, line, col + 1));
+    }
+    #unroll(col: number) {
+      if (this.#flow > 0) return;
+      while (this.#indent > col) {
+        this.#queue.push(
+          new Token("", BLOCK_END, this.#ln, this.#ln, this.#col + 1)
+        );
+        this.#indent = this.#indents.pop()!;
+      }
+    }
+    #fetch(s: Syntax) {
+      const c = this.#ch(),
+        n = this.#ch(1);
+      if (this.#col === 0 && c === "%") return this.#directive();
+      if (this.#isDocumentMarker())
+        return this.#document(c === "-" ? DOC_START : DOC_END);
+      switch (c) {
+        case "[":
+          return this.#flowStart(FLOW_SEQ_START);
+        case "{":
+          return this.#flowStart(FLOW_MAP_START);
+        case "]":
+          return this.#flowEnd(FLOW_SEQ_END);
+        case "}":
+          return this.#flowEnd(FLOW_MAP_END);
+        case ",":
+          return this.#flowEntry();
+        case "!":
+          return this.#tag();
+        case "&":
+          return this.#anchor(ANCHOR);
+        case "*":
+          return this.#anchor(ALIAS);
+        case "'":
+        case '"':
+          return this.#quoted(c);
+        case "-":
+          if (isBlankOrEnd(n)) return this.#entry();
+          break;
+        case "?":
+          if (this.#flow > 0 || isBlankOrEnd(n)) return this.#key();
+          break;
+        case ":":
+          if (this.#flow > 0 || isBlankOrEnd(n)) return this.#value();
+          break;
+        case "|":
+        case ">":
+          if (this.#flow === 0) return this.#block(c === "|" ? LITERAL : FOLDED, s);
+      }
+      if (
+        !isBlankOrEnd(c) &&
+        (INDICATORS.indexOf(c) < 0 ||
+          ("-?:".indexOf(c) >= 0 &&
+            !isBlankOrEnd(n) &&
+            !(this.#flow > 0 && FLOW_INDICATORS.indexOf(n) >= 0)))
+      )
+        return this.#plain();
+      this.#error(`found character '${c}' that cannot start any token`);
+    }
+    #directive() {
+      this.#unroll(-1);
+      this.#remove();
+      this.#allowKey = false;
+      const ln = this.#ln,
+        col = this.#col;
+      let v = "";
+      this.#adv();
+      while (this.#ch() !== "" && !isBreak(this.#ch())) {
+        if (this.#ch() === "#" && isBlank(this.#ch(-1))) break;
+        v += this.#ch();
+        this.#adv();
+      }
+      this.#manufacture(new Token(v.trim(), DIRECTIVE, ln, ln, col + 1));
+    }
+    #document(type: Type) {
+      this.#unroll(-1);
+      this.#remove();
+      this.#allowKey = false;
+      const ln = this.#ln,
+        col = this.#col;
+      this.#adv(3);
+      this.#manufacture(
+        new Token(type.equals(DOC_START) ? "---" : "...", type, ln, ln, col + 1)
+      );
+    }
+    #flowStart(type: Type) {
+      this.#save();
+      this.#flow++;
+      this.#keys.push(undefined);
+      this.#allowKey = true;
+      const ln = this.#ln,
+        col = this.#col;
+      this.#adv();
+      this.#manufacture(new Token(this.#ch(-1), type, ln, ln, col + 1));
+    }
+    #flowEnd(type: Type) {
+      this.#remove();
+      if (this.#flow > 0) {
+        this.#flow--;
+        this.#keys.pop();
+      }
+      this.#allowKey = false;
+      const ln = this.#ln,
+        col = this.#col;
+      this.#adv();
+      this.#manufacture(new Token(this.#ch(-1), type, ln, ln, col + 1));
+    }
+    #flowEntry() {
+      this.#remove();
+      this.#allowKey = true;
+      const ln = this.#ln,
+        col = this.#col;
+      this.#adv();
+      this.#manufacture(new Token(",", FLOW_ENTRY, ln, ln, col + 1));
+    }
+    #entry() {
+      if (this.#flow > 0)
+        this.#error("block sequence entries are not allowed in a flow collection");
+      if (!this.#allowKey)
+        this.#error("block sequence entries are not allowed in this context");
+      this.#roll(this.#col, SEQ_START);
+      this.#remove();
+      this.#allowKey = true;
+      const ln = this.#ln,
+        col = this.#col;
+      this.#adv();
+      this.#manufacture(new Token("-", ENTRY, ln, ln, col + 1));
+    }
+    #key() {
+      if (this.#flow === 0) {
+        if (!this.#allowKey)
+          this.#error("mapping keys are not allowed in this context");
+        this.#roll(this.#col, MAP_START);
+      }
+      this.#remove();
+      this.#allowKey = this.#flow === 0;
+      const ln = this.#ln,
+        col = this.#col;
+      this.#adv();
+      this.#manufacture(new Token("?", KEY, ln, ln, col + 1));
+    }
+    #value() {
+      const k = this.#keys[this.#flow];
+      if (utility.isValid(k) && k!.possible) {
+        this.#queue.splice(
+          k!.index,
+          0,
+          new Token("", KEY, k!.line, k!.line, k!.col + 1)
+        );
+        this.#roll(k!.col, MAP_START, k!.index, k!.line);
+        this.#keys[this.#flow] = undefined;
+        this.#allowKey = false;
+      } else {
+        if (this.#flow === 0) {
+          if (!this.#allowKey)
+            this.#error("mapping values are not allowed in this context");
+          this.#roll(this.#col, MAP_START);
+        }
+        this.#allowKey = this.#flow === 0;
+      }
+      const ln = this.#ln,
+        col = this.#col;
+      this.#adv();
+      this.#manufacture(new Token(":", VALUE, ln, ln, col + 1));
+    }
+    #tag() {
+      this.#save();
+      this.#allowKey = false;
+      const ln = this.#ln,
+        col = this.#col;
+      let v = "!";
+      this.#adv();
+      if (this.#ch() === "<") {
+        while (this.#ch() !== ">" && !isBlankOrEnd(this.#ch())) {
+          v += this.#ch();
+          this.#adv();
+        }
+        if (this.#ch() !== ">") this.#error("did not find the expected '>'");
+        v += ">";
+        this.#adv();
+      } else
+        while (
+          !isBlankOrEnd(this.#ch()) &&
+          !(this.#flow > 0 && FLOW_INDICATORS.indexOf(this.#ch()) >= 0)
+        ) {
+          v += this.#ch();
+          this.#adv();
+        }
+      if (
+        !isBlankOrEnd(this.#ch()) &&
+        !(this.#flow > 0 && FLOW_INDICATORS.indexOf(this.#ch()) >= 0)
+      )
+        this.#error("did not find expected whitespace or line break after a tag");
+      this.#manufacture(new Token(v, TAG, ln, ln, col + 1));
+    }
+    #anchor(type: Type) {
+      this.#save();
+      this.#allowKey = false;
+      const ln = this.#ln,
+        col = this.#col;
+      let v = "";
+      this.#adv();
+      while (
+        !isBlankOrEnd(this.#ch()) &&
+        FLOW_INDICATORS.indexOf(this.#ch()) < 0
+      ) {
+        v += this.#ch();
+        this.#adv();
+      }
+      if (v.length === 0)
+        this.#error(
+          `did not find the expected name of the ${
+            type.equals(ANCHOR) ? "anchor" : "alias"
+          }`
+        );
+      this.#manufacture(new Token(v, type, ln, ln, col + 1));
+    }
+    #escape(): string {
+      const e = this.#ch(1);
+      if (Object.prototype.hasOwnProperty.call(ESCAPES, e)) {
+        this.#adv(2);
+        return ESCAPES[e];
+      }
+      const len = e === "x" ? 2 : e === "u" ? 4 : e === "U" ? 8 : 0;
+      if (len === 0) this.#error(`found unknown escape character '${e}'`);
+      const code = this.#text.substring(this.#i + 2, this.#i + 2 + len);
+      if (code.length !== len || !/^[0-9A-Fa-f]+$/.test(code))
+        this.#error("did not find expected hexadecimal number");
+      this.#adv(2 + len);
+      return String.fromCodePoint(Number.parseInt(code, 16));
+    }
+    #quoted(q: string) {
+      this.#save();
+      this.#allowKey = false;
+      const ln = this.#ln,
+        col = this.#col;
+      let v = "";
+      this.#adv();
+      while (true) {
+        if (this.#isDocumentMarker())
+          this.#error("found unexpected document indicator while scanning a quoted scalar", ln, col);
+        if (this.#ch() === "")
+          this.#error("found unexpected end of stream while scanning a quoted scalar", ln, col);
+        let leading = false;
+        while (!isBlankOrEnd(this.#ch())) {
+          const c = this.#ch();
+          if (q === "'" && c === "'" && this.#ch(1) === "'") {
+            v += "'";
+            this.#adv(2);
+          } else if (c === q) break;
+          else if (q === '"' && c === "\\" && isBreak(this.#ch(1))) {
+            this.#adv(2);
+            leading = true;
+            break;
+          } else if (q === '"' && c === "\\") v += this.#escape();
+          else {
+            v += c;
+            this.#adv();
+          }
+        }
+        if (this.#ch() === q) {
+          this.#adv();
+          break;
+        }
+        let ws = "",
+          lb = "",
+          tb = "";
+        while (isBlank(this.#ch()) || isBreak(this.#ch())) {
+          if (isBlank(this.#ch())) {
+            if (!leading) ws += this.#ch();
+            this.#adv();
+          } else {
+            this.#adv();
+            if (!leading) {
+              ws = "";
+              lb = "\n";
+              leading = true;
+            } else tb += "\n";
+          }
+        }
+        if (leading) v += lb.length > 0 && tb.length === 0 ? " " : tb;
+        else v += ws;
+      }
+      this.#manufacture(
+        new Token(v, q === "'" ? SINGLE : DOUBLE, ln, this.#ln, col + 1)
+      );
+    }
+    #plain() {
+      this.#save();
+      this.#allowKey = false;
+      const ln = this.#ln,
+        col = this.#col,
+        indent = this.#indent + 1;
+      let v = "",
+        ws = "",
+        tb = "",
+        leading = false,
+        end = ln;
+      while (true) {
+        if (this.#isDocumentMarker() || this.#ch() === "#") break;
+        while (!isBlankOrEnd(this.#ch())) {
+          const c = this.#ch(),
+            n = this.#ch(1);
+          if (
+            c === ":" &&
+            (isBlankOrEnd(n) ||
+              (this.#flow > 0 && FLOW_INDICATORS.indexOf(n) >= 0))
+          )
+            break;
+          if (this.#flow > 0 && FLOW_INDICATORS.indexOf(c) >= 0) break;
+          if (leading) {
+            v += tb.length === 0 ? " " : tb;
+            tb = "";
+            leading = false;
+          } else {
+            v += ws;
+            ws = "";
+          }
+          v += c;
+          this.#adv();
+          end = this.#ln;
+        }
+        if (!isBlank(this.#ch()) && !isBreak(this.#ch())) break;
+        while (isBlank(this.#ch()) || isBreak(this.#ch())) {
+          if (isBlank(this.#ch())) {
+            if (leading && this.#col < indent && this.#ch() === "\t")
+              this.#error("found a tab character that violates indentation");
+            if (!leading) ws += this.#ch();
+            this.#adv();
+          } else {
+            this.#adv();
+            if (!leading) {
+              ws = "";
+              leading = true;
+            } else tb += "\n";
+          }
+        }
+        if (this.#flow === 0 && this.#col < indent) break;
+      }
+      this.#manufacture(new Token(v, PLAIN, ln, end, col + 1));
+      if (leading) this.#allowKey = true;
+    }
+    /**Scans the line breaks and indentation before each line of a block scalar, returning the breaks and the indentation */
+    #breaks(indent: number): [string, number] {
+      let max = 0,
+        breaks = "";
+      while (true) {
+        while ((indent === 0 || this.#col < indent) && this.#ch() === " ")
+          this.#adv();
+        if (this.#col > max) max = this.#col;
+        if ((indent === 0 || this.#col < indent) && this.#ch() === "\t")
+          this.#error("found a tab character where an indentation space is expected");
+        if (!isBreak(this.#ch())) break;
+        breaks += "\n";
+        this.#adv();
+      }
+      if (indent === 0) indent = Math.max(max, this.#indent + 1, 1);
+      return [breaks, indent];
+    }
+    #block(type: Type, s: Syntax) {
+      this.#remove();
+      this.#allowKey = true;
+      const ln = this.#ln,
+        col = this.#col;
+      let chomp = 0,
+        inc = 0,
+        comment: Token | undefined = undefined;
+      this.#adv();
+      for (let i = 0; i < 2; i++) {
+        const c = this.#ch();
+        if ((c === "+" || c === "-") && chomp === 0) chomp = c === "+" ? 1 : -1;
+        else if (c === "0")
+          this.#error("found an indentation indicator equal to 0");
+        else if (/^[1-9]$/.test(c) && inc === 0) inc = Number(c);
+        else break;
+        this.#adv();
+      }
+      while (isBlank(this.#ch())) this.#adv();
+      if (this.#ch() === "#") {
+        const cl = this.#ln,
+          cc = this.#col;
+        let c = "";
+        this.#adv();
+        while (this.#ch() !== "" && !isBreak(this.#ch())) {
+          c += this.#ch();
+          this.#adv();
+        }
+        if (s.comments.retain)
+          comment = new Token(c, INLINE_COMMENT, cl, cl, cc + 1);
+      }
+      if (this.#ch() !== "" && !isBreak(this.#ch()))
+        this.#error("did not find expected comment or line break");
+      this.#adv();
+      let indent = inc > 0 ? (this.#indent >= 0 ? this.#indent + inc : inc) : 0,
+        v = "",
+        lb = "",
+        tb = "",
+        leadingBlank = false,
+        end = ln;
+      [tb, indent] = this.#breaks(indent);
+      while (this.#col === indent && this.#ch() !== "") {
+        const trailingBlank = isBlank(this.#ch());
+        if (type.equals(FOLDED) && lb.length > 0 && !leadingBlank && !trailingBlank) {
+          if (tb.length === 0) v += " ";
+        } else v += lb;
+        lb = "";
+        v += tb;
+        tb = "";
+        leadingBlank = isBlank(this.#ch());
+        while (this.#ch() !== "" && !isBreak(this.#ch())) {
+          v += this.#ch();
+          this.#adv();
+        }
+        end = this.#ln;
+        if (this.#ch() === "") break;
+        this.#adv();
+        lb = "\n";
+        [tb, indent] = this.#breaks(indent);
+      }
+      if (chomp !== -1) v += lb;
+      if (chomp === 1) v += tb;
+      this.#manufacture(new Token(v, type, ln, end, col + 1));
+      if (utility.isValid(comment)) this.#queue.push(comment!);
+    }
+    /**
+     * Adds the argument to the text waiting to be tokenised and tokenises everything up to the end of the last document marker
+     * that starts a line.
+     * @inheritdoc
+     */
+    process(chunk: string = "", syntax: Syntax, p: Params): void {
+      this.src += chunk;
+      const boundary = this.#boundary();
+      if (boundary > 0) {
+        const text = this.src.substring(0, boundary);
+        this.src = this.src.substring(boundary);
+        this.#scan(text, syntax);
+      }
+    }
+    /**
+     * Tokenises all the text that is waiting to be tokenised and closes all open block collections.
+     * @inheritdoc
+     */
+    end(syntax: Syntax, params: Params): void {
+      const text = this.src;
+      this.src = "";
+      this.#scan(text, syntax);
+      this.#remove();
+      this.#unroll(-1);
+    }
+    processed = () => this.#queue;
+    unprocessed = () => this.src;
+    frequency(type: parser.Type): number {
+      let frqy = 0;
+      for (let i = 0; i < this.#queue.length; i++) {
+        if (this.#queue[i].type.equals(type)) frqy++;
+      }
+      return frqy;
+    }
+    indexOf(type: parser.Type): number {
+      for (let i = 0; i < this.#queue.length; i++) {
+        if (this.#queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    lastIndexOf(type: parser.Type): number {
+      for (let i = this.#queue.length - 1; i >= 0; i--) {
+        if (this.#queue[i].type.equals(type)) return i;
+      }
+      return -1;
+    }
+    hasTokens(): boolean {
+      return this.#queue.length > 0;
+    }
+    canProcess(): boolean {
+      return this.src.length > 0;
+    }
+    next(): Token {
+      while (true) {
+        if (!this.hasTokens()) break;
+        return this.#queue!.shift()!;
+      }
+      return new Token("", EOF, this.line(), this.line(), this.position());
+    }
+    position(): number {
+      return this.#col + 1;
+    }
+    line(): number {
+      return this.#ln;
+    }
+  }
+  /**
+   * @summary A specialised mini-parser that is yaml syntax-specific.
+   * @description An object that can parse {@link parser.GType type(s)} of yaml {@link parser.Token tokens} effectively in a way
+   * that is specific to the yaml data format and produces an expression for the tokens it parsed.
+   */
+  export interface Command
+    extends parser.GCommand<Token, Expression, Syntax, MutableLexer, Parser> {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer,
+      s: Syntax,
+      pa?: Params
+    ): Expression;
+  }
+  /**A special command that parses the whole stream into a {@linkcode Stream} of {@linkcode Document}s */
+  class Initialize implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const documents = Array<Document>();
+      for (
+        let d = nextDocument(p, l, s, pa!);
+        utility.isValid(d);
+        d = nextDocument(p, l, s, pa!)
+      )
+        documents.push(d!);
+      return new Stream(Object.freeze(documents), { preceding: takeBlock(pa!) });
+    }
+  }
+  /**A command that parses the keys and values of a block mapping until the block mapping ends */
+  class ParseBlockMapping implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const entries = Array<[Node, Node]>();
+      while (true) {
+        skipComments(l, s, p, pa!);
+        if (p.match(BLOCK_END, l, s, pa)) {
+          p.consume(BLOCK_END, l, s, pa);
+          break;
+        }
+        const preceding = takeBlock(pa!);
+        let key: Node;
+        if (p.match(VALUE, l, s, pa)) key = new Scalar("", "");
+        else {
+          p.consume(KEY, l, s, pa);
+          key = parseValue(p, l, s, pa!, true);
+        }
+        key.comments = { preceding, inline: key.comments.inline };
+        skipComments(l, s, p, pa!);
+        let value: Node = new Scalar("", "");
+        if (p.match(VALUE, l, s, pa)) {
+          p.consume(VALUE, l, s, pa);
+          value = parseValue(p, l, s, pa!, true);
+        }
+        entries.push([key, value]);
+      }
+      return new Mapping(Object.freeze(entries), false);
+    }
+  }
+  /**A command that parses the entries of a block sequence until the block sequence ends */
+  class ParseBlockSequence implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const items = Array<Node>();
+      while (true) {
+        skipComments(l, s, p, pa!);
+        if (p.match(BLOCK_END, l, s, pa)) {
+          p.consume(BLOCK_END, l, s, pa);
+          break;
+        }
+        const preceding = takeBlock(pa!);
+        p.consume(ENTRY, l, s, pa);
+        const item = parseValue(p, l, s, pa!);
+        item.comments = { preceding, inline: item.comments.inline };
+        items.push(item);
+      }
+      return new Sequence(Object.freeze(items), false);
+    }
+  }
+  /**
+   * A command that parses a block sequence whose `-` indicators are at the same indentation as the keys of the mapping that
+   * contains it. Such sequences have no {@linkcode SEQ_START} and {@linkcode BLOCK_END} tokens. For example:
+   * ```yaml
+   * key:
+   * - first
+   * - second
+   * ```
+   */
+  class ParseIndentlessSequence implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const items = Array<Node>();
+      while (true) {
+        const preceding = takeBlock(pa!);
+        const item = parseValue(p, l, s, pa!);
+        item.comments = { preceding, inline: item.comments.inline };
+        items.push(item);
+        skipComments(l, s, p, pa!);
+        if (!p.match(ENTRY, l, s, pa)) break;
+        p.consume(ENTRY, l, s, pa);
+      }
+      return new Sequence(Object.freeze(items), false);
+    }
+  }
+  /**A command that parses a flow sequence such as `[a, b, c: d]`. Comments within a flow collection are discarded. */
+  class ParseFlowSequence implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const block = pa!.block;
+      pa!.block = [];
+      const items = Array<Node>();
+      while (true) {
+        skipComments(l, s, p, pa!);
+        if (p.match(FLOW_SEQ_END, l, s, pa)) break;
+        if (items.length > 0) {
+          p.consume(FLOW_ENTRY, l, s, pa);
+          skipComments(l, s, p, pa!);
+          if (p.match(FLOW_SEQ_END, l, s, pa)) break;
+        }
+        if (p.match(KEY, l, s, pa) || p.match(VALUE, l, s, pa)) {
+          let key: Node = new Scalar("", "");
+          if (p.match(KEY, l, s, pa)) {
+            p.consume(KEY, l, s, pa);
+            key = parseNode(p, l, s, pa!);
+            skipComments(l, s, p, pa!);
+          }
+          let value: Node = new Scalar("", "");
+          if (p.match(VALUE, l, s, pa)) {
+            p.consume(VALUE, l, s, pa);
+            value = parseNode(p, l, s, pa!);
+          }
+          items.push(new Mapping(Object.freeze([[key, value] as [Node, Node]]), true));
+        } else if (isNodeStart(l, s, p, pa!)) items.push(p.parse(l, s, pa) as Node);
+        else p.consume(FLOW_SEQ_END, l, s, pa);
+      }
+      p.consume(FLOW_SEQ_END, l, s, pa);
+      pa!.block = block;
+      pa!.inline = "";
+      return new Sequence(Object.freeze(items), true);
+    }
+  }
+  /**A command that parses a flow mapping such as `{a: b, c}`. Comments within a flow collection are discarded. */
+  class ParseFlowMapping implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const block = pa!.block;
+      pa!.block = [];
+      const entries = Array<[Node, Node]>();
+      while (true) {
+        skipComments(l, s, p, pa!);
+        if (p.match(FLOW_MAP_END, l, s, pa)) break;
+        if (entries.length > 0) {
+          p.consume(FLOW_ENTRY, l, s, pa);
+          skipComments(l, s, p, pa!);
+          if (p.match(FLOW_MAP_END, l, s, pa)) break;
+        }
+        let key: Node = new Scalar("", "");
+        if (p.match(KEY, l, s, pa)) {
+          p.consume(KEY, l, s, pa);
+          key = parseNode(p, l, s, pa!);
+        } else if (isNodeStart(l, s, p, pa!)) key = p.parse(l, s, pa) as Node;
+        else if (!p.match(VALUE, l, s, pa)) p.consume(FLOW_MAP_END, l, s, pa);
+        skipComments(l, s, p, pa!);
+        let value: Node = new Scalar("", "");
+        if (p.match(VALUE, l, s, pa)) {
+          p.consume(VALUE, l, s, pa);
+          value = parseNode(p, l, s, pa!);
+        }
+        entries.push([key, value]);
+      }
+      p.consume(FLOW_MAP_END, l, s, pa);
+      pa!.block = block;
+      pa!.inline = "";
+      return new Mapping(Object.freeze(entries), true);
+    }
+  }
+  /**A command that parses a tag and assigns it to the node that follows it */
+  class ParseTag implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const n = parseNode(p, l, s, pa!);
+      if (n instanceof Alias)
+        throw new parser.SyntaxError(
+          yp,
+          new parser.ParseError("An alias cannot have a tag")
+        );
+      n.tag = yp.value;
+      return n;
+    }
+  }
+  /**A command that parses an anchor, assigns it to the node that follows it and registers that node in {@linkcode Params.anchors} */
+  class ParseAnchor implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const n = parseNode(p, l, s, pa!);
+      if (n instanceof Alias)
+        throw new parser.SyntaxError(
+          yp,
+          new parser.ParseError("An alias cannot have an anchor")
+        );
+      else if (utility.isValid(n.anchor))
+        throw new parser.SyntaxError(
+          yp,
+          new parser.ParseError("A node cannot have more than one anchor")
+        );
+      n.anchor = yp.value;
+      pa!.anchors.set(yp.value, n);
+      return n;
+    }
+  }
+  /**
+   * A command that parses an alias into a reference to the node anchored with the same name. The size of that node is added to
+   * {@linkcode Params.expansions}, which must not exceed {@linkcode Syntax.expansionLimit}.
+   */
+  class ParseAlias implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      const target = pa!.anchors.get(yp.value);
+      if (!utility.isValid(target))
+        throw new parser.SyntaxError(
+          yp,
+          new parser.ParseError(`Found undefined alias '${yp.value}'`)
+        );
+      pa!.expansions += target!.size;
+      if (pa!.expansions > s.expansionLimit)
+        throw new parser.SyntaxError(
+          yp,
+          new parser.ParseError(
+            `The aliases in this document add more than ${s.expansionLimit} nodes to it`
+          )
+        );
+      return new Alias(yp.value, target!);
+    }
+  }
+  /**A command that parses a scalar token of any style */
+  class ParseScalar implements Command {
+    parse(
+      ap: Expression,
+      yp: Token,
+      p: Parser,
+      l: MutableLexer<string>,
+      s: Syntax,
+      pa?: Params | undefined
+    ): Expression {
+      let style: Style = "";
+      if (yp.type.equals(SINGLE)) style = "'";
+      else if (yp.type.equals(DOUBLE)) style = '"';
+      else if (yp.type.equals(LITERAL)) style = "|";
+      else if (yp.type.equals(FOLDED)) style = ">";
+      return new Scalar(yp.value, style);
+    }
+  }
+  /**
+   * @summary A representation of parsed `Token` objects.
+   * @description The result after the parser has returned. This is especially for convenience and documentation purposes.
+   */
+  export interface Expression extends expression.GExpression<Format> {
+    readonly comments: {
+      readonly preceding: readonly string[];
+      readonly inline?: string;
+    };
+    format(format: Format, syntax?: Syntax, params?: Params | any): void;
+  }
+  /**
+   * The style of a scalar where an empty string is a plain scalar, `'` and `"` are single and double quoted scalars and `|` and `>`
+   * are literal and folded block scalars.
+   */
+  type Style = "" | "'" | '"' | "|" | ">";
+  /**
+   * A mapping, sequence or scalar in a yaml document.
+   */
+  abstract class Node implements Expression {
+    /**
+     * The comments preceding this node (or the key of the entry that this node starts) and the comment on the same line as
+     * this node (or the indicator that precedes this node if it is a block collection).
+     */
+    public comments: {
+      readonly preceding: readonly string[];
+      readonly inline?: string;
+    } = { preceding: Object.freeze(Array<string>()) };
+    /**The tag of this node exactly as it was written such as `!!str`. `undefined` if this node has no explicit tag */
+    public tag?: string;
+    /**The anchor of this node without the `&`. `undefined` if this node has no anchor */
+    public anchor?: string;
+    /**The number of nodes in this node when its aliases are expanded, including itself */
+    abstract readonly size: number;
+    format(format: Format, syntax?: Syntax | undefined, params?: any): void {
+      format.append(this, syntax, params);
+    }
+    debug(): string {
+      return documentText(
+        new Document({ preceding: [] }, this, false, false, [], []),
+        0
+      );
+    }
+    abstract equals(obj?: object | undefined): boolean;
+    abstract hashCode32(): number;
+    toString(): string {
+      return this.debug();
+    }
+  }
+  /**
+   * A scalar in any of the 5 styles.
+   */
+  class Scalar extends Node {
+    /**
+     * Constructs a `Scalar`
+     * @param {string} value the content of this scalar after escapes have been processed and lines have been folded
+     * @param {Style} style the style in which this scalar was written
+     */
+    public readonly size = 1;
+    constructor(public readonly value: string, public readonly style: Style) {
+      super();
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Scalar)
+        return (
+          this.value === obj.value &&
+          this.style === obj.style &&
+          this.tag === obj.tag
+        );
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.value),
+        utility.asHashable(this.style),
+        utility.asHashable(this.tag)
+      );
+    }
+  }
+  /**
+   * A block or flow mapping whose entries are kept in the order they were parsed.
+   */
+  class Mapping extends Node {
+    /**
+     * Constructs a `Mapping`
+     * @param {readonly [Node, Node][]} entries the key/value pairs of this mapping
+     * @param {boolean} flow `true` if this was written as a flow mapping
+     */
+    public readonly size: number;
+    constructor(
+      public readonly entries: readonly [Node, Node][],
+      public readonly flow: boolean
+    ) {
+      super();
+      this.size = entries.reduce((a, e) => a + e[0].size + e[1].size, 1);
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Mapping)
+        return (
+          this.tag === obj.tag &&
+          this.entries.length === obj.entries.length &&
+          this.entries.every(
+            (e, i) => e[0].equals(obj.entries[i][0]) && e[1].equals(obj.entries[i][1])
+          )
+        );
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.tag),
+        ...this.entries.map((e) => utility.asHashable(e[0].hashCode32() ^ e[1].hashCode32()))
+      );
+    }
+  }
+  /**
+   * A block or flow sequence.
+   */
+  class Sequence extends Node {
+    /**
+     * Constructs a `Sequence`
+     * @param {readonly Node[]} items the entries of this sequence
+     * @param {boolean} flow `true` if this was written as a flow sequence
+     */
+    public readonly size: number;
+    constructor(
+      public readonly items: readonly Node[],
+      public readonly flow: boolean
+    ) {
+      super();
+      this.size = items.reduce((a, e) => a + e.size, 1);
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Sequence)
+        return (
+          this.tag === obj.tag &&
+          this.items.length === obj.items.length &&
+          this.items.every((e, i) => e.equals(obj.items[i]))
+        );
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.tag),
+        ...this.items.map((e) => utility.asHashable(e.hashCode32()))
+      );
+    }
+  }
+  /**
+   * A reference to a node that was anchored earlier in the same document.
+   */
+  class Alias extends Node {
+    public readonly size: number;
+    /**
+     * Constructs an `Alias`
+     * @param {string} name the name of the alias without the `*`
+     * @param {Node} target the most recent node anchored with the given name
+     */
+    constructor(public readonly name: string, public readonly target: Node) {
+      super();
+      this.size = target.size;
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Alias)
+        return this.name === obj.name && this.target === obj.target;
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(false, utility.asHashable(this.name));
+    }
+  }
+  /**
+   * A single yaml document along with the directives and markers that surround it.
+   */
+  class Document implements Expression {
+    /**
+     * Constructs a `Document`
+     * @param {{ preceding: readonly string[] }} comments the comments before the document's start marker (or content if there is no marker)
+     * @param {Node} root the content of the document
+     * @param {boolean} start `true` if the document was started with `---`
+     * @param {boolean} end `true` if the document was ended with `...`
+     * @param {readonly string[]} directives the directives of this document without the `%`
+     * @param {readonly string[]} trailing the comments after the document's content
+     */
+    constructor(
+      public readonly comments: { readonly preceding: readonly string[] },
+      public readonly root: Node,
+      public readonly start: boolean,
+      public readonly end: boolean,
+      public readonly directives: readonly string[],
+      public readonly trailing: readonly string[]
+    ) {}
+    format(format: Format, syntax?: Syntax | undefined, params?: any): void {
+      format.append(this, syntax, params);
+    }
+    debug(): string {
+      return documentText(this, 0);
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Document)
+        return (
+          this.root.equals(obj.root) &&
+          this.directives.join("\n") === obj.directives.join("\n")
+        );
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.root.hashCode32()),
+        utility.asHashable(this.directives)
+      );
+    }
+    toString(): string {
+      return this.debug();
+    }
+  }
+  /**
+   * The documents of a yaml stream.
+   */
+  class Stream implements Expression {
+    /**
+     * Constructs a `Stream`
+     * @param {readonly Document[]} documents the documents in this stream
+     * @param {{ preceding: readonly string[] }} comments the comments after the last document
+     */
+    constructor(
+      public readonly documents: readonly Document[],
+      public readonly comments: { readonly preceding: readonly string[] }
+    ) {}
+    format(format: Format, syntax?: Syntax | undefined, params?: any): void {
+      format.append(this, syntax, params);
+    }
+    debug(): string {
+      return (
+        this.documents.map((d, i) => documentText(d, i)).join("") +
+        unwrapComments(this.comments, "")
+      );
+    }
+    equals(obj?: object | undefined): boolean {
+      if (obj instanceof Stream)
+        return (
+          this.documents.length === obj.documents.length &&
+          this.documents.every((d, i) => d.equals(obj.documents[i]))
+        );
+      return false;
+    }
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        ...this.documents.map((d) => utility.asHashable(d.hashCode32()))
+      );
+    }
+    toString(): string {
+      return this.debug();
+    }
+  }
+  /**
+   * @summary Convenience class to allow for proper return values using `parse` and for namepsace documentation
+   * @description The yaml variant of the {@link parser.PrattParser Vaughn Pratt's parser}
+   */
+  export class Parser extends parser.PrattParser<Expression, Syntax> {}
+  /**
+   * @summary The type of value accepted by the {@linkcode Format.append} method.
+   * @description The value that will be sent to (and expected by) {@linkcode Format} objects
+   */
+  export type Appendage = string | Expression;
+  /**
+   * @summary A base yaml format
+   * @description Defines how the {@link Expression parsed expression(s)} is/are outputted.
+   */
+  export interface Format<T = any> extends expression.GFormat<Expression, T> {
+    append(data: Appendage, s?: Syntax, p?: Params): void;
+  }
+  /**
+   * @summary The {@linkcode Expression} output as a string.
+   * @description Builds and stores the parsed yaml data as a formatted string. Scalars keep the style they were written in
+   * (unless that style cannot represent the content) and retained comments are written back, as are anchors and aliases.
+   */
+  export class StringFormat implements Format<string> {
+    public readonly logger;
+    private _data = "";
+    /**The number of documents appended to this format */
+    private _docs = 0;
+    /**
+     * Constructs a `StringFormat`
+     * @param {boolean} anchor `true` to write each mapping or sequence that is equal to one before it in the same document as an
+     * alias of the earlier one, giving the earlier one an anchor (such as `&id001`) if it has none. The comments within the
+     * replaced node are not written. The default is `false`.
+     */
+    constructor(public readonly anchor = false) {
+      //Some classic js code
+      this.logger = console as any as utility.Messenger;
+      /* We will be using 0x7 because it is the smallest value that has all 3 msb on. */
+      (this.logger as any)._bit = 0x0; //the msb is error, the mid bit is warn and the lsb is info
+      this.logger.seal = (l) => {
+        if (this.logger.isSealed(l)) return;
+        if (l === 0) {
+          ((this.logger as any)._bit as number) =
+            0x1 & ((this.logger as any)._bit as number);
+          this.logger.error = (m) => {
+            throw Error("Sealed");
+          };
+        } else if (l === 1) {
+          ((this.logger as any)._bit as number) =
+            0x2 & ((this.logger as any)._bit as number);
+          this.logger.info = (m) => {
+            throw Error("Sealed");
+          };
+        } else if (l === 2) {
+          ((this.logger as any)._bit as number) =
+            0x4 & ((this.logger as any)._bit as number);
+          this.logger.warn = (m) => {
+            throw Error("Sealed");
+          };
+        }
+      };
+      this.logger.isSealed = (l) => {
+        if (l === 0) {
+          return (0x1 & ((this.logger as any)._bit as number)) !== 0;
+        } else if (l === 1) {
+          return (0x2 & ((this.logger as any)._bit as number)) !== 0;
+        } else if (l === 2) {
+          return (0x4 & ((this.logger as any)._bit as number)) !== 0;
+        }
+        return false;
+      };
+    }
+    append(
+      data: Appendage,
+      s?: Syntax | undefined,
+      p?: Params | undefined
+    ): void {
+      if (typeof data === "string") {
+        this._data += data;
+        this.modifications++;
+      } else if (data instanceof Stream) {
+        for (const d of data.documents) this.append(d, s, p);
+        this.append(unwrapComments(data.comments, ""), s, p);
+      } else if (data instanceof Document)
+        this.append(
+          documentText(
+            this.anchor
+              ? new Document(
+                  data.comments,
+                  shareRepeats(data.root),
+                  data.start,
+                  data.end,
+                  data.directives,
+                  data.trailing
+                )
+              : data,
+            this._docs++,
+            s
+          ),
+          s,
+          p
+        );
+      else if (data instanceof Node)
+        this.append(
+          new Document({ preceding: [] }, data, false, false, [], []),
+          s,
+          p
+        );
+      else throw new expression.FormatError("format not supported");
+    }
+    data(): string {
+      this.logger.seal(0);
+      this.logger.seal(1);
+      this.logger.seal(2);
+      return this._data;
+    }
+    reverse(): this {
+      this._data.split("").reverse().join("");
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, string>): boolean {
+      if (another instanceof StringFormat) return this._data === another._data;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._data)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+    compareTo(
+      obj?: expression.GFormat<Expression, string> | undefined
+    ): utility.Compare {
+      return utility.compare(this.hashCode32(), obj?.hashCode32());
+    }
+  }
+  /**
+   * @summary The {@linkcode Expression} output as an in-memory value format.
+   * @description Builds and stores the parsed yaml data as a json value, resolving scalars with {@linkcode Syntax.parse}.
+   * Mapping keys that are not scalars are stringified with `JSON.stringify` and the entries of the mappings merged into a mapping
+   * with the `<<` key are copied into it.
+   * @remark
+   * If exactly one document was appended, {@linkcode data} returns the value of that document, else it returns an array of
+   * the values of each document (in the order they were appended).
+   */
+  export class JSFormat implements Format<json.Value> {
+    private _data = Array<json.Value>();
+    /**
+     * Constructs a `JSFormat`
+     * @param {boolean} shared `true` if an alias should be resolved to the same object or array as the node it refers to, `false` if
+     * it should be resolved to a copy of it. The default is `false`.
+     */
+    constructor(public readonly shared = false) {}
+    append(
+      data: Appendage,
+      s?: Syntax | undefined,
+      p?: Params | undefined
+    ): void {
+      if (data instanceof Stream) {
+        for (const d of data.documents) this.append(d, s, p);
+      } else if (data instanceof Document) {
+        this._data.push(toJS(data.root, s, this.shared ? new Map() : undefined));
+        this.modifications++;
+      } else if (data instanceof Node) {
+        this._data.push(toJS(data, s, this.shared ? new Map() : undefined));
+        this.modifications++;
+      } else
+        throw new expression.FormatError("format not supported", data as any);
+    }
+    data(): json.Value {
+      return this._data.length === 1 ? this._data[0] : this._data;
+    }
+    reverse(): this {
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, json.Value>): boolean {
+      if (another instanceof JSFormat) return this._data === another._data;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._data)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * @summary The {@linkcode Expression} output written to a file system.
+   * @description Writes the parsed yaml data to a file system in the same way as {@linkcode StringFormat}.
+   */
+  export class FileFormat implements Format<ReadStream> {
+    public readonly logger;
+    private _str: WriteStream;
+    /**The number of documents appended to this format */
+    private _docs = 0;
+    /**
+     * Constructs a `FileFormat`
+     * @param {string} filename the path of the file to be written
+     * @param {boolean} anchor `true` to write repeated mappings and sequences as aliases in the same way as {@linkcode StringFormat}
+     */
+    constructor(filename: string, public readonly anchor = false) {
+      this._str = createWriteStream(filename, {
+        autoClose: true,
+        emitClose: false,
+        encoding: "utf-8",
+      });
+      //Some classic js code
+      this.logger = console as any as utility.Messenger;
+      (this.logger as any)._bit = 0x0; //the msb is error, the mid bit is warn and the lsb is info
+      this.logger.seal = (l) => {
+        if (this.logger.isSealed(l)) return;
+        if (l === 0) {
+          ((this.logger as any)._bit as number) =
+            0x1 & ((this.logger as any)._bit as number);
+          this.logger.error = (m) => {
+            throw Error("Sealed");
+          };
+        } else if (l === 1) {
+          ((this.logger as any)._bit as number) =
+            0x2 & ((this.logger as any)._bit as number);
+          this.logger.info = (m) => {
+            throw Error("Sealed");
+          };
+        } else if (l === 2) {
+          ((this.logger as any)._bit as number) =
+            0x4 & ((this.logger as any)._bit as number);
+          this.logger.warn = (m) => {
+            throw Error("Sealed");
+          };
+        }
+      };
+      this.logger.isSealed = (l) => {
+        if (l === 0) {
+          return (0x1 & ((this.logger as any)._bit as number)) !== 0;
+        } else if (l === 1) {
+          return (0x2 & ((this.logger as any)._bit as number)) !== 0;
+        } else if (l === 2) {
+          return (0x4 & ((this.logger as any)._bit as number)) !== 0;
+        }
+        return false;
+      };
+    }
+    public endWrite() {
+      this.logger.seal(0);
+      this.logger.seal(1);
+      this.logger.seal(2);
+      this._str!.end();
+      this._str!.close();
+    }
+    append(
+      data: Appendage,
+      s?: Syntax | undefined,
+      p?: Params | undefined
+    ): void {
+      if (typeof data === "string") {
+        this._str.write(data);
+        this.modifications++;
+      } else if (data instanceof Stream) {
+        for (const d of data.documents) this.append(d, s, p);
+        this.append(unwrapComments(data.comments, ""), s, p);
+      } else if (data instanceof Document)
+        this.append(
+          documentText(
+            this.anchor
+              ? new Document(
+                  data.comments,
+                  shareRepeats(data.root),
+                  data.start,
+                  data.end,
+                  data.directives,
+                  data.trailing
+                )
+              : data,
+            this._docs++,
+            s
+          ),
+          s,
+          p
+        );
+      else if (data instanceof Node)
+        this.append(
+          new Document({ preceding: [] }, data, false, false, [], []),
+          s,
+          p
+        );
+      else throw new expression.FormatError("format not supported");
+    }
+    data(): ReadStream {
+      this.logger.seal(0);
+      this.logger.seal(1);
+      this.logger.seal(2);
+      return createReadStream(this._str.path, {
+        autoClose: true,
+        encoding: "utf-8",
+      });
+    }
+    reverse(): this {
+      return this;
+    }
+    equals(another: expression.GFormat<Expression, ReadStream>): boolean {
+      if (another instanceof FileFormat)
+        return this._str.path === another._str.path;
+      return false;
+    }
+    modifications: number = 0;
+    readonly bpc: number = 8;
+    readonly bpn: number = 32;
+    hashCode32(): number {
+      return utility.hashCode32(
+        false,
+        utility.asHashable(this.modifications),
+        utility.asHashable(this.bpc),
+        utility.asHashable(this.bpn),
+        utility.asHashable(this._str)
+      );
+    }
+    toJSON(): string {
+      return JSON.stringify(this);
+    }
+  }
+  /**
+   * @summary The yaml port of the converter class.
+   * @description Pushes each document as a separate chunk as soon as it is complete. A document is complete when the line after it
+   * starts with a document marker (`---` or `...`) or when the stream ends, so a stream of `---` separated documents is converted
+   * one document at a time. The {@linkcode Params.document} and {@linkcode Params.directives} of the params object describe
+   * the most recently parsed document.
+   */
+  export class Converter extends parser.Converter<
+    parser.GToken<string>,
+    Expression,
+    Syntax,
+    Parser,
+    Params,
+    MutableLexer,
+    any
+  > {
+    _transform(
+      chunk: any,
+      encoding: BufferEncoding,
+      callback: TransformCallback
+    ): void {
+      if (!this.writableObjectMode) {
+        chunk = Buffer.isBuffer(chunk)
+          ? iconv.decode(chunk as Buffer, this.syntax.metadata!.encoding)
+          : String(chunk);
+      }
+      try {
+        this.lexer.process(chunk, this.syntax, this.params);
+        while (hasDocument(this.lexer)) {
+          const d = nextDocument(
+            this.parser,
+            this.lexer,
+            this.syntax,
+            this.params
+          );
+          if (!utility.isValid(d)) break;
+          this.push(d);
+        }
+      } catch (e) {
+        return callback(e as Error);
+      }
+      callback();
+    }
+    _flush(callback: TransformCallback): void {
+      try {
+        this.lexer.end(this.syntax, this.params);
+        for (
+          let d = nextDocument(this.parser, this.lexer, this.syntax, this.params);
+          utility.isValid(d);
+          d = nextDocument(this.parser, this.lexer, this.syntax, this.params)
+        )
+          this.push(d);
+        return callback();
+      } catch (e) {
+        return callback(e as Error);
+      }
+    }
+  }
+  /**
+   * @summary The yaml 1.2 core schema syntax
+   * @description A syntax that retains all the defaults of the `SyntaxBuilder` class, which includes resolving plain scalars
+   * with the core schema, retaining comments and formatting with an indentation of 2 spaces.
+   */
+  export const CORE = new SyntaxBuilder().build();
 }
-export default yaml;
\ No newline at end of file
+export default yaml;
@@ -0,0 +1,94 @@
+import { createReadStream, readFileSync } from "fs";
+import { log } from "console";
+import dotenv from "../parser/dotenv.js";
+import utility from "../utility.js";
+
+const path = `${utility.rootFolder()}/data/ini/dotenv/sample.env`;
+
+function parse(text: string, s: dotenv.Syntax) {
+  const l = new dotenv.StringLexer();
+  const pa = new dotenv.Params();
+  l.process(text, s, pa);
+  l.end(s, pa);
+  return new dotenv.Parser().parse(l, s, pa);
+}
+
+//the values as they were written, as the dotenv package reads them
+const e = parse(readFileSync(path, "utf-8"), dotenv.DOTENV);
+const js = new dotenv.JSFormat();
+const str = new dotenv.StringFormat();
+e.format(js, dotenv.DOTENV);
+e.format(str, dotenv.DOTENV);
+log(js.data());
+log(str.data() === readFileSync(path, "utf-8"));
+//the values expanded with an environment that is not process.env
+const env: { [name: string]: string } = { HOME: "/home/app" };
+const expanding = new dotenv.SyntaxBuilder()
+  .rebuild(dotenv.DOTENV_EXPAND)
+  .setEnvironment((name) => env[name])
+  .build();
+const expanded = new dotenv.JSFormat();
+e.format(expanded, expanding);
+log(expanded.data());
+try {
+  parse("KEY='not closed\n", dotenv.DOTENV);
+} catch (x) {
+  log((x as Error).message);
+}
+
+//a line that is not an assignment is skipped and kept with the comments
+const skipped = parse("A=1\nnot an assignment\n=2\nB=2\n", dotenv.DOTENV);
+const skippedJs = new dotenv.JSFormat();
+const skippedStr = new dotenv.StringFormat();
+skipped.format(skippedJs, dotenv.DOTENV);
+skipped.format(skippedStr, dotenv.DOTENV);
+log(skippedJs.data(), skippedStr.data() === "A=1\nnot an assignment\n=2\nB=2\n");
+
+//only \n and \r are unescaped and a \$ is a $ that is not expanded, quoted or not, if values are expanded
+const escapes = parse(
+  'PRICE="costs \\$5"\nSAY="say \\"hi\\""\nQUOTE=\'a\\\'b\'\nLINES="a\\nb"\nB=bee\nU=\\${B}\nQ="\\${B}"\n',
+  dotenv.DOTENV
+);
+for (const syntax of [dotenv.DOTENV, expanding]) {
+  const x = new dotenv.JSFormat();
+  escapes.format(x, syntax);
+  log(x.data());
+}
+
+//the line terminator of the data is written back
+const crlf = "A=1\r\n# a comment\r\nB=\"two\r\nlines\"\r\n";
+const crlfParams = new dotenv.Params();
+const crlfLexer = new dotenv.StringLexer();
+crlfLexer.process(crlf, dotenv.DOTENV, crlfParams);
+crlfLexer.end(dotenv.DOTENV, crlfParams);
+const crlfStr = new dotenv.StringFormat();
+new dotenv.Parser().parse(crlfLexer, dotenv.DOTENV, crlfParams).format(crlfStr, dotenv.DOTENV, crlfParams);
+log(JSON.stringify(crlfParams.eol), crlfStr.data() === crlf);
+
+//json data written as a .env document, which reads back the same without being expanded
+const jl = new dotenv.JSONLexer();
+const pa = new dotenv.Params();
+jl.process({ NAME: "app", MOTD: "Hello,\n\"World\"", PRICE: "$5", PORT: 8080, DEBUG: false }, dotenv.DOTENV, pa);
+jl.end(dotenv.DOTENV, pa);
+const written = new dotenv.StringFormat();
+new dotenv.Parser().parse(jl, dotenv.DOTENV, pa).format(written, dotenv.DOTENV);
+log(written.data());
+const back = new dotenv.JSFormat();
+parse(written.data(), dotenv.DOTENV_EXPAND).format(back, dotenv.DOTENV_EXPAND);
+log(back.data());
+
+//a stream
+const c = new dotenv.Converter(
+  { readableObjectMode: true },
+  new dotenv.StringLexer(),
+  new dotenv.Parser(),
+  expanding,
+  new dotenv.Params()
+);
+const streamed = new dotenv.JSFormat();
+createReadStream(path)
+  .pipe(c)
+  .on("data", (e: dotenv.Expression) => {
+    e.format(streamed, expanding);
+    log(streamed.data());
+  });
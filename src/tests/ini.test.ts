@@ -1,6 +1,6 @@
 import utility from "../utility.js";
 import ini from "../parser/ini.js";
-import { createReadStream } from "node:fs";
+import { createReadStream, readFileSync } from "node:fs";
 import csv from "../parser/csv.js";
 import json from "../parser/json.js";
 
@@ -54,3 +54,183 @@ const log = () => console.log(csvJsFormat.data());
 
 rs.pipe(iniToMemory).pipe(toMemoryJson).pipe(memoryJsonToCsv).on("data", memorizeCsv).on("end", log).on("error", e => console.log(e));
 
+
+//a setup.cfg with continuation lines, a DEFAULT section and interpolation
+const cfg = readFileSync(`${utility.rootFolder()}/data/ini/configparser/setup.cfg`, "utf-8");
+const cfgLexer = new ini.StringLexer();
+const cfgParams = new ini.Params();
+cfgLexer.process(cfg, ini.CONFIGPARSER, cfgParams);
+cfgLexer.end(ini.CONFIGPARSER, cfgParams);
+const setup = new ini.Parser().parse(cfgLexer, ini.CONFIGPARSER, cfgParams);
+const interpolated = new ini.JSFormat();
+const raw = new ini.JSFormat(true);
+const written = new ini.StringFormat();
+setup.format(interpolated, ini.CONFIGPARSER, cfgParams);
+setup.format(raw, ini.CONFIGPARSER, cfgParams);
+setup.format(written, ini.CONFIGPARSER, cfgParams);
+console.log(interpolated.data());
+console.log(raw.data());
+console.log(written.data());
+//keys are read in lower case, so a key that is declared again in another case is a duplicate, a property before the first
+//section header is an error and an indented comment is a comment
+for (const text of ["[s]\nKey = 1\nb = %(KEY)s\n", "[s]\nA = 1\na = 2\n", "k = 1\n[s]\n", "  # c\n[s]\nk = 1\n"]) {
+  try {
+    const l = new ini.StringLexer();
+    const pa = new ini.Params();
+    l.process(text, ini.CONFIGPARSER, pa);
+    l.end(ini.CONFIGPARSER, pa);
+    const js = new ini.JSFormat();
+    new ini.Parser().parse(l, ini.CONFIGPARSER, pa).format(js, ini.CONFIGPARSER, pa);
+    console.log(js.data());
+  } catch (e) {
+    console.log((e as Error).message.split("\r\n")[1].split("\n")[0]);
+  }
+}
+
+//the same setup.cfg with windows line endings, written back with them and then with '\n'
+const crlf = cfg.replace(/\n/g, "\r\n");
+const crlfLexer = new ini.StringLexer();
+const crlfParams = new ini.Params();
+for (let i = 0; i < crlf.length; i += 64) crlfLexer.process(crlf.substring(i, i + 64), ini.CONFIGPARSER, crlfParams);
+crlfLexer.end(ini.CONFIGPARSER, crlfParams);
+const crlfSetup = new ini.Parser().parse(crlfLexer, ini.CONFIGPARSER, crlfParams);
+const crlfWritten = new ini.StringFormat();
+const lfWritten = new ini.StringFormat();
+crlfSetup.format(crlfWritten, ini.CONFIGPARSER, crlfParams);
+crlfSetup.format(lfWritten, new ini.SyntaxBuilder().rebuild(ini.CONFIGPARSER).setEol("\n").build(), crlfParams);
+console.log(JSON.stringify(crlfParams.eol), crlfWritten.data() === written.data().replace(/\n/g, "\r\n"), lfWritten.data() === written.data());
+
+//app.conf with the file it includes and its drop-in files in app.conf.d, where later values of a property replace earlier ones
+const overwrite = new ini.SyntaxBuilder().rebuild(ini.UNIX).setDuplicateDirective(ini.DuplicateDirective.OVERWRITE, true).build();
+new ini.Loader(overwrite, undefined, ".d").load(`${utility.rootFolder()}/data/ini/include/app.conf`).then((e) => {
+  const loaded = new ini.JSFormat();
+  e.format(loaded, overwrite);
+  console.log(loaded.data(), ini.Loader.origins(e, ["server"], "port"), ini.Loader.origins(e, ["log"], "level"));
+});
+
+//a git config with subsections, case-insensitive names and a multivar, written back as git config
+const gitConfig = new ini.StringLexer();
+const gitParams = new ini.Params();
+gitConfig.process(readFileSync(`${utility.rootFolder()}/data/ini/git/config`, "utf-8"), ini.GIT_CONFIG, gitParams);
+gitConfig.end(ini.GIT_CONFIG, gitParams);
+const git = new ini.Parser().parse(gitConfig, ini.GIT_CONFIG, gitParams);
+const gitJs = new ini.JSFormat();
+const gitStr = new ini.StringFormat();
+git.format(gitJs, ini.GIT_CONFIG, gitParams);
+git.format(gitStr, ini.GIT_CONFIG, gitParams);
+console.log(JSON.stringify(gitJs.data(), null, 2));
+console.log(gitStr.data());
+//the same git config read by a loader, which skips the include of a file that does not exist as git does
+new ini.Loader(ini.GIT_CONFIG, undefined, undefined, undefined, true)
+  .load(`${utility.rootFolder()}/data/ini/git/config`)
+  .then((e) => {
+    const loaded = new ini.JSFormat();
+    e.format(loaded, ini.GIT_CONFIG);
+    console.log(Object.keys(loaded.data() as object));
+  });
+new ini.Loader(ini.GIT_CONFIG).load(`${utility.rootFolder()}/data/ini/git/config`).catch((e) => console.log(e.code));
+//the properties of a section that come after its subsection are written under the header of the section again, and an escape
+//that git does not have is a syntax error
+for (const text of ['[a "s"]\n\tk = 2\n[a]\n\tk = 1\n', "[a]\n\tk = a\\qb\n"]) {
+  try {
+    const l = new ini.StringLexer();
+    const pa = new ini.Params();
+    l.process(text, ini.GIT_CONFIG, pa);
+    l.end(ini.GIT_CONFIG, pa);
+    const written = new ini.StringFormat();
+    new ini.Parser().parse(l, ini.GIT_CONFIG, pa).format(written, ini.GIT_CONFIG, pa);
+    console.log(JSON.stringify(written.data()));
+  } catch (e) {
+    console.log((e as Error).message.split("\r\n").find((x) => x.includes("escape")));
+  }
+}
+
+//a systemd unit with its drop-in, which resets ExecStart, and with the specifiers expanded
+const systemd = new ini.SyntaxBuilder()
+  .rebuild(ini.SYSTEMD)
+  .setSpecifiers((c) => ({ n: "app.service", N: "app", h: "/var/lib/app", t: "/run" } as { [c: string]: string })[c])
+  .build();
+new ini.Loader(ini.SYSTEMD, () => false, ".d").load(`${utility.rootFolder()}/data/ini/systemd/app.service`).then((e) => {
+  const unit = new ini.JSFormat();
+  const expanded = new ini.JSFormat();
+  const unitStr = new ini.StringFormat();
+  e.format(unit, ini.SYSTEMD);
+  e.format(expanded, systemd);
+  e.format(unitStr, ini.SYSTEMD);
+  console.log(unit.data(), expanded.data());
+  console.log(unitStr.data());
+});
+try {
+  //a key without '=' is not read as the reset 'Key=' of a list
+  const l = new ini.StringLexer();
+  const pa = new ini.Params();
+  l.process("[Service]\nExecStart\n", ini.SYSTEMD, pa);
+  l.end(ini.SYSTEMD, pa);
+  new ini.Parser().parse(l, ini.SYSTEMD, pa);
+} catch (e) {
+  console.log((e as Error).message.split("\r\n")[1]);
+}
+
+//app.conf edited in place, where the lines that were not edited are written back as they were
+const doc = new ini.Document(readFileSync(`${utility.rootFolder()}/data/ini/include/app.conf`, "utf-8"), ini.UNIX)
+  .set(["server"], "port", "9090")
+  .comment(["server"], "port", "changed from 8080")
+  .rename(["server"], "host", "hostname")
+  .set(["cache"], "size", "64")
+  .move(["server"], "hostname", ["cache"])
+  .delete(["include"]);
+const edited = new ini.StringFormat();
+const editedJs = new ini.JSFormat();
+doc.format(edited);
+doc.format(editedJs);
+console.log(edited.data());
+console.log(editedJs.data(), doc.get(["server"], "port"));
+for (const edit of [() => doc.rename(["cache"], "hostname", "size"), () => doc.renameSection(["server"], ["cache"]), () => doc.delete([])]) {
+  try {
+    edit();
+  } catch (e) {
+    //the key or the section already exists, and the whole document cannot be deleted
+    console.log((e as Error).message);
+  }
+}
+
+//app.ini with values typed by rules, a value that fails its rule and the typed data written back as text
+const typed = new ini.SyntaxBuilder()
+  .rebuild(ini.UNIX)
+  .addRule("server.port", "integer")
+  .addRule("*.enabled", "boolean")
+  .addRule("server.timeout", "duration")
+  .addRule("server.retry", "duration")
+  .addRule("cache.size", "integer")
+  .addRule("paths.*", 'list(sep=":")')
+  .build();
+const typedText = readFileSync(`${utility.rootFolder()}/data/ini/typed/app.ini`, "utf-8");
+function typedParse(text: string) {
+  const l = new ini.StringLexer();
+  const pa = new ini.Params();
+  l.process(text, typed, pa);
+  l.end(typed, pa);
+  const js = new ini.JSFormat();
+  new ini.Parser().parse(l, typed, pa).format(js, typed, pa);
+  return js.data();
+}
+const typedData = typedParse(typedText);
+console.log(typedData);
+try {
+  typedParse(typedText.replace("port = 8080", "port = 80a"));
+} catch (e) {
+  //ends with the line and position of '80a'
+  console.log(e instanceof ini.RuleError, (e as Error).message);
+}
+const typedLexer = new ini.JSONLexer();
+const typedParams = new ini.Params();
+typedLexer.process(typedData, typed, typedParams);
+const typedStr = new ini.StringFormat();
+new ini.Parser().parse(typedLexer, typed, typedParams).format(typedStr, typed, typedParams);
+console.log(typedStr.data());
+
+//the indent and eol of files in a monorepo, which do not have to exist
+const editorConfig = new ini.EditorConfig();
+const monorepo = `${utility.rootFolder()}/data/ini/editorconfig`;
+for (const file of ["src/index.ts", "Makefile", "src/vendor/lib/a.js", "packages/legacy/index.js", "packages/legacy/lib/util/a.js"])
+  editorConfig.resolve(`${monorepo}/${file}`).then((props) => console.log(file, props));
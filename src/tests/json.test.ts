@@ -30,3 +30,47 @@
 // .on("end", () => {lexer.end(null as any, null as any); lexer.processed().forEach(x => console.log(x));});
 // console.log(sample);
 // rs.pipe(process.stdout);
+
+import utility from "../utility.js";
+import json from "../parser/json.js";
+import { createReadStream } from "node:fs";
+
+const path = `${utility.rootFolder()}/data/json/sample3.json`;
+
+const lexer = new json.StringLexer();
+const syntax = json.RFC_8259;
+const params = new json.Params();
+const parser = new json.Parser();
+const format = new json.JSFormat();
+const format2 = new json.StringFormat();
+
+createReadStream(path, { encoding: "utf-8", highWaterMark: 64 }).on("data", chunk => {
+  lexer.process(String(chunk), syntax, params);
+}).on("end", () => {
+  lexer.end(syntax, params);
+  const e = parser.parse(lexer, syntax, params);
+  e.format(format, syntax, params);
+  e.format(format2, syntax, params);
+  console.log(format.data());
+  console.log(format2.data());
+});
+
+const jsonc = `{
+  // comments and trailing commas as in tsconfig.json
+  "compilerOptions": { "strict": true, /* inline */ "target": "es2022", },
+}`;
+const jsoncLexer = new json.StringLexer();
+jsoncLexer.process(jsonc, json.JSONC, params);
+jsoncLexer.end(json.JSONC, params);
+const jsoncFormat = new json.StringFormat();
+new json.Parser().parse(jsoncLexer, json.JSONC, params).format(jsoncFormat, json.RFC_8259, params);
+console.log(jsoncFormat.data());
+
+const lossless = new json.SyntaxBuilder().supportLosslessNumbers(true).build();
+const losslessLexer = new json.StringLexer();
+const losslessFormat = new json.JSFormat();
+losslessLexer.process(`{"id": 18446744073709551615, "amount": 1234567890.123456789, "count": 3}`, lossless, params);
+losslessLexer.end(lossless, params);
+new json.Parser().parse(losslessLexer, lossless, params).format(losslessFormat, lossless, params);
+console.log(losslessFormat.data());
+console.log(json.stringify(losslessFormat.data(), 2));
@@ -0,0 +1,59 @@
+import { createReadStream, readFileSync } from "fs";
+import { log } from "console";
+import properties from "../parser/properties.js";
+import utility from "../utility.js";
+
+const path = `${utility.rootFolder()}/data/ini/properties/sample.properties`;
+
+function parse(text: string, s: properties.Syntax) {
+  const l = new properties.StringLexer();
+  const pa = new properties.Params();
+  l.process(text, s, pa);
+  l.end(s, pa);
+  return new properties.Parser().parse(l, s, pa);
+}
+
+//parsed as java.util.Properties.load(InputStream) would
+const e = parse(readFileSync(path, "latin1"), properties.ISO_8859_1);
+const js = new properties.JSFormat();
+const str = new properties.StringFormat();
+e.format(js, properties.ISO_8859_1);
+e.format(str, properties.ISO_8859_1);
+log(js.data());
+log(str.data());
+//the same file read as java.util.PropertyResourceBundle would, which has the japanese text of the last key
+const utf8 = new properties.JSFormat();
+parse(readFileSync(path, "utf-8"), properties.UTF_8).format(utf8, properties.UTF_8);
+log(utf8.data());
+
+//json data written as java.util.Properties.store(OutputStream, String) would, with the characters that are not in ISO-8859-1 escaped
+const jl = new properties.JSONLexer();
+const pa = new properties.Params();
+jl.process(
+  { greeting: "Grüß Gott", "key with spaces": " leading space", path: "C:\\temp", currency: "€", clef: "𝄞", port: 8080 },
+  properties.ISO_8859_1,
+  pa
+);
+jl.end(properties.ISO_8859_1, pa);
+const written = new properties.StringFormat();
+new properties.Parser().parse(jl, properties.ISO_8859_1, pa).format(written, properties.ISO_8859_1);
+log(written.data());
+const back = new properties.JSFormat();
+parse(written.data(), properties.ISO_8859_1).format(back, properties.ISO_8859_1);
+log(back.data());
+
+//a stream of ISO-8859-1 bytes
+const c = new properties.Converter(
+  { readableObjectMode: true },
+  new properties.StringLexer(),
+  new properties.Parser(),
+  properties.ISO_8859_1,
+  new properties.Params()
+);
+const streamed = new properties.JSFormat();
+createReadStream(path)
+  .pipe(c)
+  .on("data", (e: properties.Expression) => {
+    e.format(streamed, properties.ISO_8859_1);
+    log(streamed.data());
+  });
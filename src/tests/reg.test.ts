@@ -0,0 +1,46 @@
+import { readFileSync } from "fs";
+import { log } from "console";
+import { tmpdir } from "os";
+import ini from "../parser/ini.js";
+import reg from "../parser/reg.js";
+import utility from "../utility.js";
+
+const path = `${utility.rootFolder()}/data/ini/registry/app.reg`;
+const copy = `${tmpdir()}/copy.reg`;
+
+//the typed values of a UTF-16LE export
+const doc = new ini.Document(readFileSync(path, "utf16le"), reg.REGEDIT);
+const js = new reg.JSFormat();
+doc.format(js);
+log(js.data());
+
+//written back byte for byte, with the byte order mark, the comment and the line breaks of the hex values
+const file = new ini.FileFormat(copy, "utf16le");
+doc.format(file);
+file.endWrite();
+process.once("beforeExit", () => log(Buffer.compare(readFileSync(path), readFileSync(copy)) === 0));
+
+//an edit of one value, which leaves the other lines as they were
+doc.set(["HKEY_CURRENT_USER\\Software\\Example\\App"], '"Version"', reg.text(43));
+const edited = new ini.StringFormat();
+doc.format(edited);
+log(edited.data());
+
+//json data written as a .reg file, as regedit exports it
+const data = {
+  "HKEY_LOCAL_MACHINE\\SOFTWARE\\Example": {
+    "": "default",
+    Threads: 8,
+    Quota: 5_000_000_000n,
+    Hosts: ["alpha", "beta"],
+    Key: Array.from({ length: 40 }, (_, i) => i),
+    Legacy: null,
+    Home: { type: 2, value: "%USERPROFILE%\\Example" },
+    Aliases: { type: 7, value: [] },
+  },
+  "HKEY_LOCAL_MACHINE\\SOFTWARE\\Example\\Old": null,
+};
+const fromJson = new ini.FileFormat(`${tmpdir()}/data.reg`, "utf16le");
+new ini.Document(reg.stringify(data), reg.REGEDIT).format(fromJson);
+fromJson.endWrite();
+log(reg.stringify(data));
@@ -2,6 +2,9 @@ import { EOL } from "os";
 import toml from "../parser/toml.js";
 import { log, table } from "console";
 import parser from "../parser/parser.js";
+import json from "../parser/json.js";
+import utility from "../utility.js";
+import { readFileSync } from "fs";
 
 // const data = `"127.0.0.1" = "value"${EOL}"character encoding" = "value"${EOL}"ʎǝʞ" = "value"${EOL}'key2' = "value"${EOL}'quoted "value"' = "value"`;
 // const data = `"" = "blank"     # VALID but discouraged${EOL}'' = 'blank'     # VALID but discouraged`;
@@ -27,12 +30,7 @@ const data = `ld1 = 1979-05-27`;
 // const data = `lt1 = 07:32:00${EOL}lt2 = 00:32:00.999999`;
 // const data = `integers = [ 1, 2, 3 ]${EOL}colors = [ "red", "yellow", "green" ]${EOL}nested_arrays_of_ints = [ [ 1, 2 ], [3, 4, 5] ]${EOL}nested_mixed_array = [ [ 1, 2 ], ["a", "b", "c"] ]${EOL}string_array = [ "all", 'strings', """are the same""", '''type''' ]${EOL}${EOL}# Mixed-type arrays are allowed${EOL}numbers = [ 0.1, 0.2, 0.5, 1, 2, 5 ]${EOL}contributors = [${EOL}"Foo Bar <foo@example.com>",${EOL}{ name = "Baz Qux", email = "bazqux@example.com", url = "https://example.com/bazqux" }${EOL}]`;
 
-const s = {
-    eol: EOL,
-    global: false,
-    qnan: false,
-    snan: false
-} as toml.Syntax;
+const s = new toml.SyntaxBuilder().setEol(EOL).build();
 
 const l = new toml.StringLexer(s.eol);
 // log(l.mill);
@@ -49,6 +47,100 @@ table(l.processed().map(x => ({
         l: x.length
 })));
 
+for (const name of ["Cargo.toml", "pyproject.toml"]) {
+    const text = readFileSync(`${utility.rootFolder()}/data/toml/${name}`, "utf-8");
+    const e = parse(text);
+    const js = new toml.JSFormat();
+    const str = new toml.StringFormat();
+    e.format(js, toml.V1_0);
+    e.format(str, toml.V1_0);
+    log(json.stringify(js.data(), 2));
+    log(str.data());
+    //the written document must be parsed into the same data
+    const again = new toml.JSFormat();
+    parse(str.data()).format(again, toml.V1_0);
+    log(`${name} round-trips: ${json.stringify(js.data()) === json.stringify(again.data())}`);
+    //the json data written as toml by the JSONLexer
+    const lexer = new toml.JSONLexer();
+    const params = new toml.Params();
+    const written = new toml.StringFormat();
+    lexer.process(js.data(), toml.V1_0, params);
+    lexer.end(toml.V1_0, params);
+    new toml.Parser().parse(lexer, toml.V1_0, params).format(written, toml.V1_0, params);
+    log(written.data());
+}
+
+//edits a document without changing its other lines
+const cargo = readFileSync(`${utility.rootFolder()}/data/toml/Cargo.toml`, "utf-8");
+const doc = parse(cargo);
+const editor = new toml.Editor(doc);
+log(`swc_core version: ${editor.get(["workspace", "dependencies", "swc_core", "version"])}`);
+editor
+    .set(["workspace", "dependencies", "swc_core", "version"], "0.84.0")
+    .append(["workspace", "members"], "packages/next-swc/crates/next-lint")
+    .rename(["profile", "dev", "build-override"], "release")
+    .delete(["workspace", "resolver"])
+    .insertTable(["profile", "release", "package", "*"], { "opt-level": 3 });
+const edited = new toml.StringFormat();
+doc.format(edited, toml.V1_0);
+const before = cargo.split("\n");
+log("changed lines:");
+log(edited.data().split("\n").filter((x) => before.indexOf(x) < 0).join(EOL));
+
+//a key that is defined twice is reported with both definitions
+try {
+    parse(`[tool.poetry]${EOL}name = "a"${EOL}version = "0.1.0"${EOL}name = "b"${EOL}`);
+} catch (e) {
+    const x = e as parser.SyntaxError;
+    log(`defined at ${x.origin!.lineStart}:${x.origin!.startPos} and again at ${x.token.lineStart}:${x.token.startPos}`);
+}
+
+//date-times keep their toml type when they are tagged and are written back as the same literals
+const dates = parse(`odt = 1979-05-27T00:32:00.999999-07:00${EOL}ldt = 1979-05-27T07:32:00${EOL}ld = 1979-05-27${EOL}lt = 07:32:00${EOL}`);
+for (const mapping of ["string", "tagged", "date"] as const) {
+    const js = new toml.JSFormat(mapping);
+    dates.format(js, toml.V1_0);
+    log(mapping, js.data());
+    const lexer = new toml.JSONLexer();
+    const params = new toml.Params();
+    const written = new toml.StringFormat();
+    lexer.process(js.data(), toml.V1_0, params);
+    lexer.end(toml.V1_0, params);
+    new toml.Parser().parse(lexer, toml.V1_0, params).format(written, toml.V1_0, params);
+    log(written.data());
+}
+
+//a null cannot be written as toml and a negative zero keeps its sign
+try {
+    write({ n: null, a: 1 });
+} catch (e) {
+    log((e as Error).message.split("\r\n")[0]);
+}
+log(write({ z: -0 }));
+
+//an integer that is not safe as a number is a bigint and a byte order mark at the start is skipped
+const big = new toml.JSFormat();
+parse(`\uFEFFmax = 9223372036854775807${EOL}hex = 0x7FFF_FFFF_FFFF_FFFF${EOL}small = [1, 9007199254740993]${EOL}`).format(big, toml.V1_0);
+log(big.data());
+
+function parse(text: string) {
+    const lexer = new toml.StringLexer(toml.V1_0.eol);
+    const params = new toml.Params();
+    lexer.process(text, toml.V1_0, params);
+    lexer.end(toml.V1_0, params);
+    return new toml.Parser().parse(lexer, toml.V1_0, params);
+}
+
+function write(data: json.Value) {
+    const lexer = new toml.JSONLexer();
+    const params = new toml.Params();
+    const written = new toml.StringFormat();
+    lexer.process(data, toml.V1_0, params);
+    lexer.end(toml.V1_0, params);
+    new toml.Parser().parse(lexer, toml.V1_0, params).format(written, toml.V1_0, params);
+    return written.data();
+}
+
 function getType(t: parser.GType<string>){
     switch (t.id) {
         case '0':
@@ -0,0 +1,42 @@
+import utility from "../utility.js";
+import xml from "../mem/xml.js";
+import { createReadStream } from "node:fs";
+
+const path = `${utility.rootFolder()}/data/xml/sample.xml`;
+
+const lexer = xml.Lexer();
+const syntax = xml.STANDARD;
+const parser = xml.Parser();
+const serializer = xml.Serializer();
+
+const rs = createReadStream(path);
+rs.on("data", (chunk) => {
+    lexer.process(String(chunk), syntax);
+}).on("end", () => {
+    lexer.end(syntax);
+    const document = parser(lexer, syntax) as xml.Document;
+    serializer(document);
+    console.log(serializer.data(""));
+    const root = document.root!;
+    console.log(root.localName, root.namespaceURI, root.attribute("version", "urn:example:extra")!(syntax));
+    console.log(document(syntax));
+
+    const parker = xml.Syntax({}, true, xml.Convention.PARKER);
+    const format = xml.JSFormat();
+    document(format, parker);
+    console.log(format.data());
+
+    const jsonLexer = xml.JSONLexer("catalog");
+    jsonLexer.process(format.data(), parker);
+    const fromJson = xml.Serializer();
+    fromJson(xml.Parser()(jsonLexer, parker));
+    console.log(fromJson.data(""));
+});
+
+createReadStream(path, { highWaterMark: 64 })
+    .pipe(xml.Converter(syntax, { path: "/catalog/item" }))
+    .on("data", (item: xml.Element) => console.log(item(""), item(syntax)));
+
+createReadStream(path, { highWaterMark: 64 })
+    .pipe(xml.Converter(syntax, { events: true }))
+    .on("data", (event: xml.Event) => console.log(event));
@@ -0,0 +1,37 @@
+import utility from "../utility.js";
+import yaml from "../parser/yaml.js";
+import json from "../parser/json.js";
+import { createReadStream } from "node:fs";
+
+const path = `${utility.rootFolder()}/data/yaml/sample.yaml`;
+
+const lexer = new yaml.StringLexer();
+const syntax = yaml.CORE;
+const params = new yaml.Params();
+const parser = new yaml.Parser();
+const format = new yaml.JSFormat();
+const format2 = new yaml.StringFormat();
+
+const rs = createReadStream(path);
+rs.on("data", (chunk) => {
+  lexer.process(String(chunk), syntax, params);
+}).on("end", () => {
+  lexer.end(syntax, params);
+  const e = parser.parse(lexer, syntax, params);
+  e.format(format, syntax, params);
+  e.format(format2, syntax, params);
+  console.log(format.data());
+  console.log(format2.data());
+});
+
+const multiPath = `${utility.rootFolder()}/data/yaml/multi.yaml`;
+const multiParams = new yaml.Params();
+const yamlConvOptions = { writableObjectMode: false, readableObjectMode: true };
+const yamlToDocuments = new yaml.Converter(yamlConvOptions, new yaml.StringLexer(), new yaml.Parser(), syntax, multiParams);
+const documentsToMemory = new json.Converter(syntax, multiParams, new yaml.JSFormat(), undefined, () => new yaml.JSFormat());
+
+createReadStream(multiPath)
+  .pipe(yamlToDocuments)
+  .pipe(documentsToMemory)
+  .on("data", (d) => console.log(d))
+  .on("error", (e) => console.log(e));